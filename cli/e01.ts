@@ -0,0 +1,570 @@
+/**
+ * Headless triage CLI
+ *
+ * Runs the same parsers as the viewer from Node, so images can be triaged
+ * in batch from scripts:
+ *
+ *   npm run cli -- info <image>             metadata, volume and stored hashes
+ *   npm run cli -- verify <image>           recompute and compare the media hashes
+ *   npm run cli -- mmls <image> [--scan]    list the partition table and disk layout
+ *   npm run cli -- fsstat <image> [-p N]    identify a volume and describe its encryption
+ *   npm run cli -- ls <image> [-r]          list a FAT volume
+ *   npm run cli -- cat <image> --path P     write one file to stdout
+ *   npm run cli -- extract <image> --path P --out DIR
+ *
+ * <image> is every file of the image: the segments of a split E01 or raw
+ * set (given only the first, its siblings are found automatically), any
+ * hash sidecar, and the parents or extents of a virtual disk. Files are
+ * opened as Blobs backed by the file on disk, so every read fetches just
+ * the bytes it needs. --json prints one JSON document for pipelines.
+ * Encrypted volumes (BitLocker, LUKS) are opened with --password,
+ * --recovery-password or --key-file and decrypted as they are read.
+ */
+
+import { openAsBlob } from 'node:fs';
+import { FileHandle, mkdir, open, readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import type { ByteReader } from '../lib/byte-reader';
+import { DiskImageFormat, DiskImageSource, E01ImageSource, isRawImage, openRawImage } from '../lib/disk-image';
+import { Diagnostic, diagnostic, formatDiagnostic } from '../lib/diagnostics';
+import { DiskRegion, diskLayout, scanForPartitions } from '../lib/disk-layout';
+import { compressionLevelName, E01ParseResult, formatBytes, isLogicalFormat, mediaTypeName, parseE01 } from '../lib/e01-parser';
+import { verifyMediaHashes } from '../lib/e01-verify';
+import { describeEncryption, unlockVolume, VolumeKey } from '../lib/encrypted-volume';
+import { FATFileEntry, fatFileReader, FATParseResult } from '../lib/fat32-parser';
+import { readVolume } from '../lib/filesystem-probe';
+import { createHasher, HashAlgorithm } from '../lib/hashes';
+import { getPartitionReader, listPartitions, parsePartitionTable, Partition, PartitionTable } from '../lib/partition-parser';
+import { isVirtualDisk, openVirtualDisk } from '../lib/virtual-disk';
+
+const USAGE = `Usage: e01 <command> <image files...> [options]
+
+Commands:
+  info      Image format, metadata, volume information and stored hashes
+  verify    Hash the media and compare with the stored hashes (exit 1 unless verified)
+  mmls      List the partition table, table structures and unallocated gaps
+  fsstat    Identify a volume's filesystem and describe its encryption
+  ls        List the files of a FAT volume
+  cat       Write a file from a FAT volume to stdout
+  extract   Copy a file or directory from a FAT volume into --out
+
+Options:
+  --json             Print JSON instead of text
+  --hash LIST        Algorithms for verify (default md5,sha1)
+  -p, --partition N  Partition index for fsstat/ls/cat/extract (default: the only partition)
+  --scan             Also search unallocated space for lost partitions
+  --path PATH        File or directory inside the volume (default: the root)
+  -r, --recursive    List subdirectories too
+  -o, --out DIR      Destination directory for extract
+  --password TEXT    BitLocker password or LUKS passphrase of an encrypted volume
+  --recovery-password DIGITS
+                     BitLocker recovery password (48 digits)
+  --key-file FILE    BitLocker startup key (.BEK) or LUKS key file
+  -v, --verbose      Show parser logging on stderr`;
+
+// Segments of split images: EWF (.E01 … .EZZ, .Ex01 …) and numbered raw parts
+const EWF_SEGMENT = /^\.([e-z]|[e-z]x)[0-9a-z]{2}$/i;
+const SPLIT_SEGMENT = /^\.\d{3}$/;
+
+const COMMANDS = ['info', 'verify', 'mmls', 'fsstat', 'ls', 'cat', 'extract'];
+const HASH_ALGORITHMS: HashAlgorithm[] = ['md5', 'sha1', 'sha256'];
+
+class UsageError extends Error {}
+
+/** Which volume fsstat, ls, cat and extract work in */
+interface VolumeChoice {
+  partition: number | undefined;
+  /** Include lost partitions found by scanning */
+  scan: boolean;
+  /** Unlocks the volume when it is encrypted */
+  key: VolumeKey | undefined;
+}
+
+interface OpenedImage {
+  name: string;
+  format: DiskImageFormat;
+  source: DiskImageSource | null;
+  /** The decoded EWF container; null for raw images and virtual disks */
+  e01: E01ParseResult | null;
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * The files named on the command line, plus the other segments of a split
+ * image (and a raw export's hash sidecar) when only the first was given
+ */
+async function imagePaths(paths: string[]): Promise<string[]> {
+  if (paths.length !== 1) return paths;
+  const [first] = paths;
+  const extension = path.extname(first);
+  const pattern = /^\.(e|l)(x?)01$/i.test(extension) ? EWF_SEGMENT : extension === '.001' ? SPLIT_SEGMENT : null;
+  if (!pattern) return paths;
+
+  const directory = path.dirname(first);
+  const stem = path.basename(first, extension);
+  const names = await readdir(directory).catch(() => [] as string[]);
+  // Let opening the file report it missing
+  if (!names.includes(path.basename(first))) return paths;
+
+  const siblings = names.filter(name => {
+    const ext = path.extname(name);
+    return path.basename(name, ext) === stem && pattern.test(ext) && ext.length === extension.length;
+  });
+  const sidecar = `${path.basename(first)}.txt`;
+  if (pattern === SPLIT_SEGMENT && names.includes(sidecar)) siblings.push(sidecar);
+  return siblings.sort().map(name => path.join(directory, name));
+}
+
+/**
+ * Raw and virtual disk layers report their problems as text
+ */
+function openProblems(errors: string[]): Diagnostic[] {
+  return errors.map(error => diagnostic('IMAGE_OPEN_PROBLEM', error));
+}
+
+async function openImage(paths: string[], verbose: boolean): Promise<OpenedImage> {
+  const files = await Promise.all(paths.map(async p => {
+    try {
+      return new File([await openAsBlob(p)], path.basename(p));
+    } catch {
+      throw new Error(`${p}: cannot open file`);
+    }
+  }));
+  const name = files[0].name;
+
+  if (await isVirtualDisk(files)) {
+    const { source, format, errors } = await openVirtualDisk(files);
+    return { name, format, source, e01: null, diagnostics: openProblems(errors) };
+  }
+  if (await isRawImage(files)) {
+    const { source, set } = await openRawImage(files);
+    return { name, format: set.parts.length > 1 ? 'split-raw' : 'raw', source, e01: null, diagnostics: openProblems(set.errors) };
+  }
+
+  // Parser logging goes to stderr, keeping stdout for results
+  const e01 = await parseE01(files, { log: verbose ? message => process.stderr.write(`[E01 Parser] ${message}\n`) : () => {} });
+  const source = e01.reader ? new E01ImageSource({ ...e01, reader: e01.reader }) : null;
+  return { name, format: e01.format, source, e01, diagnostics: e01.diagnostics };
+}
+
+function requireSource(image: OpenedImage): DiskImageSource {
+  if (!image.source) {
+    const problems = image.diagnostics.filter(d => d.severity !== 'info').map(d => d.message);
+    throw new Error(`${image.name}: no readable media${problems.length ? ` (${problems.join('; ')})` : ''}`);
+  }
+  return image.source;
+}
+
+/**
+ * BigInts (sector counts, partition sizes) become numbers when exact, strings otherwise
+ */
+function printJson(value: unknown): void {
+  const json = JSON.stringify(value, (_key, v) => {
+    if (typeof v === 'bigint') return v <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(v) : v.toString();
+    if (v instanceof Uint8Array) return undefined;
+    return v;
+  }, 2);
+  process.stdout.write(json + '\n');
+}
+
+function printFields(fields: [string, unknown][], indent = ''): void {
+  const width = Math.max(0, ...fields.map(([label]) => label.length)) + 2;
+  for (const [label, value] of fields) {
+    if (value === undefined || value === '') continue;
+    process.stdout.write(`${indent}${`${label}:`.padEnd(width)}${String(value)}\n`);
+  }
+}
+
+function printDiagnostics(diagnostics: Diagnostic[]): void {
+  if (diagnostics.length === 0) return;
+  process.stdout.write('Diagnostics:\n');
+  for (const item of diagnostics) process.stdout.write(`  ${formatDiagnostic(item)}\n`);
+}
+
+async function info(image: OpenedImage, json: boolean): Promise<number> {
+  const { source, e01 } = image;
+  const volume = e01?.volumeInfo;
+  const summary = {
+    image: image.name,
+    format: image.format,
+    valid: source !== null,
+    segments: e01?.segments.map(s => s.fileName),
+    mediaSize: source?.size ?? 0,
+    sectorSize: source?.sectorSize,
+    sectorCount: source ? Math.ceil(source.size / source.sectorSize) : 0,
+    metadata: source?.metadata ?? e01?.metadata ?? {},
+    volume: volume ?? undefined,
+    storedHashes: source?.storedHashes ?? e01?.hash ?? {},
+    acquisitionErrors: e01?.acquisitionErrors,
+    diagnostics: image.diagnostics,
+  };
+  if (json) {
+    printJson(summary);
+    return source ? 0 : 1;
+  }
+
+  printFields([
+    ['Image', image.name],
+    ['Format', image.format],
+    ['Segments', summary.segments && summary.segments.length > 1 ? summary.segments.join(', ') : undefined],
+    ['Media size', `${summary.mediaSize} bytes (${formatBytes(summary.mediaSize)})`],
+    ['Sector size', summary.sectorSize],
+    ['Sectors', summary.sectorCount],
+    ['Media type', volume?.mediaType !== undefined ? mediaTypeName(volume.mediaType) : undefined],
+    ['Chunk size', volume?.sectorsPerChunk !== undefined ? `${volume.sectorsPerChunk} sectors` : undefined],
+    ['Compression', volume?.compressionLevel !== undefined ? compressionLevelName(volume.compressionLevel) : undefined],
+    ['Set identifier', volume?.setIdentifier],
+  ]);
+  const metadata = Object.entries(summary.metadata).filter(([, value]) => value);
+  if (metadata.length > 0) {
+    process.stdout.write('Metadata:\n');
+    printFields(metadata, '  ');
+  }
+  const hashes = Object.entries(summary.storedHashes).filter(([, value]) => value);
+  if (hashes.length > 0) {
+    process.stdout.write('Stored hashes:\n');
+    printFields(hashes.map(([algorithm, digest]) => [algorithm.toUpperCase(), digest]), '  ');
+  }
+  if (e01 && e01.acquisitionErrors.length > 0) {
+    process.stdout.write(`Acquisition errors: ${e01.acquisitionErrors.length} ranges, ${e01.acquisitionErrors.reduce((sum, r) => sum + r.sectorCount, 0)} sectors\n`);
+  }
+  printDiagnostics(image.diagnostics);
+  return source ? 0 : 1;
+}
+
+async function verify(image: OpenedImage, algorithms: HashAlgorithm[], json: boolean): Promise<number> {
+  const source = requireSource(image);
+  const progress = process.stderr.isTTY && !json
+    ? (done: number, total: number) => process.stderr.write(`\rHashing ${formatBytes(done)} / ${formatBytes(total)}`)
+    : undefined;
+  // The EWF reader also reports chunks that fail their own checksums
+  const result = await verifyMediaHashes(image.e01?.reader ?? source, source.storedHashes, { algorithms, onProgress: progress });
+  if (progress) process.stderr.write('\n');
+
+  if (json) {
+    printJson({ image: image.name, ...result });
+  } else {
+    printFields([
+      ['Image', image.name],
+      ['Status', result.status],
+      ['Bytes hashed', result.bytesHashed],
+      ...result.hashes.flatMap(({ algorithm, computed, stored, result }): [string, string][] => [
+        [`${algorithm.toUpperCase()} computed`, computed],
+        [`${algorithm.toUpperCase()} stored`, stored ? `${stored} (${result})` : 'not stored'],
+      ]),
+    ]);
+    if (result.chunkIssues.length > 0) process.stdout.write(`Corrupt chunks: ${result.chunkIssues.length}\n`);
+  }
+  return result.status === 'verified' && result.chunkIssues.length === 0 ? 0 : 1;
+}
+
+/**
+ * The partition table, and with `scan` the lost partitions found in its gaps
+ */
+async function readPartitions(source: DiskImageSource, scan: boolean): Promise<{ table: PartitionTable; lost: Partition[] }> {
+  const table = await parsePartitionTable(source, source.sectorSize);
+  const lost = scan ? await scanForPartitions(source, table) : [];
+  return { table, lost };
+}
+
+function describeRegion(region: DiskRegion): string {
+  if (region.kind === 'table') return `(${region.description})`;
+  if (region.kind === 'unallocated') return '(Unallocated)';
+  const p = region.partition!;
+  return [
+    p.type,
+    p.name,
+    p.filesystem && `[${p.filesystem}${p.volumeLabel ? ` "${p.volumeLabel}"` : ''}]`,
+    p.bootable && '(bootable)',
+    p.ebrLBA !== undefined && `(logical, EBR at ${p.ebrLBA})`,
+    p.parent !== undefined && `(in ${String(p.parent).padStart(3, '0')})`,
+    p.volumeSystem && `(${p.volumeSystem.type} label)`,
+    p.attributes && `{${p.attributes.join(', ')}}`,
+  ].filter(Boolean).join(' ');
+}
+
+async function mmls(image: OpenedImage, scan: boolean, json: boolean): Promise<number> {
+  const source = requireSource(image);
+  const { table, lost } = await readPartitions(source, scan);
+  const layout = diskLayout(table, source.size, lost);
+  if (json) {
+    printJson({ image: image.name, ...table, ...(scan && { lost }), layout: layout.map(({ partition, ...r }) => ({ ...r, partition: partition?.index })) });
+    return 0;
+  }
+
+  const from = table.gpt?.header === 'backup' ? ' (from the backup header)' : '';
+  process.stdout.write(`${table.type} partition table${from}, ${table.sectorSize}-byte sectors${table.diskGuid ? `, disk ${table.diskGuid}` : ''}\n\n`);
+  process.stdout.write('      Start        End          Length       Description\n');
+  for (const region of layout) {
+    const slot = region.partition ? String(region.partition.index).padStart(3, '0') : '---';
+    process.stdout.write(`${slot}:  ${String(region.startLBA).padStart(10, '0')}   ${String(region.endLBA).padStart(10, '0')}   ${String(region.sizeLBA).padStart(10, '0')}   ${describeRegion(region)}\n`);
+  }
+  if (table.volumes) {
+    process.stdout.write('\nVolumes:\n');
+    for (const p of table.volumes) {
+      const members = p.volume!.members.map(m => m.index === 0 ? 'disk' : String(m.index).padStart(3, '0')).join(', ');
+      process.stdout.write(`${String(p.index).padStart(3, '0')}:  ${p.type} ${p.name} (${p.volume!.layout}) on ${members}, ${p.sizeLBA} sectors${p.filesystem ? ` [${p.filesystem}${p.volumeLabel ? ` "${p.volumeLabel}"` : ''}]` : ''}\n`);
+    }
+  }
+  if (scan) process.stdout.write(`\n${lost.length === 0 ? 'No lost partitions found' : `Lost partitions found: ${lost.map(p => p.index).join(', ')}`}\n`);
+  if (table.diagnostics.length > 0) process.stdout.write('\n');
+  printDiagnostics(table.diagnostics);
+  return 0;
+}
+
+/**
+ * The volume to work in: the given partition, the only partition, or the
+ * whole media when it has no partition table
+ */
+async function selectVolume(image: OpenedImage, { partition: partitionIndex, scan }: VolumeChoice): Promise<ByteReader> {
+  const source = requireSource(image);
+  if (image.e01 && isLogicalFormat(image.e01.format)) throw new Error(`${image.name} is a logical image and holds no volume`);
+
+  const { table, lost } = await readPartitions(source, scan);
+  const partitions = [...listPartitions(table), ...(table.volumes ?? []), ...lost];
+  let partition: Partition | undefined;
+  if (partitionIndex !== undefined) {
+    partition = partitions.find(p => p.index === partitionIndex);
+    if (!partition) throw new UsageError(`No partition ${partitionIndex}; run mmls${scan ? ' --scan' : ''} to list them`);
+  } else if (partitions.length === 1) {
+    partition = partitions[0];
+  } else if (partitions.length > 1) {
+    throw new UsageError(`${partitions.length} partitions found; choose one with --partition`);
+  }
+
+  return partition ? getPartitionReader(source, partition, table.sectorSize) : source;
+}
+
+async function fsstat(image: OpenedImage, volume: VolumeChoice, json: boolean): Promise<number> {
+  const { probe, encryption, decrypted, fat, diagnostics } = await readVolume(await selectVolume(image, volume), volume.key);
+  const locked = probe.encrypted && !decrypted;
+  if (json) {
+    printJson({ image: image.name, ...probe, encryption, decrypted, diagnostics });
+    return locked ? 1 : 0;
+  }
+
+  const describe = (p: typeof probe) => [
+    p.type ?? 'unknown',
+    p.label && `"${p.label}"`,
+    p.uuid && `(${p.uuid})`,
+  ].filter(Boolean).join(' ');
+  printFields([
+    ['Filesystem', describe(probe)],
+    ['Size', probe.size !== undefined ? `${probe.size} bytes (${formatBytes(probe.size)})` : undefined],
+  ]);
+  if (encryption) {
+    process.stdout.write('Encryption:\n');
+    printFields(describeEncryption(encryption), '  ');
+    printFields([['Decrypted', decrypted ? describe(decrypted) : 'no (locked)']]);
+  }
+  if (fat?.bootSector) printFields([['Files', `${fat.rootEntries.length} entries in the root directory`]]);
+  printDiagnostics(diagnostics);
+  return locked ? 1 : 0;
+}
+
+/**
+ * The selected volume, decrypted when it is encrypted, and its FAT filesystem
+ */
+async function openVolume(image: OpenedImage, choice: VolumeChoice): Promise<{ reader: ByteReader; fs: FATParseResult }> {
+  const unlocked = await unlockVolume(await selectVolume(image, choice), choice.key);
+  if (!unlocked.reader) {
+    throw new Error(`The volume cannot be read: ${unlocked.diagnostics.map(d => d.message).join('; ')}`);
+  }
+  const { reader } = unlocked;
+  const { fat: fs, diagnostics } = await readVolume(reader);
+  if (!fs?.valid || !fs.bootSector) {
+    throw new Error(`No FAT volume found${diagnostics.length ? `: ${diagnostics.map(d => d.message).join('; ')}` : ''}`);
+  }
+  return { reader, fs };
+}
+
+/**
+ * The entry at `target` (case-insensitive, / separated); null is the root
+ */
+function findEntry(fs: FATParseResult, target: string): FATFileEntry | null {
+  const parts = target.split('/').filter(Boolean);
+  let entries = fs.rootEntries;
+  let found: FATFileEntry | null = null;
+  for (const part of parts) {
+    found = entries.find(e => e.name.toLowerCase() === part.toLowerCase() || e.shortName.toLowerCase() === part.toLowerCase()) ?? null;
+    if (!found) throw new Error(`${target}: no such file or directory`);
+    entries = found.children ?? [];
+  }
+  return found;
+}
+
+function* walk(entries: FATFileEntry[], recursive: boolean): Generator<FATFileEntry> {
+  for (const entry of entries) {
+    yield entry;
+    if (recursive && entry.children) yield* walk(entry.children, recursive);
+  }
+}
+
+async function ls(image: OpenedImage, volume: VolumeChoice, target: string, recursive: boolean, json: boolean): Promise<number> {
+  const { fs } = await openVolume(image, volume);
+  const dir = findEntry(fs, target);
+  const entries = [...walk(dir ? dir.children ?? [dir] : fs.rootEntries, recursive)];
+  if (json) {
+    printJson(entries.map(entry => ({ ...entry, children: undefined })));
+    return 0;
+  }
+  for (const entry of entries) {
+    const type = entry.isDirectory ? 'd' : 'r';
+    process.stdout.write(`${type}  ${String(entry.size).padStart(12)}  /${entry.path}${entry.isDirectory ? '/' : ''}\n`);
+  }
+  return 0;
+}
+
+async function cat(image: OpenedImage, volume: VolumeChoice, target: string): Promise<number> {
+  const { reader, fs } = await openVolume(image, volume);
+  const entry = findEntry(fs, target);
+  if (!entry) throw new UsageError('cat needs --path to a file');
+  const read = fatFileReader(reader, fs.bootSector!);
+  const written = await read(entry, data => new Promise(resolve => process.stdout.write(data, () => resolve())));
+  if (written < entry.size) {
+    process.stderr.write(`${entry.path}: cluster chain ends after ${written} of ${entry.size} bytes\n`);
+    return 1;
+  }
+  return 0;
+}
+
+/**
+ * A FAT name as a single path component on this host. Long names are
+ * free-form UTF-16, so separators and dot names must not reach path.join.
+ */
+function safeFileName(name: string): string {
+  const cleaned = name.replace(/[/\\\0]/g, '_');
+  return /^\.*$/.test(cleaned) ? `_${cleaned}` : cleaned;
+}
+
+/** Walk a directory tree, pairing each entry with its destination under dir */
+function* destinations(entries: FATFileEntry[], dir: string): Generator<[FATFileEntry, string]> {
+  for (const entry of entries) {
+    const destination = path.join(dir, safeFileName(entry.name));
+    yield [entry, destination];
+    if (entry.children) yield* destinations(entry.children, destination);
+  }
+}
+
+async function extract(image: OpenedImage, volume: VolumeChoice, target: string, out: string, json: boolean): Promise<number> {
+  const { reader, fs } = await openVolume(image, volume);
+  const root = findEntry(fs, target);
+  const read = fatFileReader(reader, fs.bootSector!);
+  const outDir = path.resolve(out);
+  const extracted: { path: string; size: number; written: number; md5: string }[] = [];
+  let failed = 0;
+
+  for (const [entry, destination] of destinations(root ? [root] : fs.rootEntries, outDir)) {
+    const relative = path.relative(outDir, destination);
+    if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+      throw new Error(`${entry.path}: destination ${destination} is outside ${outDir}`);
+    }
+    if (entry.isDirectory) {
+      await mkdir(destination, { recursive: true });
+      continue;
+    }
+    await mkdir(path.dirname(destination), { recursive: true });
+    // Never overwrite: two entries can map to one name, and --out may not be empty
+    let handle: FileHandle;
+    try {
+      handle = await open(destination, 'wx');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      process.stderr.write(`${entry.path}: ${destination} already exists, skipped\n`);
+      failed++;
+      continue;
+    }
+    const md5 = createHasher('md5');
+    try {
+      const written = await read(entry, async data => {
+        md5.update(data);
+        await handle.write(data);
+      });
+      extracted.push({ path: `/${entry.path}`, size: entry.size, written, md5: md5.digest() });
+    } finally {
+      await handle.close();
+    }
+  }
+
+  const incomplete = extracted.filter(file => file.written < file.size);
+  if (json) {
+    printJson({ image: image.name, out, files: extracted });
+  } else {
+    for (const file of extracted) {
+      process.stdout.write(`${file.md5}  ${file.path}${file.written < file.size ? ` (only ${file.written} of ${file.size} bytes)` : ''}\n`);
+    }
+  }
+  return incomplete.length > 0 || failed > 0 ? 1 : 0;
+}
+
+function parseCommandLine(argv: string[]) {
+  try {
+    return parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        json: { type: 'boolean', default: false },
+        hash: { type: 'string', default: 'md5,sha1' },
+        partition: { type: 'string', short: 'p' },
+        scan: { type: 'boolean', default: false },
+        path: { type: 'string', default: '/' },
+        recursive: { type: 'boolean', short: 'r', default: false },
+        out: { type: 'string', short: 'o' },
+        password: { type: 'string' },
+        'recovery-password': { type: 'string' },
+        'key-file': { type: 'string' },
+        verbose: { type: 'boolean', short: 'v', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseCommandLine(argv);
+  const [command, ...paths] = positionals;
+  if (values.help || !command) {
+    process.stdout.write(USAGE + '\n');
+    return values.help ? 0 : 2;
+  }
+  if (!COMMANDS.includes(command)) throw new UsageError(`Unknown command: ${command}`);
+  if (paths.length === 0) throw new UsageError('No image files given');
+  if (command === 'extract' && !values.out) throw new UsageError('extract needs --out');
+
+  const partition = values.partition !== undefined ? Number(values.partition) : undefined;
+  if (partition !== undefined && !Number.isInteger(partition)) throw new UsageError(`Invalid partition index: ${values.partition}`);
+  const algorithms = values.hash.split(',').map(a => a.trim().toLowerCase().replace('-', '')) as HashAlgorithm[];
+  const unknown = algorithms.filter(a => !HASH_ALGORITHMS.includes(a));
+  if (unknown.length > 0) throw new UsageError(`Unknown hash algorithm: ${unknown.join(', ')}`);
+
+  const keys = [values.password, values['recovery-password'], values['key-file']].filter(value => value !== undefined);
+  if (keys.length > 1) throw new UsageError('Give only one of --password, --recovery-password and --key-file');
+  let key: VolumeKey | undefined;
+  if (values.password !== undefined) key = { type: 'password', value: values.password };
+  if (values['recovery-password'] !== undefined) key = { type: 'recovery-password', value: values['recovery-password'] };
+  if (values['key-file'] !== undefined) key = { type: 'key-file', data: await readFile(values['key-file']) };
+
+  const image = await openImage(await imagePaths(paths), values.verbose);
+  const volume = { partition, scan: values.scan, key };
+  switch (command) {
+    case 'info': return info(image, values.json);
+    case 'verify': return verify(image, algorithms, values.json);
+    case 'mmls': return mmls(image, values.scan, values.json);
+    case 'fsstat': return fsstat(image, volume, values.json);
+    case 'ls': return ls(image, volume, values.path, values.recursive, values.json);
+    case 'cat': return cat(image, volume, values.path);
+    default: return extract(image, volume, values.path, values.out!, values.json);
+  }
+}
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  error => {
+    process.stderr.write(`e01: ${error instanceof Error ? error.message : String(error)}\n`);
+    if (error instanceof UsageError) process.stderr.write(`Run with --help for usage\n`);
+    process.exitCode = error instanceof UsageError ? 2 : 1;
+  },
+);
@@ -0,0 +1,163 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { E01Metadata, formatBytes } from '@/lib/e01-parser';
+import { E01WriteCompression, E01WriteResult } from '@/lib/e01-writer';
+import { AnalysisClient, downloadFiles, isAbortError, pickOutputDirectory } from '@/lib/analysis-client';
+
+const CASE_FIELDS: { key: keyof E01Metadata; label: string }[] = [
+  { key: 'caseNumber', label: 'Case Number' },
+  { key: 'evidenceNumber', label: 'Evidence Number' },
+  { key: 'examinerName', label: 'Examiner' },
+  { key: 'description', label: 'Description' },
+  { key: 'notes', label: 'Notes' },
+];
+
+const SECTORS_PER_CHUNK = [64, 128, 256, 512, 1024, 2048];
+
+const SEGMENT_SIZES = [
+  { label: '640 MB', bytes: 640 * 1024 * 1024 },
+  { label: '1.5 GB', bytes: 1500 * 1024 * 1024 },
+  { label: '2 GB', bytes: 0x7fffffff },
+];
+
+/**
+ * Packages a raw disk image as an E01 segment set in a worker of its own,
+ * independent of the image open in the viewer
+ */
+export default function E01Creator() {
+  const [file, setFile] = useState<File | null>(null);
+  const [metadata, setMetadata] = useState<E01Metadata>({});
+  const [compression, setCompression] = useState<E01WriteCompression>('fast');
+  const [sectorsPerChunk, setSectorsPerChunk] = useState(64);
+  const [bytesPerSector, setBytesPerSector] = useState(512);
+  const [segmentSize, setSegmentSize] = useState(SEGMENT_SIZES[1].bytes);
+  const [progress, setProgress] = useState<{ read: number; total: number } | null>(null);
+  const [created, setCreated] = useState<E01WriteResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abort = useRef<AbortController | null>(null);
+
+  // Stop a running job when the page goes away
+  useEffect(() => () => abort.current?.abort(), []);
+
+  const create = async () => {
+    if (!file || abort.current) return;
+    let directory: FileSystemDirectoryHandle | null | undefined;
+    try {
+      directory = await pickOutputDirectory();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    if (directory === undefined) return;
+
+    const controller = new AbortController();
+    abort.current = controller;
+    const client = new AnalysisClient();
+    setCreated(null);
+    setError(null);
+    setProgress({ read: 0, total: file.size });
+
+    try {
+      const result = await client.call('createE01', {
+        file,
+        metadata,
+        options: {
+          baseName: file.name.replace(/\.[^.]+$/, ''),
+          compression,
+          sectorsPerChunk,
+          bytesPerSector,
+          segmentSize,
+        },
+        directory,
+      }, {
+        signal: controller.signal,
+        onProgress: (update) => setProgress({ read: update.completed, total: update.total }),
+      });
+      downloadFiles(result.downloads);
+      setCreated(result);
+    } catch (err) {
+      if (!isAbortError(err)) setError(err instanceof Error ? err.message : String(err));
+    }
+
+    client.dispose();
+    abort.current = null;
+    setProgress(null);
+  };
+
+  return (
+    <details className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 mb-6 text-sm">
+      <summary className="cursor-pointer font-medium">Create E01 from a raw image</summary>
+      <div className="mt-4 space-y-3">
+        <input
+          type="file"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          disabled={!!progress}
+          className="block"
+        />
+        {file && <p className="text-gray-500">{file.name} ({formatBytes(file.size)})</p>}
+
+        <div className="grid grid-cols-2 gap-2">
+          {CASE_FIELDS.map(({ key, label }) => (
+            <label key={key} className="contents">
+              <span className="text-gray-500">{label}:</span>
+              <input
+                value={metadata[key] ?? ''}
+                onChange={(e) => setMetadata(prev => ({ ...prev, [key]: e.target.value }))}
+                disabled={!!progress}
+                className="px-2 py-1 bg-white dark:bg-gray-900 rounded border dark:border-gray-700"
+              />
+            </label>
+          ))}
+          <span className="text-gray-500">Compression:</span>
+          <select value={compression} onChange={(e) => setCompression(e.target.value as E01WriteCompression)} disabled={!!progress} className="px-2 py-1 bg-white dark:bg-gray-900 rounded">
+            <option value="none">None</option>
+            <option value="fast">Fast</option>
+            <option value="best">Best</option>
+          </select>
+          <span className="text-gray-500">Bytes per Sector:</span>
+          <select value={bytesPerSector} onChange={(e) => setBytesPerSector(Number(e.target.value))} disabled={!!progress} className="px-2 py-1 bg-white dark:bg-gray-900 rounded">
+            <option value={512}>512</option>
+            <option value={4096}>4096</option>
+          </select>
+          <span className="text-gray-500">Chunk Size:</span>
+          <select value={sectorsPerChunk} onChange={(e) => setSectorsPerChunk(Number(e.target.value))} disabled={!!progress} className="px-2 py-1 bg-white dark:bg-gray-900 rounded">
+            {SECTORS_PER_CHUNK.map(sectors => (
+              <option key={sectors} value={sectors}>{sectors} sectors ({formatBytes(sectors * bytesPerSector)})</option>
+            ))}
+          </select>
+          <span className="text-gray-500">Segment Size:</span>
+          <select value={segmentSize} onChange={(e) => setSegmentSize(Number(e.target.value))} disabled={!!progress} className="px-2 py-1 bg-white dark:bg-gray-900 rounded">
+            {SEGMENT_SIZES.map(({ label, bytes }) => (<option key={bytes} value={bytes}>{label}</option>))}
+          </select>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {progress ? (
+            <button onClick={() => abort.current?.abort()} className="px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded">Cancel</button>
+          ) : (
+            <button onClick={create} disabled={!file} className="px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50">Create E01</button>
+          )}
+          {progress && <span className="text-gray-500">Read {formatBytes(progress.read)} / {formatBytes(progress.total)}</span>}
+        </div>
+        {progress && (
+          <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded overflow-hidden">
+            <div className="h-full bg-blue-500" style={{ width: `${progress.total ? (progress.read / progress.total) * 100 : 0}%` }} />
+          </div>
+        )}
+
+        {error && <p className="text-red-700 dark:text-red-300">Creating the E01 failed: {error}</p>}
+        {created && (
+          <div className="grid grid-cols-2 gap-2">
+            <span className="text-gray-500">Segments:</span>
+            <span className="font-mono text-xs break-all">{created.segments.join(', ')} ({formatBytes(created.bytesWritten)})</span>
+            <span className="text-gray-500">MD5:</span>
+            <span className="font-mono text-xs break-all">{created.md5}</span>
+            <span className="text-gray-500">SHA1:</span>
+            <span className="font-mono text-xs break-all">{created.sha1}</span>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+}
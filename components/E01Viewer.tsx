@@ -2,22 +2,47 @@
 
 import { useState, useCallback, useEffect, useRef } from 'react';
 import {
-  parseE01,
-  E01ParseResult,
   E01DebugInfo,
+  E01ErrorRange,
   hexDump,
   formatBytes,
+  isLogicalFormat,
+  mediaTypeName,
+  mediaFlagNames,
+  compressionLevelName,
 } from '@/lib/e01-parser';
-import {
-  parsePartitionTable,
-  extractPartitionData,
-  PartitionTable,
-  Partition,
-} from '@/lib/partition-parser';
-import { parseFAT, FATParseResult, FATFileEntry, formatFileSize } from '@/lib/fat32-parser';
+import { Diagnostic, DiagnosticSeverity, DiagnosticSubsystem, diagnostic, hasMediaOffset } from '@/lib/diagnostics';
+import { diskLayout } from '@/lib/disk-layout';
+import { describeEncryption, EncryptionInfo, VolumeKey } from '@/lib/encrypted-volume';
+import { LogicalFileEntry } from '@/lib/ltree-parser';
+import { PartitionTable, Partition, listPartitions } from '@/lib/partition-parser';
+import { RawExportResult } from '@/lib/raw-export';
+import { FATParseResult, FATFileEntry, formatFileSize } from '@/lib/fat32-parser';
+import E01Creator from '@/components/E01Creator';
+import { AnalysisClient, downloadFiles, isAbortError, pickOutputDirectory } from '@/lib/analysis-client';
+import { AnalysisProgress, AnalysisStage, E01ParseSummary } from '@/lib/analysis-protocol';
 
 type TabType = 'metadata' | 'sections' | 'files' | 'hex';
 
+const STAGE_LABELS: Record<AnalysisStage, string> = {
+  'parse': 'Parsing E01 file',
+  'partitions': 'Reading partition table',
+  'scan-partitions': 'Scanning for lost partitions',
+  'filesystem': 'Parsing filesystem',
+  'verify-chunks': 'Verifying chunks',
+  'verify-hashes': 'Hashing media',
+  'export': 'Exporting raw image',
+  'create': 'Creating E01',
+};
+
+// Split sizes offered for raw export; 0 writes a single file
+const EXPORT_PART_SIZES = [
+  { label: 'Single file', bytes: 0 },
+  { label: '650 MB parts', bytes: 650 * 1024 * 1024 },
+  { label: '2 GB parts', bytes: 2 * 1024 * 1024 * 1024 },
+  { label: '4 GB parts', bytes: 4 * 1024 * 1024 * 1024 - 1024 * 1024 },
+];
+
 // Global log storage - PERSISTS TO LOCALSTORAGE to survive page reloads
 const STORAGE_KEY = 'e01_debug_logs';
 
@@ -108,13 +133,172 @@ function FileTreeItem({ entry, depth }: FileTreeItemProps) {
   );
 }
 
+interface LogicalFileTreeItemProps {
+  entry: LogicalFileEntry;
+  depth: number;
+  onShowData: (offset: number) => void;
+}
+
+function LogicalFileTreeItem({ entry, depth, onShowData }: LogicalFileTreeItemProps) {
+  const [expanded, setExpanded] = useState(false);
+  const hasChildren = entry.children && entry.children.length > 0;
+
+  return (
+    <div>
+      <div
+        className="flex items-center gap-2 py-1 px-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded cursor-pointer text-sm"
+        style={{ paddingLeft: `${depth * 16 + 8}px` }}
+        onClick={() => (hasChildren || !entry.isDirectory) && setExpanded(!expanded)}
+      >
+        <span className="w-4 text-center text-gray-400">
+          {hasChildren ? (expanded ? '▼' : '▶') : ''}
+        </span>
+        <span className="text-lg">{entry.isDirectory ? '📁' : '📄'}</span>
+        <span className="flex-1 truncate">{entry.name}</span>
+        {!entry.isDirectory && (
+          <span className="text-gray-500 text-xs">{formatFileSize(entry.size)}</span>
+        )}
+      </div>
+      {expanded && !entry.isDirectory && (
+        <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs py-2 pr-2" style={{ paddingLeft: `${depth * 16 + 48}px` }}>
+          <span className="text-gray-500">Path:</span>
+          <span className="font-mono break-all">{entry.path}</span>
+          <span className="text-gray-500">MD5:</span>
+          <span className="font-mono break-all">{entry.md5 ?? 'not recorded'}</span>
+          <span className="text-gray-500">SHA1:</span>
+          <span className="font-mono break-all">{entry.sha1 ?? 'not recorded'}</span>
+          {entry.created && (<><span className="text-gray-500">Created:</span><span className="font-mono">{entry.created}</span></>)}
+          {entry.modified && (<><span className="text-gray-500">Modified:</span><span className="font-mono">{entry.modified}</span></>)}
+          {entry.accessed && (<><span className="text-gray-500">Accessed:</span><span className="font-mono">{entry.accessed}</span></>)}
+          {entry.extents.length > 0 && (
+            <>
+              <span className="text-gray-500">Data:</span>
+              <span className="font-mono">
+                {entry.extents.map((extent, i) => (
+                  <button key={i} onClick={() => onShowData(extent.offset)} className="text-blue-600 dark:text-blue-400 hover:underline mr-2">
+                    0x{extent.offset.toString(16)} ({formatFileSize(extent.size)})
+                  </button>
+                ))}
+              </span>
+            </>
+          )}
+        </div>
+      )}
+      {expanded && hasChildren && (
+        <div>
+          {entry.children?.map((child, i) => (
+            <LogicalFileTreeItem key={i} entry={child} depth={depth + 1} onShowData={onShowData} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const SEVERITY_ORDER: Record<DiagnosticSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+const SEVERITY_STYLES: Record<DiagnosticSeverity, string> = {
+  error: 'text-red-700 dark:text-red-300',
+  warning: 'text-yellow-700 dark:text-yellow-300',
+  info: 'text-gray-600 dark:text-gray-400',
+};
+
+const SUBSYSTEM_LABELS: Record<DiagnosticSubsystem, string> = {
+  ewf: 'Container',
+  ltree: 'Logical file table',
+  partition: 'Partition table',
+  volume: 'Volume',
+  fat: 'Filesystem',
+  image: 'Image',
+};
+
+interface DiagnosticListProps {
+  diagnostics: Diagnostic[];
+  onShowOffset?: (offset: number) => void;
+}
+
+/**
+ * Diagnostics grouped by subsystem, most severe first; media offsets open the hex view
+ */
+function DiagnosticList({ diagnostics, onShowOffset }: DiagnosticListProps) {
+  const groups = new Map<DiagnosticSubsystem, Diagnostic[]>();
+  for (const item of [...diagnostics].sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity])) {
+    groups.set(item.subsystem, [...(groups.get(item.subsystem) ?? []), item]);
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      {[...groups].map(([subsystem, items]) => (
+        <div key={subsystem}>
+          {groups.size > 1 && <h4 className="font-medium text-gray-700 dark:text-gray-300">{SUBSYSTEM_LABELS[subsystem]}</h4>}
+          <ul className="space-y-1">
+            {items.map((item, i) => (
+              <li key={i} className={SEVERITY_STYLES[item.severity]}>
+                <span className="font-mono text-xs uppercase mr-2">{item.severity}</span>
+                {item.message}
+                {item.offset !== undefined && (hasMediaOffset(item) && onShowOffset ? (
+                  <button onClick={() => onShowOffset(item.offset!)} className="font-mono text-xs text-blue-600 dark:text-blue-400 hover:underline ml-2">
+                    0x{item.offset.toString(16)}
+                  </button>
+                ) : (
+                  <span className="font-mono text-xs ml-2">
+                    {item.segment !== undefined && `segment ${item.segment} `}0x{item.offset.toString(16)}
+                  </span>
+                ))}
+                <span className="font-mono text-xs text-gray-400 ml-2">{item.code}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface HexDumpViewProps {
+  data: Uint8Array;
+  address: number;
+  bytesPerSector: number;
+  errors: E01ErrorRange[];
+}
+
+/**
+ * Hex dump with lines inside unreadable acquisition ranges highlighted;
+ * sector boundaries always fall on a line boundary
+ */
+function HexDumpView({ data, address, bytesPerSector, errors }: HexDumpViewProps) {
+  const lines = hexDump(data, 0, 256, address);
+  const errorAt = (offset: number) => {
+    const sector = Math.floor(offset / bytesPerSector);
+    return errors.find(range => sector >= range.firstSector && sector < range.firstSector + range.sectorCount);
+  };
+  const marked = lines.map((_, i) => errorAt(address + i * 16));
+  const ranges = [...new Set(marked.filter(Boolean))] as E01ErrorRange[];
+
+  return (
+    <>
+      {ranges.map((range, i) => (
+        <p key={i} className="text-red-400 mb-2">
+          Sectors {range.firstSector}-{range.firstSector + range.sectorCount - 1} could not be read during acquisition; the highlighted bytes are filler, not evidence.
+        </p>
+      ))}
+      <pre>
+        {lines.map((line, i) => (
+          <div key={i} className={marked[i] ? 'bg-red-900 text-red-200' : undefined}>{line}</div>
+        ))}
+      </pre>
+    </>
+  );
+}
+
 export default function E01Viewer() {
-  const [result, setResult] = useState<E01ParseResult | null>(null);
+  const [result, setResult] = useState<E01ParseSummary | null>(null);
   const [loading, setLoading] = useState(false);
   const [parsingFiles, setParsingFiles] = useState(false);
   const [fileName, setFileName] = useState<string>('');
   const [fileSize, setFileSize] = useState<number>(0);
   const [hexOffset, setHexOffset] = useState(0);
+  const [hexData, setHexData] = useState<Uint8Array | null>(null);
   const [activeTab, setActiveTab] = useState<TabType>('metadata');
   const [copied, setCopied] = useState(false);
   const [lastAction, setLastAction] = useState<string>('Component mounted');
@@ -122,7 +306,28 @@ export default function E01Viewer() {
   const [partitionTable, setPartitionTable] = useState<PartitionTable | null>(null);
   const [selectedPartition, setSelectedPartition] = useState<number | null>(null);
   const [fatResult, setFatResult] = useState<FATParseResult | null>(null);
-  const [fsErrors, setFsErrors] = useState<string[]>([]);
+  const [fsDiagnostics, setFsDiagnostics] = useState<Diagnostic[]>([]);
+  const [encryption, setEncryption] = useState<{ partition: Partition; info: EncryptionInfo; unlocked: boolean } | null>(null);
+  const [keyType, setKeyType] = useState<VolumeKey['type']>('recovery-password');
+  const [keyText, setKeyText] = useState('');
+  const [keyFile, setKeyFile] = useState<File | null>(null);
+  const [lostPartitions, setLostPartitions] = useState<Partition[] | null>(null);
+  const [scanProgress, setScanProgress] = useState<{ scanned: number; total: number } | null>(null);
+  const scanAbort = useRef<AbortController | null>(null);
+  const [verifyProgress, setVerifyProgress] = useState<{ verified: number; total: number } | null>(null);
+  const verifyAbort = useRef<AbortController | null>(null);
+  const hashAbort = useRef<AbortController | null>(null);
+  const [hashProgress, setHashProgress] = useState<{ bytesHashed: number; total: number } | null>(null);
+  const client = useRef<AnalysisClient | null>(null);
+  const parseAbort = useRef<AbortController | null>(null);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [includeSha256, setIncludeSha256] = useState(false);
+  const [exportTarget, setExportTarget] = useState<number | null>(null);
+  const [exportPartSize, setExportPartSize] = useState(0);
+  const [exportExtension, setExportExtension] = useState<'dd' | 'img'>('dd');
+  const [exportProgress, setExportProgress] = useState<{ written: number; total: number } | null>(null);
+  const [exportResult, setExportResult] = useState<RawExportResult | null>(null);
+  const exportAbort = useRef<AbortController | null>(null);
 
   // Intercept console methods to capture logs
   const originalConsole = useRef<{
@@ -181,46 +386,85 @@ export default function E01Viewer() {
     };
   }, []);
 
-  const processFile = useCallback(async (file: File) => {
-    addLog('INFO', 'processFile called', file.name, file.size);
-    setLastAction(`Processing file: ${file.name}`);
+  const processFiles = useCallback(async (files: File[]) => {
+    // Segment sets are named after their first segment (.E01, .001)
+    const file = [...files].sort((a, b) => a.name.localeCompare(b.name))[0];
+    const totalSize = files.reduce((sum, f) => sum + f.size, 0);
+    const displayName = files.length > 1 ? `${file.name} (+${files.length - 1} segments)` : file.name;
+
+    addLog('INFO', 'processFiles called', files.map(f => f.name), totalSize);
+    setLastAction(`Processing file: ${displayName}`);
     setLoading(true);
-    setFileName(file.name);
-    setFileSize(file.size);
+    setProgress(null);
+    setResult(null);
+    setFileName(displayName);
+    setFileSize(totalSize);
     setHexOffset(0);
+    setHexData(null);
     setPartitionTable(null);
+    setLostPartitions(null);
+    setScanProgress(null);
     setSelectedPartition(null);
     setFatResult(null);
-    setFsErrors([]);
+    setFsDiagnostics([]);
+    setEncryption(null);
+    setVerifyProgress(null);
+    setHashProgress(null);
+    setExportTarget(null);
+    setExportProgress(null);
+    setExportResult(null);
+
+    // The previous image lives in the old worker; discard it with any work in flight
+    parseAbort.current?.abort();
+    client.current?.dispose();
+    const analysis = new AnalysisClient();
+    analysis.onIntegrity = (integrity) => setResult(prev => prev && { ...prev, integrity });
+    client.current = analysis;
+    const controller = new AbortController();
+    parseAbort.current = controller;
 
     const errorDebug: E01DebugInfo = {
-      fileSize: file.size,
+      fileSize: totalSize,
       parseStartTime: Date.now(),
       sectionsFound: [],
       chunksProcessed: 0,
       lastOffset: 0,
-      logs: [`File: ${file.name}`, `Size: ${file.size} bytes`],
+      logs: [`Files: ${files.map(f => f.name).join(', ')}`, `Size: ${totalSize} bytes`],
     };
 
     try {
-      addLog('INFO', 'Calling parseE01...');
-      const parseResult = await parseE01(file);
-      addLog('INFO', 'parseE01 returned', { valid: parseResult.valid, errors: parseResult.errors.length });
+      addLog('INFO', 'Opening image in analysis worker...');
+      const options = { signal: controller.signal, onProgress: setProgress };
+      const parseResult = await analysis.call('open', { files }, options);
+      addLog('INFO', 'open returned', { valid: parseResult.valid, diagnostics: parseResult.diagnostics.length });
 
       setResult(parseResult);
-      setLastAction(`Parsed: ${file.name} - ${parseResult.valid ? 'Valid' : 'Invalid'}`);
+      setLastAction(`Parsed: ${displayName} - ${parseResult.valid ? 'Valid' : 'Invalid'}`);
 
-      if (parseResult.rawDiskData && parseResult.rawDiskData.length > 0) {
+      // Logical images hold captured files, not a partitioned disk
+      if (parseResult.media && parseResult.media.size > 0 && !isLogicalFormat(parseResult.format)) {
         addLog('INFO', 'Parsing partition table...');
-        const partTable = parsePartitionTable(parseResult.rawDiskData);
+        const sectorSize = parseResult.volumeInfo?.bytesPerSector || 512;
+        const partTable = await analysis.call('partitions', { sectorSize }, options);
         setPartitionTable(partTable);
         addLog('INFO', 'Partition table parsed', { type: partTable.type, count: partTable.partitions.length });
       }
     } catch (error) {
+      if (controller.signal.aborted || isAbortError(error)) {
+        addLog('INFO', 'processFiles cancelled');
+        // A superseding processFiles call owns the UI state from here
+        if (parseAbort.current === controller) {
+          setLastAction(`Cancelled: ${displayName}`);
+          setLoading(false);
+          setProgress(null);
+        }
+        return;
+      }
+
       const errorMsg = error instanceof Error ? error.message : String(error);
       const errorStack = error instanceof Error ? error.stack : undefined;
 
-      addLog('ERROR', 'Critical error in processFile', errorMsg, errorStack);
+      addLog('ERROR', 'Critical error in processFiles', errorMsg, errorStack);
       setLastAction(`Error: ${errorMsg}`);
 
       errorDebug.logs.push(`CRITICAL ERROR: ${errorMsg}`);
@@ -228,88 +472,297 @@ export default function E01Viewer() {
       errorDebug.parseEndTime = Date.now();
       errorDebug.parseDuration = errorDebug.parseEndTime - errorDebug.parseStartTime;
 
-      setResult({
+      const failure = diagnostic('IMAGE_OPERATION_FAILED', `Failed to parse file: ${errorMsg}`);
+      setResult(prev => prev ? { ...prev, diagnostics: [...prev.diagnostics, failure] } : {
         valid: false,
+        format: 'E01',
         signature: new Uint8Array(8),
+        segments: [],
         sections: [],
         metadata: {},
+        metadataConflicts: [],
         volumeInfo: null,
-        rawDiskData: null,
-        errors: [`Failed to parse file: ${errorMsg}`],
+        media: null,
+        acquisitionErrors: [],
+        sessions: [],
+        integrity: { sectionIssues: [], chunkIssues: [], chunksVerified: 0, chunkCount: 0 },
+        diagnostics: [failure],
         debug: errorDebug,
       });
     }
 
+    parseAbort.current = null;
     setLoading(false);
-    addLog('INFO', 'processFile complete');
+    setProgress(null);
+    addLog('INFO', 'processFiles complete');
   }, []);
 
+  const cancelParse = () => {
+    parseAbort.current?.abort();
+  };
+
   const handleFileDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     addLog('INFO', 'handleFileDrop triggered');
     setLastAction('File dropped');
     e.preventDefault();
     e.stopPropagation();
 
-    const file = e.dataTransfer.files[0];
-    if (file) {
-      addLog('INFO', 'File from drop:', file.name, file.size);
-      // Use setTimeout to ensure state updates complete before heavy processing
-      setTimeout(() => processFile(file), 0);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) {
+      addLog('INFO', 'Files from drop:', files.map(f => f.name));
+      processFiles(files);
     }
-  }, [processFile]);
+  }, [processFiles]);
 
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     addLog('INFO', 'handleFileSelect triggered');
     setLastAction('File selected via input');
 
-    const file = e.target.files?.[0];
-    if (file) {
-      addLog('INFO', 'File from input:', file.name, file.size);
-      // Use setTimeout to ensure state updates complete before heavy processing
-      setTimeout(() => processFile(file), 0);
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > 0) {
+      addLog('INFO', 'Files from input:', files.map(f => f.name));
+      processFiles(files);
     }
 
     // Reset input so same file can be selected again
     e.target.value = '';
-  }, [processFile]);
+  }, [processFiles]);
 
-  const parsePartitionFilesystem = async (partition: Partition) => {
-    if (!result?.rawDiskData) return;
-    addLog('INFO', 'parsePartitionFilesystem', partition.index);
+  const parsePartitionFilesystem = async (partition: Partition, key?: VolumeKey) => {
+    const analysis = client.current;
+    if (!analysis || !result?.media) return;
+    addLog('INFO', 'parsePartitionFilesystem', partition.index, key?.type);
 
     setParsingFiles(true);
     setSelectedPartition(partition.index);
     setFatResult(null);
-    setFsErrors([]);
+    setFsDiagnostics([]);
+    if (!key) setEncryption(null);
 
     try {
-      const partitionData = extractPartitionData(
-        result.rawDiskData,
+      const volume = await analysis.call('filesystem', {
         partition,
-        partitionTable?.sectorSize || 512
-      );
-
-      if (partitionData.length === 0) {
-        setFsErrors(['Could not extract partition data']);
-        setParsingFiles(false);
-        return;
+        sectorSize: partitionTable?.sectorSize || 512,
+        key,
+      });
+      if (volume.encryption) {
+        setEncryption({ partition, info: volume.encryption, unlocked: !!volume.decrypted });
+        if (!key) setKeyType(volume.encryption.scheme === 'BitLocker' ? 'recovery-password' : 'password');
       }
-
-      const fatParsed = parseFAT(partitionData);
-      if (fatParsed.valid) {
-        setFatResult(fatParsed);
+      if (volume.fat?.valid) {
+        setFatResult(volume.fat);
+        setFsDiagnostics(volume.diagnostics);
       } else {
-        setFsErrors(['Could not parse filesystem (tried FAT)']);
+        setFsDiagnostics(volume.diagnostics.length > 0
+          ? volume.diagnostics
+          : [diagnostic('IMAGE_OPERATION_FAILED', `Could not parse the ${volume.probe.type} filesystem`)]);
       }
     } catch (error) {
+      if (isAbortError(error)) return;
       const msg = error instanceof Error ? error.message : String(error);
       addLog('ERROR', 'parsePartitionFilesystem error', msg);
-      setFsErrors([`Failed to parse filesystem: ${msg}`]);
+      setFsDiagnostics([diagnostic('IMAGE_OPERATION_FAILED', `Failed to parse filesystem: ${msg}`)]);
     }
 
     setParsingFiles(false);
   };
 
+  const unlockVolume = async () => {
+    if (!encryption) return;
+    const key: VolumeKey = keyType === 'key-file'
+      ? { type: 'key-file', data: new Uint8Array(await keyFile!.arrayBuffer()) }
+      : { type: keyType, value: keyText };
+    await parsePartitionFilesystem(encryption.partition, key);
+  };
+
+  const verifyChunks = async () => {
+    const analysis = client.current;
+    const media = result?.media;
+    if (!analysis || !media) return;
+    addLog('INFO', 'verifyChunks started', media.chunkCount);
+
+    const controller = new AbortController();
+    verifyAbort.current = controller;
+    setVerifyProgress({ verified: 0, total: media.chunkCount });
+
+    try {
+      const integrity = await analysis.call('verifyChunks', {}, {
+        signal: controller.signal,
+        onProgress: (update) => setVerifyProgress({
+          verified: Math.round(update.completed / media.chunkSize),
+          total: media.chunkCount,
+        }),
+      });
+      addLog('INFO', 'verifyChunks complete', { issues: integrity.chunkIssues.length });
+    } catch (error) {
+      if (!isAbortError(error)) addLog('ERROR', 'verifyChunks error', error);
+    }
+
+    verifyAbort.current = null;
+    setVerifyProgress(null);
+  };
+
+  const scanForLostPartitions = async () => {
+    const analysis = client.current;
+    if (!analysis || !partitionTable || scanAbort.current) return;
+    addLog('INFO', 'Lost partition scan started');
+
+    const controller = new AbortController();
+    scanAbort.current = controller;
+    setScanProgress({ scanned: 0, total: 0 });
+
+    try {
+      const found = await analysis.call('scanPartitions', { table: partitionTable }, {
+        signal: controller.signal,
+        onProgress: (update) => setScanProgress({ scanned: update.completed, total: update.total }),
+      });
+      addLog('INFO', 'Lost partition scan complete', { found: found.length });
+      setLostPartitions(found);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        const message = error instanceof Error ? error.message : String(error);
+        addLog('ERROR', 'Lost partition scan failed', message);
+        setPartitionTable(prev => prev && {
+          ...prev,
+          diagnostics: [...prev.diagnostics, diagnostic('IMAGE_OPERATION_FAILED', `Lost partition scan failed: ${message}`)],
+        });
+      }
+    }
+
+    scanAbort.current = null;
+    setScanProgress(null);
+  };
+
+  const startHashVerification = async () => {
+    const analysis = client.current;
+    const media = result?.media;
+    if (!analysis || !media || hashAbort.current) return;
+    addLog('INFO', 'Hash verification started', { sha256: includeSha256 });
+
+    const controller = new AbortController();
+    hashAbort.current = controller;
+    setHashProgress({ bytesHashed: 0, total: media.size });
+
+    try {
+      const verification = await analysis.call(
+        'verifyHashes',
+        { algorithms: includeSha256 ? ['md5', 'sha1', 'sha256'] : ['md5', 'sha1'] },
+        {
+          signal: controller.signal,
+          onProgress: (update) => setHashProgress({ bytesHashed: update.completed, total: update.total }),
+        },
+      );
+      addLog('INFO', 'Hash verification finished', verification.status);
+      setResult(prev => prev && { ...prev, verification });
+    } catch (error) {
+      if (!isAbortError(error)) {
+        const message = error instanceof Error ? error.message : String(error);
+        addLog('ERROR', 'Hash verification failed', message);
+        setResult(prev => prev && {
+          ...prev,
+          diagnostics: [...prev.diagnostics, diagnostic('IMAGE_OPERATION_FAILED', `Hash verification failed: ${message}`)],
+        });
+      }
+    }
+
+    hashAbort.current = null;
+    setHashProgress(null);
+  };
+
+  const cancelHashVerification = () => {
+    hashAbort.current?.abort();
+  };
+
+  const startRawExport = async () => {
+    const analysis = client.current;
+    const media = result?.media;
+    if (!analysis || !media || exportAbort.current) return;
+
+    const partition = listedPartitions.find(p => p.index === exportTarget) ?? null;
+    const imageName = (result.segments[0]?.fileName ?? 'image').replace(/\.[^.]+$/, '');
+    const baseName = partition ? `${imageName}-p${partition.index}` : imageName;
+
+    // Without the File System Access API the files are offered as downloads
+    let directory: FileSystemDirectoryHandle | null | undefined;
+    try {
+      directory = await pickOutputDirectory();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      addLog('ERROR', 'Output directory unavailable', message);
+      setResult(prev => prev && {
+        ...prev,
+        diagnostics: [...prev.diagnostics, diagnostic('IMAGE_OPERATION_FAILED', `Raw export failed: ${message}`)],
+      });
+      return;
+    }
+    if (directory === undefined) return;
+    addLog('INFO', 'Raw export started', { partition: partition?.index ?? null, partSize: exportPartSize, directory: !!directory });
+
+    const controller = new AbortController();
+    exportAbort.current = controller;
+    setExportResult(null);
+    setExportProgress({ written: 0, total: partition ? Number(partition.sizeBytes) : media.size });
+
+    try {
+      const exported = await analysis.call('exportRaw', {
+        partition,
+        sectorSize: partitionTable?.sectorSize || sectorSize,
+        baseName,
+        extension: exportExtension,
+        partSize: exportPartSize,
+        algorithms: ['md5', 'sha1'],
+        directory,
+        source: partition
+          ? `${result.segments[0]?.fileName}, partition ${partition.index} (${partition.volume ? `${partition.type} ${partition.name}` : `LBA ${partition.startLBA}-${partition.endLBA}`})`
+          : `${result.segments[0]?.fileName}, whole media`,
+      }, {
+        signal: controller.signal,
+        onProgress: (update) => setExportProgress({ written: update.completed, total: update.total }),
+      });
+
+      downloadFiles(exported.downloads);
+      addLog('INFO', 'Raw export finished', { parts: exported.parts, bytes: exported.bytesWritten });
+      setExportResult(exported);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        const message = error instanceof Error ? error.message : String(error);
+        addLog('ERROR', 'Raw export failed', message);
+        setResult(prev => prev && {
+          ...prev,
+          diagnostics: [...prev.diagnostics, diagnostic('IMAGE_OPERATION_FAILED', `Raw export failed: ${message}`)],
+        });
+      }
+    }
+
+    exportAbort.current = null;
+    setExportProgress(null);
+  };
+
+  const exportVerificationReport = () => {
+    if (!result?.verification) return;
+    const report = {
+      generatedAt: new Date().toISOString(),
+      evidence: result.segments,
+      metadata: result.metadata,
+      storedHashes: result.hash ?? {},
+      verification: result.verification,
+    };
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    downloadFiles([{ name: `${result.segments[0]?.fileName ?? 'image'}.verification.json`, blob }]);
+  };
+
+  // Sector math follows the acquired device, which may use 4 KB sectors
+  const sectorSize = result?.volumeInfo?.bytesPerSector || 512;
+
+  // The table's partitions and any recovered by scanning
+  const listedPartitions = partitionTable ? [...listPartitions(partitionTable), ...(partitionTable.volumes ?? []), ...(lostPartitions ?? [])] : [];
+  const layout = partitionTable && result?.media ? diskLayout(partitionTable, result.media.size, lostPartitions ?? []) : [];
+
+  const showInHex = (offset: number) => {
+    setHexOffset(offset - (offset % 256));
+    setActiveTab('hex');
+  };
+
   const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
@@ -340,9 +793,10 @@ export default function E01Viewer() {
         resultValid: result?.valid,
         sectionsCount: result?.sections.length,
         sectionTypes: result?.sections.map(s => s.type),
-        hasRawData: !!result?.rawDiskData,
-        rawDataSize: result?.rawDiskData?.length,
-        errors: result?.errors,
+        hasMedia: !!result?.media,
+        mediaSize: result?.media?.size,
+        lastProgress: progress,
+        diagnostics: result?.diagnostics,
         hasPartitionTable: !!partitionTable,
         partitionCount: partitionTable?.partitions.length,
       },
@@ -371,10 +825,25 @@ export default function E01Viewer() {
       }
       document.body.removeChild(textarea);
     }
-  }, [lastAction, fileName, fileSize, loading, result, partitionTable]);
+  }, [lastAction, fileName, fileSize, loading, result, partitionTable, progress]);
 
   const [logCount, setLogCount] = useState(globalLogs.length);
 
+  // Read only the bytes shown in the hex viewer
+  useEffect(() => {
+    const media = result?.media;
+    if (!media || !client.current) return;
+    let cancelled = false;
+    client.current.mediaReader(media.size).read(hexOffset, 256).then(
+      bytes => { if (!cancelled) setHexData(bytes); },
+      error => { if (!isAbortError(error)) addLog('ERROR', 'Hex read failed', error); },
+    );
+    return () => { cancelled = true; };
+  }, [result?.media, hexOffset]);
+
+  // Stop the worker when the viewer goes away
+  useEffect(() => () => client.current?.dispose(), []);
+
   // Update log count periodically
   useEffect(() => {
     const interval = setInterval(() => {
@@ -416,23 +885,42 @@ export default function E01Viewer() {
         >
           <input
             type="file"
-            accept=".e01,.E01"
+            multiple
             onChange={handleFileSelect}
             className="hidden"
             id="file-input"
           />
           <label htmlFor="file-input" className="cursor-pointer">
             <div className="text-gray-600 dark:text-gray-300">
-              <p className="text-lg mb-2">Drop an E01 file here or click to browse</p>
-              <p className="text-sm text-gray-500">Supports .E01 (EnCase) files</p>
+              <p className="text-lg mb-2">Drop a disk image here or click to browse</p>
+              <p className="text-sm text-gray-500">Supports .E01 and .Ex01/.Lx01 (EnCase) files, raw .dd/.img/.bin images and VHD, VHDX, VMDK and QCOW2 virtual disks; select every segment (.E01, .E02 … or .001, .002 …) of a split image, plus any hash sidecar (.txt, .md5), and any parent disks or extents of a virtual disk</p>
             </div>
           </label>
         </div>
 
+        <E01Creator />
+
         {loading && (
-          <div className="text-center py-8">
-            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto mb-2"></div>
-            <p>Parsing E01 file...</p>
+          <div className="py-8 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span>{progress ? STAGE_LABELS[progress.stage] : 'Starting analysis'}...</span>
+              {progress && progress.total > 0 && (
+                <span className="font-mono">{Math.floor((progress.completed / progress.total) * 100)}%</span>
+              )}
+            </div>
+            <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded overflow-hidden">
+              {progress && progress.total > 0 ? (
+                <div className="h-full bg-blue-500" style={{ width: `${(progress.completed / progress.total) * 100}%` }} />
+              ) : (
+                <div className="h-full w-full bg-blue-500 animate-pulse" />
+              )}
+            </div>
+            <div className="flex items-center justify-between text-gray-500">
+              <span>
+                Read {formatBytes(progress?.bytesRead ?? 0)} · {progress?.sectionsFound ?? 0} sections · {progress?.chunksInflated ?? 0} chunks inflated
+              </span>
+              <button onClick={cancelParse} className="px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded">Cancel</button>
+            </div>
           </div>
         )}
 
@@ -444,7 +932,7 @@ export default function E01Viewer() {
                 <span className="text-gray-500 ml-2">({formatBytes(fileSize)})</span>
               </div>
               <div className={`px-3 py-1 rounded-full text-sm font-medium ${result.valid ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' : 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'}`}>
-                {result.valid ? 'Valid E01' : 'Invalid'}
+                {result.valid ? `Valid ${result.format}` : 'Invalid'}
               </div>
             </div>
 
@@ -460,12 +948,10 @@ export default function E01Viewer() {
               </div>
             )}
 
-            {result.errors.length > 0 && (
+            {result.diagnostics.length > 0 && (
               <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg p-4">
-                <h3 className="font-medium text-red-800 dark:text-red-200 mb-2">Errors</h3>
-                <ul className="list-disc list-inside text-red-700 dark:text-red-300 text-sm">
-                  {result.errors.map((error, i) => (<li key={i}>{error}</li>))}
-                </ul>
+                <h3 className="font-medium text-red-800 dark:text-red-200 mb-2">Diagnostics</h3>
+                <DiagnosticList diagnostics={result.diagnostics} onShowOffset={result.media ? showInHex : undefined} />
               </div>
             )}
 
@@ -500,14 +986,32 @@ export default function E01Viewer() {
                         <p className="text-gray-500 col-span-2">No metadata found in header</p>
                       )}
                     </div>
+                    {result.metadataConflicts.length > 0 && (
+                      <div className="mt-3 bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-200 dark:border-yellow-800 rounded-lg p-3 text-sm">
+                        <div className="font-medium text-yellow-800 dark:text-yellow-200 mb-1">header and header2 disagree</div>
+                        <div className="grid grid-cols-3 gap-x-3 gap-y-1 text-yellow-700 dark:text-yellow-300">
+                          <span className="font-medium">Field</span>
+                          <span className="font-medium">header</span>
+                          <span className="font-medium">header2 (shown above)</span>
+                          {result.metadataConflicts.map((conflict) => (
+                            <div key={conflict.field} className="contents">
+                              <span>{conflict.field}</span>
+                              <span className="font-mono break-all">{conflict.header}</span>
+                              <span className="font-mono break-all">{conflict.header2}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                   </div>
 
                   {result.volumeInfo && (
                     <div>
                       <h3 className="font-medium text-lg mb-2">Volume Information</h3>
                       <div className="grid grid-cols-2 gap-2 text-sm">
-                        <span className="text-gray-500">Media Type:</span>
-                        <span className="font-mono">{result.volumeInfo.mediaType}</span>
+                        {result.volumeInfo.layout && (<><span className="text-gray-500">Layout:</span><span className="font-mono">{result.volumeInfo.layout === 'smart' ? 'SMART (EWF-S01)' : 'EnCase'}</span></>)}
+                        {result.volumeInfo.mediaType !== undefined && (<><span className="text-gray-500">Media Type:</span><span className="font-mono">{mediaTypeName(result.volumeInfo.mediaType)}</span></>)}
+                        {result.volumeInfo.mediaFlags !== undefined && (<><span className="text-gray-500">Media Flags:</span><span className="font-mono">{mediaFlagNames(result.volumeInfo.mediaFlags).join(', ') || 'none'}</span></>)}
                         <span className="text-gray-500">Chunk Count:</span>
                         <span className="font-mono">{result.volumeInfo.chunkCount}</span>
                         <span className="text-gray-500">Sectors per Chunk:</span>
@@ -516,16 +1020,166 @@ export default function E01Viewer() {
                         <span className="font-mono">{result.volumeInfo.bytesPerSector}</span>
                         <span className="text-gray-500">Total Sectors:</span>
                         <span className="font-mono">{result.volumeInfo.sectorCount?.toString()}</span>
+                        {!!result.volumeInfo.cylinders && (<><span className="text-gray-500">CHS Geometry:</span><span className="font-mono">{result.volumeInfo.cylinders} / {result.volumeInfo.heads} / {result.volumeInfo.sectorsPerTrack}</span></>)}
+                        {result.volumeInfo.compressionLevel !== undefined && (<><span className="text-gray-500">Compression Level:</span><span className="font-mono">{compressionLevelName(result.volumeInfo.compressionLevel)}</span></>)}
+                        {!!result.volumeInfo.errorGranularity && (<><span className="text-gray-500">Error Granularity:</span><span className="font-mono">{result.volumeInfo.errorGranularity} sectors</span></>)}
+                        {result.volumeInfo.setIdentifier && (<><span className="text-gray-500">Set Identifier:</span><span className="font-mono text-xs break-all">{result.volumeInfo.setIdentifier}</span></>)}
                       </div>
                     </div>
                   )}
 
-                  {result.hash && (
+                  {(result.hash || result.media) && (
                     <div>
                       <h3 className="font-medium text-lg mb-2">Hash Values</h3>
                       <div className="grid grid-cols-2 gap-2 text-sm">
-                        {result.hash.md5 && (<><span className="text-gray-500">MD5:</span><span className="font-mono text-xs break-all">{result.hash.md5}</span></>)}
-                        {result.hash.sha1 && (<><span className="text-gray-500">SHA1:</span><span className="font-mono text-xs break-all">{result.hash.sha1}</span></>)}
+                        {result.hash?.md5 && (<><span className="text-gray-500">MD5:</span><span className="font-mono text-xs break-all">{result.hash.md5}</span></>)}
+                        {result.hash?.sha1 && (<><span className="text-gray-500">SHA1:</span><span className="font-mono text-xs break-all">{result.hash.sha1}</span></>)}
+                        {!result.hash?.md5 && !result.hash?.sha1 && (<span className="text-gray-500 col-span-2">No acquisition hash stored</span>)}
+                      </div>
+
+                      {result.media && (
+                        <div className="mt-3 text-sm">
+                          {hashProgress ? (
+                            <div className="space-y-1">
+                              <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded overflow-hidden">
+                                <div className="h-full bg-blue-500" style={{ width: `${hashProgress.total ? (hashProgress.bytesHashed / hashProgress.total) * 100 : 0}%` }} />
+                              </div>
+                              <div className="flex items-center gap-2">
+                                <span className="text-gray-500">Hashing {formatBytes(hashProgress.bytesHashed)} / {formatBytes(hashProgress.total)}</span>
+                                <button onClick={cancelHashVerification} className="px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded">Cancel</button>
+                              </div>
+                            </div>
+                          ) : (
+                            <div className="flex items-center gap-3">
+                              <button onClick={startHashVerification} className="px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded">Verify acquisition hash</button>
+                              <label className="flex items-center gap-1 text-gray-500">
+                                <input type="checkbox" checked={includeSha256} onChange={(e) => setIncludeSha256(e.target.checked)} />
+                                Include SHA-256
+                              </label>
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      {result.verification && (
+                        <div className="mt-3 text-sm">
+                          <div className={`font-medium ${result.verification.status === 'verified' ? 'text-green-700 dark:text-green-300' : result.verification.status === 'mismatch' ? 'text-red-700 dark:text-red-300' : 'text-gray-500'}`}>
+                            {result.verification.status === 'verified' && 'Verified: computed hashes match the acquisition hashes'}
+                            {result.verification.status === 'mismatch' && 'MISMATCH: computed hashes differ from the acquisition hashes'}
+                            {result.verification.status === 'unverifiable' && 'No stored hash to compare against'}
+                            {result.verification.status === 'cancelled' && 'Verification cancelled'}
+                          </div>
+                          <div className="grid grid-cols-2 gap-2 mt-2">
+                            {result.verification.hashes.map((hash) => (
+                              <div key={hash.algorithm} className="contents">
+                                <span className="text-gray-500">{hash.standard} ({hash.result}):</span>
+                                <span className="font-mono text-xs break-all">{hash.computed}</span>
+                              </div>
+                            ))}
+                            <span className="text-gray-500">Started:</span>
+                            <span className="font-mono text-xs">{result.verification.startedAt}</span>
+                            <span className="text-gray-500">Completed:</span>
+                            <span className="font-mono text-xs">{result.verification.completedAt}</span>
+                            <span className="text-gray-500">Bytes Hashed:</span>
+                            <span className="font-mono text-xs">{result.verification.bytesHashed} / {result.verification.mediaSize}</span>
+                            <span className="text-gray-500">Corrupt Chunks:</span>
+                            <span className="font-mono text-xs">{result.verification.chunkIssues.length}</span>
+                          </div>
+                          <button onClick={exportVerificationReport} className="mt-2 px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded">Export report</button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {result.media && result.media.chunkCount > 0 && (
+                    <div>
+                      <h3 className="font-medium text-lg mb-2">Integrity</h3>
+                      <div className="grid grid-cols-2 gap-2 text-sm">
+                        <span className="text-gray-500">Section Checksum Errors:</span>
+                        <span className="font-mono">{result.integrity.sectionIssues.length}</span>
+                        <span className="text-gray-500">Corrupt Chunks:</span>
+                        <span className="font-mono">{result.integrity.chunkIssues.length}</span>
+                        <span className="text-gray-500">Chunks Verified:</span>
+                        <span className="font-mono">{result.integrity.chunksVerified} / {result.integrity.chunkCount}</span>
+                      </div>
+                      <div className="flex items-center gap-2 text-sm mt-2">
+                        {verifyProgress ? (
+                          <>
+                            <span className="text-gray-500">Verifying {verifyProgress.verified} / {verifyProgress.total} chunks...</span>
+                            <button onClick={() => verifyAbort.current?.abort()} className="px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded">Cancel</button>
+                          </>
+                        ) : (
+                          result.integrity.chunksVerified < result.integrity.chunkCount && (
+                            <button onClick={verifyChunks} className="px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded">Verify all chunks</button>
+                          )
+                        )}
+                      </div>
+                      {result.integrity.sectionIssues.length > 0 && (
+                        <ul className="text-sm text-red-700 dark:text-red-300 mt-2">
+                          {result.integrity.sectionIssues.map((issue, i) => (
+                            <li key={i}>Segment {issue.segment}: {issue.type} @ 0x{issue.offset.toString(16)} - {issue.problem}</li>
+                          ))}
+                        </ul>
+                      )}
+                      {result.integrity.chunkIssues.length > 0 && (
+                        <ul className="text-sm text-red-700 dark:text-red-300 mt-2 max-h-48 overflow-y-auto">
+                          {result.integrity.chunkIssues.map((issue) => (
+                            <li key={issue.chunk}>
+                              <button onClick={() => showInHex(issue.mediaOffset)} className="hover:underline text-left">
+                                Chunk {issue.chunk}: {issue.status === 'inflate-failure' ? 'inflate failure' : 'checksum mismatch'} - bytes 0x{issue.mediaOffset.toString(16)}-0x{(issue.mediaOffset + issue.length - 1).toString(16)} (sectors {Math.floor(issue.mediaOffset / sectorSize)}-{Math.ceil((issue.mediaOffset + issue.length) / sectorSize) - 1})
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+
+                  {result.acquisitionErrors.length > 0 && (
+                    <div>
+                      <h3 className="font-medium text-lg mb-2">Acquisition Errors ({result.acquisitionErrors.length})</h3>
+                      <p className="text-sm text-gray-500 mb-2">
+                        These sectors could not be read from the source device and were stored as filler.
+                      </p>
+                      <ul className="text-sm text-red-700 dark:text-red-300 max-h-48 overflow-y-auto">
+                        {result.acquisitionErrors.map((range, i) => {
+                          const start = range.firstSector * sectorSize;
+                          return (
+                            <li key={i}>
+                              <button onClick={() => showInHex(start)} disabled={!result.media} className="hover:underline text-left disabled:no-underline">
+                                Sectors {range.firstSector}-{range.firstSector + range.sectorCount - 1} ({range.sectorCount} sectors) - bytes 0x{start.toString(16)}-0x{(start + range.sectorCount * sectorSize - 1).toString(16)}
+                              </button>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </div>
+                  )}
+
+                  {result.sessions.length > 0 && (
+                    <div>
+                      <h3 className="font-medium text-lg mb-2">Sessions ({result.sessions.length})</h3>
+                      <div className="grid grid-cols-2 gap-2 text-sm">
+                        {result.sessions.map((session, i) => (
+                          <div key={i} className="contents">
+                            <span className="text-gray-500">{session.audio ? 'Audio track' : 'Session'} {i + 1}:</span>
+                            <span className="font-mono">sectors {session.firstSector}-{session.firstSector + session.sectorCount - 1} ({session.sectorCount} sectors)</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {result.segments.length > 1 && (
+                    <div>
+                      <h3 className="font-medium text-lg mb-2">Segments ({result.segments.length})</h3>
+                      <div className="grid grid-cols-2 gap-2 text-sm">
+                        {result.segments.map((segment) => (
+                          <div key={segment.number} className="contents">
+                            <span className="text-gray-500">Segment {segment.number}:</span>
+                            <span className="font-mono">{segment.fileName} ({formatBytes(segment.size)})</span>
+                          </div>
+                        ))}
                       </div>
                     </div>
                   )}
@@ -549,6 +1203,7 @@ export default function E01Viewer() {
                           <div>
                             <span className="font-medium text-blue-600 dark:text-blue-400">{section.type.toUpperCase()}</span>
                             <span className="text-gray-500 ml-2">@ offset 0x{section.offset.toString(16)}</span>
+                            {result.segments.length > 1 && <span className="text-gray-500 ml-2">(segment {section.segment})</span>}
                           </div>
                           <span className="text-gray-500">{formatBytes(Number(section.size))}</span>
                         </div>
@@ -559,14 +1214,38 @@ export default function E01Viewer() {
                 </div>
               )}
 
-              {activeTab === 'files' && (
+              {activeTab === 'files' && result.logicalFiles && (
+                <div className="p-4">
+                  <h3 className="font-medium text-lg mb-2">
+                    Captured files ({result.logicalFiles.fileCount})
+                    <span className="text-gray-500 ml-2 text-sm font-normal">- {formatFileSize(result.logicalFiles.totalBytes)}</span>
+                  </h3>
+                  {result.logicalFiles.diagnostics.length > 0 && (
+                    <div className="bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-200 dark:border-yellow-800 rounded-lg p-3 mb-4">
+                      <DiagnosticList diagnostics={result.logicalFiles.diagnostics} />
+                    </div>
+                  )}
+                  <div className="border rounded-lg dark:border-gray-700 max-h-96 overflow-y-auto">
+                    {result.logicalFiles.rootEntries.length > 0 ? (
+                      result.logicalFiles.rootEntries.map((entry, i) => (<LogicalFileTreeItem key={i} entry={entry} depth={0} onShowData={showInHex} />))
+                    ) : (
+                      <p className="text-gray-500 p-4">No files found</p>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">Click a file for its recorded hashes and timestamps</p>
+                </div>
+              )}
+
+              {activeTab === 'files' && !result.logicalFiles && (
                 <div className="p-4">
                   {partitionTable && (
                     <div className="mb-4">
-                      <h3 className="font-medium text-lg mb-2">Partitions ({partitionTable.type})</h3>
+                      <h3 className="font-medium text-lg mb-2">
+                        Partitions ({partitionTable.type}{partitionTable.gpt?.header === 'backup' && ', from the backup header'})
+                      </h3>
                       <div className="space-y-2">
-                        {partitionTable.partitions.length > 0 ? (
-                          partitionTable.partitions.map((partition) => (
+                        {listedPartitions.length > 0 ? (
+                          listedPartitions.map((partition) => (
                             <div
                               key={partition.index}
                               className={`bg-gray-50 dark:bg-gray-800 rounded p-3 text-sm cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors ${selectedPartition === partition.index ? 'ring-2 ring-blue-500' : ''}`}
@@ -578,12 +1257,22 @@ export default function E01Viewer() {
                                   {partition.name && <span className="text-gray-500 ml-2">({partition.name})</span>}
                                   <div className="text-gray-500 text-xs mt-1">
                                     {partition.type}
-                                    {partition.filesystem && <span className="ml-2 text-blue-600 dark:text-blue-400">[{partition.filesystem}]</span>}
+                                    {partition.parent !== undefined && <span className="ml-2">in partition {partition.parent}</span>}
+                                    {partition.volumeSystem && <span className="ml-2">holds a {partition.volumeSystem.type} label</span>}
+                                    {partition.recovered && <span className="ml-2 text-amber-600 dark:text-amber-400">recovered by scan</span>}
+                                    {partition.volume && (
+                                      <span className="ml-2">
+                                        {partition.volume.layout}, {partition.volume.members[0]?.index === 0 ? 'on the disk' : `on partition${partition.volume.members.length === 1 ? '' : 's'} ${partition.volume.members.map(m => m.index).join(', ')}`}
+                                      </span>
+                                    )}
+                                    {partition.filesystem && <span className="ml-2 text-blue-600 dark:text-blue-400">[{partition.filesystem}{partition.volumeLabel && ` "${partition.volumeLabel}"`}]</span>}
+                                    {partition.ebrLBA !== undefined && <span className="ml-2">logical, EBR at LBA {partition.ebrLBA}</span>}
+                                    {partition.attributes && <span className="ml-2">{partition.attributes.join(', ')}</span>}
                                   </div>
                                 </div>
                                 <div className="text-right">
                                   <div className="text-gray-500">{formatBytes(Number(partition.sizeBytes))}</div>
-                                  <div className="text-xs text-gray-400">LBA {partition.startLBA} - {partition.endLBA}</div>
+                                  <div className="text-xs text-gray-400">{partition.volume ? 'virtual volume' : `LBA ${partition.startLBA} - ${partition.endLBA}`}</div>
                                 </div>
                               </div>
                             </div>
@@ -592,18 +1281,144 @@ export default function E01Viewer() {
                           <p className="text-gray-500">No partitions found</p>
                         )}
                       </div>
+                      {partitionTable.diagnostics.length > 0 && (
+                        <div className="bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-200 dark:border-yellow-800 rounded-lg p-3 mt-2">
+                          <DiagnosticList diagnostics={partitionTable.diagnostics} onShowOffset={showInHex} />
+                        </div>
+                      )}
                       <p className="text-xs text-gray-500 mt-2">Click a partition to browse its files</p>
+
+                      <h4 className="font-medium mt-4 mb-2">Disk layout</h4>
+                      <table className="w-full text-xs font-mono">
+                        <tbody>
+                          {layout.map((region, i) => (
+                            <tr key={i} className={region.kind === 'unallocated' ? 'text-amber-700 dark:text-amber-300' : 'text-gray-600 dark:text-gray-400'}>
+                              <td className="pr-2">
+                                <button onClick={() => showInHex(region.startLBA * partitionTable.sectorSize)} className="hover:underline">{region.startLBA}</button>
+                              </td>
+                              <td className="pr-2">{region.endLBA}</td>
+                              <td className="pr-2 text-right">{formatBytes(region.sizeLBA * partitionTable.sectorSize)}</td>
+                              <td className="font-sans">
+                                {region.kind === 'partition' ? `Partition ${region.partition!.index}` : region.kind === 'table' ? region.description : 'Unallocated'}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      <div className="flex items-center gap-2 text-sm mt-2">
+                        {scanProgress ? (
+                          <>
+                            <span className="text-gray-500">Scanning {formatBytes(scanProgress.scanned)} / {formatBytes(scanProgress.total)}...</span>
+                            <button onClick={() => scanAbort.current?.abort()} className="px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded">Cancel</button>
+                          </>
+                        ) : (
+                          layout.some(region => region.kind === 'unallocated') && (
+                            <button onClick={scanForLostPartitions} className="px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded">Scan unallocated space for lost partitions</button>
+                          )
+                        )}
+                        {lostPartitions && !scanProgress && (
+                          <span className="text-gray-500">{lostPartitions.length === 0 ? 'No lost partitions found' : `${lostPartitions.length} found`}</span>
+                        )}
+                      </div>
                     </div>
                   )}
 
-                  {!partitionTable && result.rawDiskData && <p className="text-gray-500">Could not detect partition table</p>}
-                  {!result.rawDiskData && <p className="text-gray-500">No raw disk data available for file browsing</p>}
+                  {!partitionTable && result.media && <p className="text-gray-500">Could not detect partition table</p>}
+
+                  {result.media && (
+                    <div className="mb-4">
+                      <h3 className="font-medium text-lg mb-2">Raw Export</h3>
+                      <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <select value={exportTarget ?? ''} onChange={(e) => setExportTarget(e.target.value === '' ? null : Number(e.target.value))} disabled={!!exportProgress} className="px-2 py-1 bg-gray-100 dark:bg-gray-800 rounded">
+                          <option value="">Whole media ({formatBytes(result.media.size)})</option>
+                          {listedPartitions.map((partition) => (
+                            <option key={partition.index} value={partition.index}>Partition {partition.index} ({formatBytes(Number(partition.sizeBytes))})</option>
+                          ))}
+                        </select>
+                        <select value={exportPartSize} onChange={(e) => setExportPartSize(Number(e.target.value))} disabled={!!exportProgress} className="px-2 py-1 bg-gray-100 dark:bg-gray-800 rounded">
+                          {EXPORT_PART_SIZES.map(({ label, bytes }) => (<option key={bytes} value={bytes}>{label}</option>))}
+                        </select>
+                        {exportPartSize === 0 && (
+                          <select value={exportExtension} onChange={(e) => setExportExtension(e.target.value as 'dd' | 'img')} disabled={!!exportProgress} className="px-2 py-1 bg-gray-100 dark:bg-gray-800 rounded">
+                            <option value="dd">.dd</option>
+                            <option value="img">.img</option>
+                          </select>
+                        )}
+                        {exportProgress ? (
+                          <button onClick={() => exportAbort.current?.abort()} className="px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded">Cancel</button>
+                        ) : (
+                          <button onClick={startRawExport} className="px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700">Export</button>
+                        )}
+                      </div>
+                      {exportProgress && (
+                        <div className="mt-2 text-sm space-y-1">
+                          <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded overflow-hidden">
+                            <div className="h-full bg-blue-500" style={{ width: `${exportProgress.total ? (exportProgress.written / exportProgress.total) * 100 : 0}%` }} />
+                          </div>
+                          <span className="text-gray-500">Written {formatBytes(exportProgress.written)} / {formatBytes(exportProgress.total)}</span>
+                        </div>
+                      )}
+                      {exportResult && (
+                        <div className="grid grid-cols-2 gap-2 text-sm mt-2">
+                          <span className="text-gray-500">Files:</span>
+                          <span className="font-mono text-xs break-all">{[...exportResult.parts, exportResult.sidecar].join(', ')}</span>
+                          {exportResult.hashes.map(({ algorithm, digest }) => (
+                            <div key={algorithm} className="contents">
+                              <span className="text-gray-500">{algorithm.toUpperCase()}:</span>
+                              <span className="font-mono text-xs break-all">{digest}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {!result.media && <p className="text-gray-500">No raw disk data available for file browsing</p>}
 
-                  {fsErrors.length > 0 && (
+                  {fsDiagnostics.length > 0 && (
                     <div className="bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-200 dark:border-yellow-800 rounded-lg p-3 mb-4">
-                      <ul className="text-yellow-700 dark:text-yellow-300 text-sm">
-                        {fsErrors.map((err, i) => (<li key={i}>{err}</li>))}
-                      </ul>
+                      <DiagnosticList diagnostics={fsDiagnostics} onShowOffset={showInHex} />
+                    </div>
+                  )}
+
+                  {encryption && (
+                    <div className="mb-4">
+                      <h3 className="font-medium text-lg mb-2">Encrypted Volume (partition {encryption.partition.index})</h3>
+                      <div className="grid grid-cols-2 gap-2 text-sm">
+                        {describeEncryption(encryption.info).map(([label, value]) => (
+                          <div key={label} className="contents">
+                            <span className="text-gray-500">{label}:</span>
+                            <span className="font-mono text-xs break-all">{value}</span>
+                          </div>
+                        ))}
+                      </div>
+                      {!encryption.unlocked && (
+                        <div className="flex flex-wrap items-center gap-2 text-sm mt-2">
+                          <select value={keyType} onChange={(e) => setKeyType(e.target.value as VolumeKey['type'])} disabled={parsingFiles} className="px-2 py-1 bg-gray-100 dark:bg-gray-800 rounded">
+                            {encryption.info.scheme === 'BitLocker' && <option value="recovery-password">Recovery password</option>}
+                            <option value="password">{encryption.info.scheme === 'BitLocker' ? 'Password' : 'Passphrase'}</option>
+                            <option value="key-file">{encryption.info.scheme === 'BitLocker' ? 'Startup key (.BEK)' : 'Key file'}</option>
+                          </select>
+                          {keyType === 'key-file' ? (
+                            <input type="file" onChange={(e) => setKeyFile(e.target.files?.[0] ?? null)} disabled={parsingFiles} className="text-sm" />
+                          ) : (
+                            <input
+                              type={keyType === 'password' ? 'password' : 'text'}
+                              value={keyText}
+                              onChange={(e) => setKeyText(e.target.value)}
+                              placeholder={keyType === 'recovery-password' ? '000000-000000-000000-000000-000000-000000-000000-000000' : ''}
+                              disabled={parsingFiles}
+                              className="px-2 py-1 bg-gray-100 dark:bg-gray-800 rounded font-mono text-xs flex-1 min-w-64"
+                            />
+                          )}
+                          <button
+                            onClick={unlockVolume}
+                            disabled={parsingFiles || (keyType === 'key-file' ? !keyFile : !keyText)}
+                            className="px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded disabled:opacity-50"
+                          >
+                            Unlock
+                          </button>
+                        </div>
+                      )}
                     </div>
                   )}
 
@@ -636,16 +1451,18 @@ export default function E01Viewer() {
                 <div className="p-4">
                   <div className="flex justify-between items-center mb-4">
                     <h3 className="font-medium text-lg">Hex Viewer</h3>
-                    {result.rawDiskData && (
+                    {result.media && (
                       <div className="flex items-center gap-2 text-sm">
                         <button onClick={() => setHexOffset(Math.max(0, hexOffset - 256))} disabled={hexOffset === 0} className="px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded disabled:opacity-50">Prev</button>
-                        <span className="text-gray-500">Offset: 0x{hexOffset.toString(16)} / {formatBytes(result.rawDiskData.length)}</span>
-                        <button onClick={() => setHexOffset(Math.min(result.rawDiskData!.length - 256, hexOffset + 256))} disabled={hexOffset >= (result.rawDiskData?.length ?? 0) - 256} className="px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded disabled:opacity-50">Next</button>
+                        <span className="text-gray-500">Offset: 0x{hexOffset.toString(16)} (sector {Math.floor(hexOffset / sectorSize)}) / {formatBytes(result.media.size)}</span>
+                        <button onClick={() => setHexOffset(Math.min(result.media!.size - 256, hexOffset + 256))} disabled={hexOffset >= (result.media?.size ?? 0) - 256} className="px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded disabled:opacity-50">Next</button>
                       </div>
                     )}
                   </div>
                   <div className="bg-gray-900 text-green-400 font-mono text-xs p-4 rounded overflow-x-auto">
-                    {result.rawDiskData ? (<pre>{hexDump(result.rawDiskData, hexOffset, 256).join('\n')}</pre>) : (<p className="text-gray-500">No raw disk data extracted</p>)}
+                    {result.media && hexData ? (
+                      <HexDumpView data={hexData} address={hexOffset} bytesPerSector={sectorSize} errors={result.acquisitionErrors} />
+                    ) : (<p className="text-gray-500">No raw disk data extracted</p>)}
                   </div>
                 </div>
               )}
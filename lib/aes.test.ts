@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { createCipheriv } from 'node:crypto';
+import { test } from 'node:test';
+import { Aes, cbcDecrypt, ccmDecrypt, xtsDecrypt } from './aes';
+
+const bytes = (hex: string) => new Uint8Array(Buffer.from(hex, 'hex'));
+const hex = (data: Uint8Array) => Buffer.from(data).toString('hex');
+const pattern = (length: number, seed: number) => new Uint8Array(length).map((_, i) => (i * 73 + seed) & 0xff);
+
+// FIPS-197 appendix C
+const PLAINTEXT = '00112233445566778899aabbccddeeff';
+const BLOCK_VECTORS = [
+  ['000102030405060708090a0b0c0d0e0f', '69c4e0d86a7b0430d8cdb78070b4c55a'],
+  ['000102030405060708090a0b0c0d0e0f1011121314151617', 'dda97ca4864cdfe06eaf70a0ec0d7191'],
+  ['000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f', '8ea2b7ca516745bfeafc49904b496089'],
+];
+
+test('AES encrypts and decrypts the FIPS-197 blocks', () => {
+  for (const [key, ciphertext] of BLOCK_VECTORS) {
+    const aes = new Aes(bytes(key));
+    assert.equal(hex(aes.encrypt(bytes(PLAINTEXT))), ciphertext);
+    const out = new Uint8Array(16);
+    aes.decryptBlock(bytes(ciphertext), 0, out, 0);
+    assert.equal(hex(out), PLAINTEXT);
+  }
+  assert.throws(() => new Aes(new Uint8Array(20)));
+});
+
+test('CBC decryption matches NIST SP 800-38A F.2.2', () => {
+  const data = bytes('7649abac8119b246cee98e9b12e9197d5086cb9b507219ee95db113a917678b2');
+  cbcDecrypt(new Aes(bytes('2b7e151628aed2a6abf7158809cf4f3c')), bytes('000102030405060708090a0b0c0d0e0f'), data);
+  assert.equal(hex(data), '6bc1bee22e409f96e93d7e117393172aae2d8a571e03ac9c9eb76fac45af8e51');
+});
+
+test('XTS decryption matches IEEE 1619 vector 2', () => {
+  const aes = new Aes(bytes('11'.repeat(16)));
+  const tweak = new Aes(bytes('22'.repeat(16))).encrypt(bytes('3333333333' + '00'.repeat(11)));
+  const data = bytes('c454185e6a16936e39334038acef838bfb186fff7480adc4289382ecd6d394f0');
+  xtsDecrypt(aes, tweak, data);
+  assert.equal(hex(data), '44'.repeat(32));
+});
+
+test('XTS decryption matches Node over a whole sector', () => {
+  const key = pattern(64, 1);
+  const plain = pattern(512, 2);
+  const unit = bytes('0500000000000000' + '00'.repeat(8));
+  const cipher = createCipheriv('aes-256-xts', key, unit);
+  const data = new Uint8Array(Buffer.concat([cipher.update(plain), cipher.final()]));
+  xtsDecrypt(new Aes(key.subarray(0, 32)), new Aes(key.subarray(32)).encrypt(unit), data);
+  assert.deepEqual(data, plain);
+});
+
+test('CCM decryption checks the tag stored before the message', () => {
+  const key = pattern(32, 3);
+  const nonce = pattern(12, 4);
+  const message = pattern(44, 5);
+  const cipher = createCipheriv('aes-256-ccm', key, nonce, { authTagLength: 16 });
+  const encrypted = Buffer.concat([cipher.update(message), cipher.final()]);
+  const data = new Uint8Array(Buffer.concat([cipher.getAuthTag(), encrypted]));
+
+  assert.deepEqual(ccmDecrypt(new Aes(key), nonce, data), message);
+  assert.equal(ccmDecrypt(new Aes(pattern(32, 6)), nonce, data), null);
+  data[20] ^= 1;
+  assert.equal(ccmDecrypt(new Aes(key), nonce, data), null);
+});
@@ -0,0 +1,230 @@
+/**
+ * AES block cipher and the modes disk encryption uses
+ *
+ * WebCrypto has no ECB, XTS or CCM, and only padded CBC, so the cipher is
+ * implemented here with the usual T-tables. Blocks are handled as four
+ * big-endian words.
+ * - CBC: BitLocker (with or without the Elephant diffuser) and LUKS
+ * - XTS: BitLocker on Windows 10 and later, and LUKS's default
+ * - CCM: how BitLocker wraps its volume master and volume encryption keys
+ */
+
+const SBOX = new Uint8Array(256);
+const INV_SBOX = new Uint8Array(256);
+// Words are kept as signed 32-bit integers, which V8 handles fastest
+const TE = [new Int32Array(256), new Int32Array(256), new Int32Array(256), new Int32Array(256)];
+const TD = [new Int32Array(256), new Int32Array(256), new Int32Array(256), new Int32Array(256)];
+
+(function buildTables() {
+  // Powers and logarithms of the generator 3 in GF(2^8)
+  const exp = new Uint8Array(256);
+  const log = new Uint8Array(256);
+  for (let i = 0, v = 1; i < 255; i++) {
+    exp[i] = v;
+    log[v] = i;
+    v ^= ((v << 1) ^ (v & 0x80 ? 0x11b : 0)) & 0xff;
+  }
+  const mul = (a: number, b: number) => (a && b ? exp[(log[a] + log[b]) % 255] : 0);
+  const rotl8 = (b: number, n: number) => ((b << n) | (b >>> (8 - n))) & 0xff;
+
+  for (let a = 0; a < 256; a++) {
+    const inverse = a === 0 ? 0 : exp[(255 - log[a]) % 255];
+    const s = inverse ^ rotl8(inverse, 1) ^ rotl8(inverse, 2) ^ rotl8(inverse, 3) ^ rotl8(inverse, 4) ^ 0x63;
+    SBOX[a] = s;
+    INV_SBOX[s] = a;
+  }
+  for (let a = 0; a < 256; a++) {
+    const s = SBOX[a];
+    const enc = (mul(s, 2) << 24) | (s << 16) | (s << 8) | mul(s, 3);
+    const i = INV_SBOX[a];
+    const dec = (mul(i, 14) << 24) | (mul(i, 9) << 16) | (mul(i, 13) << 8) | mul(i, 11);
+    for (let t = 0; t < 4; t++) {
+      TE[t][a] = t === 0 ? enc : (enc >>> (8 * t)) | (enc << (32 - 8 * t));
+      TD[t][a] = t === 0 ? dec : (dec >>> (8 * t)) | (dec << (32 - 8 * t));
+    }
+  }
+})();
+
+function readWord(data: Uint8Array, offset: number): number {
+  return (data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3];
+}
+
+function writeWord(data: Uint8Array, offset: number, word: number): void {
+  data[offset] = word >>> 24;
+  data[offset + 1] = word >>> 16;
+  data[offset + 2] = word >>> 8;
+  data[offset + 3] = word;
+}
+
+/**
+ * The last round's byte substitution, taking each byte from its own word
+ */
+function lastRound(box: Uint8Array, a: number, b: number, c: number, d: number): number {
+  return (box[a >>> 24] << 24) | (box[(b >>> 16) & 0xff] << 16) | (box[(c >>> 8) & 0xff] << 8) | box[d & 0xff];
+}
+
+export class Aes {
+  private readonly rounds: number;
+  private readonly encryptKeys: Int32Array;
+  private readonly decryptKeys: Int32Array;
+
+  constructor(key: Uint8Array) {
+    if (key.length !== 16 && key.length !== 24 && key.length !== 32) throw new Error(`AES key must be 16, 24 or 32 bytes, not ${key.length}`);
+    const nk = key.length / 4;
+    this.rounds = nk + 6;
+    const words = 4 * (this.rounds + 1);
+
+    const ek = new Int32Array(words);
+    for (let i = 0; i < nk; i++) ek[i] = readWord(key, i * 4);
+    for (let i = nk, rcon = 1; i < words; i++) {
+      let t = ek[i - 1];
+      if (i % nk === 0) {
+        t = (SBOX[(t >>> 16) & 0xff] << 24) | (SBOX[(t >>> 8) & 0xff] << 16) | (SBOX[t & 0xff] << 8) | SBOX[t >>> 24];
+        t ^= rcon << 24;
+        rcon = (rcon << 1) ^ (rcon & 0x80 ? 0x11b : 0);
+      } else if (nk > 6 && i % nk === 4) {
+        t = (SBOX[t >>> 24] << 24) | (SBOX[(t >>> 16) & 0xff] << 16) | (SBOX[(t >>> 8) & 0xff] << 8) | SBOX[t & 0xff];
+      }
+      ek[i] = ek[i - nk] ^ t;
+    }
+
+    // The equivalent inverse cipher: rounds reversed, inner ones through InvMixColumns
+    const dk = new Int32Array(words);
+    for (let round = 0; round <= this.rounds; round++) {
+      for (let j = 0; j < 4; j++) {
+        const w = ek[(this.rounds - round) * 4 + j];
+        dk[round * 4 + j] = round === 0 || round === this.rounds
+          ? w
+          : TD[0][SBOX[w >>> 24]] ^ TD[1][SBOX[(w >>> 16) & 0xff]] ^ TD[2][SBOX[(w >>> 8) & 0xff]] ^ TD[3][SBOX[w & 0xff]];
+      }
+    }
+    this.encryptKeys = ek;
+    this.decryptKeys = dk;
+  }
+
+  encryptBlock(input: Uint8Array, inputOffset: number, output: Uint8Array, outputOffset: number): void {
+    const k = this.encryptKeys;
+    const t0 = TE[0], t1 = TE[1], t2 = TE[2], t3 = TE[3];
+    let s0 = readWord(input, inputOffset) ^ k[0];
+    let s1 = readWord(input, inputOffset + 4) ^ k[1];
+    let s2 = readWord(input, inputOffset + 8) ^ k[2];
+    let s3 = readWord(input, inputOffset + 12) ^ k[3];
+    let ki = 4;
+    for (let round = 1; round < this.rounds; round++, ki += 4) {
+      const a = t0[s0 >>> 24] ^ t1[(s1 >>> 16) & 0xff] ^ t2[(s2 >>> 8) & 0xff] ^ t3[s3 & 0xff] ^ k[ki];
+      const b = t0[s1 >>> 24] ^ t1[(s2 >>> 16) & 0xff] ^ t2[(s3 >>> 8) & 0xff] ^ t3[s0 & 0xff] ^ k[ki + 1];
+      const c = t0[s2 >>> 24] ^ t1[(s3 >>> 16) & 0xff] ^ t2[(s0 >>> 8) & 0xff] ^ t3[s1 & 0xff] ^ k[ki + 2];
+      const d = t0[s3 >>> 24] ^ t1[(s0 >>> 16) & 0xff] ^ t2[(s1 >>> 8) & 0xff] ^ t3[s2 & 0xff] ^ k[ki + 3];
+      s0 = a;
+      s1 = b;
+      s2 = c;
+      s3 = d;
+    }
+    writeWord(output, outputOffset, lastRound(SBOX, s0, s1, s2, s3) ^ k[ki]);
+    writeWord(output, outputOffset + 4, lastRound(SBOX, s1, s2, s3, s0) ^ k[ki + 1]);
+    writeWord(output, outputOffset + 8, lastRound(SBOX, s2, s3, s0, s1) ^ k[ki + 2]);
+    writeWord(output, outputOffset + 12, lastRound(SBOX, s3, s0, s1, s2) ^ k[ki + 3]);
+  }
+
+  decryptBlock(input: Uint8Array, inputOffset: number, output: Uint8Array, outputOffset: number): void {
+    const k = this.decryptKeys;
+    const t0 = TD[0], t1 = TD[1], t2 = TD[2], t3 = TD[3];
+    let s0 = readWord(input, inputOffset) ^ k[0];
+    let s1 = readWord(input, inputOffset + 4) ^ k[1];
+    let s2 = readWord(input, inputOffset + 8) ^ k[2];
+    let s3 = readWord(input, inputOffset + 12) ^ k[3];
+    let ki = 4;
+    for (let round = 1; round < this.rounds; round++, ki += 4) {
+      const a = t0[s0 >>> 24] ^ t1[(s3 >>> 16) & 0xff] ^ t2[(s2 >>> 8) & 0xff] ^ t3[s1 & 0xff] ^ k[ki];
+      const b = t0[s1 >>> 24] ^ t1[(s0 >>> 16) & 0xff] ^ t2[(s3 >>> 8) & 0xff] ^ t3[s2 & 0xff] ^ k[ki + 1];
+      const c = t0[s2 >>> 24] ^ t1[(s1 >>> 16) & 0xff] ^ t2[(s0 >>> 8) & 0xff] ^ t3[s3 & 0xff] ^ k[ki + 2];
+      const d = t0[s3 >>> 24] ^ t1[(s2 >>> 16) & 0xff] ^ t2[(s1 >>> 8) & 0xff] ^ t3[s0 & 0xff] ^ k[ki + 3];
+      s0 = a;
+      s1 = b;
+      s2 = c;
+      s3 = d;
+    }
+    writeWord(output, outputOffset, lastRound(INV_SBOX, s0, s3, s2, s1) ^ k[ki]);
+    writeWord(output, outputOffset + 4, lastRound(INV_SBOX, s1, s0, s3, s2) ^ k[ki + 1]);
+    writeWord(output, outputOffset + 8, lastRound(INV_SBOX, s2, s1, s0, s3) ^ k[ki + 2]);
+    writeWord(output, outputOffset + 12, lastRound(INV_SBOX, s3, s2, s1, s0) ^ k[ki + 3]);
+  }
+
+  /** One block, for IVs and tweaks */
+  encrypt(block: Uint8Array): Uint8Array {
+    const out = new Uint8Array(16);
+    this.encryptBlock(block, 0, out, 0);
+    return out;
+  }
+}
+
+/**
+ * Decrypt whole blocks in CBC mode, in place
+ */
+export function cbcDecrypt(aes: Aes, iv: Uint8Array, data: Uint8Array): void {
+  const previous = new Uint8Array(iv);
+  const current = new Uint8Array(16);
+  for (let offset = 0; offset + 16 <= data.length; offset += 16) {
+    for (let i = 0; i < 16; i++) current[i] = data[offset + i];
+    aes.decryptBlock(data, offset, data, offset);
+    for (let i = 0; i < 16; i++) {
+      data[offset + i] ^= previous[i];
+      previous[i] = current[i];
+    }
+  }
+}
+
+/**
+ * Decrypt one XTS data unit of whole blocks in place; `tweak` is the
+ * encrypted 16-byte unit number
+ */
+export function xtsDecrypt(aes: Aes, tweak: Uint8Array, data: Uint8Array): void {
+  const t = new Uint8Array(tweak);
+  for (let offset = 0; offset + 16 <= data.length; offset += 16) {
+    for (let i = 0; i < 16; i++) data[offset + i] ^= t[i];
+    aes.decryptBlock(data, offset, data, offset);
+    for (let i = 0; i < 16; i++) data[offset + i] ^= t[i];
+    // Multiply the tweak by x in GF(2^128), little-endian
+    let carry = 0;
+    for (let i = 0; i < 16; i++) {
+      const next = t[i] >>> 7;
+      t[i] = ((t[i] << 1) | carry) & 0xff;
+      carry = next;
+    }
+    if (carry) t[0] ^= 0x87;
+  }
+}
+
+/**
+ * Decrypt CCM data whose 16-byte tag comes first, as BitLocker stores it;
+ * null when the tag does not match (the wrong key)
+ */
+export function ccmDecrypt(aes: Aes, nonce: Uint8Array, data: Uint8Array): Uint8Array | null {
+  if (data.length < 16 || nonce.length < 7 || nonce.length > 13) return null;
+  const lengthBytes = 15 - nonce.length;
+  const counter = new Uint8Array(16);
+  counter[0] = lengthBytes - 1;
+  counter.set(nonce, 1);
+
+  // CTR from counter 0: the tag first, then the message from counter 1
+  const plain = new Uint8Array(data.length);
+  for (let offset = 0, block = 0; offset < data.length; offset += 16, block++) {
+    for (let i = 0; i < lengthBytes; i++) counter[15 - i] = (block / 2 ** (8 * i)) & 0xff;
+    const stream = aes.encrypt(counter);
+    for (let i = 0; i < 16 && offset + i < data.length; i++) plain[offset + i] = data[offset + i] ^ stream[i];
+  }
+  const tag = plain.subarray(0, 16);
+  const message = plain.subarray(16);
+
+  // CBC-MAC over B0 and the message, with no associated data
+  const mac = new Uint8Array(16);
+  mac[0] = (8 * ((16 - 2) / 2)) | (lengthBytes - 1);
+  mac.set(nonce, 1);
+  for (let i = 0; i < lengthBytes; i++) mac[15 - i] = (message.length / 2 ** (8 * i)) & 0xff;
+  aes.encryptBlock(mac, 0, mac, 0);
+  for (let offset = 0; offset < message.length; offset += 16) {
+    for (let i = 0; i < 16 && offset + i < message.length; i++) mac[i] ^= message[offset + i];
+    aes.encryptBlock(mac, 0, mac, 0);
+  }
+  return mac.every((b, i) => b === tag[i]) ? message : null;
+}
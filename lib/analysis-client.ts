@@ -0,0 +1,167 @@
+/**
+ * Main-thread side of the analysis worker
+ *
+ * Wraps the request/response protocol in promise-returning calls and
+ * exposes the worker's media as a ByteReader for the hex viewer. Also
+ * picks where exported files go and downloads those the worker returns.
+ */
+
+import { ByteReader, clampRange } from './byte-reader';
+import type { E01Integrity } from './e01-reader';
+import type {
+  AnalysisCommand,
+  AnalysisCommands,
+  AnalysisProgress,
+  AnalysisRequest,
+  AnalysisResponse,
+  ExportDownload,
+} from './analysis-protocol';
+
+/** How long download URLs stay valid after their links are clicked */
+const DOWNLOAD_URL_LIFETIME_MS = 60000;
+
+export interface CallOptions {
+  onProgress?: (progress: AnalysisProgress) => void;
+  signal?: AbortSignal;
+}
+
+interface PendingCall {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+export class AnalysisClient {
+  private readonly worker: Worker;
+  private readonly pending = new Map<number, PendingCall>();
+  private nextId = 1;
+
+  /** Called whenever the worker reports updated chunk integrity */
+  onIntegrity?: (integrity: E01Integrity) => void;
+
+  constructor() {
+    this.worker = new Worker(new URL('./analysis.worker.ts', import.meta.url));
+    this.worker.onmessage = (event: MessageEvent<AnalysisResponse>) => this.handleResponse(event.data);
+    this.worker.onerror = (event) => {
+      const error = new Error(event.message || 'Analysis worker failed');
+      for (const call of this.pending.values()) call.reject(error);
+      this.pending.clear();
+    };
+  }
+
+  call<K extends AnalysisCommand>(
+    type: K,
+    params: AnalysisCommands[K]['params'],
+    { onProgress, signal }: CallOptions = {},
+  ): Promise<AnalysisCommands[K]['result']> {
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('Aborted', 'AbortError'));
+        return;
+      }
+      // The listener goes with the call, so a later abort cannot cancel a finished request
+      const cancel = () => this.post({ id: this.nextId++, type: 'cancel', target: id });
+      const settle = () => signal?.removeEventListener('abort', cancel);
+      this.pending.set(id, {
+        resolve: (result) => {
+          settle();
+          resolve(result as AnalysisCommands[K]['result']);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+        onProgress,
+      });
+      signal?.addEventListener('abort', cancel, { once: true });
+      this.post({ id, type, ...params } as AnalysisRequest);
+    });
+  }
+
+  /**
+   * Reader over the worker's media; reads travel through the protocol
+   */
+  mediaReader(size: number): ByteReader {
+    return {
+      size,
+      read: (offset, length) => {
+        const count = clampRange(size, offset, length);
+        if (count === 0) return Promise.resolve(new Uint8Array(0));
+        return this.call('read', { offset, length: count });
+      },
+    };
+  }
+
+  dispose(): void {
+    this.worker.terminate();
+    const error = new DOMException('Aborted', 'AbortError');
+    for (const call of this.pending.values()) call.reject(error);
+    this.pending.clear();
+  }
+
+  private post(request: AnalysisRequest): void {
+    this.worker.postMessage(request);
+  }
+
+  private handleResponse(response: AnalysisResponse): void {
+    const call = this.pending.get(response.id);
+    if (!call) return;
+
+    if (response.type === 'progress') {
+      call.onProgress?.(response.progress);
+      return;
+    }
+
+    this.pending.delete(response.id);
+    if (response.type === 'result') {
+      if (response.integrity) this.onIntegrity?.(response.integrity);
+      call.resolve(response.result);
+    } else if (response.aborted) {
+      call.reject(new DOMException(response.message, 'AbortError'));
+    } else {
+      call.reject(new Error(response.message));
+    }
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+type DirectoryPicker = (options: { mode: 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+
+/**
+ * Ask for an output directory through the File System Access API.
+ * Resolves to null where the API is missing (the worker then returns
+ * Blobs to download) and undefined when the user dismisses the picker;
+ * any other failure, such as a denied permission, is thrown.
+ */
+export async function pickOutputDirectory(): Promise<FileSystemDirectoryHandle | null | undefined> {
+  const picker = (window as unknown as { showDirectoryPicker?: DirectoryPicker }).showDirectoryPicker;
+  if (!picker) return null;
+  try {
+    return await picker.call(window, { mode: 'readwrite' });
+  } catch (error) {
+    if (isAbortError(error)) return undefined;
+    throw error;
+  }
+}
+
+/**
+ * Offer files returned by the worker as browser downloads. The object URLs
+ * outlive the clicks: some browsers cancel a download whose URL is revoked
+ * before it starts.
+ */
+export function downloadFiles(files: ExportDownload[]): void {
+  const urls = files.map(({ name, blob }) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = name;
+    link.click();
+    return url;
+  });
+  setTimeout(() => urls.forEach(url => URL.revokeObjectURL(url)), DOWNLOAD_URL_LIFETIME_MS);
+}
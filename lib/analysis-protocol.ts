@@ -0,0 +1,100 @@
+/**
+ * Message protocol between the viewer and analysis.worker.ts
+ *
+ * The worker owns the parsed image and its E01Reader; the page only ever
+ * sees cloneable summaries and the bytes it asks for.
+ */
+
+import type { DiskImageFormat } from './disk-image';
+import type { E01Metadata, E01ParseResult } from './e01-parser';
+import type { E01Integrity } from './e01-reader';
+import type { E01HashVerification } from './e01-verify';
+import type { E01WriteOptions, E01WriteResult } from './e01-writer';
+import type { VolumeKey } from './encrypted-volume';
+import type { VolumeAnalysis } from './filesystem-probe';
+import type { HashAlgorithm } from './hashes';
+import type { Partition, PartitionTable } from './partition-parser';
+import type { RawExportResult } from './raw-export';
+
+export interface MediaInfo {
+  size: number;
+  chunkSize: number;
+  chunkCount: number;
+}
+
+/**
+ * E01ParseResult without the reader. Section payloads are dropped to keep
+ * the message small; the worker keeps the originals. Raw images are
+ * described in the same shape, without sections or chunks.
+ */
+export type E01ParseSummary = Omit<E01ParseResult, 'reader' | 'format'> & {
+  format: DiskImageFormat;
+  media: MediaInfo | null;
+};
+
+export type AnalysisStage = 'parse' | 'partitions' | 'scan-partitions' | 'filesystem' | 'verify-chunks' | 'verify-hashes' | 'export' | 'create';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  /** Work done and total for the stage, in bytes; total is 0 when unknown */
+  completed: number;
+  total: number;
+  /** Bytes read from the evidence files so far */
+  bytesRead: number;
+  chunksInflated: number;
+  sectionsFound: number;
+}
+
+/** A file written in the worker, handed back for the page to download */
+export interface ExportDownload {
+  name: string;
+  blob: Blob;
+}
+
+export interface RawExportParams {
+  /** Export this partition only, or the whole media when null */
+  partition: Partition | null;
+  sectorSize: number;
+  baseName: string;
+  extension: 'dd' | 'img';
+  /** Bytes per split part; 0 for a single file */
+  partSize: number;
+  algorithms: HashAlgorithm[];
+  /** Write straight into this directory; without one the files come back as Blobs */
+  directory: FileSystemDirectoryHandle | null;
+  source: string;
+}
+
+export interface CreateE01Params {
+  file: File;
+  metadata: E01Metadata;
+  options: Omit<E01WriteOptions, 'onProgress' | 'signal'>;
+  /** Write straight into this directory; without one the segments come back as Blobs */
+  directory: FileSystemDirectoryHandle | null;
+}
+
+/**
+ * Parameters and result of every command the worker understands
+ */
+export interface AnalysisCommands {
+  open: { params: { files: File[] }; result: E01ParseSummary };
+  read: { params: { offset: number; length: number }; result: Uint8Array };
+  partitions: { params: { sectorSize: number }; result: PartitionTable };
+  scanPartitions: { params: { table: PartitionTable }; result: Partition[] };
+  filesystem: { params: { partition: Partition; sectorSize: number; key?: VolumeKey }; result: VolumeAnalysis };
+  verifyChunks: { params: Record<string, never>; result: E01Integrity };
+  verifyHashes: { params: { algorithms: HashAlgorithm[] }; result: E01HashVerification };
+  exportRaw: { params: RawExportParams; result: RawExportResult & { downloads: ExportDownload[] } };
+  createE01: { params: CreateE01Params; result: E01WriteResult & { downloads: ExportDownload[] } };
+}
+
+export type AnalysisCommand = keyof AnalysisCommands;
+
+export type AnalysisRequest =
+  | { [K in AnalysisCommand]: { id: number; type: K } & AnalysisCommands[K]['params'] }[AnalysisCommand]
+  | { id: number; type: 'cancel'; target: number };
+
+export type AnalysisResponse =
+  | { id: number; type: 'progress'; progress: AnalysisProgress }
+  | { id: number; type: 'result'; result: AnalysisCommands[AnalysisCommand]['result']; integrity: E01Integrity | null }
+  | { id: number; type: 'error'; message: string; aborted: boolean };
@@ -0,0 +1,274 @@
+/**
+ * Analysis Web Worker
+ *
+ * Runs E01 decoding, partition table parsing, lost partition scanning,
+ * filesystem parsing, verification, raw export and E01 creation off the
+ * main thread. Every request carries an id; progress is streamed back under
+ * that id and a `cancel` request aborts it.
+ */
+
+import { AbortableReader, ByteReader } from './byte-reader';
+import { DiskImageFormat, DiskImageSource, E01ImageSource, isRawImage, openRawImage } from './disk-image';
+import { scanForPartitions } from './disk-layout';
+import { diagnostic, rebaseDiagnostics } from './diagnostics';
+import { parseE01, E01ParseResult } from './e01-parser';
+import { verifyMediaHashes } from './e01-verify';
+import { writeE01 } from './e01-writer';
+import { readVolume } from './filesystem-probe';
+import { getPartitionReader, mediaOffset, parsePartitionTable } from './partition-parser';
+import { BlobSink, directorySink, exportRawImage } from './raw-export';
+import { isVirtualDisk, openVirtualDisk } from './virtual-disk';
+import type {
+  AnalysisCommand,
+  AnalysisCommands,
+  AnalysisProgress,
+  AnalysisRequest,
+  AnalysisResponse,
+  E01ParseSummary,
+} from './analysis-protocol';
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<AnalysisRequest>) => void) | null;
+  postMessage(message: AnalysisResponse, transfer?: Transferable[]): void;
+};
+
+// Progress is throttled so the main thread is not flooded with messages
+const PROGRESS_INTERVAL_MS = 200;
+
+interface OpenImage {
+  source: DiskImageSource | null;
+  /** The decoded EWF container; null for raw images */
+  e01: E01ParseResult | null;
+}
+
+let image: OpenImage | null = null;
+const running = new Map<number, AbortController>();
+
+type ProgressUpdate = Pick<AnalysisProgress, 'stage'> & Partial<AnalysisProgress>;
+
+type Handler<K extends AnalysisCommand> = (
+  params: AnalysisCommands[K]['params'],
+  signal: AbortSignal,
+  progress: (update: ProgressUpdate) => void,
+) => Promise<AnalysisCommands[K]['result']>;
+
+function requireMedia(signal: AbortSignal): ByteReader {
+  if (!image?.source) throw new Error('No media loaded');
+  return new AbortableReader(image.source, signal);
+}
+
+function summarize(result: E01ParseResult): E01ParseSummary {
+  const { reader, ...rest } = result;
+  return {
+    ...rest,
+    sections: rest.sections.map(section => ({ ...section, data: new Uint8Array(0) })),
+    media: reader ? { size: reader.size, chunkSize: reader.chunkSize, chunkCount: reader.chunkCount } : null,
+  };
+}
+
+/**
+ * Describe a raw image or virtual disk in the summary shape the viewer
+ * shows for EWF; every file is listed as a segment and there are no
+ * sections or chunks
+ */
+function summarizeImage(
+  format: DiskImageFormat,
+  source: DiskImageSource | null,
+  files: File[],
+  errors: string[],
+  logs: string[],
+  startedAt: number,
+): E01ParseSummary {
+  const sectorCount = source ? Math.ceil(source.size / source.sectorSize) : 0;
+  const hash = source && (source.storedHashes.md5 || source.storedHashes.sha1) ? { ...source.storedHashes } : undefined;
+  return {
+    valid: source !== null,
+    format,
+    signature: new Uint8Array(0),
+    segments: files.map((file, i) => ({ number: i + 1, fileName: file.name, size: file.size })),
+    sections: [],
+    metadata: source?.metadata ?? {},
+    metadataConflicts: [],
+    volumeInfo: source ? { bytesPerSector: source.sectorSize, sectorCount: BigInt(sectorCount) } : null,
+    integrity: { sectionIssues: [], chunkIssues: [], chunksVerified: 0, chunkCount: 0 },
+    hash,
+    acquisitionErrors: [],
+    sessions: [],
+    // Raw and virtual disk layers report their problems as text
+    diagnostics: errors.map(error => diagnostic('IMAGE_OPEN_PROBLEM', error)),
+    debug: {
+      fileSize: files.reduce((sum, f) => sum + f.size, 0),
+      parseStartTime: startedAt,
+      parseEndTime: Date.now(),
+      parseDuration: Date.now() - startedAt,
+      sectionsFound: [],
+      chunksProcessed: 0,
+      lastOffset: 0,
+      logs,
+    },
+    media: source ? { size: source.size, chunkSize: 0, chunkCount: 0 } : null,
+  };
+}
+
+const handlers: { [K in AnalysisCommand]: Handler<K> } = {
+  async open({ files }, signal, progress) {
+    image = null;
+    const startedAt = Date.now();
+    // Checked before raw images: a .img file may well be a QCOW2 or VHD
+    if (await isVirtualDisk(files)) {
+      const { source, format, errors } = await openVirtualDisk(files);
+      image = { source, e01: null };
+      return summarizeImage(format, source, files, errors, [`Virtual disk (${format}): ${files.map(f => f.name).join(', ')}`], startedAt);
+    }
+    if (await isRawImage(files)) {
+      const { source, set } = await openRawImage(files);
+      image = { source, e01: null };
+      return summarizeImage(set.parts.length > 1 ? 'split-raw' : 'raw', source, set.parts, set.errors, [
+        `Raw image: ${set.parts.map(f => f.name).join(', ')}`,
+        `Hash sidecars: ${set.sidecars.map(f => f.name).join(', ') || 'none'}`,
+      ], startedAt);
+    }
+
+    const totalBytes = files.reduce((sum, f) => sum + f.size, 0);
+    const result = await parseE01(files, {
+      signal,
+      onProgress: (p) => progress({
+        stage: 'parse',
+        completed: p.bytesScanned,
+        total: totalBytes,
+        bytesRead: p.bytesScanned,
+        sectionsFound: p.sectionsFound,
+      }),
+    });
+    image = { source: result.reader ? new E01ImageSource({ ...result, reader: result.reader }) : null, e01: result };
+    return summarize(result);
+  },
+
+  async read({ offset, length }, signal) {
+    return requireMedia(signal).read(offset, length);
+  },
+
+  async partitions({ sectorSize }, signal, progress) {
+    progress({ stage: 'partitions' });
+    return parsePartitionTable(requireMedia(signal), sectorSize);
+  },
+
+  async scanPartitions({ table }, signal, progress) {
+    return scanForPartitions(requireMedia(signal), table, {
+      signal,
+      onProgress: (bytesScanned, total) => progress({ stage: 'scan-partitions', completed: bytesScanned, total }),
+    });
+  },
+
+  async filesystem({ partition, sectorSize, key }, signal, progress) {
+    const partitionReader = getPartitionReader(requireMedia(signal), partition, sectorSize);
+    progress({ stage: 'filesystem' });
+    const timer = setInterval(() => progress({ stage: 'filesystem' }), PROGRESS_INTERVAL_MS);
+    try {
+      const result = await readVolume(partitionReader, key);
+      // parseFAT reports read failures as parse errors; surface the abort instead
+      signal.throwIfAborted();
+      const diagnostics = rebaseDiagnostics(result.diagnostics, offset => mediaOffset(partition, offset, sectorSize));
+      return { ...result, fat: result.fat && { ...result.fat, diagnostics }, diagnostics };
+    } finally {
+      clearInterval(timer);
+    }
+  },
+
+  async verifyChunks(_params, signal, progress) {
+    const reader = image?.e01?.reader;
+    if (!reader) throw new Error('Chunk verification needs an EWF image');
+    return reader.verifyChunks({
+      signal,
+      onProgress: (verified, total) => progress({
+        stage: 'verify-chunks',
+        completed: verified * reader.chunkSize,
+        total: total * reader.chunkSize,
+      }),
+    });
+  },
+
+  async verifyHashes({ algorithms }, signal, progress) {
+    if (!image?.source) throw new Error('No media loaded');
+    // The EWF reader itself also reports chunks that fail their checksums
+    return verifyMediaHashes(image.e01?.reader ?? image.source, image.source.storedHashes, {
+      algorithms,
+      signal,
+      onProgress: (bytesHashed, total) => progress({ stage: 'verify-hashes', completed: bytesHashed, total }),
+    });
+  },
+
+  async exportRaw({ partition, sectorSize, directory, ...options }, signal, progress) {
+    const media = requireMedia(signal);
+    const reader = partition ? getPartitionReader(media, partition, sectorSize) : media;
+    const blobs = directory ? null : new BlobSink();
+    const result = await exportRawImage(reader, directory ? directorySink(directory) : blobs!, {
+      ...options,
+      signal,
+      onProgress: (bytesWritten, total) => progress({ stage: 'export', completed: bytesWritten, total }),
+    });
+    return { ...result, downloads: blobs?.files ?? [] };
+  },
+
+  async createE01({ file, metadata, options, directory }, signal, progress) {
+    const blobs = directory ? null : new BlobSink();
+    const result = await writeE01(file, metadata, directory ? directorySink(directory) : blobs!, {
+      ...options,
+      signal,
+      onProgress: (bytesRead, total) => progress({ stage: 'create', completed: bytesRead, total }),
+    });
+    return { ...result, downloads: blobs?.files ?? [] };
+  },
+};
+
+async function handle<K extends AnalysisCommand>(
+  request: { id: number; type: K } & AnalysisCommands[K]['params'],
+): Promise<void> {
+  const controller = new AbortController();
+  running.set(request.id, controller);
+
+  let lastProgress = 0;
+  const progress = (update: ProgressUpdate) => {
+    const now = Date.now();
+    const finished = update.total !== undefined && update.completed === update.total;
+    if (now - lastProgress < PROGRESS_INTERVAL_MS && !finished) return;
+    lastProgress = now;
+    const full: AnalysisProgress = {
+      completed: 0,
+      total: 0,
+      bytesRead: image?.e01?.reader?.bytesRead ?? 0,
+      chunksInflated: image?.e01?.reader?.chunksInflated ?? 0,
+      sectionsFound: image?.e01?.sections.length ?? 0,
+      ...update,
+    };
+    ctx.postMessage({ id: request.id, type: 'progress', progress: full });
+  };
+
+  try {
+    const handler = handlers[request.type] as Handler<K>;
+    const result = await handler(request, controller.signal, progress);
+    // Only hand over buffers the result owns outright (never a cache view)
+    const transfer = result instanceof Uint8Array && result.byteLength === result.buffer.byteLength
+      ? [result.buffer as ArrayBuffer]
+      : [];
+    ctx.postMessage({ id: request.id, type: 'result', result, integrity: image?.e01?.integrity ?? null }, transfer);
+  } catch (error) {
+    ctx.postMessage({
+      id: request.id,
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      aborted: controller.signal.aborted,
+    });
+  } finally {
+    running.delete(request.id);
+  }
+}
+
+ctx.onmessage = (event) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    running.get(request.target)?.abort();
+    return;
+  }
+  void handle(request);
+};
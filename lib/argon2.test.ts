@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { argon2, blake2b } from './argon2';
+
+const hex = (data: Uint8Array) => Buffer.from(data).toString('hex');
+const filled = (length: number, value: number) => new Uint8Array(length).fill(value);
+
+test('blake2b matches RFC 7693', () => {
+  assert.equal(
+    hex(blake2b(new TextEncoder().encode('abc'))),
+    'ba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d17d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923',
+  );
+  assert.equal(hex(blake2b(new Uint8Array(0), 32)), '0e5751c026e543b2e8ab2eb06099daa1d1e5df47778f7787faab45cdf12fe3a8');
+});
+
+// RFC 9106 section 5
+const PARAMS = { iterations: 3, memory: 32, parallelism: 4, length: 32, secret: filled(8, 3), associatedData: filled(12, 4) };
+
+test('argon2i matches RFC 9106', () => {
+  assert.equal(
+    hex(argon2(filled(32, 1), filled(16, 2), { type: 'argon2i', ...PARAMS })),
+    'c814d9d1dc7f37aa13f0d77f2494bda1c8de6b016dd388d29952a4c4672b6ce8',
+  );
+});
+
+test('argon2id matches RFC 9106', () => {
+  assert.equal(
+    hex(argon2(filled(32, 1), filled(16, 2), { type: 'argon2id', ...PARAMS })),
+    '0d640df58d78766c08c037a34a8b53c9d01ef0452d75b65eb52520e96b01e659',
+  );
+});
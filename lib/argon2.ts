@@ -0,0 +1,335 @@
+/**
+ * BLAKE2b and Argon2 (RFC 7693, RFC 9106)
+ *
+ * LUKS2 derives keyslot keys with Argon2i or Argon2id, which WebCrypto does
+ * not offer. 64-bit words are held as (low, high) pairs of 32-bit numbers
+ * in Uint32Arrays, low word first.
+ */
+
+const BLAKE2B_IV = new Uint32Array([
+  0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85, 0xfe94f82b, 0x3c6ef372, 0x5f1d36f1, 0xa54ff53a,
+  0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c, 0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19,
+]);
+
+const SIGMA = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+  [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+  [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+  [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+  [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+  [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+  [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+  [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+  [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0],
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+];
+
+/** v[a] += v[b] + (m, as a pair), modulo 2^64; indices are of pairs */
+function add64(v: Uint32Array, a: number, b: number, mLow = 0, mHigh = 0): void {
+  const low = v[2 * a] + v[2 * b] + mLow;
+  v[2 * a + 1] = v[2 * a + 1] + v[2 * b + 1] + mHigh + Math.floor(low / 0x100000000);
+  v[2 * a] = low;
+}
+
+/** v[d] = (v[d] ^ v[a]) rotated right by n */
+function xorRotate(v: Uint32Array, d: number, a: number, n: number): void {
+  let low = v[2 * d] ^ v[2 * a];
+  let high = v[2 * d + 1] ^ v[2 * a + 1];
+  if (n >= 32) {
+    const swap = low;
+    low = high;
+    high = swap;
+    n -= 32;
+  }
+  if (n > 0) {
+    const l = (low >>> n) | (high << (32 - n));
+    high = (high >>> n) | (low << (32 - n));
+    low = l;
+  }
+  v[2 * d] = low;
+  v[2 * d + 1] = high;
+}
+
+/**
+ * BLAKE2b with a digest of 1 to 64 bytes and no key
+ */
+export function blake2b(data: Uint8Array, outputLength = 64): Uint8Array {
+  const h = new Uint32Array(BLAKE2B_IV);
+  h[0] ^= 0x01010000 ^ outputLength;
+  const v = new Uint32Array(32);
+  const m = new Uint32Array(32);
+  const block = new Uint8Array(128);
+  const view = new DataView(block.buffer);
+
+  const compress = (counter: number, last: boolean) => {
+    for (let i = 0; i < 32; i++) m[i] = view.getUint32(i * 4, true);
+    v.set(h);
+    v.set(BLAKE2B_IV, 16);
+    v[24] ^= counter >>> 0;
+    v[25] ^= Math.floor(counter / 0x100000000);
+    if (last) {
+      v[28] = ~v[28];
+      v[29] = ~v[29];
+    }
+    const g = (a: number, b: number, c: number, d: number, x: number, y: number) => {
+      add64(v, a, b, m[2 * x], m[2 * x + 1]);
+      xorRotate(v, d, a, 32);
+      add64(v, c, d);
+      xorRotate(v, b, c, 24);
+      add64(v, a, b, m[2 * y], m[2 * y + 1]);
+      xorRotate(v, d, a, 16);
+      add64(v, c, d);
+      xorRotate(v, b, c, 63);
+    };
+    for (const s of SIGMA) {
+      g(0, 4, 8, 12, s[0], s[1]);
+      g(1, 5, 9, 13, s[2], s[3]);
+      g(2, 6, 10, 14, s[4], s[5]);
+      g(3, 7, 11, 15, s[6], s[7]);
+      g(0, 5, 10, 15, s[8], s[9]);
+      g(1, 6, 11, 12, s[10], s[11]);
+      g(2, 7, 8, 13, s[12], s[13]);
+      g(3, 4, 9, 14, s[14], s[15]);
+    }
+    for (let i = 0; i < 16; i++) h[i] ^= v[i] ^ v[i + 16];
+  };
+
+  // Every block but the last is full; the last may be empty only for empty input
+  let offset = 0;
+  for (; data.length - offset > 128; offset += 128) {
+    block.set(data.subarray(offset, offset + 128));
+    compress(offset + 128, false);
+  }
+  block.fill(0);
+  block.set(data.subarray(offset));
+  compress(data.length, true);
+
+  const out = new Uint8Array(64);
+  const outView = new DataView(out.buffer);
+  for (let i = 0; i < 16; i++) outView.setUint32(i * 4, h[i], true);
+  return out.slice(0, outputLength);
+}
+
+function le32(value: number): Uint8Array {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, value, true);
+  return out;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * Argon2's variable-length hash H'
+ */
+function hashLong(input: Uint8Array, length: number): Uint8Array {
+  const prefixed = concat(le32(length), input);
+  if (length <= 64) return blake2b(prefixed, length);
+  const out = new Uint8Array(length);
+  let v = blake2b(prefixed);
+  let offset = 0;
+  for (; length - offset > 64; offset += 32) {
+    out.set(v.subarray(0, 32), offset);
+    v = blake2b(v, Math.min(64, length - offset - 32));
+  }
+  out.set(v, offset);
+  return out;
+}
+
+const BLOCK_WORDS = 256;
+
+/** floor(a * b / 2^32) for 32-bit a and b, from 16-bit halves so doubles stay exact */
+function mulHigh(a: number, b: number): number {
+  const ah = a >>> 16;
+  const al = a & 0xffff;
+  const bh = b >>> 16;
+  const bl = b & 0xffff;
+  const mid = ah * bl + al * bh + ((al * bl) >>> 16);
+  return ah * bh + Math.floor(mid / 0x10000);
+}
+
+/** a += b + 2 * low(a) * low(b), modulo 2^64, on pairs of `v` */
+function blaMka(v: Uint32Array, a: number, b: number): void {
+  const x = v[2 * a];
+  const y = v[2 * b];
+  const productHigh = mulHigh(x, y);
+  const productLow = Math.imul(x, y) >>> 0;
+  const low = x + v[2 * b] + 2 * productLow;
+  v[2 * a + 1] = v[2 * a + 1] + v[2 * b + 1] + 2 * productHigh + Math.floor(low / 0x100000000);
+  v[2 * a] = low;
+}
+
+function gb(v: Uint32Array, a: number, b: number, c: number, d: number): void {
+  blaMka(v, a, b);
+  xorRotate(v, d, a, 32);
+  blaMka(v, c, d);
+  xorRotate(v, b, c, 24);
+  blaMka(v, a, b);
+  xorRotate(v, d, a, 16);
+  blaMka(v, c, d);
+  xorRotate(v, b, c, 63);
+}
+
+/** BLAKE2b's round without the message, over 16 pairs of `v` */
+function permute(v: Uint32Array, i: number[]): void {
+  gb(v, i[0], i[4], i[8], i[12]);
+  gb(v, i[1], i[5], i[9], i[13]);
+  gb(v, i[2], i[6], i[10], i[14]);
+  gb(v, i[3], i[7], i[11], i[15]);
+  gb(v, i[0], i[5], i[10], i[15]);
+  gb(v, i[1], i[6], i[11], i[12]);
+  gb(v, i[2], i[7], i[8], i[13]);
+  gb(v, i[3], i[4], i[9], i[14]);
+}
+
+// The pairs each row and column permutation works on
+const ROWS = Array.from({ length: 8 }, (_, r) => Array.from({ length: 16 }, (_, j) => 16 * r + j));
+const COLUMNS = Array.from({ length: 8 }, (_, c) => Array.from({ length: 16 }, (_, j) => 16 * (j >> 1) + 2 * c + (j & 1)));
+
+/**
+ * The compression function G: next (^)= P(prev ^ ref) ^ prev ^ ref,
+ * with blocks given as word offsets into their arrays
+ */
+function fillBlock(
+  r: Uint32Array,
+  q: Uint32Array,
+  prev: Uint32Array, prevOffset: number,
+  ref: Uint32Array, refOffset: number,
+  next: Uint32Array, nextOffset: number,
+  withXor: boolean,
+): void {
+  for (let i = 0; i < BLOCK_WORDS; i++) r[i] = prev[prevOffset + i] ^ ref[refOffset + i];
+  q.set(r);
+  for (const row of ROWS) permute(q, row);
+  for (const column of COLUMNS) permute(q, column);
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    const value = q[i] ^ r[i];
+    next[nextOffset + i] = withXor ? next[nextOffset + i] ^ value : value;
+  }
+}
+
+export interface Argon2Params {
+  type: 'argon2i' | 'argon2id';
+  /** Passes over memory */
+  iterations: number;
+  /** KiB */
+  memory: number;
+  parallelism: number;
+  length: number;
+  secret?: Uint8Array;
+  associatedData?: Uint8Array;
+}
+
+/**
+ * Argon2 version 1.3
+ */
+export function argon2(password: Uint8Array, salt: Uint8Array, params: Argon2Params): Uint8Array {
+  const { iterations, parallelism: lanes, length } = params;
+  const type = params.type === 'argon2i' ? 1 : 2;
+  const secret = params.secret ?? new Uint8Array(0);
+  const associatedData = params.associatedData ?? new Uint8Array(0);
+  const h0 = blake2b(concat(
+    le32(lanes), le32(length), le32(params.memory), le32(iterations), le32(0x13), le32(type),
+    le32(password.length), password, le32(salt.length), salt,
+    le32(secret.length), secret, le32(associatedData.length), associatedData,
+  ));
+
+  const memoryBlocks = Math.max(params.memory, 8 * lanes) - (Math.max(params.memory, 8 * lanes) % (4 * lanes));
+  const laneLength = memoryBlocks / lanes;
+  const segmentLength = laneLength / 4;
+  const memory = new Uint32Array(memoryBlocks * BLOCK_WORDS);
+  const blockWords = (bytes: Uint8Array) => new Uint32Array(bytes.buffer, bytes.byteOffset, BLOCK_WORDS);
+
+  for (let lane = 0; lane < lanes; lane++) {
+    for (let i = 0; i < 2; i++) {
+      const block = hashLong(concat(h0, le32(i), le32(lane)), 1024);
+      memory.set(blockWords(block), (lane * laneLength + i) * BLOCK_WORDS);
+    }
+  }
+
+  const r = new Uint32Array(BLOCK_WORDS);
+  const q = new Uint32Array(BLOCK_WORDS);
+  const zero = new Uint32Array(BLOCK_WORDS);
+  const input = new Uint32Array(BLOCK_WORDS);
+  const addresses = new Uint32Array(BLOCK_WORDS);
+  const nextAddresses = () => {
+    input[12]++;
+    fillBlock(r, q, zero, 0, input, 0, addresses, 0, false);
+    fillBlock(r, q, zero, 0, addresses, 0, addresses, 0, false);
+  };
+
+  for (let pass = 0; pass < iterations; pass++) {
+    for (let slice = 0; slice < 4; slice++) {
+      for (let lane = 0; lane < lanes; lane++) {
+        const independent = type === 1 || (pass === 0 && slice < 2);
+        if (independent) {
+          input.fill(0);
+          input[0] = pass;
+          input[2] = lane;
+          input[4] = slice;
+          input[6] = memoryBlocks;
+          input[8] = iterations;
+          input[10] = type;
+        }
+        const start = pass === 0 && slice === 0 ? 2 : 0;
+        if (independent && start !== 0) nextAddresses();
+
+        for (let index = start; index < segmentLength; index++) {
+          const column = slice * segmentLength + index;
+          const current = lane * laneLength + column;
+          const previous = column === 0 ? current + laneLength - 1 : current - 1;
+
+          let j1: number;
+          let j2: number;
+          if (independent) {
+            if (index % 128 === 0) nextAddresses();
+            j1 = addresses[2 * (index % 128)];
+            j2 = addresses[2 * (index % 128) + 1];
+          } else {
+            j1 = memory[previous * BLOCK_WORDS];
+            j2 = memory[previous * BLOCK_WORDS + 1];
+          }
+
+          const refLane = pass === 0 && slice === 0 ? lane : j2 % lanes;
+          const sameLane = refLane === lane;
+          let areaSize: number;
+          if (pass === 0) {
+            areaSize = slice === 0 || sameLane
+              ? slice * segmentLength + index - 1
+              : slice * segmentLength + (index === 0 ? -1 : 0);
+          } else {
+            areaSize = laneLength - segmentLength + (sameLane ? index - 1 : index === 0 ? -1 : 0);
+          }
+          // Map j1 onto the area, biased towards recent blocks
+          const relative = areaSize - 1 - mulHigh(areaSize, mulHigh(j1, j1));
+          const startPosition = pass === 0 || slice === 3 ? 0 : (slice + 1) * segmentLength;
+          const refIndex = refLane * laneLength + ((startPosition + relative) % laneLength);
+
+          fillBlock(
+            r, q,
+            memory, previous * BLOCK_WORDS,
+            memory, refIndex * BLOCK_WORDS,
+            memory, current * BLOCK_WORDS,
+            pass > 0,
+          );
+        }
+      }
+    }
+  }
+
+  const final = new Uint32Array(BLOCK_WORDS);
+  for (let lane = 0; lane < lanes; lane++) {
+    const last = (lane * laneLength + laneLength - 1) * BLOCK_WORDS;
+    for (let i = 0; i < BLOCK_WORDS; i++) final[i] ^= memory[last + i];
+  }
+  return hashLong(new Uint8Array(final.buffer), length);
+}
@@ -0,0 +1,199 @@
+import assert from 'node:assert/strict';
+import { createCipheriv } from 'node:crypto';
+import { test } from 'node:test';
+import { parseRecoveryPassword, readBitLocker, unlockBitLocker } from './bitlocker';
+import { BlobReader } from './byte-reader';
+
+const SECTOR = 512;
+const SIZE = 384 * 1024;
+const METADATA = [0x10000, 0x20000, 0x30000];
+const HEADER_COPY = 0x50000;
+const HEADER_SECTORS = 16;
+
+const pattern = (length: number, seed: number) => Buffer.from(new Uint8Array(length).map((_, i) => (i * 167 + seed * 13 + (i >> 9)) & 0xff));
+const le128 = (n: number) => {
+  const block = Buffer.alloc(16);
+  block.writeUInt32LE(n);
+  return block;
+};
+const ecb = (key: Buffer, block: Buffer) => createCipheriv(`aes-${key.length * 8}-ecb`, key, null).setAutoPadding(false).update(block);
+const cbc = (key: Buffer, iv: Buffer, data: Buffer) => createCipheriv(`aes-${key.length * 8}-cbc`, key, iv).setAutoPadding(false).update(data);
+
+function entry(entryType: number, valueType: number, data: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.writeUInt16LE(8 + data.length, 0);
+  head.writeUInt16LE(entryType, 2);
+  head.writeUInt16LE(valueType, 4);
+  head.writeUInt16LE(1, 6);
+  return Buffer.concat([head, data]);
+}
+
+function keyEntry(method: number, key: Buffer): Buffer {
+  const head = Buffer.alloc(4);
+  head.writeUInt32LE(method);
+  return entry(0, 1, Buffer.concat([head, key]));
+}
+
+/** AES-CCM with the nonce, then the tag ahead of the ciphertext */
+function wrap(key: Buffer, plain: Buffer, seed: number): Buffer {
+  const nonce = pattern(12, seed);
+  const cipher = createCipheriv('aes-256-ccm', key, nonce, { authTagLength: 16 });
+  const encrypted = Buffer.concat([cipher.update(plain), cipher.final()]);
+  return entry(0, 5, Buffer.concat([nonce, cipher.getAuthTag(), encrypted]));
+}
+
+function protector(type: number, nested: Buffer[]): Buffer {
+  const head = Buffer.alloc(28);
+  pattern(16, type).copy(head, 0);
+  head.writeBigUInt64LE(133000000000000000n, 16);
+  head.writeUInt16LE(type, 26);
+  return entry(2, 8, Buffer.concat([head, ...nested]));
+}
+
+/** The inverse of the Elephant diffuser's decryption: diffuser B, then A */
+function diffuse(sector: Buffer): void {
+  const n = sector.length / 4;
+  const w = new Uint32Array(n);
+  for (let i = 0; i < n; i++) w[i] = sector.readUInt32LE(i * 4);
+  const rotate = (v: number, s: number) => (s === 0 ? v : ((v << s) | (v >>> (32 - s))) >>> 0);
+  const a = [9, 0, 13, 0];
+  const b = [0, 10, 0, 25];
+  for (let r = 0; r < 5; r++) for (let i = n - 1; i >= 0; i--) w[i] -= w[(i - 2 + n) % n] ^ rotate(w[(i - 5 + n) % n], a[i % 4]);
+  for (let r = 0; r < 3; r++) for (let i = n - 1; i >= 0; i--) w[i] -= w[(i + 2) % n] ^ rotate(w[(i + 5) % n], b[i % 4]);
+  for (let i = 0; i < n; i++) sector.writeUInt32LE(w[i], i * 4);
+}
+
+/**
+ * A BitLocker volume protected by a clear key or a startup key, holding `data`
+ */
+function bitlocker(method: 0x8000 | 0x8004, kind: 'clear' | 'startup', data: Buffer) {
+  const vmk = pattern(32, 1);
+  const fvek = pattern(64, 2);
+  const vmkEntry = keyEntry(0x2000, vmk);
+  const unlockKey = pattern(32, 3);
+  let bek: Buffer | null = null;
+
+  let protectorEntry: Buffer;
+  if (kind === 'clear') {
+    protectorEntry = protector(0, [keyEntry(0x2000, unlockKey), wrap(unlockKey, vmkEntry, 4)]);
+  } else {
+    const identifier = Buffer.alloc(24);
+    pattern(16, 0x200).copy(identifier, 0);
+    protectorEntry = protector(0x200, [entry(0, 9, identifier), wrap(unlockKey, vmkEntry, 4)]);
+    const external = entry(6, 9, Buffer.concat([identifier, keyEntry(0x2000, unlockKey)]));
+    const head = Buffer.alloc(48);
+    head.writeUInt32LE(48 + external.length, 0);
+    head.writeUInt32LE(1, 4);
+    head.writeUInt32LE(48, 8);
+    head.writeUInt32LE(48 + external.length, 12);
+    bek = Buffer.concat([head, external]);
+  }
+  const headerCopy = Buffer.alloc(16);
+  headerCopy.writeBigUInt64LE(BigInt(HEADER_COPY), 0);
+  headerCopy.writeBigUInt64LE(BigInt(HEADER_SECTORS * SECTOR), 8);
+  const body = Buffer.concat([
+    protectorEntry,
+    entry(3, 5, wrap(vmk, keyEntry(method, fvek), 5).subarray(8)),
+    entry(7, 2, Buffer.from('TESTPC D: 01/01/2026\0', 'utf16le')),
+    entry(0xf, 0xf, headerCopy),
+  ]);
+
+  const block = Buffer.alloc(112 + body.length);
+  block.write('-FVE-FS-', 0);
+  block.writeUInt16LE(64, 8);
+  block.writeUInt16LE(2, 10);
+  block.writeBigUInt64LE(BigInt(SIZE), 16);
+  block.writeUInt32LE(HEADER_SECTORS, 28);
+  METADATA.forEach((offset, i) => block.writeBigUInt64LE(BigInt(offset), 32 + i * 8));
+  block.writeBigUInt64LE(BigInt(HEADER_COPY), 56);
+  block.writeUInt32LE(48 + body.length, 64);
+  block.writeUInt32LE(1, 68);
+  block.writeUInt32LE(48, 72);
+  block.writeUInt32LE(48 + body.length, 76);
+  pattern(16, 6).copy(block, 80);
+  block.writeUInt16LE(method, 100);
+  block.writeBigUInt64LE(133000000000000000n, 104);
+  body.copy(block, 112);
+
+  const encryptSector = (plain: Buffer, offset: number) => {
+    if (method === 0x8004) return createCipheriv('aes-128-xts', fvek.subarray(0, 32), le128(offset / SECTOR)).update(plain);
+    const key = fvek.subarray(0, 16);
+    const sector = Buffer.from(plain);
+    const tweakKey = fvek.subarray(32, 48);
+    const second = le128(offset);
+    second[15] = 0x80;
+    const sectorKey = Buffer.concat([ecb(tweakKey, le128(offset)), ecb(tweakKey, second)]);
+    for (let i = 0; i < sector.length; i++) sector[i] ^= sectorKey[i % 32];
+    diffuse(sector);
+    return cbc(key, ecb(key, le128(offset)), sector);
+  };
+
+  // The first sectors are stored encrypted at HEADER_COPY
+  const volume = Buffer.alloc(SIZE);
+  for (let offset = HEADER_SECTORS * SECTOR; offset < SIZE; offset += SECTOR) {
+    if (METADATA.some(m => offset >= m && offset < m + 0x10000)) continue;
+    const source = offset >= HEADER_COPY && offset < HEADER_COPY + HEADER_SECTORS * SECTOR ? offset - HEADER_COPY : offset;
+    encryptSector(data.subarray(source, source + SECTOR), offset).copy(volume, offset);
+  }
+  METADATA.forEach(offset => block.copy(volume, offset));
+  const boot = Buffer.alloc(SECTOR);
+  boot.set([0xeb, 0x58, 0x90]);
+  boot.write('-FVE-FS-', 3);
+  boot.writeUInt16LE(SECTOR, 11);
+  boot[13] = 8;
+  METADATA.forEach((offset, i) => boot.writeBigUInt64LE(BigInt(offset), 176 + i * 8));
+  boot.writeUInt16LE(0xaa55, 510);
+  boot.copy(volume, 0);
+  return { volume: new Uint8Array(volume), bek };
+}
+
+async function open(volume: Uint8Array) {
+  const reader = new BlobReader(new Blob([volume as Uint8Array<ArrayBuffer>]));
+  const { metadata, diagnostics } = await readBitLocker(reader);
+  assert.ok(metadata, diagnostics.map(d => d.message).join('; '));
+  return { reader, metadata };
+}
+
+/** What a reader sees: the header at the start and in its copy, zeros over the metadata */
+function expected(data: Buffer): Uint8Array {
+  const out = new Uint8Array(data);
+  out.set(data.subarray(0, HEADER_SECTORS * SECTOR), HEADER_COPY);
+  for (const offset of METADATA) out.fill(0, offset, offset + 0x10000);
+  return out;
+}
+
+test('recovery passwords decode to their 16-byte key', () => {
+  const key = parseRecoveryPassword('000011-000022-000033-000044-000055-000066-000077-720885');
+  assert.deepEqual(key && Array.from(key), [1, 0, 2, 0, 3, 0, 4, 0, 5, 0, 6, 0, 7, 0, 0xff, 0xff]);
+  assert.equal(parseRecoveryPassword('000012-000022-000033-000044-000055-000066-000077-000088'), null);
+  assert.equal(parseRecoveryPassword('000011-000022'), null);
+});
+
+test('BitLocker metadata is described', async () => {
+  const { metadata } = await open(bitlocker(0x8004, 'clear', pattern(SIZE, 7)).volume);
+  assert.equal(metadata.info.version, 2);
+  assert.equal(metadata.info.encryptedSize, SIZE);
+  assert.deepEqual(metadata.info.metadataOffsets, METADATA);
+  assert.equal(metadata.info.description, 'TESTPC D: 01/01/2026');
+  assert.deepEqual(metadata.info.protectors.map(p => p.kind), ['clear key']);
+});
+
+test('AES-XTS volumes with a clear key decrypt without a key', async () => {
+  const data = pattern(SIZE, 8);
+  const { reader, metadata } = await open(bitlocker(0x8004, 'clear', data).volume);
+  const unlocked = unlockBitLocker(reader, metadata);
+  assert.ok(unlocked.reader);
+  assert.deepEqual(await unlocked.reader.read(0, SIZE), expected(data));
+});
+
+test('AES-CBC volumes with the Elephant diffuser decrypt with the startup key', async () => {
+  const data = pattern(SIZE, 9);
+  const { volume, bek } = bitlocker(0x8000, 'startup', data);
+  const { reader, metadata } = await open(volume);
+  assert.equal(unlockBitLocker(reader, metadata).reader, null);
+  assert.equal(unlockBitLocker(reader, metadata, { type: 'key-file', data: pattern(bek!.length, 1) }).reader, null);
+
+  const unlocked = unlockBitLocker(reader, metadata, { type: 'key-file', data: new Uint8Array(bek!) });
+  assert.ok(unlocked.reader);
+  assert.deepEqual(await unlocked.reader.read(0, SIZE), expected(data));
+});
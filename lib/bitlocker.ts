@@ -0,0 +1,470 @@
+/**
+ * BitLocker Drive Encryption volumes
+ *
+ * The boot sector keeps an NTFS-like BPB with the OEM name "-FVE-FS-" and,
+ * from Windows 7 on, the offsets of three copies of the FVE metadata block
+ * at 176, 184 and 192 (Windows Vista keeps one, as a cluster number at 56).
+ * Each block is little-endian:
+ * - block header (64 bytes): "-FVE-FS-", version, the size of the
+ *   encrypted part of the volume, and where the original boot sectors
+ *   were moved to, encrypted, along with how many there are
+ * - metadata header (48 bytes): metadata size, volume GUID, encryption
+ *   method and creation time
+ * - entries: size, entry type, value type and version, then a value that
+ *   may nest further entries. Each protector is a volume master key (VMK)
+ *   entry, the VMK wrapped with AES-CCM under a key derived from that
+ *   protector: a recovery password or user password stretched with
+ *   SHA-256, a startup key from a .BEK file, or a clear key stored beside
+ *   it while protection is suspended. The full volume encryption key
+ *   (FVEK) is wrapped with the VMK.
+ *
+ * Sectors are encrypted with the FVEK in place at their byte offset, with
+ * AES-CBC (optionally with the Elephant diffuser) or AES-XTS. The metadata
+ * blocks are not encrypted and read as zeros once decrypted.
+ */
+
+import { Aes, cbcDecrypt, ccmDecrypt, xtsDecrypt } from './aes';
+import { ByteReader, DecryptingReader, SegmentedReader } from './byte-reader';
+import { Diagnostic, diagnostic } from './diagnostics';
+import type { UnlockedVolume, VolumeKey } from './encrypted-volume';
+import { sha256 } from './hashes';
+
+export interface BitLockerProtector {
+  guid: string;
+  /** Protection type, e.g. 0x800 for a recovery password */
+  type: number;
+  kind: string;
+  created?: string;
+}
+
+export interface BitLockerInfo {
+  scheme: 'BitLocker';
+  /** 1 for Windows Vista, 2 for Windows 7 and later */
+  version: number;
+  volumeGuid: string;
+  method: number;
+  /** e.g. "AES-XTS 128" */
+  cipher: string;
+  created?: string;
+  description?: string;
+  /** Bytes from the start of the volume that are encrypted */
+  encryptedSize: number;
+  /** Byte offsets of the FVE metadata blocks */
+  metadataOffsets: number[];
+  /** Where the original boot sectors are kept, and how many bytes of them */
+  volumeHeaderOffset: number;
+  volumeHeaderSize: number;
+  protectors: BitLockerProtector[];
+}
+
+interface FveEntry {
+  entryType: number;
+  valueType: number;
+  /** The value after the 8-byte entry header */
+  data: Uint8Array;
+  /** Entries nested in the value */
+  children: FveEntry[];
+}
+
+/** What unlocking needs beyond the description */
+export interface BitLockerMetadata {
+  info: BitLockerInfo;
+  entries: FveEntry[];
+  sectorSize: number;
+}
+
+export interface BitLockerResult {
+  metadata: BitLockerMetadata | null;
+  diagnostics: Diagnostic[];
+}
+
+const SIGNATURE = '-FVE-FS-';
+const BLOCK_HEADER_SIZE = 64;
+const METADATA_HEADER_SIZE = 48;
+// Metadata blocks are reserved in 64 KiB regions
+const METADATA_REGION = 0x10000;
+const MAX_METADATA_SIZE = 0x10000;
+const STRETCH_ROUNDS = 0x100000;
+
+const ENTRY_VMK = 0x0002;
+const ENTRY_FVEK = 0x0003;
+const ENTRY_DESCRIPTION = 0x0007;
+const ENTRY_VOLUME_HEADER = 0x000f;
+
+const VALUE_KEY = 0x0001;
+const VALUE_STRING = 0x0002;
+const VALUE_STRETCH_KEY = 0x0003;
+const VALUE_USE_KEY = 0x0004;
+const VALUE_AES_CCM = 0x0005;
+const VALUE_VMK = 0x0008;
+const VALUE_EXTERNAL_KEY = 0x0009;
+const VALUE_OFFSET_SIZE = 0x000f;
+
+// Where each value type's nested entries start
+const NESTED_OFFSET: Record<number, number> = {
+  [VALUE_STRETCH_KEY]: 20,
+  [VALUE_USE_KEY]: 4,
+  [VALUE_VMK]: 28,
+  [VALUE_EXTERNAL_KEY]: 24,
+};
+
+const PROTECTION_CLEAR_KEY = 0x0000;
+const PROTECTION_STARTUP_KEY = 0x0200;
+const PROTECTION_RECOVERY_PASSWORD = 0x0800;
+const PROTECTION_PASSWORD = 0x2000;
+
+const PROTECTION_KINDS: Record<number, string> = {
+  [PROTECTION_CLEAR_KEY]: 'clear key',
+  0x0100: 'TPM',
+  [PROTECTION_STARTUP_KEY]: 'startup key',
+  0x0500: 'TPM and PIN',
+  [PROTECTION_RECOVERY_PASSWORD]: 'recovery password',
+  [PROTECTION_PASSWORD]: 'password',
+};
+
+const METHODS: Record<number, string> = {
+  0x8000: 'AES-CBC 128 with diffuser',
+  0x8001: 'AES-CBC 256 with diffuser',
+  0x8002: 'AES-CBC 128',
+  0x8003: 'AES-CBC 256',
+  0x8004: 'AES-XTS 128',
+  0x8005: 'AES-XTS 256',
+};
+
+function ascii(data: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + length));
+}
+
+function formatGuid(data: Uint8Array, offset: number): string {
+  const h = Array.from(data.subarray(offset, offset + 16), b => b.toString(16).padStart(2, '0'));
+  const le = (from: number, to: number) => h.slice(from, to).reverse().join('');
+  return `${le(0, 4)}-${le(4, 6)}-${le(6, 8)}-${h.slice(8, 10).join('')}-${h.slice(10).join('')}`;
+}
+
+/**
+ * A FILETIME as an ISO date; undefined when unset
+ */
+function readFiletime(view: DataView, offset: number): string | undefined {
+  const ticks = view.getBigUint64(offset, true);
+  if (ticks === 0n) return undefined;
+  const date = new Date(Number(ticks / 10000n) - 11644473600000);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function parseEntries(data: Uint8Array, offset: number, end: number): FveEntry[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const entries: FveEntry[] = [];
+  while (offset + 8 <= Math.min(end, data.length)) {
+    const size = view.getUint16(offset, true);
+    if (size < 8 || offset + size > end) break;
+    const valueType = view.getUint16(offset + 4, true);
+    const value = data.subarray(offset + 8, offset + size);
+    const nested = NESTED_OFFSET[valueType];
+    entries.push({
+      entryType: view.getUint16(offset + 2, true),
+      valueType,
+      data: value,
+      children: nested !== undefined ? parseEntries(value, nested, value.length) : [],
+    });
+    offset += size;
+  }
+  return entries;
+}
+
+function utf16(data: Uint8Array): string {
+  return new TextDecoder('utf-16le').decode(data).replace(/\0[\s\S]*$/, '');
+}
+
+/**
+ * Read the boot sector and the first intact FVE metadata block; metadata is
+ * null when the volume is not BitLocker
+ */
+export async function readBitLocker(reader: ByteReader): Promise<BitLockerResult> {
+  const boot = await reader.read(0, 512);
+  if (boot.length < 512 || ascii(boot, 3, 8) !== SIGNATURE) return { metadata: null, diagnostics: [] };
+  const bootView = new DataView(boot.buffer, boot.byteOffset, boot.byteLength);
+  const sectorSize = bootView.getUint16(11, true) || 512;
+
+  let offsets = [176, 184, 192].map(at => Number(bootView.getBigUint64(at, true))).filter(offset => offset > 0);
+  if (offsets.length === 0) {
+    // Windows Vista: the MFT mirror cluster field
+    offsets = [Number(bootView.getBigUint64(56, true)) * sectorSize * (boot[13] || 1)].filter(offset => offset > 0);
+  }
+
+  const diagnostics: Diagnostic[] = [];
+  for (const offset of offsets) {
+    const head = await reader.read(offset, BLOCK_HEADER_SIZE + METADATA_HEADER_SIZE);
+    if (head.length < BLOCK_HEADER_SIZE + METADATA_HEADER_SIZE || ascii(head, 0, 8) !== SIGNATURE) {
+      diagnostics.push(diagnostic('VOLUME_ENCRYPTION_INVALID', 'BitLocker: an FVE metadata block has no signature', { offset }));
+      continue;
+    }
+    const headView = new DataView(head.buffer, head.byteOffset, head.byteLength);
+    const metadataSize = headView.getUint32(BLOCK_HEADER_SIZE, true);
+    if (metadataSize < METADATA_HEADER_SIZE || metadataSize > MAX_METADATA_SIZE) {
+      diagnostics.push(diagnostic('VOLUME_ENCRYPTION_INVALID', `BitLocker: an FVE metadata block claims ${metadataSize} bytes of metadata`, { offset }));
+      continue;
+    }
+    const block = await reader.read(offset, BLOCK_HEADER_SIZE + metadataSize);
+    const view = new DataView(block.buffer, block.byteOffset, block.byteLength);
+    const entries = parseEntries(block, BLOCK_HEADER_SIZE + METADATA_HEADER_SIZE, block.length);
+
+    let volumeHeaderOffset = Number(view.getBigUint64(56, true));
+    let volumeHeaderSize = view.getUint32(28, true) * sectorSize;
+    const headerEntry = entries.find(e => e.entryType === ENTRY_VOLUME_HEADER && e.valueType === VALUE_OFFSET_SIZE && e.data.length >= 16);
+    if (headerEntry) {
+      const entryView = new DataView(headerEntry.data.buffer, headerEntry.data.byteOffset, 16);
+      volumeHeaderOffset = Number(entryView.getBigUint64(0, true));
+      volumeHeaderSize = Number(entryView.getBigUint64(8, true));
+    }
+    const description = entries.find(e => e.entryType === ENTRY_DESCRIPTION && e.valueType === VALUE_STRING);
+    const method = view.getUint16(BLOCK_HEADER_SIZE + 36, true);
+
+    const info: BitLockerInfo = {
+      scheme: 'BitLocker',
+      version: view.getUint16(10, true),
+      volumeGuid: formatGuid(block, BLOCK_HEADER_SIZE + 16),
+      method,
+      cipher: METHODS[method] ?? `method 0x${method.toString(16)}`,
+      created: readFiletime(view, BLOCK_HEADER_SIZE + 40),
+      description: description && utf16(description.data),
+      encryptedSize: Number(view.getBigUint64(16, true)),
+      metadataOffsets: offsets,
+      volumeHeaderOffset,
+      volumeHeaderSize,
+      protectors: entries
+        .filter(e => e.entryType === ENTRY_VMK && e.valueType === VALUE_VMK && e.data.length >= 28)
+        .map(e => {
+          const vmkView = new DataView(e.data.buffer, e.data.byteOffset, e.data.byteLength);
+          const type = vmkView.getUint16(26, true);
+          return { guid: formatGuid(e.data, 0), type, kind: PROTECTION_KINDS[type] ?? `type 0x${type.toString(16)}`, created: readFiletime(vmkView, 16) };
+        }),
+    };
+    return { metadata: { info, entries, sectorSize }, diagnostics };
+  }
+  diagnostics.push(diagnostic('VOLUME_ENCRYPTION_INVALID', 'BitLocker: no readable FVE metadata block', { offset: 0 }));
+  return { metadata: null, diagnostics };
+}
+
+/**
+ * The 16-byte key of a 48-digit recovery password: eight groups of six
+ * digits, each a multiple of 11 holding 16 bits; null when malformed
+ */
+export function parseRecoveryPassword(password: string): Uint8Array | null {
+  const groups = password.trim().split('-');
+  if (groups.length !== 8 || !groups.every(g => /^\d{6}$/.test(g))) return null;
+  const key = new Uint8Array(16);
+  for (let i = 0; i < 8; i++) {
+    const value = Number(groups[i]);
+    if (value % 11 !== 0 || value / 11 > 0xffff) return null;
+    key[i * 2] = (value / 11) & 0xff;
+    key[i * 2 + 1] = (value / 11) >>> 8;
+  }
+  return key;
+}
+
+/**
+ * BitLocker's key stretching: a 32-byte hash of the password hash, the
+ * salt and a counter, chained through a million rounds of SHA-256
+ */
+function stretchKey(passwordHash: Uint8Array, salt: Uint8Array): Uint8Array {
+  // last hash (32), password hash (32), salt (16), counter (8)
+  const state = new Uint8Array(88);
+  state.set(passwordHash, 32);
+  state.set(salt, 64);
+  const view = new DataView(state.buffer);
+  for (let round = 0; round < STRETCH_ROUNDS; round++) {
+    view.setUint32(80, round, true);
+    state.set(sha256(state), 0);
+  }
+  return state.slice(0, 32);
+}
+
+/**
+ * The key wrapped in an AES-CCM entry, or null when `key` does not open it
+ */
+function unwrapKey(key: Uint8Array, entry: FveEntry): Uint8Array | null {
+  if (entry.data.length < 12 + 16 + 12) return null;
+  const message = ccmDecrypt(new Aes(key), entry.data.subarray(0, 12), entry.data.subarray(12));
+  if (!message || message.length < 12) return null;
+  // The message is a key entry: header, encryption method, then the key
+  const view = new DataView(message.buffer, message.byteOffset, message.byteLength);
+  const size = view.getUint16(0, true);
+  if (view.getUint16(4, true) !== VALUE_KEY || size <= 12 || size > message.length) return null;
+  return message.slice(12, size);
+}
+
+function findChild(entry: FveEntry, valueType: number): FveEntry | undefined {
+  return entry.children.find(child => child.valueType === valueType);
+}
+
+/**
+ * The startup key in a .BEK file: a metadata header, then an external key
+ * entry holding the key
+ */
+function readStartupKey(file: Uint8Array): Uint8Array | null {
+  if (file.length < METADATA_HEADER_SIZE) return null;
+  const size = new DataView(file.buffer, file.byteOffset, file.byteLength).getUint32(0, true);
+  const external = parseEntries(file, METADATA_HEADER_SIZE, Math.min(size, file.length)).find(e => e.valueType === VALUE_EXTERNAL_KEY);
+  const key = external && findChild(external, VALUE_KEY);
+  return key && key.data.length > 4 ? key.data.slice(4) : null;
+}
+
+/**
+ * The volume master key from the first protector the key opens
+ */
+function unlockMasterKey(metadata: BitLockerMetadata, key: VolumeKey | undefined): { vmk: Uint8Array; protector: BitLockerProtector } | null {
+  const vmks = metadata.entries.filter(e => e.entryType === ENTRY_VMK && e.valueType === VALUE_VMK && e.data.length >= 28);
+  const protectorOf = (entry: FveEntry) => metadata.info.protectors[vmks.indexOf(entry)];
+
+  for (const entry of vmks) {
+    const protector = protectorOf(entry);
+    const wrapped = findChild(entry, VALUE_AES_CCM);
+    if (!wrapped) continue;
+
+    let wrappingKey: Uint8Array | null = null;
+    if (protector.type === PROTECTION_CLEAR_KEY) {
+      const clear = findChild(entry, VALUE_KEY);
+      wrappingKey = clear && clear.data.length > 4 ? clear.data.slice(4) : null;
+    } else if (key?.type === 'key-file' && protector.type === PROTECTION_STARTUP_KEY) {
+      wrappingKey = readStartupKey(key.data);
+    } else if (key?.type === 'recovery-password' && protector.type === PROTECTION_RECOVERY_PASSWORD) {
+      const stretch = findChild(entry, VALUE_STRETCH_KEY);
+      const recoveryKey = parseRecoveryPassword(key.value);
+      if (stretch && recoveryKey && stretch.data.length >= 20) wrappingKey = stretchKey(sha256(recoveryKey), stretch.data.subarray(4, 20));
+    } else if (key?.type === 'password' && protector.type === PROTECTION_PASSWORD) {
+      const stretch = findChild(entry, VALUE_STRETCH_KEY);
+      const encoded = new Uint8Array(key.value.length * 2);
+      for (let i = 0; i < key.value.length; i++) {
+        encoded[i * 2] = key.value.charCodeAt(i) & 0xff;
+        encoded[i * 2 + 1] = key.value.charCodeAt(i) >>> 8;
+      }
+      if (stretch && stretch.data.length >= 20) wrappingKey = stretchKey(sha256(sha256(encoded)), stretch.data.subarray(4, 20));
+    }
+    if (!wrappingKey || ![16, 24, 32].includes(wrappingKey.length)) continue;
+    const vmk = unwrapKey(wrappingKey, wrapped);
+    if (vmk) return { vmk, protector };
+  }
+  return null;
+}
+
+/**
+ * Decrypt one sector in place at its byte offset on the volume, for the
+ * volume's encryption method; null for methods this app cannot decrypt
+ */
+function sectorDecryptor(method: number, fvek: Uint8Array, sectorSize: number): ((data: Uint8Array, offset: number) => void) | null {
+  const keySize = method === 0x8000 || method === 0x8002 || method === 0x8004 ? 16 : 32;
+  const offsetBlock = (offset: number, last = 0) => {
+    const block = new Uint8Array(16);
+    new DataView(block.buffer).setBigUint64(0, BigInt(offset), true);
+    block[15] = last;
+    return block;
+  };
+
+  if ((method === 0x8004 || method === 0x8005) && fvek.length >= 2 * keySize) {
+    const data = new Aes(fvek.subarray(0, keySize));
+    const tweak = new Aes(fvek.subarray(keySize, 2 * keySize));
+    return (sector, offset) => xtsDecrypt(data, tweak.encrypt(offsetBlock(offset / sectorSize)), sector);
+  }
+  if ((method === 0x8002 || method === 0x8003) && fvek.length >= keySize) {
+    const aes = new Aes(fvek.subarray(0, keySize));
+    return (sector, offset) => cbcDecrypt(aes, aes.encrypt(offsetBlock(offset)), sector);
+  }
+  if ((method === 0x8000 || method === 0x8001) && fvek.length >= 32 + keySize) {
+    const aes = new Aes(fvek.subarray(0, keySize));
+    const tweak = new Aes(fvek.subarray(32, 32 + keySize));
+    return (sector, offset) => {
+      cbcDecrypt(aes, aes.encrypt(offsetBlock(offset)), sector);
+      elephantDecrypt(sector);
+      // The sector key: the tweak key over the offset, then again with a marker byte
+      const sectorKey = new Uint8Array(32);
+      sectorKey.set(tweak.encrypt(offsetBlock(offset)), 0);
+      sectorKey.set(tweak.encrypt(offsetBlock(offset, 0x80)), 16);
+      for (let i = 0; i < sector.length; i++) sector[i] ^= sectorKey[i % 32];
+    };
+  }
+  return null;
+}
+
+const DIFFUSER_A_SHIFTS = [9, 0, 13, 0];
+const DIFFUSER_B_SHIFTS = [0, 10, 0, 25];
+
+/**
+ * Undo the Elephant diffuser: diffuser B, then diffuser A, over the sector
+ * as 32-bit little-endian words
+ */
+function elephantDecrypt(sector: Uint8Array): void {
+  const view = new DataView(sector.buffer, sector.byteOffset, sector.byteLength);
+  const n = sector.length / 4;
+  const words = new Uint32Array(n);
+  for (let i = 0; i < n; i++) words[i] = view.getUint32(i * 4, true);
+  const rotl = (v: number, s: number) => (s === 0 ? v : (v << s) | (v >>> (32 - s)));
+
+  for (let round = 0; round < 3; round++) {
+    for (let i = 0; i < n; i++) {
+      words[i] += words[(i + 2) % n] ^ rotl(words[(i + 5) % n], DIFFUSER_B_SHIFTS[i % 4]);
+    }
+  }
+  for (let round = 0; round < 5; round++) {
+    for (let i = 0; i < n; i++) {
+      words[i] += words[(i - 2 + n) % n] ^ rotl(words[(i - 5 + n) % n], DIFFUSER_A_SHIFTS[i % 4]);
+    }
+  }
+  for (let i = 0; i < n; i++) view.setUint32(i * 4, words[i], true);
+}
+
+/**
+ * Open the volume with the key, or with its clear key when protection is
+ * suspended
+ */
+export function unlockBitLocker(reader: ByteReader, metadata: BitLockerMetadata, key?: VolumeKey): UnlockedVolume {
+  const { info, sectorSize } = metadata;
+  const locked = (problem: Diagnostic): UnlockedVolume => ({ reader: null, volumeOffset: offset => offset, diagnostics: [problem] });
+  if (info.version !== 2) {
+    return locked(diagnostic('VOLUME_ENCRYPTION_UNSUPPORTED', `BitLocker: FVE version ${info.version} volumes (Windows Vista) cannot be decrypted`, { offset: 0 }));
+  }
+
+  const clearKey = info.protectors.some(p => p.type === PROTECTION_CLEAR_KEY);
+  if (!key && !clearKey) {
+    const kinds = [...new Set(info.protectors.map(p => p.kind))].join(', ') || 'none';
+    return locked(diagnostic('VOLUME_ENCRYPTED', `BitLocker volume: its contents are encrypted and need a key to be read (protectors: ${kinds})`, { offset: 0 }));
+  }
+  const master = unlockMasterKey(metadata, key);
+  if (!master) {
+    const what = key?.type === 'key-file' ? 'The key file' : key?.type === 'recovery-password' ? 'The recovery password' : 'The password';
+    return locked(diagnostic('VOLUME_KEY_REJECTED', `BitLocker: ${what} does not unlock any protector of this volume`, { offset: 0 }));
+  }
+
+  const fvekEntry = metadata.entries.find(e => e.entryType === ENTRY_FVEK && e.valueType === VALUE_AES_CCM);
+  const fvek = fvekEntry && unwrapKey(master.vmk, fvekEntry);
+  if (!fvek) {
+    return locked(diagnostic('VOLUME_ENCRYPTION_INVALID', 'BitLocker: the volume encryption key cannot be unwrapped with the volume master key', { offset: 0 }));
+  }
+  const decryptSector = sectorDecryptor(info.method, fvek, sectorSize);
+  if (!decryptSector) {
+    return locked(diagnostic('VOLUME_ENCRYPTION_UNSUPPORTED', `BitLocker: encryption method ${info.cipher} cannot be decrypted`, { offset: 0 }));
+  }
+
+  // The first sectors are read from where the original boot sectors were moved
+  const headerSize = info.volumeHeaderSize;
+  const volumeOffset = (offset: number) => (offset < headerSize ? offset + info.volumeHeaderOffset : offset);
+  const source = new SegmentedReader([reader], [
+    { start: 0, length: headerSize, stripeSize: 0, stripes: [{ source: 0, offset: info.volumeHeaderOffset }] },
+    { start: headerSize, length: reader.size - headerSize, stripeSize: 0, stripes: [{ source: 0, offset: headerSize }] },
+  ], reader.size);
+  const decrypted = new DecryptingReader(source, reader.size, sectorSize, (sector, offset) => {
+    if (info.metadataOffsets.some(start => offset >= start && offset < start + METADATA_REGION)) {
+      sector.fill(0);
+      return;
+    }
+    const stored = volumeOffset(offset);
+    // Past the encrypted size the volume is still plain (encryption paused part way)
+    if (stored < info.encryptedSize) decryptSector(sector, stored);
+  });
+
+  const via = master.protector.type === PROTECTION_CLEAR_KEY ? 'its clear key (protection is suspended)' : `the ${master.protector.kind} protector ${master.protector.guid}`;
+  return {
+    reader: decrypted,
+    volumeOffset,
+    diagnostics: [diagnostic('VOLUME_DECRYPTED', `BitLocker volume unlocked with ${via}; ${info.cipher}`, { offset: 0 }, { protector: master.protector.guid })],
+  };
+}
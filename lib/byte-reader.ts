@@ -0,0 +1,220 @@
+/**
+ * Random-access byte readers
+ *
+ * Disk images are far too large to hold in memory, so parsers read the
+ * bytes they need through this interface instead of taking a Uint8Array.
+ */
+
+export interface ByteReader {
+  /** Total number of readable bytes */
+  readonly size: number;
+  /** Read `length` bytes at `offset` (fewer if the range runs past the end) */
+  read(offset: number, length: number): Promise<Uint8Array>;
+}
+
+/**
+ * Clamp a requested range to the readable size
+ */
+export function clampRange(size: number, offset: number, length: number): number {
+  if (offset < 0 || offset >= size || length <= 0) return 0;
+  return Math.min(length, size - offset);
+}
+
+/**
+ * Reads directly from a Blob (or File) using Blob.slice
+ */
+export class BlobReader implements ByteReader {
+  readonly size: number;
+
+  constructor(private readonly blob: Blob) {
+    this.size = blob.size;
+  }
+
+  async read(offset: number, length: number): Promise<Uint8Array> {
+    const count = clampRange(this.size, offset, length);
+    if (count === 0) return new Uint8Array(0);
+    const buffer = await this.blob.slice(offset, offset + count).arrayBuffer();
+    return new Uint8Array(buffer);
+  }
+}
+
+/**
+ * Exposes a window of another reader, e.g. a single partition of a disk
+ */
+export class SliceReader implements ByteReader {
+  readonly size: number;
+
+  constructor(private readonly source: ByteReader, private readonly start: number, size: number) {
+    this.size = Math.max(0, Math.min(size, source.size - start));
+  }
+
+  read(offset: number, length: number): Promise<Uint8Array> {
+    const count = clampRange(this.size, offset, length);
+    if (count === 0) return Promise.resolve(new Uint8Array(0));
+    return this.source.read(this.start + offset, count);
+  }
+}
+
+/**
+ * Fails reads once the signal is aborted, so any parser reading through it
+ * can be cancelled without knowing about cancellation itself
+ */
+export class AbortableReader implements ByteReader {
+  readonly size: number;
+
+  constructor(private readonly source: ByteReader, private readonly signal: AbortSignal) {
+    this.size = source.size;
+  }
+
+  read(offset: number, length: number): Promise<Uint8Array> {
+    this.signal.throwIfAborted();
+    return this.source.read(offset, length);
+  }
+}
+
+/**
+ * Reads several readers back to back as one stream, e.g. the parts of a
+ * split image or the extents of a virtual disk
+ */
+export class ConcatReader implements ByteReader {
+  readonly size: number;
+  private readonly parts: { start: number; reader: ByteReader }[] = [];
+
+  constructor(readers: ByteReader[]) {
+    let start = 0;
+    for (const reader of readers) {
+      if (reader.size === 0) continue;
+      this.parts.push({ start, reader });
+      start += reader.size;
+    }
+    this.size = start;
+  }
+
+  async read(offset: number, length: number): Promise<Uint8Array> {
+    const count = clampRange(this.size, offset, length);
+    const out = new Uint8Array(count);
+    let pos = 0;
+    while (pos < count) {
+      const absolute = offset + pos;
+      const part = this.parts.findLast(p => p.start <= absolute)!;
+      const data = await part.reader.read(absolute - part.start, count - pos);
+      if (data.length === 0) break;
+      out.set(data, pos);
+      pos += data.length;
+    }
+    return out;
+  }
+}
+
+/**
+ * Reads as zeros, for ranges an image does not store
+ */
+export class ZeroReader implements ByteReader {
+  constructor(readonly size: number) {}
+
+  async read(offset: number, length: number): Promise<Uint8Array> {
+    return new Uint8Array(clampRange(this.size, offset, length));
+  }
+}
+
+/**
+ * Where a segment's data lives: an offset into one of the source readers
+ */
+export interface SegmentTarget {
+  source: number;
+  offset: number;
+}
+
+/**
+ * A run of a volume laid out linearly (one target) or striped across
+ * several targets in `stripeSize` chunks; null targets are missing
+ */
+export interface VolumeSegment {
+  start: number;
+  length: number;
+  stripeSize: number;
+  stripes: (SegmentTarget | null)[];
+}
+
+/**
+ * The target holding `offset` of a volume, and how many bytes from there
+ * are contiguous; null outside every segment, `target` null where the
+ * stripe is missing
+ */
+export function locateInSegments(
+  segments: VolumeSegment[],
+  offset: number,
+): { target: SegmentTarget | null; contiguous: number } | null {
+  const segment = segments.find(s => offset >= s.start && offset < s.start + s.length);
+  if (!segment) return null;
+  const relative = offset - segment.start;
+  if (segment.stripes.length === 1) {
+    const stripe = segment.stripes[0];
+    return { target: stripe && { source: stripe.source, offset: stripe.offset + relative }, contiguous: segment.length - relative };
+  }
+  const chunk = Math.floor(relative / segment.stripeSize);
+  const within = relative % segment.stripeSize;
+  const stripe = segment.stripes[chunk % segment.stripes.length];
+  const row = Math.floor(chunk / segment.stripes.length);
+  return {
+    target: stripe && { source: stripe.source, offset: stripe.offset + row * segment.stripeSize + within },
+    contiguous: Math.min(segment.stripeSize - within, segment.length - relative),
+  };
+}
+
+/**
+ * Reads a volume assembled from several sources, e.g. an LVM logical
+ * volume or a RAID array; gaps and missing stripes read as zeros
+ */
+export class SegmentedReader implements ByteReader {
+  constructor(private readonly sources: ByteReader[], private readonly segments: VolumeSegment[], readonly size: number) {}
+
+  async read(offset: number, length: number): Promise<Uint8Array> {
+    const count = clampRange(this.size, offset, length);
+    const out = new Uint8Array(count);
+    let pos = 0;
+    while (pos < count) {
+      const located = locateInSegments(this.segments, offset + pos);
+      if (!located) {
+        // Up to the next segment, if any
+        const next = Math.min(...this.segments.map(s => s.start).filter(start => start > offset + pos), offset + count);
+        pos = next - offset;
+        continue;
+      }
+      const take = Math.min(located.contiguous, count - pos);
+      if (located.target) {
+        const data = await this.sources[located.target.source].read(located.target.offset, take);
+        out.set(data, pos);
+      }
+      pos += take;
+    }
+    return out;
+  }
+}
+
+/**
+ * Reads a volume encrypted sector by sector: whole sectors are read from
+ * the source and decrypted in place, given their offset in the volume
+ */
+export class DecryptingReader implements ByteReader {
+  constructor(
+    private readonly source: ByteReader,
+    readonly size: number,
+    private readonly sectorSize: number,
+    private readonly decryptSector: (sector: Uint8Array, offset: number) => void,
+  ) {}
+
+  async read(offset: number, length: number): Promise<Uint8Array> {
+    const count = clampRange(this.size, offset, length);
+    if (count === 0) return new Uint8Array(0);
+    const first = Math.floor(offset / this.sectorSize) * this.sectorSize;
+    const end = Math.ceil((offset + count) / this.sectorSize) * this.sectorSize;
+    // A copy, since sources may hand out cached buffers
+    const data = new Uint8Array(end - first);
+    data.set(await this.source.read(first, end - first));
+    for (let pos = 0; pos < data.length; pos += this.sectorSize) {
+      this.decryptSector(data.subarray(pos, pos + this.sectorSize), first + pos);
+    }
+    return data.subarray(offset - first, offset - first + count);
+  }
+}
@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { bunzip2 } from './bzip2';
+
+const base64 = (s: string) => new Uint8Array(Buffer.from(s, 'base64'));
+const text = (s: string) => new TextEncoder().encode(s);
+
+// Compressed with bzip2 -9
+const HELLO = 'QlpoOTFBWSZTWU7s6DYAAAJRgAAQQAAGRJCAIAAxBkxBAaeppYC7lDH4u5IpwoSCd2dBsA==';
+const RUNS = 'QlpoOTFBWSZTWagZYiQAAAJBAaAAOAAAgAAIIAAwwARTTRObQMUWwK9AVgK4Hi7kinChIVAyxEg=';
+const EMPTY = 'QlpoORdyRThQkAAAAAA=';
+
+test('bunzip2 decodes known streams', () => {
+  assert.deepEqual(bunzip2(base64(HELLO)), text('hello world\n'));
+  assert.deepEqual(bunzip2(base64(RUNS)), text('a'.repeat(1000) + 'b'.repeat(5) + 'abc'.repeat(60)));
+  assert.deepEqual(bunzip2(base64(EMPTY)), new Uint8Array(0));
+});
+
+test('bunzip2 decodes concatenated streams', () => {
+  const hello = base64(HELLO);
+  const both = new Uint8Array(hello.length * 2);
+  both.set(hello);
+  both.set(hello, hello.length);
+  assert.deepEqual(bunzip2(both), text('hello world\nhello world\n'));
+});
+
+test('bunzip2 rejects damaged streams', () => {
+  assert.throws(() => bunzip2(text('not bzip2')), /header/);
+  const damaged = base64(HELLO);
+  damaged[damaged.length - 12] ^= 0x01;
+  assert.throws(() => bunzip2(damaged));
+});
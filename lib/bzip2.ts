@@ -0,0 +1,309 @@
+/**
+ * bzip2 decompressor
+ *
+ * EWF2 images may store chunks as bzip2 streams, which pako cannot decode.
+ * Each stream is: "BZh" + block size digit, then blocks (Huffman coded
+ * MTF/RLE2 symbols over a Burrows–Wheeler transform, then RLE1), each with
+ * a CRC-32, and an end-of-stream marker carrying the combined CRC.
+ */
+
+const BLOCK_MAGIC_HIGH = 0x314159;
+const BLOCK_MAGIC_LOW = 0x265359;
+const END_MAGIC_HIGH = 0x177245;
+const END_MAGIC_LOW = 0x385090;
+
+const GROUP_SIZE = 50;
+const MAX_CODE_LENGTH = 20;
+const MAX_TREES = 6;
+const RUNA = 0;
+const RUNB = 1;
+
+// bzip2 uses the big-endian (non-reflected) CRC-32
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let c = i << 24;
+    for (let k = 0; k < 8; k++) {
+      c = c & 0x80000000 ? (c << 1) ^ 0x04c11db7 : c << 1;
+    }
+    table[i] = c >>> 0;
+  }
+  return table;
+})();
+
+class BitReader {
+  private pos = 0;
+  private buffer = 0;
+  private count = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  /** Read up to 24 bits, most significant first */
+  read(bits: number): number {
+    while (this.count < bits) {
+      if (this.pos >= this.data.length) throw new Error('Unexpected end of bzip2 data');
+      this.buffer = ((this.buffer << 8) | this.data[this.pos++]) & 0x7fffffff;
+      this.count += 8;
+    }
+    this.count -= bits;
+    return (this.buffer >>> this.count) & ((1 << bits) - 1);
+  }
+
+  read32(): number {
+    return ((this.read(16) << 16) | this.read(16)) >>> 0;
+  }
+
+  /** Skip to the next byte; streams are byte-aligned at their end */
+  align(): void {
+    this.count -= this.count % 8;
+  }
+
+  get exhausted(): boolean {
+    return this.pos >= this.data.length && this.count < 8;
+  }
+}
+
+interface HuffmanTable {
+  minLength: number;
+  maxLength: number;
+  firstCode: Int32Array;
+  firstIndex: Int32Array;
+  count: Int32Array;
+  symbols: Uint16Array;
+}
+
+/**
+ * Build a canonical Huffman decoding table from code lengths
+ */
+function buildTable(lengths: Uint8Array): HuffmanTable {
+  const count = new Int32Array(MAX_CODE_LENGTH + 2);
+  let minLength = MAX_CODE_LENGTH;
+  let maxLength = 0;
+  for (const length of lengths) {
+    count[length]++;
+    minLength = Math.min(minLength, length);
+    maxLength = Math.max(maxLength, length);
+  }
+
+  // Codes are assigned in order of length, then symbol
+  const symbols = new Uint16Array(lengths.length);
+  let p = 0;
+  for (let length = minLength; length <= maxLength; length++) {
+    for (let symbol = 0; symbol < lengths.length; symbol++) {
+      if (lengths[symbol] === length) symbols[p++] = symbol;
+    }
+  }
+
+  const firstCode = new Int32Array(MAX_CODE_LENGTH + 2);
+  const firstIndex = new Int32Array(MAX_CODE_LENGTH + 2);
+  let code = 0;
+  let index = 0;
+  for (let length = minLength; length <= maxLength; length++) {
+    firstCode[length] = code;
+    firstIndex[length] = index;
+    code = (code + count[length]) << 1;
+    index += count[length];
+  }
+
+  return { minLength, maxLength, firstCode, firstIndex, count, symbols };
+}
+
+function decodeSymbol(bits: BitReader, table: HuffmanTable): number {
+  let length = table.minLength;
+  let code = bits.read(length);
+  for (;;) {
+    const k = code - table.firstCode[length];
+    if (k >= 0 && k < table.count[length]) return table.symbols[table.firstIndex[length] + k];
+    if (++length > table.maxLength) throw new Error('Invalid bzip2 Huffman code');
+    code = (code << 1) | bits.read(1);
+  }
+}
+
+/**
+ * Decode one block, appending its bytes to `out`; returns the block CRC
+ */
+function decodeBlock(bits: BitReader, maxBlockSize: number, out: number[]): number {
+  const expectedCrc = bits.read32();
+  if (bits.read(1)) throw new Error('Randomised bzip2 blocks are not supported');
+  const origPtr = bits.read(24);
+
+  // Which byte values occur, as a 16×16 bitmap
+  const used: number[] = [];
+  const ranges = bits.read(16);
+  for (let i = 0; i < 16; i++) {
+    if (!(ranges & (0x8000 >>> i))) continue;
+    const values = bits.read(16);
+    for (let j = 0; j < 16; j++) {
+      if (values & (0x8000 >>> j)) used.push(i * 16 + j);
+    }
+  }
+  if (used.length === 0) throw new Error('bzip2 block uses no symbols');
+  const alphaSize = used.length + 2;
+  const endOfBlock = alphaSize - 1;
+
+  const treeCount = bits.read(3);
+  if (treeCount < 2 || treeCount > MAX_TREES) throw new Error('Invalid bzip2 tree count');
+  const selectorCount = bits.read(15);
+  if (selectorCount === 0) throw new Error('Invalid bzip2 selector count');
+
+  // Selectors are MTF coded in unary
+  const treeOrder = Array.from({ length: treeCount }, (_, i) => i);
+  const selectors = new Uint8Array(selectorCount);
+  for (let i = 0; i < selectorCount; i++) {
+    let j = 0;
+    while (bits.read(1)) {
+      if (++j >= treeCount) throw new Error('Invalid bzip2 selector');
+    }
+    const tree = treeOrder[j];
+    treeOrder.splice(j, 1);
+    treeOrder.unshift(tree);
+    selectors[i] = tree;
+  }
+
+  // Code lengths are delta coded from a 5-bit start value
+  const tables: HuffmanTable[] = [];
+  for (let t = 0; t < treeCount; t++) {
+    const lengths = new Uint8Array(alphaSize);
+    let length = bits.read(5);
+    for (let symbol = 0; symbol < alphaSize; symbol++) {
+      for (;;) {
+        if (length < 1 || length > MAX_CODE_LENGTH) throw new Error('Invalid bzip2 code length');
+        if (!bits.read(1)) break;
+        length += bits.read(1) ? -1 : 1;
+      }
+      lengths[symbol] = length;
+    }
+    tables.push(buildTable(lengths));
+  }
+
+  // Undo the Huffman, RUNA/RUNB and move-to-front stages
+  const mtf = Uint8Array.from(used.keys());
+  const byteCount = new Int32Array(256);
+  const tt = new Uint32Array(maxBlockSize);
+  let length = 0;
+  let group = -1;
+  let groupRemaining = 0;
+  let run = 0;
+  let runWeight = 0;
+
+  for (;;) {
+    if (groupRemaining === 0) {
+      if (++group >= selectorCount) throw new Error('bzip2 selectors exhausted');
+      groupRemaining = GROUP_SIZE;
+    }
+    groupRemaining--;
+    const symbol = decodeSymbol(bits, tables[selectors[group]]);
+
+    if (symbol === RUNA || symbol === RUNB) {
+      if (runWeight === 0) {
+        runWeight = 1;
+        run = 0;
+      }
+      run += (symbol + 1) * runWeight;
+      runWeight <<= 1;
+      if (run > maxBlockSize) throw new Error('bzip2 run exceeds block size');
+      continue;
+    }
+
+    if (runWeight !== 0) {
+      if (length + run > maxBlockSize) throw new Error('bzip2 block exceeds its declared size');
+      const value = used[mtf[0]];
+      byteCount[value] += run;
+      tt.fill(value, length, length + run);
+      length += run;
+      runWeight = 0;
+    }
+
+    if (symbol === endOfBlock) break;
+
+    if (length >= maxBlockSize) throw new Error('bzip2 block exceeds its declared size');
+    const position = symbol - 1;
+    const index = mtf[position];
+    mtf.copyWithin(1, 0, position);
+    mtf[0] = index;
+    const value = used[index];
+    byteCount[value]++;
+    tt[length++] = value;
+  }
+
+  if (origPtr >= length) throw new Error('Invalid bzip2 origin pointer');
+
+  // Inverse Burrows–Wheeler transform: each entry links to the next byte
+  let sum = 0;
+  for (let i = 0; i < 256; i++) {
+    const c = byteCount[i];
+    byteCount[i] = sum;
+    sum += c;
+  }
+  for (let i = 0; i < length; i++) {
+    const value = tt[i] & 0xff;
+    tt[byteCount[value]++] |= i << 8;
+  }
+
+  // Undo the initial run-length encoding while computing the block CRC
+  let crc = 0xffffffff;
+  const emit = (value: number) => {
+    out.push(value);
+    crc = (crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ value) & 0xff];
+  };
+
+  let entry = tt[tt[origPtr] >>> 8];
+  let last = -1;
+  let repeat = 0;
+  for (let i = 0; i < length; i++) {
+    const value = entry & 0xff;
+    entry = tt[entry >>> 8];
+
+    if (repeat === 4) {
+      for (let k = 0; k < value; k++) emit(last);
+      repeat = 0;
+      continue;
+    }
+    if (value === last) {
+      repeat++;
+    } else {
+      last = value;
+      repeat = 1;
+    }
+    emit(value);
+  }
+
+  crc = ~crc >>> 0;
+  if (crc !== expectedCrc) throw new Error('bzip2 block CRC mismatch');
+  return crc;
+}
+
+/**
+ * Decompress one or more concatenated bzip2 streams
+ */
+export function bunzip2(data: Uint8Array): Uint8Array {
+  const bits = new BitReader(data);
+  const out: number[] = [];
+
+  do {
+    if (bits.read(8) !== 0x42 || bits.read(8) !== 0x5a || bits.read(8) !== 0x68) {
+      throw new Error('Missing bzip2 stream header');
+    }
+    const level = bits.read(8) - 0x30;
+    if (level < 1 || level > 9) throw new Error('Invalid bzip2 block size');
+    const maxBlockSize = level * 100000;
+
+    let combinedCrc = 0;
+    for (;;) {
+      const high = bits.read(24);
+      const low = bits.read(24);
+      if (high === BLOCK_MAGIC_HIGH && low === BLOCK_MAGIC_LOW) {
+        const blockCrc = decodeBlock(bits, maxBlockSize, out);
+        combinedCrc = (((combinedCrc << 1) | (combinedCrc >>> 31)) ^ blockCrc) >>> 0;
+      } else if (high === END_MAGIC_HIGH && low === END_MAGIC_LOW) {
+        if (bits.read32() !== combinedCrc) throw new Error('bzip2 stream CRC mismatch');
+        bits.align();
+        break;
+      } else {
+        throw new Error('Invalid bzip2 block marker');
+      }
+    }
+  } while (!bits.exhausted);
+
+  return Uint8Array.from(out);
+}
@@ -0,0 +1,22 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { adler32, crc32, crc32c } from './checksums';
+
+const text = (s: string) => new TextEncoder().encode(s);
+
+test('adler32 matches known values', () => {
+  assert.equal(adler32(new Uint8Array(0)), 1);
+  assert.equal(adler32(text('Wikipedia')), 0x11e60398);
+  assert.equal(adler32(new Uint8Array(100000).fill(0xff)), 0x149a302c);
+});
+
+test('adler32 continues from a previous value', () => {
+  const data = text('The quick brown fox jumps over the lazy dog');
+  assert.equal(adler32(data.subarray(20), adler32(data.subarray(0, 20))), adler32(data));
+});
+
+test('crc32 and crc32c match the check values', () => {
+  assert.equal(crc32(text('123456789')), 0xcbf43926);
+  assert.equal(crc32c(text('123456789')), 0xe3069283);
+  assert.equal(crc32(new Uint8Array(0)), 0);
+});
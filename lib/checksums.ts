@@ -0,0 +1,62 @@
+/**
+ * Checksum helpers shared by the image parsers
+ */
+
+const ADLER_MOD = 65521;
+// Largest block that can be summed before s2 may overflow 2^53
+const ADLER_BLOCK = 5552;
+
+/**
+ * Compute the Adler-32 checksum used throughout EWF
+ */
+export function adler32(data: Uint8Array, initial = 1): number {
+  let s1 = initial & 0xffff;
+  let s2 = (initial >>> 16) & 0xffff;
+  let i = 0;
+
+  while (i < data.length) {
+    const end = Math.min(i + ADLER_BLOCK, data.length);
+    for (; i < end; i++) {
+      s1 += data[i];
+      s2 += s1;
+    }
+    s1 %= ADLER_MOD;
+    s2 %= ADLER_MOD;
+  }
+
+  return ((s2 << 16) | s1) >>> 0;
+}
+
+function reflectedCrcTable(polynomial: number): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? polynomial ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+}
+
+// Reflected CRC-32 (IEEE 802.3) and CRC-32C (Castagnoli) polynomials
+const CRC32_TABLE = reflectedCrcTable(0xedb88320);
+const CRC32C_TABLE = reflectedCrcTable(0x82f63b78);
+
+function reflectedCrc(table: Uint32Array, data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Compute the CRC-32 checksum used by GPT
+ */
+export function crc32(data: Uint8Array): number {
+  return reflectedCrc(CRC32_TABLE, data);
+}
+
+/**
+ * Compute the CRC-32C checksum used by VHDX
+ */
+export function crc32c(data: Uint8Array): number {
+  return reflectedCrc(CRC32C_TABLE, data);
+}
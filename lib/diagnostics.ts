@@ -0,0 +1,161 @@
+/**
+ * Parser diagnostics
+ *
+ * Anomalies found while reading an image are reported as typed records
+ * rather than free text: a stable code that tooling can match on, the
+ * severity and subsystem that go with it, and where possible the byte
+ * offset the problem was found at.
+ *
+ * Offsets are media offsets unless `segment` is set, in which case they
+ * are offsets into that segment file. Filesystem parsers report offsets
+ * within the volume they read; the caller rebases them onto the media.
+ */
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticSubsystem = 'ewf' | 'ltree' | 'partition' | 'volume' | 'fat' | 'image';
+
+/**
+ * Every diagnostic code with its subsystem and severity
+ */
+export const DIAGNOSTIC_CODES = {
+  // EWF segment sets
+  EWF_BAD_SIGNATURE: { subsystem: 'ewf', severity: 'error' },
+  EWF_FORMAT_MISMATCH: { subsystem: 'ewf', severity: 'warning' },
+  EWF_DUPLICATE_SEGMENT: { subsystem: 'ewf', severity: 'warning' },
+  EWF_BAD_SEGMENT_NUMBER: { subsystem: 'ewf', severity: 'warning' },
+  EWF_MISSING_SEGMENT: { subsystem: 'ewf', severity: 'error' },
+  EWF_EARLY_DONE: { subsystem: 'ewf', severity: 'warning' },
+  EWF_INCOMPLETE_SET: { subsystem: 'ewf', severity: 'warning' },
+  // EWF sections
+  EWF_DESCRIPTOR_CHECKSUM: { subsystem: 'ewf', severity: 'warning' },
+  EWF_SECTION_CHAIN_BROKEN: { subsystem: 'ewf', severity: 'warning' },
+  EWF_SECTION_DAMAGED: { subsystem: 'ewf', severity: 'warning' },
+  EWF_SECTION_ENCRYPTED: { subsystem: 'ewf', severity: 'error' },
+  EWF_HEADER_UNREADABLE: { subsystem: 'ewf', severity: 'warning' },
+  EWF_INVALID_GEOMETRY: { subsystem: 'ewf', severity: 'error' },
+  // EWF chunk tables
+  EWF_TABLE_DAMAGED: { subsystem: 'ewf', severity: 'warning' },
+  EWF_TABLE_MIRROR_USED: { subsystem: 'ewf', severity: 'info' },
+  EWF_TABLE_OUT_OF_ORDER: { subsystem: 'ewf', severity: 'error' },
+  EWF_CHUNK_LOCATION: { subsystem: 'ewf', severity: 'error' },
+  EWF_PARSE_FAILED: { subsystem: 'ewf', severity: 'error' },
+  // Logical file tables
+  LTREE_TRUNCATED: { subsystem: 'ltree', severity: 'error' },
+  LTREE_CHECKSUM: { subsystem: 'ltree', severity: 'warning' },
+  LTREE_UNREADABLE: { subsystem: 'ltree', severity: 'warning' },
+  LTREE_MALFORMED: { subsystem: 'ltree', severity: 'warning' },
+  // Partition tables
+  PARTITION_NO_TABLE: { subsystem: 'partition', severity: 'info' },
+  PARTITION_GPT_MISSING: { subsystem: 'partition', severity: 'error' },
+  PARTITION_GPT_PRIMARY_MISSING: { subsystem: 'partition', severity: 'warning' },
+  PARTITION_GPT_BACKUP_MISSING: { subsystem: 'partition', severity: 'warning' },
+  PARTITION_GPT_HEADER_CRC: { subsystem: 'partition', severity: 'warning' },
+  PARTITION_GPT_ENTRIES_CRC: { subsystem: 'partition', severity: 'warning' },
+  PARTITION_GPT_BACKUP_USED: { subsystem: 'partition', severity: 'warning' },
+  PARTITION_GPT_MISMATCH: { subsystem: 'partition', severity: 'warning' },
+  PARTITION_HYBRID_MBR: { subsystem: 'partition', severity: 'warning' },
+  PARTITION_BEYOND_MEDIA: { subsystem: 'partition', severity: 'warning' },
+  PARTITION_OVERLAP: { subsystem: 'partition', severity: 'warning' },
+  PARTITION_INVALID_RANGE: { subsystem: 'partition', severity: 'warning' },
+  PARTITION_EBR_INVALID: { subsystem: 'partition', severity: 'warning' },
+  PARTITION_EBR_LOOP: { subsystem: 'partition', severity: 'warning' },
+  PARTITION_LOGICAL_OUTSIDE_EXTENDED: { subsystem: 'partition', severity: 'warning' },
+  PARTITION_LABEL_INVALID: { subsystem: 'partition', severity: 'warning' },
+  PARTITION_LABEL_CHECKSUM: { subsystem: 'partition', severity: 'warning' },
+  PARTITION_OUTSIDE_PARENT: { subsystem: 'partition', severity: 'warning' },
+  // Volume detection
+  VOLUME_UNKNOWN: { subsystem: 'volume', severity: 'warning' },
+  VOLUME_UNSUPPORTED: { subsystem: 'volume', severity: 'info' },
+  VOLUME_ENCRYPTED: { subsystem: 'volume', severity: 'warning' },
+  VOLUME_MEMBER: { subsystem: 'volume', severity: 'info' },
+  VOLUME_MD_CHECKSUM: { subsystem: 'volume', severity: 'warning' },
+  VOLUME_MD_DEGRADED: { subsystem: 'volume', severity: 'warning' },
+  VOLUME_MD_MISSING_MEMBER: { subsystem: 'volume', severity: 'error' },
+  VOLUME_MD_UNSUPPORTED: { subsystem: 'volume', severity: 'info' },
+  VOLUME_LVM_METADATA: { subsystem: 'volume', severity: 'warning' },
+  VOLUME_LVM_MISSING_PV: { subsystem: 'volume', severity: 'warning' },
+  VOLUME_LVM_UNSUPPORTED: { subsystem: 'volume', severity: 'info' },
+  VOLUME_LDM_INVALID: { subsystem: 'volume', severity: 'warning' },
+  VOLUME_LDM_MISSING_DISK: { subsystem: 'volume', severity: 'warning' },
+  VOLUME_LDM_UNSUPPORTED: { subsystem: 'volume', severity: 'info' },
+  VOLUME_ENCRYPTION_INVALID: { subsystem: 'volume', severity: 'warning' },
+  VOLUME_ENCRYPTION_UNSUPPORTED: { subsystem: 'volume', severity: 'warning' },
+  VOLUME_KEY_REJECTED: { subsystem: 'volume', severity: 'error' },
+  VOLUME_DECRYPTED: { subsystem: 'volume', severity: 'info' },
+  // FAT volumes
+  FAT_INVALID_BOOT_SECTOR: { subsystem: 'fat', severity: 'error' },
+  FAT_BEYOND_VOLUME: { subsystem: 'fat', severity: 'error' },
+  FAT_PARSE_FAILED: { subsystem: 'fat', severity: 'error' },
+  // Raw images, virtual disks and failed operations on the media
+  IMAGE_OPEN_PROBLEM: { subsystem: 'image', severity: 'warning' },
+  IMAGE_OPERATION_FAILED: { subsystem: 'image', severity: 'error' },
+} as const satisfies Record<string, { subsystem: DiagnosticSubsystem; severity: DiagnosticSeverity }>;
+
+export type DiagnosticCode = keyof typeof DIAGNOSTIC_CODES;
+
+export interface Diagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  subsystem: DiagnosticSubsystem;
+  message: string;
+  /** Byte offset the problem was found at (see above) */
+  offset?: number;
+  /** Segment number when `offset` is within a segment file */
+  segment?: number;
+  /** Values behind the message, for tooling */
+  context?: Record<string, string | number>;
+}
+
+export interface DiagnosticLocation {
+  offset?: number;
+  segment?: number;
+}
+
+/**
+ * Build a diagnostic; subsystem and severity follow from the code
+ */
+export function diagnostic(
+  code: DiagnosticCode,
+  message: string,
+  location: DiagnosticLocation = {},
+  context?: Diagnostic['context'],
+): Diagnostic {
+  const result: Diagnostic = { code, ...DIAGNOSTIC_CODES[code], message };
+  if (location.offset !== undefined) result.offset = location.offset;
+  if (location.segment !== undefined) result.segment = location.segment;
+  if (context) result.context = context;
+  return result;
+}
+
+/**
+ * Move volume-relative offsets to where the volume starts on the media, or
+ * through `base` for volumes that are not contiguous there (offsets it
+ * cannot place are dropped)
+ */
+export function rebaseDiagnostics(diagnostics: Diagnostic[], base: number | ((offset: number) => number | undefined)): Diagnostic[] {
+  const rebase = typeof base === 'number' ? (offset: number) => offset + base : base;
+  return diagnostics.map(d => {
+    if (d.offset === undefined || d.segment !== undefined) return d;
+    const { offset, ...rest } = d;
+    const media = rebase(offset);
+    return media === undefined ? rest : { ...rest, offset: media };
+  });
+}
+
+/**
+ * Whether the offset can be shown in the media hex view
+ */
+export function hasMediaOffset(d: Diagnostic): boolean {
+  return d.offset !== undefined && d.segment === undefined;
+}
+
+/**
+ * One line: severity, code, location and message
+ */
+export function formatDiagnostic(d: Diagnostic): string {
+  const where = d.offset === undefined ? ''
+    : d.segment !== undefined ? ` (segment ${d.segment} @ 0x${d.offset.toString(16)})`
+    : ` (@ 0x${d.offset.toString(16)})`;
+  return `${d.severity}: [${d.code}]${where} ${d.message}`;
+}
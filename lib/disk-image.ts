@@ -0,0 +1,265 @@
+/**
+ * Disk Image Sources
+ *
+ * Everything downstream of the container (partition tables, filesystems,
+ * the hex viewer, hashing and export) reads media through DiskImageSource,
+ * so it behaves the same whatever format the evidence arrived in:
+ * - EWF (E01/L01/Ex01/Lx01), decoded by e01-parser
+ * - Plain raw images (.dd, .img, .bin, .raw)
+ * - Split raw sets (.001, .002 …), read as one concatenated stream
+ * - Virtual disks (VHD, VHDX, VMDK, QCOW2), see virtual-disk
+ *
+ * Raw images carry no metadata of their own; stored hashes come from a
+ * sidecar text file (.txt, .md5, .sha1 …) selected alongside the image.
+ */
+
+import { BlobReader, ByteReader, clampRange, ConcatReader } from './byte-reader';
+import { checkSignature, E01Format, E01Metadata, E01ParseResult } from './e01-parser';
+
+export type VirtualDiskFormat = 'vhd' | 'vhdx' | 'vmdk' | 'qcow2';
+
+export type DiskImageFormat = E01Format | 'raw' | 'split-raw' | VirtualDiskFormat;
+
+export interface StoredHashes {
+  md5?: string;
+  sha1?: string;
+  sha256?: string;
+}
+
+export interface DiskImageSource extends ByteReader {
+  readonly format: DiskImageFormat;
+  /** Bytes per sector of the imaged device */
+  readonly sectorSize: number;
+  readonly metadata: E01Metadata;
+  /** Digests recorded at acquisition, to verify the media against */
+  readonly storedHashes: StoredHashes;
+}
+
+const RAW_EXTENSION = /\.(dd|img|bin|raw)$/i;
+const SPLIT_EXTENSION = /\.(\d{3})$/;
+const SIDECAR_EXTENSION = /\.(txt|md5|sha1|sha256|hash)$/i;
+
+// Decoded tables and bitmaps kept per virtual disk
+const TABLE_CACHE_BYTES = 8 * 1024 * 1024;
+
+/**
+ * The media of a parsed EWF image
+ */
+export class E01ImageSource implements DiskImageSource {
+  readonly size: number;
+  readonly format: DiskImageFormat;
+  readonly sectorSize: number;
+  readonly metadata: E01Metadata;
+  readonly storedHashes: StoredHashes;
+
+  constructor(private readonly result: E01ParseResult & { reader: ByteReader }) {
+    this.size = result.reader.size;
+    this.format = result.format;
+    this.sectorSize = result.volumeInfo?.bytesPerSector || 512;
+    this.metadata = result.metadata;
+    this.storedHashes = { ...result.hash };
+  }
+
+  read(offset: number, length: number): Promise<Uint8Array> {
+    return this.result.reader.read(offset, length);
+  }
+}
+
+/**
+ * A raw image, or the parts of a split raw set in order, read as one stream
+ */
+export class RawImageSource implements DiskImageSource {
+  readonly size: number;
+  readonly format: DiskImageFormat;
+  readonly metadata: E01Metadata = {};
+  private readonly reader: ConcatReader;
+
+  constructor(files: File[], readonly storedHashes: StoredHashes = {}, readonly sectorSize = 512) {
+    this.reader = new ConcatReader(files.map(file => new BlobReader(file)));
+    this.size = this.reader.size;
+    this.format = files.length > 1 ? 'split-raw' : 'raw';
+  }
+
+  read(offset: number, length: number): Promise<Uint8Array> {
+    return this.reader.read(offset, length);
+  }
+}
+
+/**
+ * A virtual disk stored block by block (VHD blocks, VHDX payload blocks,
+ * VMDK grains, QCOW2 clusters). Blocks the image does not hold are read
+ * from its parent (backing) disk, or as zeros when there is none.
+ */
+export abstract class VirtualDiskSource implements DiskImageSource {
+  readonly metadata: E01Metadata = {};
+  readonly storedHashes: StoredHashes = {};
+  /** Differencing disks: the disk this one records changes against */
+  parent: ByteReader | null = null;
+
+  private readonly tables = new Map<string, Uint8Array>();
+  private tableBytes = 0;
+
+  constructor(
+    readonly format: VirtualDiskFormat,
+    readonly size: number,
+    readonly sectorSize: number,
+    protected readonly blockSize: number,
+  ) {}
+
+  async read(offset: number, length: number): Promise<Uint8Array> {
+    const count = clampRange(this.size, offset, length);
+    const out = new Uint8Array(count);
+    let pos = 0;
+
+    while (pos < count) {
+      const absolute = offset + pos;
+      const block = Math.floor(absolute / this.blockSize);
+      const within = absolute - block * this.blockSize;
+      const take = Math.min(this.blockSize - within, count - pos);
+      // Short reads (a truncated image) leave zeros rather than shifting data
+      const data = await this.readBlock(block, within, take);
+      out.set(data.subarray(0, take), pos);
+      pos += take;
+    }
+
+    return out;
+  }
+
+  /** Read part of one block; may return fewer bytes at the end of the file */
+  protected abstract readBlock(block: number, offset: number, length: number): Promise<Uint8Array>;
+
+  /** Media this image does not store */
+  protected async readParent(offset: number, length: number): Promise<Uint8Array> {
+    const out = new Uint8Array(length);
+    if (this.parent) out.set(await this.parent.read(offset, length));
+    return out;
+  }
+
+  /**
+   * Replace the units (sectors) of `data`, which starts at media `offset`,
+   * that `present` says this image does not hold with the parent's bytes
+   */
+  protected async mergeParent(data: Uint8Array, offset: number, unit: number, present: (unit: number) => boolean): Promise<Uint8Array> {
+    const end = offset + data.length;
+    let index = Math.floor(offset / unit);
+    while (index * unit < end) {
+      if (present(index)) {
+        index++;
+        continue;
+      }
+      const first = index;
+      while (index * unit < end && !present(index)) index++;
+      const from = Math.max(offset, first * unit);
+      const to = Math.min(end, index * unit);
+      data.set(await this.readParent(from, to - from), from - offset);
+    }
+    return data;
+  }
+
+  /** A table, bitmap or decompressed block, loaded once and kept while it fits the cache */
+  protected async cached(key: string, load: () => Promise<Uint8Array>): Promise<Uint8Array> {
+    const hit = this.tables.get(key);
+    if (hit) {
+      // Re-insert to mark as most recently used
+      this.tables.delete(key);
+      this.tables.set(key, hit);
+      return hit;
+    }
+    const data = await load();
+    this.tables.set(key, data);
+    this.tableBytes += data.length;
+    for (const [oldest, value] of this.tables) {
+      if (this.tableBytes <= TABLE_CACHE_BYTES || oldest === key) break;
+      this.tables.delete(oldest);
+      this.tableBytes -= value.length;
+    }
+    return data;
+  }
+}
+
+/**
+ * Digests from a hash sidecar: "<algorithm>…: <hex>" lines (as written by
+ * the raw export and most imaging tools) or md5sum-style "<hex>  <name>"
+ * lines, where the digest length gives the algorithm
+ */
+export function parseHashSidecar(text: string): StoredHashes {
+  const hashes: StoredHashes = {};
+  const byLength: Record<number, keyof StoredHashes> = { 32: 'md5', 40: 'sha1', 64: 'sha256' };
+
+  for (const line of text.split(/\r?\n/)) {
+    const labelled = line.match(/^\s*(MD5|SHA-?1|SHA-?256)\b[^:]*:\s*([0-9a-f]+)\s*$/i);
+    const bare = line.match(/^\s*([0-9a-f]{32}|[0-9a-f]{40}|[0-9a-f]{64})(\s|$)/i);
+    const hex = (labelled?.[2] ?? bare?.[1])?.toLowerCase();
+    if (!hex) continue;
+
+    const algorithm = labelled
+      ? (labelled[1].replace('-', '').toLowerCase() as keyof StoredHashes)
+      : byLength[hex.length];
+    if (algorithm && byLength[hex.length] === algorithm) hashes[algorithm] ??= hex;
+  }
+  return hashes;
+}
+
+export interface RawImageSet {
+  parts: File[];
+  sidecars: File[];
+  /** False when split parts are missing, so offsets past the gap are unknown */
+  complete: boolean;
+  errors: string[];
+}
+
+/**
+ * Whether these files look like a raw image (rather than EWF segments):
+ * a raw or split extension and no EWF signature
+ */
+export async function isRawImage(files: File[]): Promise<boolean> {
+  const images = files.filter(f => !SIDECAR_EXTENSION.test(f.name));
+  if (images.length === 0 || !images.every(f => RAW_EXTENSION.test(f.name) || SPLIT_EXTENSION.test(f.name))) {
+    return false;
+  }
+  const header = new Uint8Array(await images[0].slice(0, 8).arrayBuffer());
+  return !checkSignature(header);
+}
+
+/**
+ * Separate image parts from hash sidecars and order split parts by number
+ */
+export function orderRawImage(files: File[]): RawImageSet {
+  const sidecars = files.filter(f => SIDECAR_EXTENSION.test(f.name));
+  const images = files.filter(f => !SIDECAR_EXTENSION.test(f.name));
+  const errors: string[] = [];
+
+  const split = images.filter(f => SPLIT_EXTENSION.test(f.name));
+  if (split.length === 0) {
+    if (images.length > 1) errors.push(`Expected one raw image, got ${images.length}; using ${images[0].name}`);
+    return { parts: images.slice(0, 1), sidecars, complete: images.length > 0, errors };
+  }
+
+  const number = (f: File) => Number(f.name.match(SPLIT_EXTENSION)![1]);
+  const parts = [...split].sort((a, b) => number(a) - number(b));
+  const first = number(parts[0]);
+  let complete = first <= 1;
+  if (!complete) errors.push(`Split raw set starts at part .${String(first).padStart(3, '0')}; earlier parts are missing`);
+  for (let i = 1; i < parts.length; i++) {
+    if (number(parts[i]) !== number(parts[i - 1]) + 1) {
+      errors.push(`Split raw set is missing parts between ${parts[i - 1].name} and ${parts[i].name}`);
+      complete = false;
+    }
+  }
+  if (split.length !== images.length) errors.push('Files other than numbered parts were ignored');
+  return { parts, sidecars, complete, errors };
+}
+
+/**
+ * Open a raw image set; stored hashes are read from any sidecars
+ */
+export async function openRawImage(files: File[], sectorSize = 512): Promise<{ source: RawImageSource | null; set: RawImageSet }> {
+  const set = orderRawImage(files);
+  let storedHashes: StoredHashes = {};
+  for (const sidecar of set.sidecars) {
+    storedHashes = { ...parseHashSidecar(await sidecar.text()), ...storedHashes };
+  }
+  // Parts after a gap would land at the wrong offset
+  const source = set.complete ? new RawImageSource(set.parts, storedHashes, sectorSize) : null;
+  return { source, set };
+}
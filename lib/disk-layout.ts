@@ -0,0 +1,176 @@
+/**
+ * Disk Layout and Lost Partition Scanning
+ *
+ * The partition table only describes what it lists. The layout covers the
+ * whole media: the table's own structures (the MBR or disklabel, each EBR, the GPT
+ * headers and entry arrays), the partitions, and the unallocated gaps
+ * before, between and after them.
+ *
+ * Gaps, or the whole media when the table is wiped, can be searched for
+ * the start of a lost volume: a FAT, exFAT or NTFS boot sector, or a
+ * primary ext superblock 1 KiB in. Each hit is confirmed by the filesystem
+ * probe and becomes a candidate partition spanning the size the volume
+ * records. Scanning resumes after it, which also steps over its backup
+ * boot sectors and superblocks.
+ */
+
+import { ByteReader, SliceReader } from './byte-reader';
+import { FilesystemType, probeFilesystem } from './filesystem-probe';
+import { listPartitions, Partition, PartitionTable } from './partition-parser';
+
+export type DiskRegionKind = 'table' | 'partition' | 'unallocated';
+
+export interface DiskRegion {
+  kind: DiskRegionKind;
+  startLBA: number;
+  endLBA: number;
+  sizeLBA: number;
+  /** The partition, for 'partition' regions */
+  partition?: Partition;
+  /** The table structure, for 'table' regions */
+  description?: string;
+}
+
+export interface PartitionScanOptions {
+  onProgress?: (bytesScanned: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+// 1 MB per read
+const SCAN_BLOCK_SIZE = 1024 * 1024;
+// ext keeps its superblock 1 KiB into the volume
+const EXT_SUPERBLOCK = 1024;
+const EXT_MAGIC = 56;
+const EXT_BLOCK_GROUP = 90;
+
+const RECOVERABLE_TYPES = new Set<FilesystemType>(['FAT12', 'FAT16', 'FAT32', 'exFAT', 'NTFS', 'ext2', 'ext3', 'ext4']);
+
+const TABLE_SECTOR_0: Record<'MBR' | 'GPT' | 'APM' | 'VTOC', string> = {
+  MBR: 'MBR',
+  GPT: 'Protective MBR',
+  APM: 'Driver descriptor map',
+  VTOC: 'VTOC',
+};
+
+function region(kind: DiskRegionKind, startLBA: number, endLBA: number, extra: Partial<DiskRegion> = {}): DiskRegion {
+  return { kind, startLBA, endLBA, sizeLBA: endLBA - startLBA + 1, ...extra };
+}
+
+/**
+ * Sectors used by the partition table itself
+ */
+function tableStructures(table: PartitionTable, lastLBA: number): DiskRegion[] {
+  if (table.type === 'Unknown') return [];
+  if (table.type === 'BSD') return [region('table', 0, Math.min(1, lastLBA), { description: 'Boot sector and disklabel' })];
+  const structures = [region('table', 0, 0, { description: TABLE_SECTOR_0[table.type] })];
+  if (table.gpt) {
+    const { firstUsableLBA, lastUsableLBA } = table.gpt;
+    if (firstUsableLBA > 1) structures.push(region('table', 1, firstUsableLBA - 1, { description: 'Primary GPT header and entries' }));
+    if (lastUsableLBA < lastLBA) structures.push(region('table', lastUsableLBA + 1, lastLBA, { description: 'Backup GPT entries and header' }));
+  }
+  for (const partition of table.partitions) {
+    if (partition.ebrLBA !== undefined) structures.push(region('table', partition.ebrLBA, partition.ebrLBA, { description: 'Extended boot record' }));
+  }
+  return structures;
+}
+
+/**
+ * Every region of the media in order, with the gaps no partition or table
+ * structure covers; overlapping partitions are listed as they are
+ */
+export function diskLayout(table: PartitionTable, mediaSize: number, extra: Partition[] = []): DiskRegion[] {
+  const lastLBA = Math.floor(mediaSize / table.sectorSize) - 1;
+  if (lastLBA < 0) return [];
+
+  const used = [
+    ...tableStructures(table, lastLBA),
+    ...[...listPartitions(table), ...extra]
+      .filter(p => p.endLBA >= p.startLBA)
+      .map(p => region('partition', p.startLBA, p.endLBA, { partition: p })),
+  ]
+    .filter(r => r.startLBA <= lastLBA)
+    .sort((a, b) => a.startLBA - b.startLBA || b.endLBA - a.endLBA);
+
+  const layout: DiskRegion[] = [];
+  let next = 0;
+  for (const r of used) {
+    if (r.startLBA > next) layout.push(region('unallocated', next, r.startLBA - 1));
+    layout.push(r);
+    next = Math.max(next, Math.min(r.endLBA, lastLBA) + 1);
+  }
+  if (next <= lastLBA) layout.push(region('unallocated', next, lastLBA));
+  return layout;
+}
+
+/**
+ * A boot sector or a primary ext superblock at `offset`: worth probing
+ */
+function looksLikeVolumeStart(data: Uint8Array, offset: number): boolean {
+  if (offset + 512 <= data.length && data[offset + 510] === 0x55 && data[offset + 511] === 0xaa
+    && (data[offset] === 0xeb || data[offset] === 0xe9)) {
+    return true;
+  }
+  const superblock = offset + EXT_SUPERBLOCK;
+  return superblock + EXT_BLOCK_GROUP + 2 <= data.length
+    && data[superblock + EXT_MAGIC] === 0x53 && data[superblock + EXT_MAGIC + 1] === 0xef
+    // Backup superblocks record the block group they are in
+    && data[superblock + EXT_BLOCK_GROUP] === 0 && data[superblock + EXT_BLOCK_GROUP + 1] === 0;
+}
+
+/**
+ * Search the unallocated regions for volumes the table no longer lists.
+ * Candidates are numbered after the table's own partitions.
+ */
+export async function scanForPartitions(
+  reader: ByteReader,
+  table: PartitionTable,
+  { onProgress, signal }: PartitionScanOptions = {},
+): Promise<Partition[]> {
+  const { sectorSize } = table;
+  const gaps = diskLayout(table, reader.size).filter(r => r.kind === 'unallocated');
+  const total = gaps.reduce((sum, gap) => sum + gap.sizeLBA * sectorSize, 0);
+  const found: Partition[] = [];
+  let nextIndex = Math.max(0, ...[...listPartitions(table), ...(table.volumes ?? [])].map(p => p.index)) + 1;
+  let scanned = 0;
+
+  for (const gap of gaps) {
+    let lba = gap.startLBA;
+    while (lba <= gap.endLBA) {
+      signal?.throwIfAborted();
+      const sectors = Math.min(SCAN_BLOCK_SIZE / sectorSize, gap.endLBA - lba + 1);
+      // Read on past the block so superblocks of volumes starting near its end are seen
+      const data = await reader.read(lba * sectorSize, sectors * sectorSize + EXT_SUPERBLOCK + 512);
+
+      let resumeAt = lba + sectors;
+      for (let i = 0; i < sectors; i++) {
+        if (!looksLikeVolumeStart(data, i * sectorSize)) continue;
+        const startLBA = lba + i;
+        const start = startLBA * sectorSize;
+        const probe = await probeFilesystem(new SliceReader(reader, start, reader.size - start));
+        if (!probe.type || !RECOVERABLE_TYPES.has(probe.type) || !probe.size) continue;
+
+        const sizeLBA = Math.ceil(probe.size / sectorSize);
+        found.push({
+          index: nextIndex++,
+          type: 'Lost partition',
+          typeCode: 0,
+          startLBA,
+          endLBA: startLBA + sizeLBA - 1,
+          sizeLBA,
+          sizeBytes: BigInt(sizeLBA) * BigInt(sectorSize),
+          bootable: false,
+          filesystem: probe.type,
+          ...(probe.label && { volumeLabel: probe.label }),
+          recovered: true,
+        });
+        resumeAt = Math.min(startLBA + sizeLBA, gap.endLBA + 1);
+        break;
+      }
+
+      scanned += (resumeAt - lba) * sectorSize;
+      onProgress?.(scanned, total);
+      lba = resumeAt;
+    }
+  }
+  return found;
+}
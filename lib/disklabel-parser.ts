@@ -0,0 +1,239 @@
+/**
+ * Apple Partition Map, BSD disklabel and Sun VTOC
+ *
+ * APM: block 0 is a driver descriptor map ("ER"), followed by one 512-byte
+ * map entry per partition ("PM"), big-endian, with ranges in 512-byte
+ * blocks. The map lists itself and any free space (Apple_Free, not
+ * returned as a partition).
+ *
+ * BSD disklabel: magic 0x82564557 at the start of sector 1, either of the
+ * whole disk or of an MBR slice (0xa5 FreeBSD, 0xa6 OpenBSD, 0xa9 NetBSD),
+ * with up to 16 partitions a-p and an XOR checksum. Offsets are absolute
+ * in most labels; FreeBSD labels relative to the slice are recognised by
+ * the raw partition 'c' starting at 0 within it.
+ *
+ * Sun VTOC: on SPARC a big-endian label in sector 0 of the disk with eight
+ * slices given in cylinders; on x86 a little-endian label in sector 1 of an
+ * MBR slice (0xbf, or 0x82 on older Solaris) with up to 16 slices given in
+ * sectors. Both end in magic 0xDABE and an XOR checksum. The backup slice,
+ * which spans the whole disk, is not returned.
+ */
+
+import type { ByteReader } from './byte-reader';
+import { Diagnostic, diagnostic } from './diagnostics';
+import type { Partition } from './partition-parser';
+
+export interface DisklabelResult {
+  type: 'APM' | 'BSD' | 'VTOC';
+  partitions: Partition[];
+  /** Where each partition's entry is on the media */
+  entryOffsets: number[];
+  diagnostics: Diagnostic[];
+}
+
+const APM_ENTRY_SIZE = 512;
+// Far more map entries than any Mac disk has
+const MAX_APM_ENTRIES = 256;
+
+const BSD_MAGIC = 0x82564557;
+const BSD_PARTITIONS = 148;
+const BSD_PARTITION_SIZE = 16;
+const BSD_MAX_PARTITIONS = 16;
+const BSD_RAW_PARTITION = 2;
+
+const VTOC_MAGIC = 0xdabe;
+const VTOC_SANITY = 0x600ddeee;
+const VTOC_BACKUP = 5;
+
+const BSD_FSTYPES: Record<number, string> = {
+  1: 'swap',
+  7: '4.2BSD',
+  8: 'MSDOS',
+  9: '4.4LFS',
+  11: 'HPFS',
+  12: 'ISO9660',
+  13: 'boot',
+  14: 'vinum',
+  15: 'RAID',
+  27: 'ZFS',
+};
+
+const VTOC_TAGS: Record<number, string> = {
+  0: 'unassigned',
+  1: 'boot',
+  2: 'root',
+  3: 'swap',
+  4: 'usr',
+  5: 'backup',
+  6: 'stand',
+  7: 'var',
+  8: 'home',
+  9: 'alternates',
+};
+
+function cString(data: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + length)).replace(/\0[\s\S]*$/, '').trim();
+}
+
+/**
+ * XOR of the 16-bit words of `data`; zero when the stored checksum is right
+ */
+function xorWords(data: Uint8Array, length: number, littleEndian: boolean): number {
+  const view = new DataView(data.buffer, data.byteOffset, length);
+  let sum = 0;
+  for (let i = 0; i + 1 < length; i += 2) sum ^= view.getUint16(i, littleEndian);
+  return sum;
+}
+
+function partition(
+  index: number,
+  type: string,
+  typeCode: number | string,
+  startLBA: number,
+  sizeLBA: number,
+  sectorSize: number,
+  extra: Partial<Partition> = {},
+): Partition {
+  return {
+    index,
+    type,
+    typeCode,
+    startLBA,
+    endLBA: startLBA + sizeLBA - 1,
+    sizeLBA,
+    sizeBytes: BigInt(sizeLBA) * BigInt(sectorSize),
+    bootable: false,
+    ...extra,
+  };
+}
+
+/**
+ * An Apple Partition Map at the start of the disk, or null
+ */
+export async function parseAPM(reader: ByteReader, sectorSize: number): Promise<DisklabelResult | null> {
+  const head = await reader.read(0, 2 * APM_ENTRY_SIZE);
+  if (head.length < 2 * APM_ENTRY_SIZE || cString(head, APM_ENTRY_SIZE, 2) !== 'PM') return null;
+
+  const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+  const result: DisklabelResult = { type: 'APM', partitions: [], entryOffsets: [], diagnostics: [] };
+  // Map entries are 512 bytes apart and count in 512-byte blocks, whatever the driver descriptor says
+  const unit = APM_ENTRY_SIZE / sectorSize;
+  const count = Math.min(view.getUint32(APM_ENTRY_SIZE + 4, false), MAX_APM_ENTRIES);
+
+  for (let i = 1; i <= count; i++) {
+    const offset = i * APM_ENTRY_SIZE;
+    const entry = await reader.read(offset, APM_ENTRY_SIZE);
+    if (entry.length < APM_ENTRY_SIZE || cString(entry, 0, 2) !== 'PM') {
+      result.diagnostics.push(diagnostic(
+        'PARTITION_LABEL_INVALID',
+        `Apple partition map entry ${i} of ${count} has no PM signature; the map ends here`,
+        { offset },
+      ));
+      break;
+    }
+    const entryView = new DataView(entry.buffer, entry.byteOffset, entry.byteLength);
+    const type = cString(entry, 48, 32);
+    const blocks = entryView.getUint32(12, false);
+    if (type === 'Apple_Free' || blocks === 0) continue;
+
+    result.partitions.push(partition(i, type, type, Math.floor(entryView.getUint32(8, false) * unit), Math.ceil(blocks * unit), sectorSize, {
+      name: cString(entry, 16, 32) || undefined,
+      // pmPartStatus bit 3
+      bootable: (entryView.getUint32(88, false) & 0x8) !== 0,
+    }));
+    result.entryOffsets.push(offset);
+  }
+  return result;
+}
+
+/**
+ * A BSD disklabel in sector 1 of `slice`, or of the disk when none is given
+ */
+export async function parseBSDLabel(reader: ByteReader, sectorSize: number, slice?: Partition): Promise<DisklabelResult | null> {
+  const labelOffset = ((slice?.startLBA ?? 0) + 1) * sectorSize;
+  const data = await reader.read(labelOffset, 512);
+  if (data.length < 512) return null;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (view.getUint32(0, true) !== BSD_MAGIC || view.getUint32(132, true) !== BSD_MAGIC) return null;
+
+  const result: DisklabelResult = { type: 'BSD', partitions: [], entryOffsets: [], diagnostics: [] };
+  const count = Math.min(view.getUint16(138, true), BSD_MAX_PARTITIONS);
+  if (xorWords(data, BSD_PARTITIONS + count * BSD_PARTITION_SIZE, true) !== 0) {
+    result.diagnostics.push(diagnostic('PARTITION_LABEL_CHECKSUM', 'BSD disklabel checksum does not match', { offset: labelOffset + 136 }));
+  }
+
+  const labelSectorSize = view.getUint32(40, true);
+  const scale = labelSectorSize >= 512 && labelSectorSize % sectorSize === 0 ? labelSectorSize / sectorSize : 1;
+  const entry = (i: number) => BSD_PARTITIONS + i * BSD_PARTITION_SIZE;
+  const rawOffset = count > BSD_RAW_PARTITION ? view.getUint32(entry(BSD_RAW_PARTITION) + 4, true) * scale : 0;
+  const rawSize = count > BSD_RAW_PARTITION ? view.getUint32(entry(BSD_RAW_PARTITION), true) * scale : 0;
+  // Relative to the slice only when 'c' is the slice itself, starting at 0
+  const relative = slice !== undefined && slice.startLBA !== 0 && rawOffset === 0 && rawSize <= slice.sizeLBA;
+  const base = relative ? slice.startLBA : 0;
+
+  for (let i = 0; i < count; i++) {
+    const size = view.getUint32(entry(i), true) * scale;
+    const fstype = data[entry(i) + 12];
+    if (size === 0 || fstype === 0) continue;
+    result.partitions.push(partition(
+      i + 1,
+      `BSD ${BSD_FSTYPES[fstype] ?? `fstype ${fstype}`}`,
+      fstype,
+      base + view.getUint32(entry(i) + 4, true) * scale,
+      size,
+      sectorSize,
+      { name: String.fromCharCode(0x61 + i) },
+    ));
+    result.entryOffsets.push(labelOffset + entry(i));
+  }
+  return result;
+}
+
+/**
+ * A Sun VTOC: the x86 label in sector 1 of `slice`, or the SPARC label in
+ * sector 0 of the disk when no slice is given
+ */
+export async function parseVTOC(reader: ByteReader, sectorSize: number, slice?: Partition): Promise<DisklabelResult | null> {
+  const labelOffset = slice ? (slice.startLBA + 1) * sectorSize : 0;
+  const data = await reader.read(labelOffset, 512);
+  if (data.length < 512) return null;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const littleEndian = slice !== undefined;
+  if (view.getUint16(508, littleEndian) !== VTOC_MAGIC) return null;
+
+  const result: DisklabelResult = { type: 'VTOC', partitions: [], entryOffsets: [], diagnostics: [] };
+  const checksumValid = xorWords(data, 512, littleEndian) === 0;
+  if (littleEndian) {
+    // A Linux swap partition can hold anything in sector 1; the sanity value settles it
+    if (view.getUint32(12, true) !== VTOC_SANITY) return null;
+    if (!checksumValid) result.diagnostics.push(diagnostic('PARTITION_LABEL_CHECKSUM', 'VTOC checksum does not match', { offset: labelOffset + 510 }));
+
+    const count = Math.min(view.getUint16(30, true), 16);
+    for (let i = 0; i < count; i++) {
+      const offset = 72 + i * 12;
+      const tag = view.getUint16(offset, true);
+      const size = view.getUint32(offset + 8, true);
+      if (size === 0 || tag === VTOC_BACKUP) continue;
+      result.partitions.push(partition(i + 1, `Solaris ${VTOC_TAGS[tag] ?? `tag 0x${tag.toString(16)}`}`, tag,
+        slice.startLBA + view.getUint32(offset + 4, true), size, sectorSize, { name: `s${i}` }));
+      result.entryOffsets.push(labelOffset + offset);
+    }
+    return result;
+  }
+
+  // Without a valid checksum, 0xDABE at 508 is as likely to be chance
+  if (!checksumValid) return null;
+  const hasTags = view.getUint32(188, false) === VTOC_SANITY;
+  const sectorsPerCylinder = view.getUint16(436, false) * view.getUint16(438, false);
+  for (let i = 0; i < 8; i++) {
+    const offset = 444 + i * 8;
+    const tag = hasTags ? view.getUint16(142 + i * 4, false) : 0;
+    const size = view.getUint32(offset + 4, false);
+    // Slice 2 is the whole disk by convention when there are no tags to say so
+    if (size === 0 || tag === VTOC_BACKUP || (!hasTags && i === 2)) continue;
+    result.partitions.push(partition(i + 1, `Solaris ${VTOC_TAGS[tag] ?? `tag 0x${tag.toString(16)}`}`, tag,
+      view.getUint32(offset, false) * sectorsPerCylinder, size, sectorSize, { name: `s${i}` }));
+    result.entryOffsets.push(offset);
+  }
+  return result;
+}
@@ -0,0 +1,23 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { chunkTableOffsets } from './e01-parser';
+
+const COMPRESSED = 0x80000000;
+
+test('chunk table entries are offsets from the base, flagged when compressed', () => {
+  const { offsets, overflowed } = chunkTableOffsets(Uint32Array.from([0x4c, COMPRESSED | 0x2000, 0x8050]), 0x1000);
+  assert.deepEqual(offsets, [0x104c, 0x3000, 0x9050]);
+  assert.deepEqual(overflowed, [false, false, false]);
+});
+
+test('offsets past 2 GB keep the flag bit once they overflow', () => {
+  const { offsets, overflowed } = chunkTableOffsets(Uint32Array.from([0x7ffe0000, 0x7fff0000, 0x80000010, 0x80008024]), 0);
+  assert.deepEqual(offsets, [0x7ffe0000, 0x7fff0000, 0x80000010, 0x80008024]);
+  assert.deepEqual(overflowed, [false, false, true, true]);
+});
+
+test('overflow is detected after a compressed chunk just below 2 GB', () => {
+  const { offsets, overflowed } = chunkTableOffsets(Uint32Array.from([0x7ffe0000, COMPRESSED | 0x7fff0000, 0x80000010, 0x80008024]), 0);
+  assert.deepEqual(offsets, [0x7ffe0000, 0x7fff0000, 0x80000010, 0x80008024]);
+  assert.deepEqual(overflowed, [false, false, true, true]);
+});
@@ -2,15 +2,46 @@
  * E01 (Expert Witness Format / EnCase) Parser
  *
  * EWF file structure:
- * - Signature (EVF\x09\x0d\x0a\xff\x00)
+ * - Signature (EVF\x09\x0d\x0a\xff\x00), followed by the segment number
+ * - Large images are split into segment files (.E01, .E02 … .EAA) linked by `next` sections
  * - Sections: header, volume, sectors/data, table, hash, done
+ * - Chunk data lives in one or more sectors sections per segment, each
+ *   followed by a table (and redundant table2) of offsets from a 64-bit base
  * - Each section has: type (16 bytes), next offset (8 bytes), size (8 bytes), checksum (4 bytes)
+ *
+ * EWF2 (Ex01 / Lx01) segment sets are recognised by their signature and
+ * walked by ewf2-parser; both produce the same E01ParseResult.
  */
 
-import pako from 'pako';
-
-// EWF signature bytes
+import { BlobReader } from './byte-reader';
+import { adler32 } from './checksums';
+import { Diagnostic, diagnostic } from './diagnostics';
+import { E01Reader, E01ChunkLocation, E01Integrity } from './e01-reader';
+import type { E01HashVerification } from './e01-verify';
+import {
+  HEADER_DATE_FIELDS,
+  decodeHeaderText,
+  headerMetadata,
+  parseHeaderValues,
+  sameHeaderDate,
+} from './ewf-header';
+import { LogicalFileTree, parseLtreeSection } from './ltree-parser';
+import { readGuid } from './partition-parser';
+import {
+  EWF2_FILE_HEADER_SIZE,
+  Ewf2FileHeader,
+  indexEwf2Chunks,
+  parseEwf2FileHeader,
+  parseEwf2Sections,
+} from './ewf2-parser';
+
+// EWF signature bytes; logical evidence files (L01) start with LVF instead of EVF
 const EWF_SIGNATURE = new Uint8Array([0x45, 0x56, 0x46, 0x09, 0x0d, 0x0a, 0xff, 0x00]);
+const LVF_SIGNATURE = new Uint8Array([0x4c, 0x56, 0x46, 0x09, 0x0d, 0x0a, 0xff, 0x00]);
+
+// Signature (8) + fields start (1) + segment number (2) + fields end (2)
+const FILE_HEADER_SIZE = 13;
+const SECTION_DESCRIPTOR_SIZE = 76;
 
 // Section types
 export const SECTION_TYPES = {
@@ -26,12 +57,21 @@ export const SECTION_TYPES = {
   DIGEST: 'digest',
   DONE: 'done',
   NEXT: 'next',
+  LTREE: 'ltree',
+  ERROR2: 'error2',
+  SESSION: 'session',
 } as const;
 
+/** Physical (E01, Ex01) and logical (L01, Lx01) images in EWF and EWF2 */
+export type E01Format = 'E01' | 'L01' | 'Ex01' | 'Lx01';
+
 export interface E01Section {
   type: string;
+  /** Segment number of the file holding this section */
+  segment: number;
   nextOffset: bigint;
   size: bigint;
+  /** Section payload; empty for `sectors`, whose chunks are read on demand */
   data: Uint8Array;
   offset: number;
 }
@@ -50,15 +90,77 @@ export interface E01Metadata {
   [key: string]: string | undefined;
 }
 
+/** A field recorded differently in the header and header2 sections */
+export interface E01MetadataConflict {
+  field: string;
+  header: string;
+  header2: string;
+}
+
+/** A run of sectors the acquisition could not read (stored as zeros) */
+export interface E01ErrorRange {
+  firstSector: number;
+  sectorCount: number;
+}
+
+/** A session or track of optical media */
+export interface E01Session {
+  firstSector: number;
+  sectorCount: number;
+  flags: number;
+  /** Audio track rather than a data session */
+  audio: boolean;
+}
+
+export interface E01SegmentInfo {
+  number: number;
+  fileName: string;
+  size: number;
+}
+
 export interface E01VolumeInfo {
+  /** EnCase volume/disk section (1052 bytes) or SMART/EWF-S01 volume section (94 bytes) */
+  layout?: 'encase' | 'smart';
   mediaType?: number;
   chunkCount?: number;
   sectorsPerChunk?: number;
   bytesPerSector?: number;
   sectorCount?: bigint;
+  cylinders?: number;
+  heads?: number;
+  sectorsPerTrack?: number;
+  mediaFlags?: number;
+  /** 0 = none, 1 = fast, 2 = best */
+  compressionLevel?: number;
+  /** Sectors zeroed around each read error */
+  errorGranularity?: number;
+  /** GUID shared by all segments of the set */
+  setIdentifier?: string;
   reserved?: Uint8Array;
 }
 
+const MEDIA_TYPES: Record<number, string> = {
+  0x00: 'Removable disk',
+  0x01: 'Fixed disk',
+  0x03: 'Optical disc',
+  0x0e: 'Logical evidence',
+  0x10: 'Memory (RAM)',
+};
+
+const MEDIA_FLAGS: [number, string][] = [
+  [0x01, 'Image'],
+  [0x02, 'Physical device'],
+  [0x04, 'FastBloc write blocked'],
+  [0x08, 'Tableau write blocked'],
+];
+
+const VOLUME_COMPRESSION_LEVELS = ['none', 'fast', 'best'];
+
+// Sector sizes and chunk sizes outside these bounds mean a damaged volume section
+const MIN_BYTES_PER_SECTOR = 256;
+const MAX_BYTES_PER_SECTOR = 65536;
+const MAX_CHUNK_SIZE = 64 * 1024 * 1024;
+
 export interface E01DebugInfo {
   fileSize: number;
   parseStartTime: number;
@@ -71,27 +173,65 @@ export interface E01DebugInfo {
   logs: string[];
 }
 
+export interface E01ParseProgress {
+  /** Bytes of the segment set walked so far */
+  bytesScanned: number;
+  totalBytes: number;
+  sectionsFound: number;
+  chunksIndexed: number;
+}
+
+export interface E01ParseOptions {
+  onProgress?: (progress: E01ParseProgress) => void;
+  signal?: AbortSignal;
+  /** Receives each parse step; defaults to the console */
+  log?: (message: string) => void;
+}
+
 export interface E01ParseResult {
   valid: boolean;
+  format: E01Format;
   signature: Uint8Array;
+  segments: E01SegmentInfo[];
   sections: E01Section[];
   metadata: E01Metadata;
+  metadataConflicts: E01MetadataConflict[];
   volumeInfo: E01VolumeInfo | null;
-  rawDiskData: Uint8Array | null;
+  reader: E01Reader | null;
+  /** Checksum failures; chunk entries keep growing as the reader decodes */
+  integrity: E01Integrity;
   hash?: { md5?: string; sha1?: string };
-  errors: string[];
+  /** Bad sectors recorded during acquisition (error2 / error table) */
+  acquisitionErrors: E01ErrorRange[];
+  /** Optical media sessions and tracks (sessions / session table) */
+  sessions: E01Session[];
+  /** Captured files of a logical image (L01 / Lx01) */
+  logicalFiles?: LogicalFileTree;
+  /** Set once the media has been re-hashed against the stored values */
+  verification?: E01HashVerification;
+  diagnostics: Diagnostic[];
   debug: E01DebugInfo;
 }
 
 /**
- * Check if the file has a valid EWF signature
+ * Check if the file has a valid EWF or EWF2 signature
  */
 export function checkSignature(data: Uint8Array): boolean {
-  if (data.length < 8) return false;
-  for (let i = 0; i < EWF_SIGNATURE.length; i++) {
-    if (data[i] !== EWF_SIGNATURE[i]) return false;
-  }
-  return true;
+  return ewf1Format(data) !== null || parseEwf2FileHeader(data) !== null;
+}
+
+function ewf1Format(data: Uint8Array): 'E01' | 'L01' | null {
+  if (data.length < 8) return null;
+  if (EWF_SIGNATURE.every((b, i) => data[i] === b)) return 'E01';
+  if (LVF_SIGNATURE.every((b, i) => data[i] === b)) return 'L01';
+  return null;
+}
+
+/**
+ * Whether a format holds captured files rather than a disk
+ */
+export function isLogicalFormat(format: string): boolean {
+  return format === 'L01' || format === 'Lx01';
 }
 
 /**
@@ -131,188 +271,600 @@ function readUint32LE(data: Uint8Array, offset: number): number {
 }
 
 /**
- * Try to decode text from bytes, handling UTF-16 and UTF-8
+ * Build metadata from the header and header2 copies
+ *
+ * header2 (Unicode, exact timestamps) takes precedence; fields recorded in
+ * both that disagree are reported as conflicts.
+ */
+function applyHeaderSections(result: E01ParseResult, log: (msg: string) => void): void {
+  const header = result.sections.find(s => s.type === SECTION_TYPES.HEADER);
+  const header2 = result.sections.find(s => s.type === SECTION_TYPES.HEADER2);
+  if (!header && !header2) return;
+
+  const decode = (section: E01Section) => decodeHeaderText(section.data, problem => result.diagnostics.push(diagnostic(
+    'EWF_HEADER_UNREADABLE',
+    `Segment ${section.segment}: ${section.type} section at 0x${section.offset.toString(16)} does not inflate (${problem}); its metadata may be garbled`,
+    { segment: section.segment, offset: section.offset },
+    { section: section.type },
+  )));
+  const fromHeader = header ? headerMetadata(parseHeaderValues(decode(header))) : {};
+  const fromHeader2 = header2 ? headerMetadata(parseHeaderValues(decode(header2))) : {};
+
+  for (const [field, value] of Object.entries(fromHeader)) {
+    const other = fromHeader2[field];
+    if (value === undefined || other === undefined) continue;
+    const isDate = (HEADER_DATE_FIELDS as readonly string[]).includes(field);
+    if (isDate ? !sameHeaderDate(value, other) : value !== other) {
+      result.metadataConflicts.push({ field, header: value, header2: other });
+    }
+  }
+  if (result.metadataConflicts.length > 0) {
+    log(`header and header2 disagree on: ${result.metadataConflicts.map(c => c.field).join(', ')}`);
+  }
+
+  result.metadata = { ...result.metadata, ...fromHeader, ...fromHeader2 };
+}
+
+/**
+ * Parse a volume, disk or data section
+ *
+ * EnCase layout (1052 bytes): media type, chunk count, sectors per chunk,
+ * bytes per sector, 64-bit sector count, CHS geometry, media flags,
+ * compression level, error granularity, set identifier; Adler-32 at 1048.
+ * SMART layout (94 bytes): the same geometry with a 32-bit sector count
+ * and no media details; Adler-32 at 90.
+ */
+function parseVolumeSection(sectionData: Uint8Array): { volume: E01VolumeInfo; problem?: string } {
+  const volume: E01VolumeInfo = {};
+  if (sectionData.length < 24) return { volume, problem: 'truncated volume data' };
+
+  volume.chunkCount = readUint32LE(sectionData, 4);
+  volume.sectorsPerChunk = readUint32LE(sectionData, 8);
+  volume.bytesPerSector = readUint32LE(sectionData, 12);
+
+  let checksumOffset: number;
+  if (sectionData.length < 1052) {
+    volume.layout = 'smart';
+    volume.sectorCount = BigInt(readUint32LE(sectionData, 16));
+    checksumOffset = 90;
+  } else {
+    volume.layout = 'encase';
+    volume.mediaType = sectionData[0];
+    volume.sectorCount = readUint64LE(sectionData, 16);
+    volume.cylinders = readUint32LE(sectionData, 24);
+    volume.heads = readUint32LE(sectionData, 28);
+    volume.sectorsPerTrack = readUint32LE(sectionData, 32);
+    volume.mediaFlags = sectionData[36];
+    volume.compressionLevel = sectionData[52];
+    volume.errorGranularity = readUint32LE(sectionData, 56);
+    volume.setIdentifier = readGuid(sectionData, 64);
+    checksumOffset = 1048;
+  }
+
+  const problem = checksumOffset + 4 <= sectionData.length
+    && adler32(sectionData.subarray(0, checksumOffset)) !== readUint32LE(sectionData, checksumOffset)
+    ? 'volume checksum mismatch'
+    : undefined;
+  return { volume, problem };
+}
+
+/**
+ * Fill in missing geometry with the EnCase defaults (64 sectors of 512
+ * bytes) and reject values no acquisition could have produced
+ */
+function resolveGeometry(volume: E01VolumeInfo): { chunkSize: number; problem?: string } {
+  volume.bytesPerSector ||= 512;
+  volume.sectorsPerChunk ||= 64;
+
+  const { bytesPerSector, sectorsPerChunk } = volume;
+  const chunkSize = bytesPerSector * sectorsPerChunk;
+  if (bytesPerSector < MIN_BYTES_PER_SECTOR || bytesPerSector > MAX_BYTES_PER_SECTOR || bytesPerSector % MIN_BYTES_PER_SECTOR !== 0) {
+    return { chunkSize, problem: `Implausible sector size of ${bytesPerSector} bytes` };
+  }
+  if (chunkSize > MAX_CHUNK_SIZE) {
+    return { chunkSize, problem: `Implausible chunk size of ${sectorsPerChunk} sectors (${formatBytes(chunkSize)})` };
+  }
+  return { chunkSize };
+}
+
+/**
+ * Describe a volume media type code
+ */
+export function mediaTypeName(type: number): string {
+  return MEDIA_TYPES[type] ?? `Unknown (0x${type.toString(16)})`;
+}
+
+/**
+ * List the media flags that are set
+ */
+export function mediaFlagNames(flags: number): string[] {
+  return MEDIA_FLAGS.filter(([bit]) => flags & bit).map(([, name]) => name);
+}
+
+/**
+ * Describe a volume compression level
+ */
+export function compressionLevelName(level: number): string {
+  return VOLUME_COMPRESSION_LEVELS[level] ?? `unknown (${level})`;
+}
+
+/**
+ * Hex-encode a stored digest; all-zero digests were never computed
+ */
+function storedDigest(data: Uint8Array): string | undefined {
+  if (data.every(b => b === 0)) return undefined;
+  return Array.from(data)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Parse hash and digest sections
+ * hash: MD5 (16) + unknown (16) + checksum; digest: MD5 (16) + SHA1 (20) + padding (40) + checksum
+ */
+function parseHashSection(sectionType: string, sectionData: Uint8Array): { md5?: string; sha1?: string } {
+  const result: { md5?: string; sha1?: string } = {};
+
+  if (sectionData.length >= 16) {
+    result.md5 = storedDigest(sectionData.slice(0, 16));
+  }
+
+  if (sectionType === SECTION_TYPES.DIGEST && sectionData.length >= 36) {
+    result.sha1 = storedDigest(sectionData.slice(16, 36));
+  }
+
+  return result;
+}
+
+interface ParsedEntries<T> {
+  entries: T[];
+  problem?: string;
+}
+
+/**
+ * Decode an error2 section: 520-byte header (entry count, Adler-32 at 516),
+ * 8-byte entries (first sector, sector count) and the Adler-32 of the entries
+ */
+function parseError2Section(data: Uint8Array): ParsedEntries<E01ErrorRange> {
+  const HEADER_SIZE = 520;
+  if (data.length < HEADER_SIZE) return { entries: [], problem: 'truncated header' };
+
+  const count = readUint32LE(data, 0);
+  const available = Math.min(count, Math.floor((data.length - HEADER_SIZE) / 8));
+  const entries: E01ErrorRange[] = [];
+  for (let i = 0; i < available; i++) {
+    entries.push({
+      firstSector: readUint32LE(data, HEADER_SIZE + i * 8),
+      sectorCount: readUint32LE(data, HEADER_SIZE + i * 8 + 4),
+    });
+  }
+
+  const end = HEADER_SIZE + available * 8;
+  let problem: string | undefined;
+  if (adler32(data.subarray(0, 516)) !== readUint32LE(data, 516)) problem = 'header checksum mismatch';
+  else if (available < count) problem = `only ${available} of ${count} entries present`;
+  else if (end + 4 <= data.length && adler32(data.subarray(HEADER_SIZE, end)) !== readUint32LE(data, end)) problem = 'entries checksum mismatch';
+  return { entries, problem };
+}
+
+/**
+ * Decode a session section: 36-byte header (entry count, Adler-32 at 32),
+ * 32-byte entries (flags, first sector) and the Adler-32 of the entries.
+ * Session lengths are filled in once the sector count is known.
+ */
+function parseSessionSection(data: Uint8Array): ParsedEntries<E01Session> {
+  const HEADER_SIZE = 36;
+  if (data.length < HEADER_SIZE) return { entries: [], problem: 'truncated header' };
+
+  const count = readUint32LE(data, 0);
+  const available = Math.min(count, Math.floor((data.length - HEADER_SIZE) / 32));
+  const entries: E01Session[] = [];
+  for (let i = 0; i < available; i++) {
+    const flags = readUint32LE(data, HEADER_SIZE + i * 32);
+    entries.push({ firstSector: readUint32LE(data, HEADER_SIZE + i * 32 + 4), sectorCount: 0, flags, audio: (flags & 0x1) !== 0 });
+  }
+
+  const end = HEADER_SIZE + available * 32;
+  let problem: string | undefined;
+  if (adler32(data.subarray(0, 32)) !== readUint32LE(data, 32)) problem = 'header checksum mismatch';
+  else if (available < count) problem = `only ${available} of ${count} entries present`;
+  else if (end + 4 <= data.length && adler32(data.subarray(HEADER_SIZE, end)) !== readUint32LE(data, end)) problem = 'entries checksum mismatch';
+  return { entries, problem };
+}
+
+/**
+ * Each session runs until the next one starts, the last to the end of the media
+ */
+function resolveSessionLengths(sessions: E01Session[], totalSectors: number): void {
+  const sorted = [...sessions].sort((a, b) => a.firstSector - b.firstSector);
+  sorted.forEach((session, i) => {
+    const end = i + 1 < sorted.length ? sorted[i + 1].firstSector : totalSectors;
+    session.sectorCount = Math.max(0, end - session.firstSector);
+  });
+}
+
+interface SegmentFile {
+  number: number;
+  file: File;
+  source: BlobReader;
+  /** File header of EWF2 segments; null for EWF1 */
+  ewf2: Ewf2FileHeader | null;
+}
+
+/**
+ * Read each file's header and order the set by segment number
  */
-function decodeText(data: Uint8Array): string {
-  // Check for UTF-16 BOM or if it looks like UTF-16 (alternating null bytes)
-  if (data.length >= 2) {
-    // UTF-16 LE BOM
-    if (data[0] === 0xff && data[1] === 0xfe) {
-      return new TextDecoder('utf-16le').decode(data);
+async function orderSegments(files: File[], result: E01ParseResult, log: (msg: string) => void): Promise<SegmentFile[]> {
+  const byNumber = new Map<number, SegmentFile>();
+
+  for (const file of files) {
+    const source = new BlobReader(file);
+    const fileHeader = await source.read(0, Math.max(FILE_HEADER_SIZE, EWF2_FILE_HEADER_SIZE));
+    const ewf2 = parseEwf2FileHeader(fileHeader);
+    const ewf1 = ewf1Format(fileHeader);
+
+    if (!ewf2 && !ewf1) {
+      log(`Invalid EWF signature in ${file.name}`);
+      result.diagnostics.push(diagnostic('EWF_BAD_SIGNATURE', `Invalid EWF signature in ${file.name}. This may not be a valid E01 file.`, { offset: 0 }, { file: file.name }));
+      continue;
+    }
+
+    const format: E01Format = ewf2 ? ewf2.format : ewf1!;
+    if (byNumber.size > 0 && format !== result.format) {
+      log(`${file.name} is ${format}, the set is ${result.format}`);
+      result.diagnostics.push(diagnostic('EWF_FORMAT_MISMATCH', `${file.name} is an ${format} segment but the set is ${result.format}. Ignoring it.`, {}, { file: file.name, format }));
+      continue;
     }
-    // UTF-16 BE BOM
-    if (data[0] === 0xfe && data[1] === 0xff) {
-      return new TextDecoder('utf-16be').decode(data);
+
+    const number = ewf2 ? ewf2.segment : fileHeader[9] | (fileHeader[10] << 8);
+    if (number < 1) {
+      log(`Invalid segment number ${number} in ${file.name}`);
+      result.diagnostics.push(diagnostic('EWF_BAD_SEGMENT_NUMBER', `${file.name} has segment number ${number}; segments are numbered from 1. Ignoring it.`, { offset: ewf2 ? 12 : 9 }, { file: file.name }));
+      continue;
     }
-    // Check for UTF-16 LE pattern (ASCII char followed by null)
-    if (data[1] === 0x00 && data[0] !== 0x00) {
-      return new TextDecoder('utf-16le').decode(data);
+    const existing = byNumber.get(number);
+    if (existing) {
+      log(`Duplicate segment ${number}: ${file.name} (keeping ${existing.file.name})`);
+      result.diagnostics.push(diagnostic(
+        'EWF_DUPLICATE_SEGMENT',
+        `Duplicate segment ${number}: ${file.name} and ${existing.file.name}. Using ${existing.file.name}.`,
+        { segment: number },
+        { file: file.name, kept: existing.file.name },
+      ));
+      continue;
     }
+
+    if (byNumber.size === 0) {
+      result.signature = fileHeader.slice(0, 8);
+      result.format = format;
+    }
+    byNumber.set(number, { number, file, source, ewf2 });
+    log(`Segment ${number}: ${file.name} (${file.size} bytes)`);
   }
 
-  // Default to UTF-8
-  return new TextDecoder('utf-8', { fatal: false }).decode(data);
+  return [...byNumber.values()].sort((a, b) => a.number - b.number);
 }
 
 /**
- * Parse the header section to extract metadata
- * Header is typically zlib compressed and contains key-value pairs
+ * Walk the section descriptors of one segment file
+ * Returns true when the segment ends the set with a `done` section
  */
-function parseHeaderSection(sectionData: Uint8Array): E01Metadata {
-  const metadata: E01Metadata = {};
+async function parseSegmentSections(
+  segment: SegmentFile,
+  result: E01ParseResult,
+  log: (msg: string) => void,
+  onSection: (offset: number) => void,
+  signal?: AbortSignal,
+): Promise<boolean> {
+  const { source, file } = segment;
+  const debug = result.debug;
+  const issue = (offset: number, type: string, code: 'EWF_DESCRIPTOR_CHECKSUM' | 'EWF_SECTION_DAMAGED', problem: string) => {
+    log(`Section ${type.toUpperCase()} at 0x${offset.toString(16)}: ${problem}`);
+    result.diagnostics.push(diagnostic(
+      code,
+      `Segment ${segment.number}: ${type} section at 0x${offset.toString(16)} has a ${problem}`,
+      { segment: segment.number, offset },
+      { section: type },
+    ));
+    result.integrity.sectionIssues.push({ segment: segment.number, offset, type, problem });
+  };
 
-  try {
-    // Try to decompress - E01 headers are usually zlib compressed
-    let decompressed: Uint8Array;
+  let offset = FILE_HEADER_SIZE; // After signature + segment number (5 bytes)
+  log(`Starting section parsing of segment ${segment.number} at offset ${offset}`);
 
-    try {
-      decompressed = decompressZlib(sectionData);
-    } catch {
-      decompressed = sectionData;
-    }
+  while (offset + SECTION_DESCRIPTOR_SIZE <= file.size) {
+    signal?.throwIfAborted();
 
-    // Decode text (handles UTF-8 and UTF-16)
-    const text = decodeText(decompressed);
+    // Read section header
+    const descriptor = await source.read(offset, SECTION_DESCRIPTOR_SIZE);
+    const sectionType = readSectionType(descriptor, 0);
+    const nextOffset = readUint64LE(descriptor, 16);
+    const sectionSize = readUint64LE(descriptor, 24);
 
-    // Parse the header format: lines of key=value or key\tvalue
-    // Common format: category\nkey\tvalue\nkey\tvalue\n\n
-    const lines = text.split(/[\r\n]+/);
+    debug.lastOffset = offset;
 
-    for (const line of lines) {
-      // Try tab-separated first
-      let parts = line.split('\t');
-      if (parts.length < 2) {
-        // Try equals sign
-        parts = line.split('=');
-      }
+    // The descriptor's last 4 bytes are the Adler-32 of the first 72
+    if (sectionType && adler32(descriptor.subarray(0, 72)) !== readUint32LE(descriptor, 72)) {
+      issue(offset, sectionType, 'EWF_DESCRIPTOR_CHECKSUM', 'descriptor checksum mismatch');
+    }
 
-      if (parts.length >= 2) {
-        const key = parts[0].trim().toLowerCase();
-        const value = parts.slice(1).join('=').trim();
-
-        // Map common keys (EWF uses single letter codes)
-        switch (key) {
-          case 'c': case 'case': case 'case_number':
-            metadata.caseNumber = value;
-            break;
-          case 'n': case 'name': case 'description':
-            metadata.description = value;
-            break;
-          case 'e': case 'examiner': case 'examiner_name':
-            metadata.examinerName = value;
-            break;
-          case 'ev': case 'evidence': case 'evidence_number':
-            metadata.evidenceNumber = value;
-            break;
-          case 't': case 'notes':
-            metadata.notes = value;
-            break;
-          case 'a': case 'acquired': case 'acquired_date': case 'av':
-            metadata.acquiredDate = value;
-            break;
-          case 'm': case 'system': case 'system_date': case 'ov':
-            metadata.systemDate = value;
-            break;
-          case 'u': case 'os': case 'operating_system':
-            metadata.operatingSystem = value;
-            break;
-          case 'p': case 'password':
-            metadata.password = value;
-            break;
-          case 'r': case 'compression':
-            metadata.compressionLevel = value;
-            break;
-          case 'pid': case 'process_identifier':
-            metadata.processIdentifier = value;
-            break;
-          case 'dc': case 'unknown_dc':
-            metadata.unknownDc = value;
-            break;
-          case 'ext': case 'extents':
-            metadata.extents = value;
-            break;
-          case 'sr': case 'sn':
-            metadata.serialNumber = value;
-            break;
-          default:
-            // Store any other key-value pairs
-            if (key && value && key.length < 20) {
-              metadata[key] = value;
-            }
-        }
+    // Skip empty or invalid sections
+    if (!sectionType || (sectionSize === 0n && sectionType !== SECTION_TYPES.DONE && sectionType !== SECTION_TYPES.NEXT)) {
+      log(`Empty/invalid section at offset ${offset}, stopping`);
+      result.diagnostics.push(diagnostic(
+        'EWF_SECTION_CHAIN_BROKEN',
+        `Segment ${segment.number}: no valid section descriptor at 0x${offset.toString(16)}; later sections of this segment were not read`,
+        { segment: segment.number, offset },
+      ));
+      break;
+    }
+
+    log(`Found section: ${sectionType.toUpperCase()} at 0x${offset.toString(16)}, size: ${sectionSize}`);
+    debug.sectionsFound.push(sectionType);
+
+    // Section size includes the 76-byte descriptor
+    const dataOffset = offset + SECTION_DESCRIPTOR_SIZE;
+    const dataSize = Math.max(0, Number(sectionSize) - SECTION_DESCRIPTOR_SIZE);
+
+    // Ensure we don't read past end of file
+    const safeDataSize = Math.min(dataSize, file.size - dataOffset);
+
+    // Chunk data is read on demand by the E01Reader, never up front
+    const sectionData = sectionType === SECTION_TYPES.SECTORS
+      ? new Uint8Array(0)
+      : await source.read(dataOffset, safeDataSize);
+
+    const section: E01Section = {
+      type: sectionType,
+      segment: segment.number,
+      nextOffset,
+      size: sectionSize,
+      data: sectionData,
+      offset,
+    };
+
+    result.sections.push(section);
+    onSection(offset);
+
+    // Parse specific section types; header copies are combined once all are found
+    const volumeSection = sectionType === SECTION_TYPES.VOLUME || sectionType === SECTION_TYPES.DISK;
+    // Later segments repeat the volume information in a data section
+    if (volumeSection || (sectionType === SECTION_TYPES.DATA && !result.volumeInfo)) {
+      const { volume, problem } = parseVolumeSection(sectionData);
+      if (problem) issue(offset, sectionType, 'EWF_SECTION_DAMAGED', problem);
+      result.volumeInfo = volume;
+    } else if (sectionType === SECTION_TYPES.HASH || sectionType === SECTION_TYPES.DIGEST) {
+      const stored = parseHashSection(sectionType, sectionData);
+      result.hash = {
+        md5: stored.md5 ?? result.hash?.md5,
+        sha1: stored.sha1 ?? result.hash?.sha1,
+      };
+    } else if (sectionType === SECTION_TYPES.ERROR2 || sectionType === SECTION_TYPES.SESSION) {
+      const parsed = sectionType === SECTION_TYPES.ERROR2 ? parseError2Section(sectionData) : parseSessionSection(sectionData);
+      if (parsed.problem) issue(offset, sectionType, 'EWF_SECTION_DAMAGED', parsed.problem);
+      if (sectionType === SECTION_TYPES.ERROR2) {
+        result.acquisitionErrors = parsed.entries as E01ErrorRange[];
+        log(`Acquisition errors: ${result.acquisitionErrors.length} ranges`);
+      } else {
+        result.sessions = parsed.entries as E01Session[];
+        log(`Sessions: ${result.sessions.length}`);
       }
+    } else if (sectionType === SECTION_TYPES.LTREE) {
+      result.logicalFiles = parseLtreeSection(sectionData, { segment: segment.number, offset });
+      log(`Logical file tree: ${result.logicalFiles.fileCount} files`);
+    } else if (sectionType === SECTION_TYPES.DONE) {
+      return true;
+    } else if (sectionType === SECTION_TYPES.NEXT) {
+      return false;
+    }
+
+    // Move to next section
+    if (nextOffset > BigInt(offset)) {
+      offset = Number(nextOffset);
+    } else {
+      offset = dataOffset + safeDataSize;
+    }
+
+    // Safety check to prevent infinite loops
+    if (offset <= section.offset) {
+      break;
     }
-  } catch (error) {
-    console.error('Error parsing header section:', error);
   }
 
-  return metadata;
+  return false;
+}
+
+interface TableGroup {
+  table?: E01Section;
+  table2?: E01Section;
+  /** The sectors section preceding the table, if any */
+  sectors?: E01Section;
+}
+
+interface ParsedTable {
+  baseOffset: number;
+  entries: Uint32Array;
+  valid: boolean;
+  problem?: string;
 }
 
 /**
- * Decompress zlib data using pako
+ * Decode a table/table2 section: 24-byte header (entry count, 64-bit base
+ * offset, Adler-32), the 32-bit entries and the Adler-32 of the entries
  */
-function decompressZlib(data: Uint8Array): Uint8Array {
-  try {
-    return pako.inflate(data);
-  } catch {
-    // If inflate fails, try raw inflate (without zlib header)
-    try {
-      return pako.inflateRaw(data);
-    } catch {
-      // Return original data if all decompression fails
-      return data;
+function parseTableSection(data: Uint8Array): ParsedTable {
+  const TABLE_ENTRY_START = 24; // Table entries start at byte 24
+
+  if (data.length < TABLE_ENTRY_START) {
+    return { baseOffset: 0, entries: new Uint32Array(0), valid: false, problem: 'truncated header' };
+  }
+
+  const entryCount = readUint32LE(data, 0);
+  const baseOffset = Number(readUint64LE(data, 8));
+  const available = Math.min(entryCount, Math.floor((data.length - TABLE_ENTRY_START) / 4));
+  const entries = new Uint32Array(available);
+  for (let i = 0; i < available; i++) {
+    entries[i] = readUint32LE(data, TABLE_ENTRY_START + i * 4);
+  }
+
+  if (adler32(data.subarray(0, 20)) !== readUint32LE(data, 20)) {
+    return { baseOffset, entries, valid: false, problem: 'header checksum mismatch' };
+  }
+  if (available < entryCount) {
+    return { baseOffset, entries, valid: false, problem: `only ${available} of ${entryCount} entries present` };
+  }
+
+  // The entries checksum follows the entries when present
+  const entriesEnd = TABLE_ENTRY_START + entryCount * 4;
+  if (entriesEnd + 4 <= data.length && adler32(data.subarray(TABLE_ENTRY_START, entriesEnd)) !== readUint32LE(data, entriesEnd)) {
+    return { baseOffset, entries, valid: false, problem: 'entries checksum mismatch' };
+  }
+
+  return { baseOffset, entries, valid: true };
+}
+
+/**
+ * File offsets of a table's chunks. Chunk data past 2 GB overflows the
+ * 31-bit offset field; from then on the flag bit is part of the offset.
+ * As in libewf, overflow starts at the first flagged entry whose offset
+ * would otherwise go backwards.
+ */
+export function chunkTableOffsets(entries: Uint32Array, baseOffset: number): { offsets: number[]; overflowed: boolean[] } {
+  const offsets: number[] = [];
+  const overflowed: boolean[] = [];
+  let overflow = false;
+  let previousOffset = 0;
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (!overflow && i > 0 && entry >= 0x80000000 && (entry & 0x7FFFFFFF) < previousOffset) {
+      overflow = true;
     }
+    previousOffset = overflow ? entry : entry & 0x7FFFFFFF;
+    offsets.push(baseOffset + previousOffset);
+    overflowed.push(overflow);
   }
+  return { offsets, overflowed };
 }
 
 /**
- * Parse volume section to get disk geometry
+ * Pair every table section with its table2 copy and sectors section
  */
-function parseVolumeSection(sectionData: Uint8Array): E01VolumeInfo {
-  const info: E01VolumeInfo = {};
-
-  if (sectionData.length >= 32) {
-    // EWF volume section format
-    info.mediaType = sectionData[0];
-    info.chunkCount = readUint32LE(sectionData, 4);
-    info.sectorsPerChunk = readUint32LE(sectionData, 8);
-    info.bytesPerSector = readUint32LE(sectionData, 12);
-    info.sectorCount = readUint64LE(sectionData, 16);
+function groupTables(sections: E01Section[]): TableGroup[] {
+  const groups: TableGroup[] = [];
+  let sectors: E01Section | undefined;
+
+  for (const section of sections) {
+    if (section.type === SECTION_TYPES.SECTORS) {
+      sectors = section;
+    } else if (section.type === SECTION_TYPES.TABLE) {
+      groups.push({ table: section, sectors });
+    } else if (section.type === SECTION_TYPES.TABLE2) {
+      const last = groups[groups.length - 1];
+      if (last && !last.table2) last.table2 = section;
+      else groups.push({ table2: section, sectors });
+    }
   }
 
-  return info;
+  return groups;
 }
 
 /**
- * Parse hash section
+ * Index the chunks of one segment from all of its table groups
  */
-function parseHashSection(sectionData: Uint8Array): { md5?: string; sha1?: string } {
-  const result: { md5?: string; sha1?: string } = {};
+function indexSegmentChunks(
+  segment: SegmentFile,
+  segmentIndex: number,
+  sections: E01Section[],
+  remaining: number,
+  chunkSize: number,
+  integrity: E01Integrity,
+  report: (problem: Diagnostic) => void,
+): E01ChunkLocation[] {
+  const chunks: E01ChunkLocation[] = [];
+
+  // A chunk ends where the next section (or the file) begins
+  const boundaries = sections.map(s => s.offset).sort((a, b) => a - b);
+  boundaries.push(segment.file.size);
+  const nextBoundary = (offset: number) => boundaries.find(b => b > offset) ?? segment.file.size;
+
+  for (const group of groupTables(sections)) {
+    if (chunks.length >= remaining) break;
+
+    const primary = group.table ? parseTableSection(group.table.data) : null;
+    const mirror = group.table2 ? parseTableSection(group.table2.data) : null;
+    const tableOffset = (group.table ?? group.table2)!.offset;
+    const where = `0x${tableOffset.toString(16)}`;
+
+    for (const [section, parsed] of [[group.table, primary], [group.table2, mirror]] as const) {
+      if (section && parsed && !parsed.valid) {
+        integrity.sectionIssues.push({ segment: segment.number, offset: section.offset, type: section.type, problem: parsed.problem! });
+      }
+    }
 
-  // MD5 is typically at the start (16 bytes)
-  if (sectionData.length >= 16) {
-    result.md5 = Array.from(sectionData.slice(0, 16))
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
-  }
+    let table: ParsedTable;
+    if (primary?.valid) {
+      table = primary;
+    } else if (mirror?.valid) {
+      report(diagnostic(
+        'EWF_TABLE_MIRROR_USED',
+        `Segment ${segment.number}: table at ${where} is damaged (${primary?.problem ?? 'missing'}); using table2`,
+        { segment: segment.number, offset: tableOffset },
+      ));
+      table = mirror;
+    } else {
+      const damaged = primary ?? mirror!;
+      report(diagnostic(
+        'EWF_TABLE_DAMAGED',
+        `Segment ${segment.number}: table at ${where} is damaged (${damaged.problem}) and has no intact table2 copy`,
+        { segment: segment.number, offset: tableOffset },
+      ));
+      table = damaged;
+    }
 
-  // SHA1 might follow (20 bytes)
-  if (sectionData.length >= 36) {
-    result.sha1 = Array.from(sectionData.slice(16, 36))
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
+    const { offsets, overflowed } = chunkTableOffsets(table.entries, table.baseOffset);
+
+    const entryCount = Math.min(offsets.length, remaining - chunks.length);
+    for (let i = 0; i < entryCount; i++) {
+      const chunkOffset = offsets[i];
+      const chunkEnd = i + 1 < offsets.length ? offsets[i + 1] : nextBoundary(chunkOffset);
+      const storedSize = chunkEnd - chunkOffset;
+      if (storedSize <= 0 || chunkEnd > segment.file.size) {
+        report(diagnostic(
+          'EWF_CHUNK_LOCATION',
+          `Segment ${segment.number}: chunk ${chunks.length} has an invalid location; stopping this table`,
+          { segment: segment.number, offset: chunkOffset },
+          { chunk: chunks.length },
+        ));
+        break;
+      }
+
+      // Overflowed entries have no flag bit: uncompressed chunks are
+      // recognised by their size (data plus Adler-32)
+      const compressed = overflowed[i] ? storedSize !== chunkSize + 4 : (table.entries[i] & 0x80000000) !== 0;
+
+      chunks.push({ segment: segmentIndex, fileOffset: chunkOffset, storedSize, compressed, checksummed: true });
+    }
   }
 
-  return result;
+  return chunks;
 }
 
 /**
  * Main parser function
+ *
+ * Accepts a single E01 file or every segment of a split set (.E01, .E02 …
+ * .EAA) in any order. Section descriptors are walked with Blob.slice reads
+ * and the chunk tables of all segments are stitched into one index; media
+ * bytes are only read and inflated on demand through the returned E01Reader.
  */
-export async function parseE01(file: File): Promise<E01ParseResult> {
+export async function parseE01(
+  input: File | File[],
+  { onProgress, signal, log: logger = message => console.log(`[E01 Parser] ${message}`) }: E01ParseOptions = {},
+): Promise<E01ParseResult> {
+  const files = Array.isArray(input) ? input : [input];
+
   const debug: E01DebugInfo = {
-    fileSize: file.size,
+    fileSize: files.reduce((sum, f) => sum + f.size, 0),
     parseStartTime: Date.now(),
     sectionsFound: [],
     chunksProcessed: 0,
@@ -322,216 +874,154 @@ export async function parseE01(file: File): Promise<E01ParseResult> {
 
   const log = (msg: string) => {
     debug.logs.push(`[${Date.now() - debug.parseStartTime}ms] ${msg}`);
-    console.log(`[E01 Parser] ${msg}`);
+    logger(msg);
   };
 
   const result: E01ParseResult = {
     valid: false,
+    format: 'E01',
     signature: new Uint8Array(8),
+    segments: [],
     sections: [],
     metadata: {},
+    metadataConflicts: [],
     volumeInfo: null,
-    rawDiskData: null,
-    errors: [],
+    reader: null,
+    acquisitionErrors: [],
+    sessions: [],
+    integrity: { sectionIssues: [], chunkIssues: [], chunksVerified: 0, chunkCount: 0 },
+    diagnostics: [],
     debug,
   };
 
   try {
-    log(`Starting parse of ${file.name} (${file.size} bytes)`);
-
-    if (file.size > 100 * 1024 * 1024) {
-      log(`Warning: Large file (${(file.size / 1024 / 1024).toFixed(1)} MB)`);
-    }
+    log(`Starting parse of ${files.map(f => f.name).join(', ')} (${debug.fileSize} bytes)`);
 
-    log('Reading file into memory...');
-    const buffer = await file.arrayBuffer();
-    log('Creating Uint8Array...');
-    const data = new Uint8Array(buffer);
-    log(`Buffer created, size: ${data.length}`);
-
-    // Check signature
-    if (!checkSignature(data)) {
-      log('Invalid EWF signature');
-      result.errors.push('Invalid EWF signature. This may not be a valid E01 file.');
+    const segments = await orderSegments(files, result, log);
+    if (segments.length === 0) {
       debug.parseEndTime = Date.now();
       debug.parseDuration = debug.parseEndTime - debug.parseStartTime;
       return result;
     }
 
-    log('Valid EWF signature found');
-    result.signature = data.slice(0, 8);
+    log(`Valid ${result.format} signature found`);
     result.valid = true;
+    result.segments = segments.map(s => ({ number: s.number, fileName: s.file.name, size: s.file.size }));
 
-    // Parse sections
-    let offset = 13; // After signature + segment number (5 bytes)
-    log(`Starting section parsing at offset ${offset}`);
-
-    while (offset < data.length - 76) { // Minimum section header size
-      // Read section header
-      const sectionType = readSectionType(data, offset);
-      const nextOffset = readUint64LE(data, offset + 16);
-      const sectionSize = readUint64LE(data, offset + 24);
-
-      debug.lastOffset = offset;
-
-      // Skip empty or invalid sections
-      if (!sectionType || sectionSize === 0n) {
-        log(`Empty/invalid section at offset ${offset}, stopping`);
-        break;
-      }
-
-      log(`Found section: ${sectionType.toUpperCase()} at 0x${offset.toString(16)}, size: ${sectionSize}`);
-      debug.sectionsFound.push(sectionType);
-
-      // Calculate data offset (after 76-byte section descriptor)
-      const dataOffset = offset + 76;
-      const dataSize = Number(sectionSize);
-
-      // Ensure we don't read past end of file
-      const safeDataSize = Math.min(dataSize, data.length - dataOffset);
-      const sectionData = data.slice(dataOffset, dataOffset + safeDataSize);
-
-      const section: E01Section = {
-        type: sectionType,
-        nextOffset,
-        size: sectionSize,
-        data: sectionData,
-        offset,
-      };
+    // Segments must be numbered 1..N without gaps
+    const numbers = new Set(segments.map(s => s.number));
+    const missing: number[] = [];
+    for (let n = 1; n <= segments[segments.length - 1].number; n++) {
+      if (!numbers.has(n)) missing.push(n);
+    }
+    if (missing.length > 0) {
+      log(`Missing segments: ${missing.join(', ')}`);
+      result.diagnostics.push(diagnostic(
+        'EWF_MISSING_SEGMENT',
+        `Missing segment${missing.length > 1 ? 's' : ''} ${missing.join(', ')}. Media after the first gap cannot be read.`,
+        {},
+        { missing: missing.join(',') },
+      ));
+    }
 
-      result.sections.push(section);
-
-      // Parse specific section types
-      if (sectionType === SECTION_TYPES.HEADER || sectionType === SECTION_TYPES.HEADER2) {
-        const headerMeta = parseHeaderSection(sectionData);
-        result.metadata = { ...result.metadata, ...headerMeta };
-      } else if (sectionType === SECTION_TYPES.VOLUME || sectionType === SECTION_TYPES.DISK) {
-        result.volumeInfo = parseVolumeSection(sectionData);
-      } else if (sectionType === SECTION_TYPES.HASH || sectionType === SECTION_TYPES.DIGEST) {
-        result.hash = parseHashSection(sectionData);
-      } else if (sectionType === SECTION_TYPES.DONE) {
+    let complete = false;
+    let scannedSegments = 0;
+    for (const segment of segments) {
+      const onSection = (offset: number) => onProgress?.({
+        bytesScanned: scannedSegments + offset,
+        totalBytes: debug.fileSize,
+        sectionsFound: result.sections.length,
+        chunksIndexed: 0,
+      });
+      complete = segment.ewf2
+        ? await parseEwf2Sections(segment.source, segment.number, result, log, onSection, signal)
+        : await parseSegmentSections(segment, result, log, onSection, signal);
+      scannedSegments += segment.file.size;
+      if (complete && segment !== segments[segments.length - 1]) {
+        log(`DONE section in segment ${segment.number} before the last segment`);
+        result.diagnostics.push(diagnostic('EWF_EARLY_DONE', `Segment ${segment.number} ends the set, but later segments were supplied.`, { segment: segment.number }));
         break;
       }
+    }
+    applyHeaderSections(result, log);
+    if (result.sessions.length > 0) {
+      resolveSessionLengths(result.sessions, Number(result.volumeInfo?.sectorCount ?? 0));
+    }
 
-      // Move to next section
-      if (nextOffset > BigInt(offset)) {
-        offset = Number(nextOffset);
-      } else {
-        offset = dataOffset + safeDataSize;
-      }
-
-      // Safety check to prevent infinite loops
-      if (offset <= section.offset) {
-        break;
-      }
+    if (!complete) {
+      const last = segments[segments.length - 1].number;
+      log(`No DONE section after segment ${last}`);
+      result.diagnostics.push(diagnostic('EWF_INCOMPLETE_SET', `Segment ${last} does not end the set (no DONE section). Further segments may be missing.`, { segment: last }));
     }
 
-    // Decompress disk data using table section
-    log('Looking for TABLE and SECTORS sections for chunk decompression...');
-    const tableSection = result.sections.find(s => s.type === SECTION_TYPES.TABLE);
-    const sectorsSection = result.sections.find(s => s.type === SECTION_TYPES.SECTORS);
-
-    if (tableSection && sectorsSection && result.volumeInfo?.chunkCount) {
-      log(`Found TABLE and SECTORS sections. Chunk count: ${result.volumeInfo.chunkCount}`);
-      const TABLE_ENTRY_START = 24; // Table entries start at byte 24
-      const CHUNK_SIZE = 32768; // 64 sectors × 512 bytes = 32KB per chunk
-
-      const tableData = tableSection.data;
-      const chunkCount = result.volumeInfo.chunkCount;
-      const sectorsStart = sectorsSection.offset; // Section start in file
-      const sectorsSize = Number(sectorsSection.size);
-
-      const chunks: Uint8Array[] = [];
-
-      for (let i = 0; i < chunkCount; i++) {
-        const entryOffset = TABLE_ENTRY_START + (i * 4);
-        if (entryOffset + 4 > tableData.length) break;
-
-        const entry = readUint32LE(tableData, entryOffset);
-        const chunkOffset = entry & 0x7FFFFFFF; // Lower 31 bits = offset
-        const isCompressed = (entry & 0x80000000) !== 0; // MSB = compressed flag
-
-        // Calculate compressed size from next entry
-        let compressedSize: number;
-        if (i + 1 < chunkCount) {
-          const nextEntryOffset = TABLE_ENTRY_START + ((i + 1) * 4);
-          if (nextEntryOffset + 4 <= tableData.length) {
-            const nextEntry = readUint32LE(tableData, nextEntryOffset);
-            compressedSize = (nextEntry & 0x7FFFFFFF) - chunkOffset;
-          } else {
-            compressedSize = sectorsSize - chunkOffset;
-          }
-        } else {
-          compressedSize = sectorsSize - chunkOffset;
-        }
-
-        // Read chunk data from file (offset relative to section start)
-        const absoluteOffset = sectorsStart + chunkOffset;
-        if (absoluteOffset + compressedSize > data.length) break;
-
-        const chunkData = data.slice(absoluteOffset, absoluteOffset + compressedSize);
-
-        // Decompress if needed
-        let decompressed: Uint8Array;
-        if (isCompressed) {
-          try {
-            decompressed = pako.inflate(chunkData);
-          } catch {
-            // If decompression fails, use raw data
-            decompressed = chunkData;
-          }
-        } else {
-          decompressed = chunkData;
-        }
-
-        // Truncate to exactly CHUNK_SIZE bytes (critical for correct disk image)
-        chunks.push(decompressed.slice(0, CHUNK_SIZE));
-        debug.chunksProcessed++;
+    // Stitch chunk tables of consecutive segments into one index
+    log('Looking for TABLE and SECTORS sections for chunk indexing...');
+    const report = (problem: Diagnostic) => {
+      log(problem.message);
+      result.diagnostics.push(problem);
+    };
+    const chunkCount = result.volumeInfo?.chunkCount;
+    const ewf2 = segments[0].ewf2;
+    if (ewf2 && result.volumeInfo) result.volumeInfo.setIdentifier ??= ewf2.setIdentifier;
+
+    const geometry = chunkCount ? resolveGeometry(result.volumeInfo!) : null;
+    if (geometry?.problem) report(diagnostic('EWF_INVALID_GEOMETRY', `${geometry.problem}; the media data cannot be decoded`));
+
+    if (chunkCount && geometry && !geometry.problem) {
+      const CHUNK_SIZE = geometry.chunkSize;
+      log(`Geometry: ${result.volumeInfo!.sectorsPerChunk} sectors of ${result.volumeInfo!.bytesPerSector} bytes per chunk`);
+      const chunks: E01ChunkLocation[] = [];
+
+      for (let i = 0; i < segments.length && chunks.length < chunkCount; i++) {
+        const segment = segments[i];
+        // Chunks after a missing segment would land at the wrong media offset
+        if (segment.number !== i + 1) break;
+
+        const segmentSections = result.sections.filter(s => s.segment === segment.number);
+        const segmentChunks = ewf2
+          ? indexEwf2Chunks(i, segment.number, segment.file.size, segmentSections, chunks.length, chunkCount - chunks.length, result.integrity, report)
+          : indexSegmentChunks(segment, i, segmentSections, chunkCount - chunks.length, CHUNK_SIZE, result.integrity, report);
+        log(`Segment ${segment.number}: ${segmentChunks.length} chunks`);
+        chunks.push(...segmentChunks);
       }
 
-      log(`Processed ${chunks.length} chunks`);
+      debug.chunksProcessed = chunks.length;
+      log(`Indexed ${chunks.length} of ${chunkCount} chunks`);
+      onProgress?.({
+        bytesScanned: debug.fileSize,
+        totalBytes: debug.fileSize,
+        sectionsFound: result.sections.length,
+        chunksIndexed: chunks.length,
+      });
 
-      // Combine all decompressed chunks into raw disk data
       if (chunks.length > 0) {
-        const totalSize = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
-        log(`Total decompressed size: ${totalSize} bytes (${(totalSize / 1024 / 1024).toFixed(1)} MB)`);
-
-        // Check if size is too large for browser memory (limit to 500MB)
-        const MAX_SIZE = 500 * 1024 * 1024; // 500MB limit
-        if (totalSize > MAX_SIZE) {
-          log(`WARNING: Decompressed size ${totalSize} exceeds ${MAX_SIZE} byte limit - skipping full disk load to prevent browser crash`);
-          result.errors.push(`Disk image too large for browser memory (${(totalSize / 1024 / 1024 / 1024).toFixed(2)} GB). Only metadata will be shown.`);
-          // Still provide first chunk for hex viewer preview
-          if (chunks[0]) {
-            result.rawDiskData = chunks[0];
-            log('Loaded first chunk only for preview');
-          }
-        } else {
-          log(`Combining chunks into ${totalSize} bytes of raw disk data...`);
-          result.rawDiskData = new Uint8Array(totalSize);
-          let pos = 0;
-          for (const chunk of chunks) {
-            result.rawDiskData.set(chunk, pos);
-            pos += chunk.length;
-          }
-          log('Raw disk data assembled successfully');
-        }
+        const { sectorCount, bytesPerSector } = result.volumeInfo!;
+        const tableSize = chunks.length * CHUNK_SIZE;
+        const mediaSize = sectorCount && bytesPerSector
+          ? Math.min(Number(sectorCount) * bytesPerSector, tableSize)
+          : tableSize;
+        const compression = ewf2?.compression === 'bzip2' ? 'bzip2' : 'zlib';
+        result.reader = new E01Reader(segments.map(s => s.source), chunks, CHUNK_SIZE, mediaSize, result.integrity, compression);
+        log(`Media size: ${mediaSize} bytes (${formatBytes(mediaSize)}), chunks are inflated on demand`);
       }
-    } else {
-      log('No TABLE/SECTORS sections found or no chunk count - cannot decompress');
+    } else if (!chunkCount) {
+      log('No volume section or no chunk count - cannot index chunks');
     }
 
     log('Parse complete');
 
   } catch (error) {
+    // Cancellation is not a parse error; let the caller see the abort
+    if (signal?.aborted) throw error;
+
     const errorMsg = error instanceof Error ? error.message : String(error);
     const errorStack = error instanceof Error ? error.stack : undefined;
     debug.logs.push(`ERROR: ${errorMsg}`);
     if (errorStack) {
       debug.logs.push(`Stack: ${errorStack}`);
     }
-    console.error('[E01 Parser] Error:', error);
-    result.errors.push(`Parse error: ${errorMsg}`);
+    logger(`Error: ${errorStack ?? errorMsg}`);
+    result.diagnostics.push(diagnostic('EWF_PARSE_FAILED', `Parse error: ${errorMsg}`));
   }
 
   // Finalize debug info
@@ -576,7 +1066,7 @@ export function bytesToHex(bytes: Uint8Array, maxLength = 256): string {
 /**
  * Format hex dump with offset, hex, and ASCII columns
  */
-export function hexDump(bytes: Uint8Array, offset = 0, length = 256): string[] {
+export function hexDump(bytes: Uint8Array, offset = 0, length = 256, baseAddress = 0): string[] {
   const lines: string[] = [];
   const end = Math.min(offset + length, bytes.length);
 
@@ -584,7 +1074,7 @@ export function hexDump(bytes: Uint8Array, offset = 0, length = 256): string[] {
     const lineBytes = bytes.slice(i, Math.min(i + 16, end));
 
     // Offset column
-    const offsetStr = i.toString(16).padStart(8, '0');
+    const offsetStr = (baseAddress + i).toString(16).padStart(8, '0');
 
     // Hex column
     const hexParts: string[] = [];
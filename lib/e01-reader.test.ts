@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import pako from 'pako';
+import { BlobReader, clampRange } from './byte-reader';
+import { adler32 } from './checksums';
+import { E01ChunkLocation, E01Integrity, E01Reader } from './e01-reader';
+
+const CHUNK_SIZE = 512;
+
+function media(size: number): Uint8Array {
+  const data = new Uint8Array(size);
+  for (let i = 0; i < size; i++) data[i] = (i * 7 + (i >> 9)) & 0xff;
+  return data;
+}
+
+function withAdler(data: Uint8Array): Uint8Array {
+  const stored = new Uint8Array(data.length + 4);
+  stored.set(data);
+  new DataView(stored.buffer).setUint32(data.length, adler32(data), true);
+  return stored;
+}
+
+/**
+ * A segment holding one zlib chunk followed by two stored chunks
+ */
+function segment(data: Uint8Array) {
+  const parts = [
+    { stored: pako.deflate(data.subarray(0, CHUNK_SIZE)), compressed: true },
+    { stored: withAdler(data.subarray(CHUNK_SIZE, 2 * CHUNK_SIZE)), compressed: false },
+    { stored: withAdler(data.subarray(2 * CHUNK_SIZE, 3 * CHUNK_SIZE)), compressed: false },
+  ];
+  const chunks: E01ChunkLocation[] = [];
+  let fileOffset = 0;
+  for (const { stored, compressed } of parts) {
+    chunks.push({ segment: 0, fileOffset, storedSize: stored.length, compressed, checksummed: true });
+    fileOffset += stored.length;
+  }
+  const file = new Uint8Array(fileOffset);
+  parts.reduce((offset, { stored }) => (file.set(stored, offset), offset + stored.length), 0);
+  return { file, chunks };
+}
+
+function integrity(): E01Integrity {
+  return { sectionIssues: [], chunkIssues: [], chunksVerified: 0, chunkCount: 0 };
+}
+
+test('clampRange limits reads to the readable size', () => {
+  assert.equal(clampRange(100, 90, 20), 10);
+  assert.equal(clampRange(100, 100, 1), 0);
+  assert.equal(clampRange(100, -1, 10), 0);
+  assert.equal(clampRange(100, 0, 0), 0);
+});
+
+test('BlobReader reads ranges and stops at the end', async () => {
+  const reader = new BlobReader(new Blob([media(1000) as Uint8Array<ArrayBuffer>]));
+  assert.deepEqual(await reader.read(990, 20), media(1000).subarray(990));
+  assert.equal((await reader.read(1000, 10)).length, 0);
+});
+
+test('E01Reader decodes compressed and stored chunks across boundaries', async () => {
+  const data = media(3 * CHUNK_SIZE);
+  const { file, chunks } = segment(data);
+  const reader = new E01Reader([new BlobReader(new Blob([file as Uint8Array<ArrayBuffer>]))], chunks, CHUNK_SIZE, 3 * CHUNK_SIZE - 100, integrity());
+
+  assert.equal(reader.size, 3 * CHUNK_SIZE - 100);
+  assert.deepEqual(await reader.read(0, reader.size), data.subarray(0, reader.size));
+  assert.deepEqual(await reader.read(CHUNK_SIZE - 10, 20), data.subarray(CHUNK_SIZE - 10, CHUNK_SIZE + 10));
+  await reader.read(0, 10);
+  assert.equal(reader.chunksInflated, 1);
+});
+
+test('E01Reader reports chunks that fail their checksums and never returns their bytes', async () => {
+  const data = media(3 * CHUNK_SIZE);
+  const { file, chunks } = segment(data);
+  file[chunks[0].fileOffset + 4] ^= 0xff;
+  file[chunks[2].fileOffset + 10] ^= 0xff;
+  const report = integrity();
+  const reader = new E01Reader([new BlobReader(new Blob([file as Uint8Array<ArrayBuffer>]))], chunks, CHUNK_SIZE, 3 * CHUNK_SIZE, report);
+
+  await reader.verifyChunks();
+  assert.equal(report.chunksVerified, 3);
+  assert.deepEqual(report.chunkIssues.map(issue => [issue.chunk, issue.status]), [[0, 'inflate-failure'], [2, 'checksum-mismatch']]);
+  assert.deepEqual(await reader.read(0, CHUNK_SIZE), new Uint8Array(CHUNK_SIZE));
+  assert.equal(reader.getChunkStatus(1), 'ok');
+});
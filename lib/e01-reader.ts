@@ -0,0 +1,246 @@
+/**
+ * E01 Media Reader
+ *
+ * Provides random access to the media stored in an E01 image, which may be
+ * split across several segment files. parseE01 indexes the chunk table
+ * entries of every segment; chunks are then read with Blob.slice and
+ * inflated only when a read touches them. Recently used chunks are kept in
+ * an LRU cache so sequential and repeated reads stay cheap.
+ *
+ * Every chunk is verified as it is decoded (the zlib stream's Adler-32 or
+ * the bzip2 block CRCs for compressed chunks, the trailing Adler-32 for
+ * stored ones) and the outcome is recorded in the shared E01Integrity report.
+ */
+
+import pako from 'pako';
+import { ByteReader, clampRange } from './byte-reader';
+import { bunzip2 } from './bzip2';
+import { adler32 } from './checksums';
+
+export interface E01ChunkLocation {
+  /** Index into the reader's segment list */
+  segment: number;
+  fileOffset: number;
+  storedSize: number;
+  compressed: boolean;
+  /** Stored chunks end in an Adler-32 (always in EWF1, flagged per chunk in EWF2) */
+  checksummed: boolean;
+  /** EWF2 pattern fill: the chunk repeats these 8 bytes and has no stored data */
+  pattern?: Uint8Array;
+}
+
+/** Compression method of an image's compressed chunks */
+export type E01Compression = 'zlib' | 'bzip2';
+
+export type E01ChunkStatus = 'ok' | 'checksum-mismatch' | 'inflate-failure';
+
+export interface E01ChunkIssue {
+  chunk: number;
+  status: Exclude<E01ChunkStatus, 'ok'>;
+  /** Byte range of the affected media */
+  mediaOffset: number;
+  length: number;
+  segment: number;
+  fileOffset: number;
+}
+
+export interface E01SectionIssue {
+  segment: number;
+  offset: number;
+  type: string;
+  problem: string;
+}
+
+/**
+ * Corruption summary for an image. Section issues are found while parsing;
+ * chunk issues accumulate as chunks are decoded or verified.
+ */
+export interface E01Integrity {
+  sectionIssues: E01SectionIssue[];
+  chunkIssues: E01ChunkIssue[];
+  chunksVerified: number;
+  chunkCount: number;
+}
+
+export interface VerifyOptions {
+  onProgress?: (verified: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+// 2 MB of inflated data: 64 chunks of 32 KB, fewer when chunks are larger
+const DEFAULT_CACHE_BYTES = 2 * 1024 * 1024;
+
+// Per-chunk status is stored as 1 + index in this list; 0 means not yet decoded
+const STATUS_VALUES: E01ChunkStatus[] = ['ok', 'checksum-mismatch', 'inflate-failure'];
+const STATUS_UNKNOWN = 0;
+
+export class E01Reader implements ByteReader {
+  readonly size: number;
+  readonly chunkSize: number;
+  readonly chunkCount: number;
+  chunksInflated = 0;
+  /** Compressed bytes fetched from the segment files */
+  bytesRead = 0;
+
+  private readonly cache = new Map<number, Uint8Array>();
+  private readonly pending = new Map<number, Promise<Uint8Array>>();
+  private readonly status: Uint8Array;
+
+  constructor(
+    private readonly segments: ByteReader[],
+    private readonly chunks: E01ChunkLocation[],
+    chunkSize: number,
+    mediaSize: number,
+    readonly integrity: E01Integrity,
+    private readonly compression: E01Compression = 'zlib',
+    private readonly cacheLimit = Math.max(1, Math.floor(DEFAULT_CACHE_BYTES / chunkSize)),
+  ) {
+    this.chunkSize = chunkSize;
+    this.chunkCount = chunks.length;
+    this.size = Math.min(mediaSize, chunks.length * chunkSize);
+    this.status = new Uint8Array(chunks.length);
+    integrity.chunkCount = chunks.length;
+  }
+
+  async read(offset: number, length: number): Promise<Uint8Array> {
+    const count = clampRange(this.size, offset, length);
+    const out = new Uint8Array(count);
+    let pos = 0;
+
+    while (pos < count) {
+      const absolute = offset + pos;
+      const index = Math.floor(absolute / this.chunkSize);
+      const within = absolute - index * this.chunkSize;
+      const chunk = await this.getChunk(index);
+      const take = Math.min(this.chunkSize - within, count - pos);
+      // Short chunks leave zeros rather than shifting data
+      out.set(chunk.subarray(within, within + take), pos);
+      pos += take;
+    }
+
+    return out;
+  }
+
+  /**
+   * Decode every chunk not yet verified, recording its integrity status
+   */
+  async verifyChunks({ onProgress, signal }: VerifyOptions = {}): Promise<E01Integrity> {
+    for (let i = 0; i < this.chunkCount; i++) {
+      signal?.throwIfAborted();
+      if (this.status[i] === STATUS_UNKNOWN) {
+        await this.loadChunk(i);
+      }
+      if (onProgress && (i % 64 === 63 || i === this.chunkCount - 1)) {
+        onProgress(i + 1, this.chunkCount);
+      }
+    }
+    return this.integrity;
+  }
+
+  /**
+   * Integrity status of a chunk, or undefined if it has not been decoded yet
+   */
+  getChunkStatus(index: number): E01ChunkStatus | undefined {
+    const code = this.status[index];
+    return code === STATUS_UNKNOWN ? undefined : STATUS_VALUES[code - 1];
+  }
+
+  /**
+   * Fetch a decoded chunk, from the cache when possible
+   */
+  private getChunk(index: number): Promise<Uint8Array> {
+    const cached = this.cache.get(index);
+    if (cached) {
+      // Re-insert to mark as most recently used
+      this.cache.delete(index);
+      this.cache.set(index, cached);
+      return Promise.resolve(cached);
+    }
+
+    const inFlight = this.pending.get(index);
+    if (inFlight) return inFlight;
+
+    const load = this.loadChunk(index).then(chunk => {
+      this.pending.delete(index);
+      this.cache.set(index, chunk);
+      while (this.cache.size > this.cacheLimit) {
+        const oldest = this.cache.keys().next().value as number;
+        this.cache.delete(oldest);
+      }
+      return chunk;
+    }, error => {
+      this.pending.delete(index);
+      throw error;
+    });
+
+    this.pending.set(index, load);
+    return load;
+  }
+
+  private async loadChunk(index: number): Promise<Uint8Array> {
+    const location = this.chunks[index];
+    if (!location) return new Uint8Array(0);
+
+    if (location.pattern) {
+      const filled = new Uint8Array(this.chunkSize);
+      for (let i = 0; i < filled.length; i += location.pattern.length) {
+        filled.set(location.pattern.subarray(0, filled.length - i), i);
+      }
+      this.recordStatus(index, 'ok');
+      return filled;
+    }
+
+    const stored = await this.segments[location.segment].read(location.fileOffset, location.storedSize);
+    this.bytesRead += stored.length;
+
+    let decoded: Uint8Array;
+    let status: E01ChunkStatus = 'ok';
+    if (location.compressed) {
+      try {
+        // pako verifies the Adler-32 at the end of the zlib stream, bunzip2 the block CRCs
+        decoded = this.compression === 'bzip2' ? bunzip2(stored) : pako.inflate(stored);
+        this.chunksInflated++;
+      } catch {
+        // Never pass undecodable bytes off as media
+        decoded = new Uint8Array(this.chunkSize);
+        status = 'inflate-failure';
+      }
+    } else if (location.checksummed) {
+      // Stored chunks carry their Adler-32 in the last 4 bytes
+      const dataLength = Math.min(this.chunkSize, stored.length - 4);
+      decoded = stored.subarray(0, Math.max(0, dataLength));
+      const checksumOffset = decoded.length;
+      const expected = checksumOffset + 4 <= stored.length
+        ? (stored[checksumOffset] | (stored[checksumOffset + 1] << 8) | (stored[checksumOffset + 2] << 16) | (stored[checksumOffset + 3] << 24)) >>> 0
+        : -1;
+      if (adler32(decoded) !== expected) status = 'checksum-mismatch';
+    } else {
+      decoded = stored;
+    }
+
+    this.recordStatus(index, status);
+
+    // Truncate to exactly chunkSize bytes
+    return decoded.subarray(0, this.chunkSize);
+  }
+
+  private recordStatus(index: number, status: E01ChunkStatus): void {
+    if (this.status[index] !== STATUS_UNKNOWN) return;
+    this.status[index] = STATUS_VALUES.indexOf(status) + 1;
+    this.integrity.chunksVerified++;
+
+    if (status !== 'ok') {
+      const location = this.chunks[index];
+      const mediaOffset = index * this.chunkSize;
+      this.integrity.chunkIssues.push({
+        chunk: index,
+        status,
+        mediaOffset,
+        length: Math.min(this.chunkSize, this.size - mediaOffset),
+        // Segments are indexed contiguously from segment 1
+        segment: location.segment + 1,
+        fileOffset: location.fileOffset,
+      });
+    }
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Acquisition Hash Verification
+ *
+ * Recomputes digests over the decompressed media stream and compares them
+ * with the values recorded in the hash and digest sections at acquisition
+ * (or, for raw images, in a hash sidecar). Runs over any ByteReader; the
+ * viewer drives it from the analysis worker so the page stays responsive.
+ */
+
+import type { ByteReader } from './byte-reader';
+import { E01ChunkIssue, E01Reader } from './e01-reader';
+import { createHasher, HashAlgorithm } from './hashes';
+
+export const VERIFIER_VERSION = '1.0';
+
+export const HASH_STANDARDS: Record<HashAlgorithm, string> = {
+  md5: 'MD5 (RFC 1321)',
+  sha1: 'SHA-1 (FIPS 180-4)',
+  sha256: 'SHA-256 (FIPS 180-4)',
+};
+
+export interface HashComparison {
+  algorithm: HashAlgorithm;
+  standard: string;
+  computed: string;
+  stored?: string;
+  result: 'match' | 'mismatch' | 'not-stored';
+}
+
+export interface E01HashVerification {
+  status: 'verified' | 'mismatch' | 'unverifiable' | 'cancelled';
+  startedAt: string;
+  completedAt: string;
+  mediaSize: number;
+  bytesHashed: number;
+  hashes: HashComparison[];
+  /** Chunks that failed their own checksum while being hashed */
+  chunkIssues: E01ChunkIssue[];
+  verifierVersion: string;
+}
+
+export interface HashVerifyOptions {
+  algorithms?: HashAlgorithm[];
+  onProgress?: (bytesHashed: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+// 1 MB per read: 32 chunks at the default 32 KB chunk size
+const READ_BLOCK_SIZE = 1024 * 1024;
+
+/**
+ * Hash the full media stream and compare against the stored digests
+ */
+export async function verifyMediaHashes(
+  reader: ByteReader,
+  stored: { md5?: string; sha1?: string; sha256?: string } | undefined,
+  { algorithms = ['md5', 'sha1'], onProgress, signal }: HashVerifyOptions = {},
+): Promise<E01HashVerification> {
+  const startedAt = new Date().toISOString();
+  const hashers = algorithms.map(algorithm => ({ algorithm, hasher: createHasher(algorithm) }));
+  let bytesHashed = 0;
+  let cancelled = false;
+
+  while (bytesHashed < reader.size) {
+    if (signal?.aborted) {
+      cancelled = true;
+      break;
+    }
+    const block = await reader.read(bytesHashed, READ_BLOCK_SIZE);
+    if (block.length === 0) break;
+    for (const { hasher } of hashers) hasher.update(block);
+    bytesHashed += block.length;
+    onProgress?.(bytesHashed, reader.size);
+  }
+
+  const hashes: HashComparison[] = cancelled ? [] : hashers.map(({ algorithm, hasher }) => {
+    const computed = hasher.digest();
+    const expected = stored?.[algorithm]?.toLowerCase();
+    return {
+      algorithm,
+      standard: HASH_STANDARDS[algorithm],
+      computed,
+      stored: expected,
+      result: !expected ? 'not-stored' : expected === computed ? 'match' : 'mismatch',
+    };
+  });
+
+  let status: E01HashVerification['status'];
+  if (cancelled) status = 'cancelled';
+  else if (hashes.some(h => h.result === 'mismatch')) status = 'mismatch';
+  else if (hashes.some(h => h.result === 'match')) status = 'verified';
+  else status = 'unverifiable';
+
+  return {
+    status,
+    startedAt,
+    completedAt: new Date().toISOString(),
+    mediaSize: reader.size,
+    bytesHashed,
+    hashes,
+    chunkIssues: reader instanceof E01Reader ? [...reader.integrity.chunkIssues] : [],
+    verifierVersion: VERIFIER_VERSION,
+  };
+}
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { BlobReader } from './byte-reader';
+import { parseE01 } from './e01-parser';
+import { writeE01 } from './e01-writer';
+import { createHasher } from './hashes';
+import type { RawExportSink } from './raw-export';
+
+const quiet = { log: () => {} };
+
+/** Collects written segments as Files */
+function memorySink() {
+  const files: File[] = [];
+  let name = '';
+  let parts: Uint8Array[] = [];
+  const sink: RawExportSink = {
+    async create(fileName) {
+      name = fileName;
+      parts = [];
+    },
+    async write(data) {
+      parts.push(data.slice());
+    },
+    async close() {
+      files.push(new File(parts as Uint8Array<ArrayBuffer>[], name));
+    },
+    async abort() {},
+  };
+  return { sink, files };
+}
+
+/** Half zeros, half noise: some chunks compress, others are stored */
+function media(size: number): Uint8Array {
+  const data = new Uint8Array(size);
+  let x = 1;
+  for (let i = 0; i < size; i++) {
+    x = (x * 1103515245 + 12345) & 0x7fffffff;
+    data[i] = (i >> 15) % 2 ? x >> 16 : 0;
+  }
+  return data;
+}
+
+function md5(data: Uint8Array): string {
+  const hasher = createHasher('md5');
+  hasher.update(data);
+  return hasher.digest();
+}
+
+test('an image written by writeE01 parses back to the same media and metadata', async () => {
+  const data = media(1000 * 512 + 100);
+  const { sink, files } = memorySink();
+  const written = await writeE01(new BlobReader(new Blob([data as Uint8Array<ArrayBuffer>])), { caseNumber: 'CASE-7', examinerName: 'J. Doe' }, sink, { baseName: 'evidence' });
+  // The media is padded with zeros to a whole sector
+  const padded = new Uint8Array(1001 * 512);
+  padded.set(data);
+  assert.deepEqual(written.segments, ['evidence.E01']);
+  assert.equal(written.md5, md5(padded));
+
+  const parsed = await parseE01(files, quiet);
+  assert.ok(parsed.reader);
+  assert.deepEqual(parsed.diagnostics.filter(d => d.severity !== 'info'), []);
+  assert.equal(parsed.metadata.caseNumber, 'CASE-7');
+  assert.equal(parsed.metadata.examinerName, 'J. Doe');
+  assert.equal(parsed.hash?.md5, written.md5);
+  assert.deepEqual(await parsed.reader.read(0, parsed.reader.size), padded);
+  const integrity = await parsed.reader.verifyChunks();
+  assert.deepEqual(integrity.chunkIssues, []);
+});
+
+test('segment sets split by writeE01 parse back in any order', async () => {
+  const data = media(3 * 1024 * 1024);
+  const { sink, files } = memorySink();
+  const written = await writeE01(new BlobReader(new Blob([data as Uint8Array<ArrayBuffer>])), {}, sink, { baseName: 'split', segmentSize: 1024 * 1024, compression: 'none' });
+  assert.ok(written.segments.length > 2);
+  assert.equal(written.segments[1], 'split.E02');
+
+  const parsed = await parseE01([...files].reverse(), quiet);
+  assert.ok(parsed.reader);
+  assert.equal(parsed.segments.length, written.segments.length);
+  assert.equal(md5(await parsed.reader.read(0, parsed.reader.size)), written.md5);
+});
+
+test('segments numbered below 1 are ignored', async () => {
+  const { sink, files } = memorySink();
+  await writeE01(new BlobReader(new Blob([media(4096) as Uint8Array<ArrayBuffer>])), {}, sink, { baseName: 'zero' });
+  const header = new Uint8Array(await files[0].arrayBuffer());
+  header[9] = 0;
+  const parsed = await parseE01(new File([header], 'zero.E01'), quiet);
+  assert.equal(parsed.reader, null);
+  assert.deepEqual(parsed.diagnostics.map(d => d.code), ['EWF_BAD_SEGMENT_NUMBER']);
+});
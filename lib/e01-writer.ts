@@ -0,0 +1,373 @@
+/**
+ * E01 (EWF v1) Writer
+ *
+ * Packages a raw disk image as an EnCase 6 style segment set:
+ * - First segment: file header, header2 ×2, header, volume
+ * - Every segment: sectors / table / table2 groups holding the chunks
+ * - Later segments start with a data section repeating the volume
+ * - Segments end with next, the last with digest, hash and done
+ *
+ * Chunks are compressed with zlib and stored uncompressed with an Adler-32
+ * when compression does not shrink them. Output goes through the same
+ * sinks as the raw export, one segment file at a time, so sets far larger
+ * than memory can be written; only one table group is buffered.
+ */
+
+import pako from 'pako';
+import { BlobReader, ByteReader } from './byte-reader';
+import { adler32 } from './checksums';
+import type { E01Metadata } from './e01-parser';
+import { Md5, Sha1 } from './hashes';
+import type { RawExportSink } from './raw-export';
+
+const EVF_SIGNATURE = [0x45, 0x56, 0x46, 0x09, 0x0d, 0x0a, 0xff, 0x00];
+const FILE_HEADER_SIZE = 13;
+const SECTION_DESCRIPTOR_SIZE = 76;
+const VOLUME_SIZE = 1052;
+const TABLE_HEADER_SIZE = 24;
+const MAX_TABLE_ENTRIES = 16375;
+
+// Table entries hold 31-bit offsets, so no segment may reach 2 GB
+const MAX_SEGMENT_SIZE = 0x7fffffff;
+const MIN_SEGMENT_SIZE = 1024 * 1024;
+const DEFAULT_SEGMENT_SIZE = 1500 * 1024 * 1024;
+
+// Compressed chunks buffered before a sectors section is written
+const GROUP_BUFFER_SIZE = 32 * 1024 * 1024;
+
+// Room kept at the end of a segment for tables and the closing sections
+const CLOSING_RESERVE = 4 * SECTION_DESCRIPTOR_SIZE + 80 + 36;
+
+const COMPRESSION: Record<E01WriteCompression, { level: 0 | 1 | 9; code: number; header: string }> = {
+  none: { level: 0, code: 0, header: 'n' },
+  fast: { level: 1, code: 1, header: 'f' },
+  best: { level: 9, code: 2, header: 'b' },
+};
+
+export type E01WriteCompression = 'none' | 'fast' | 'best';
+
+export interface E01WriteOptions {
+  /** Segment file name without extension */
+  baseName: string;
+  sectorsPerChunk?: number;
+  bytesPerSector?: number;
+  compression?: E01WriteCompression;
+  /** Maximum size of each segment file in bytes */
+  segmentSize?: number;
+  /** Volume media type: 0x00 removable, 0x01 fixed (default), 0x03 optical */
+  mediaType?: number;
+  onProgress?: (bytesRead: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface E01WriteResult {
+  segments: string[];
+  chunkCount: number;
+  sectorCount: number;
+  bytesWritten: number;
+  md5: string;
+  sha1: string;
+}
+
+/**
+ * Segment file extension: E01 … E99, then EAA … EZZ, FAA … ZZZ
+ */
+export function segmentExtension(segment: number): string {
+  if (segment < 100) return `E${String(segment).padStart(2, '0')}`;
+  const index = segment - 100;
+  const letter = (n: number) => String.fromCharCode(0x41 + n);
+  return `${letter(4 + Math.floor(index / 676))}${letter(Math.floor(index / 26) % 26)}${letter(index % 26)}`;
+}
+
+function writeUint32LE(data: Uint8Array, offset: number, value: number): void {
+  new DataView(data.buffer, data.byteOffset, data.byteLength).setUint32(offset, value >>> 0, true);
+}
+
+function writeUint64LE(data: Uint8Array, offset: number, value: number): void {
+  new DataView(data.buffer, data.byteOffset, data.byteLength).setBigUint64(offset, BigInt(value), true);
+}
+
+function hexBytes(hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/../g) ?? [], byte => Number.parseInt(byte, 16));
+}
+
+/**
+ * Header values may not contain the tab and newline separators
+ */
+function headerValue(value: string | undefined): string {
+  return (value ?? '').replace(/[\t\r\n]+/g, ' ').trim();
+}
+
+/**
+ * The acquisition date from the metadata, or now
+ */
+function acquisitionTime(metadata: E01Metadata): Date {
+  const parsed = metadata.acquiredDate ? Date.parse(metadata.acquiredDate) : NaN;
+  return Number.isNaN(parsed) ? new Date() : new Date(parsed);
+}
+
+/**
+ * header: ASCII, CRLF line ends, local dates as "year month day hour minute second"
+ */
+function buildHeader(metadata: E01Metadata, acquired: Date, now: Date, compression: E01WriteCompression): Uint8Array {
+  const localDate = (d: Date) => [d.getFullYear(), d.getMonth() + 1, d.getDate(), d.getHours(), d.getMinutes(), d.getSeconds()].join(' ');
+  const keys = ['c', 'n', 'a', 'e', 't', 'av', 'ov', 'm', 'u', 'p', 'r'];
+  const values = [
+    metadata.caseNumber, metadata.evidenceNumber, metadata.description, metadata.examinerName, metadata.notes,
+    metadata.acquisitionVersion, metadata.operatingSystem,
+  ].map(headerValue).concat(localDate(acquired), localDate(now), '0', COMPRESSION[compression].header);
+  const text = `1\r\nmain\r\n${keys.join('\t')}\r\n${values.join('\t')}\r\n\r\n`;
+  return pako.deflate(new TextEncoder().encode(text));
+}
+
+/**
+ * header2: UTF-16LE with BOM, POSIX dates, plus empty srce and sub categories
+ */
+function buildHeader2(metadata: E01Metadata, acquired: Date, now: Date): Uint8Array {
+  const seconds = (d: Date) => String(Math.floor(d.getTime() / 1000));
+  const keys = ['a', 'c', 'n', 'e', 't', 'md', 'sn', 'av', 'ov', 'm', 'u', 'p', 'dc'];
+  const values = [
+    metadata.description, metadata.caseNumber, metadata.evidenceNumber, metadata.examinerName, metadata.notes,
+    metadata.model, metadata.serialNumber, metadata.acquisitionVersion, metadata.operatingSystem,
+  ].map(headerValue).concat(seconds(acquired), seconds(now), '0', '');
+  const text = [
+    '3', 'main', keys.join('\t'), values.join('\t'), '',
+    'srce', '0\t1', 'p\tn\tid\tev\ttb\tlo\tpo\tah\tgu\taq', '0\t0', '\t\t\t\t\t-1\t-1\t\t\t', '',
+    'sub', '0\t1', 'p\tn\tid\tnu\tco\tgu', '0\t0', '\t\t\t\t1\t', '',
+  ].join('\n');
+
+  const utf16 = new Uint8Array(2 + text.length * 2);
+  utf16[0] = 0xff;
+  utf16[1] = 0xfe;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    utf16[2 + i * 2] = code & 0xff;
+    utf16[3 + i * 2] = code >> 8;
+  }
+  return pako.deflate(utf16);
+}
+
+/**
+ * EnCase layout volume section; see parseVolumeSection for the fields
+ */
+function buildVolume(chunkCount: number, sectorsPerChunk: number, bytesPerSector: number, sectorCount: number, mediaType: number, compression: E01WriteCompression): Uint8Array {
+  const volume = new Uint8Array(VOLUME_SIZE);
+  volume[0] = mediaType;
+  writeUint32LE(volume, 4, chunkCount);
+  writeUint32LE(volume, 8, sectorsPerChunk);
+  writeUint32LE(volume, 12, bytesPerSector);
+  writeUint64LE(volume, 16, sectorCount);
+  volume[36] = 0x01;
+  volume[52] = COMPRESSION[compression].code;
+  writeUint32LE(volume, 56, sectorsPerChunk);
+  crypto.getRandomValues(volume.subarray(64, 80));
+  writeUint32LE(volume, 1048, adler32(volume.subarray(0, 1048)));
+  return volume;
+}
+
+/**
+ * table/table2: entry count, base offset and Adler-32, then the 32-bit
+ * entries (offset from the base, high bit set when compressed) and their Adler-32
+ */
+function buildTable(baseOffset: number, entries: number[]): Uint8Array {
+  const table = new Uint8Array(TABLE_HEADER_SIZE + entries.length * 4 + 4);
+  writeUint32LE(table, 0, entries.length);
+  writeUint64LE(table, 8, baseOffset);
+  writeUint32LE(table, 20, adler32(table.subarray(0, 20)));
+  entries.forEach((entry, i) => writeUint32LE(table, TABLE_HEADER_SIZE + i * 4, entry));
+  const end = TABLE_HEADER_SIZE + entries.length * 4;
+  writeUint32LE(table, end, adler32(table.subarray(TABLE_HEADER_SIZE, end)));
+  return table;
+}
+
+/**
+ * Writes sections into one segment file, tracking its size
+ */
+class SegmentWriter {
+  size = 0;
+
+  constructor(private readonly sink: RawExportSink) {}
+
+  async write(data: Uint8Array): Promise<void> {
+    await this.sink.write(data);
+    this.size += data.length;
+  }
+
+  /** Write a section descriptor followed by its data; the last section points to itself */
+  async section(type: string, data: Uint8Array[] = [], last = false): Promise<void> {
+    const dataSize = data.reduce((sum, part) => sum + part.length, 0);
+    const sectionSize = SECTION_DESCRIPTOR_SIZE + dataSize;
+    const descriptor = new Uint8Array(SECTION_DESCRIPTOR_SIZE);
+    descriptor.set(new TextEncoder().encode(type));
+    writeUint64LE(descriptor, 16, last ? this.size : this.size + sectionSize);
+    writeUint64LE(descriptor, 24, sectionSize);
+    writeUint32LE(descriptor, 72, adler32(descriptor.subarray(0, 72)));
+    await this.write(descriptor);
+    for (const part of data) await this.write(part);
+  }
+}
+
+/**
+ * Compress one chunk, or store it raw with its Adler-32 when that is smaller
+ */
+function encodeChunk(data: Uint8Array, compression: E01WriteCompression): { stored: Uint8Array; compressed: boolean } {
+  if (compression !== 'none') {
+    const deflated = pako.deflate(data, { level: COMPRESSION[compression].level });
+    if (deflated.length < data.length) return { stored: deflated, compressed: true };
+  }
+  const stored = new Uint8Array(data.length + 4);
+  stored.set(data);
+  writeUint32LE(stored, data.length, adler32(data));
+  return { stored, compressed: false };
+}
+
+/**
+ * Write `source` as an E01 segment set with the given case metadata
+ */
+export async function writeE01(
+  source: File | ByteReader,
+  metadata: E01Metadata,
+  sink: RawExportSink,
+  {
+    baseName,
+    sectorsPerChunk = 64,
+    bytesPerSector = 512,
+    compression = 'fast',
+    segmentSize = DEFAULT_SEGMENT_SIZE,
+    mediaType = 0x01,
+    onProgress,
+    signal,
+  }: E01WriteOptions,
+): Promise<E01WriteResult> {
+  const reader = source instanceof Blob ? new BlobReader(source) : source;
+  const chunkSize = sectorsPerChunk * bytesPerSector;
+  if (!Number.isInteger(sectorsPerChunk) || sectorsPerChunk < 1 || !Number.isInteger(bytesPerSector) || bytesPerSector < 1) {
+    throw new Error('Sectors per chunk and bytes per sector must be positive integers');
+  }
+  if (segmentSize < MIN_SEGMENT_SIZE || segmentSize > MAX_SEGMENT_SIZE) {
+    throw new Error(`Segment size must be between ${MIN_SEGMENT_SIZE} and ${MAX_SEGMENT_SIZE} bytes`);
+  }
+  if (segmentSize < FILE_HEADER_SIZE + 5 * SECTION_DESCRIPTOR_SIZE + VOLUME_SIZE + chunkSize * 2 + CLOSING_RESERVE) {
+    throw new Error(`Segment size is too small for ${chunkSize}-byte chunks`);
+  }
+  if (reader.size === 0) throw new Error('The raw image is empty');
+
+  // The media is padded with zeros to a whole sector
+  const sectorCount = Math.ceil(reader.size / bytesPerSector);
+  const mediaSize = sectorCount * bytesPerSector;
+  const chunkCount = Math.ceil(mediaSize / chunkSize);
+
+  const acquired = acquisitionTime(metadata);
+  const now = new Date();
+  const header = buildHeader(metadata, acquired, now, compression);
+  const header2 = buildHeader2(metadata, acquired, now);
+  const volume = buildVolume(chunkCount, sectorsPerChunk, bytesPerSector, sectorCount, mediaType, compression);
+
+  const md5 = new Md5();
+  const sha1 = new Sha1();
+  const segments: string[] = [];
+  let bytesWritten = 0;
+  let chunk = 0;
+  let md5Hex = '';
+  let sha1Hex = '';
+
+  // Chunks are read a few at a time, up to 1 MB per read
+  const readChunks = Math.max(1, Math.floor((1024 * 1024) / chunkSize));
+  const pending: Uint8Array[] = [];
+  const nextChunk = async (): Promise<Uint8Array> => {
+    if (pending.length === 0) {
+      const offset = chunk * chunkSize;
+      const length = Math.min(readChunks * chunkSize, mediaSize - offset);
+      const block = new Uint8Array(length);
+      block.set(await reader.read(offset, length));
+      for (let pos = 0; pos < length; pos += chunkSize) pending.push(block.subarray(pos, Math.min(pos + chunkSize, length)));
+    }
+    return pending.shift()!;
+  };
+
+  try {
+    while (chunk < chunkCount) {
+      const name = `${baseName}.${segmentExtension(segments.length + 1)}`;
+      await sink.create(name);
+      segments.push(name);
+      const segment = new SegmentWriter(sink);
+
+      const fileHeader = new Uint8Array(FILE_HEADER_SIZE);
+      fileHeader.set(EVF_SIGNATURE);
+      fileHeader[8] = 0x01;
+      fileHeader[9] = segments.length & 0xff;
+      fileHeader[10] = segments.length >> 8;
+      await segment.write(fileHeader);
+
+      if (segments.length === 1) {
+        await segment.section('header2', [header2]);
+        await segment.section('header2', [header2]);
+        await segment.section('header', [header]);
+        await segment.section('volume', [volume]);
+      } else {
+        await segment.section('data', [volume]);
+      }
+
+      // Fill the segment with sectors / table / table2 groups
+      let segmentFull = false;
+      while (chunk < chunkCount && !segmentFull) {
+        const sectorsOffset = segment.size;
+        const group: Uint8Array[] = [];
+        const entries: number[] = [];
+        let groupSize = 0;
+
+        while (chunk < chunkCount && entries.length < MAX_TABLE_ENTRIES && groupSize < GROUP_BUFFER_SIZE) {
+          // Worst case for the next chunk plus both tables and the closing sections
+          const tables = 2 * (SECTION_DESCRIPTOR_SIZE + TABLE_HEADER_SIZE + (entries.length + 1) * 4 + 4);
+          if (sectorsOffset + SECTION_DESCRIPTOR_SIZE + groupSize + chunkSize + 4 + tables + CLOSING_RESERVE > segmentSize) {
+            segmentFull = true;
+            break;
+          }
+
+          signal?.throwIfAborted();
+          const data = await nextChunk();
+          md5.update(data);
+          sha1.update(data);
+          const { stored, compressed } = encodeChunk(data, compression);
+          entries.push((SECTION_DESCRIPTOR_SIZE + groupSize) | (compressed ? 0x80000000 : 0));
+          group.push(stored);
+          groupSize += stored.length;
+          chunk++;
+          onProgress?.(Math.min(chunk * chunkSize, reader.size), reader.size);
+        }
+
+        if (entries.length === 0) break;
+        await segment.section('sectors', group);
+        const table = buildTable(sectorsOffset, entries);
+        await segment.section('table', [table]);
+        await segment.section('table2', [table]);
+      }
+
+      if (chunk < chunkCount) {
+        await segment.section('next', [], true);
+      } else {
+        md5Hex = md5.digest();
+        sha1Hex = sha1.digest();
+        const md5Digest = hexBytes(md5Hex);
+        const digest = new Uint8Array(80);
+        digest.set(md5Digest, 0);
+        digest.set(hexBytes(sha1Hex), 16);
+        writeUint32LE(digest, 76, adler32(digest.subarray(0, 76)));
+        const hash = new Uint8Array(36);
+        hash.set(md5Digest, 0);
+        writeUint32LE(hash, 32, adler32(hash.subarray(0, 32)));
+        await segment.section('digest', [digest]);
+        await segment.section('hash', [hash]);
+        await segment.section('done', [], true);
+      }
+
+      await sink.close();
+      bytesWritten += segment.size;
+    }
+  } catch (error) {
+    await sink.abort();
+    throw error;
+  }
+
+  return { segments, chunkCount, sectorCount, bytesWritten, md5: md5Hex, sha1: sha1Hex };
+}
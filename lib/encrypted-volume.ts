@@ -0,0 +1,89 @@
+/**
+ * Encrypted volumes: BitLocker and LUKS
+ *
+ * Reads the scheme's metadata to describe the volume, and with a key opens
+ * it as a reader of the decrypted volume, so the filesystem inside can be
+ * parsed like any other. Keys never leave this machine.
+ */
+
+import { BitLockerInfo, readBitLocker, unlockBitLocker } from './bitlocker';
+import type { ByteReader } from './byte-reader';
+import type { Diagnostic } from './diagnostics';
+import { LuksInfo, readLuks, unlockLuks } from './luks';
+
+/**
+ * A key to unlock a volume with: a BitLocker recovery password (48 digits),
+ * a BitLocker password or LUKS passphrase, or a file (BitLocker startup key
+ * .BEK, or a LUKS key file)
+ */
+export type VolumeKey =
+  | { type: 'password' | 'recovery-password'; value: string }
+  | { type: 'key-file'; data: Uint8Array };
+
+export type EncryptionInfo = BitLockerInfo | LuksInfo;
+
+export interface UnlockedVolume {
+  /** The decrypted volume; null while it stays locked */
+  reader: ByteReader | null;
+  /** Where an offset of the decrypted volume is stored in the encrypted one */
+  volumeOffset: (offset: number) => number;
+  /** How unlocking went, with offsets in the encrypted volume */
+  diagnostics: Diagnostic[];
+}
+
+export interface EncryptedVolume extends UnlockedVolume {
+  /** null when the volume is not encrypted with a scheme known here */
+  encryption: EncryptionInfo | null;
+}
+
+/**
+ * Describe the volume's encryption and, given the key (or none, for a
+ * BitLocker volume whose protection is suspended), decrypt it. Volumes
+ * that are not encrypted come back as they are.
+ */
+export async function unlockVolume(reader: ByteReader, key?: VolumeKey): Promise<EncryptedVolume> {
+  const bitlocker = await readBitLocker(reader);
+  if (bitlocker.metadata) {
+    const unlocked = unlockBitLocker(reader, bitlocker.metadata, key);
+    return { encryption: bitlocker.metadata.info, ...unlocked, diagnostics: [...bitlocker.diagnostics, ...unlocked.diagnostics] };
+  }
+  const luks = await readLuks(reader);
+  if (luks.metadata) {
+    const unlocked = await unlockLuks(reader, luks.metadata, key);
+    return { encryption: luks.metadata.info, ...unlocked, diagnostics: [...luks.diagnostics, ...unlocked.diagnostics] };
+  }
+  const diagnostics = [...bitlocker.diagnostics, ...luks.diagnostics];
+  return { encryption: null, reader: diagnostics.length > 0 ? null : reader, volumeOffset: offset => offset, diagnostics };
+}
+
+/**
+ * Label/value pairs describing the encryption, for display
+ */
+export function describeEncryption(info: EncryptionInfo): [string, string][] {
+  if (info.scheme === 'BitLocker') {
+    return [
+      ['Scheme', `BitLocker (FVE version ${info.version})`],
+      ['Volume GUID', info.volumeGuid],
+      ['Encryption', info.cipher],
+      ...(info.description ? [['Description', info.description] as [string, string]] : []),
+      ...(info.created ? [['Created', info.created] as [string, string]] : []),
+      ['Encrypted size', `${info.encryptedSize} bytes`],
+      ['Metadata blocks', info.metadataOffsets.map(offset => `0x${offset.toString(16)}`).join(', ')],
+      ...info.protectors.map((p, i): [string, string] => [`Protector ${i + 1}`, `${p.kind} ${p.guid}${p.created ? ` (${p.created})` : ''}`]),
+    ];
+  }
+  return [
+    ['Scheme', `LUKS${info.version}`],
+    ['UUID', info.uuid],
+    ...(info.label ? [['Label', info.label] as [string, string]] : []),
+    ['Encryption', `${info.cipher}, ${info.keySize}-bit key`],
+    ['Digest hash', info.hash],
+    ['Data', `${info.dataSize} bytes at 0x${info.dataOffset.toString(16)}, ${info.sectorSize}-byte sectors`],
+    ...info.keyslots.map((slot): [string, string] => [
+      `Keyslot ${slot.index}`,
+      slot.kdf === 'pbkdf2'
+        ? `PBKDF2-${slot.hash}, ${slot.iterations} iterations`
+        : `${slot.kdf}, ${slot.iterations} passes, ${slot.memory} KiB, ${slot.parallelism} threads`,
+    ]),
+  ];
+}
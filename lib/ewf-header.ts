@@ -0,0 +1,132 @@
+/**
+ * EWF header text parsing
+ *
+ * The header and header2 sections (and the EWF2 case data and device
+ * information sections) hold zlib-compressed text laid out as:
+ *
+ *   <number of categories>
+ *   main
+ *   <key>\t<key>\t…
+ *   <value>\t<value>\t…
+ *   <blank line>
+ *   further categories (srce, sub …), which carry no case metadata
+ *
+ * header is ASCII with space-separated local dates ("2024 1 15 10 30 0");
+ * header2 is UTF-16 with POSIX timestamps.
+ */
+
+import pako from 'pako';
+import type { E01Metadata } from './e01-parser';
+
+/**
+ * Inflate header data and decode it as UTF-16 (with or without BOM) or UTF-8
+ *
+ * `onDamaged` is called when the data has a zlib header but does not
+ * inflate; the bytes are then decoded as they are.
+ */
+export function decodeHeaderText(data: Uint8Array, onDamaged?: (problem: string) => void): string {
+  let text = data;
+  try {
+    text = pako.inflate(data);
+  } catch (error) {
+    // Stored uncompressed, unless it starts like a zlib stream
+    if (data[0] === 0x78) onDamaged?.(error instanceof Error ? error.message : String(error));
+  }
+
+  if (text.length >= 2) {
+    if (text[0] === 0xff && text[1] === 0xfe) return new TextDecoder('utf-16le').decode(text.subarray(2));
+    if (text[0] === 0xfe && text[1] === 0xff) return new TextDecoder('utf-16be').decode(text.subarray(2));
+    // ASCII characters followed by NULs
+    if (text[1] === 0x00 && text[0] !== 0x00) return new TextDecoder('utf-16le').decode(text);
+  }
+  return new TextDecoder('utf-8', { fatal: false }).decode(text);
+}
+
+/**
+ * Pair the key row of the `main` category with its value row
+ */
+export function parseHeaderValues(text: string): Record<string, string> {
+  const lines = text.split(/\r?\n/);
+  const main = lines.findIndex(line => line.trim() === 'main');
+  if (main < 0 || main + 2 >= lines.length) return {};
+
+  const keys = lines[main + 1].split('\t');
+  const values = lines[main + 2].split('\t');
+  const table: Record<string, string> = {};
+  keys.forEach((key, i) => {
+    if (key.trim()) table[key.trim()] = (values[i] ?? '').trim();
+  });
+  return table;
+}
+
+/**
+ * Decode an acquisition/system date: POSIX seconds (header2, EWF2) become
+ * UTC timestamps, "year month day hour minute second" (header) becomes a
+ * local timestamp without a zone, as the header records none
+ */
+export function parseHeaderDate(value: string): string | undefined {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    const seconds = Number(trimmed);
+    return seconds > 0 ? new Date(seconds * 1000).toISOString().replace('.000Z', 'Z') : undefined;
+  }
+
+  const parts = trimmed.split(/\s+/).map(Number);
+  if (parts.length !== 6 || parts.some(n => !Number.isInteger(n))) return undefined;
+  const [year, month, day, hour, minute, second] = parts;
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined;
+  return date.toISOString().replace('.000Z', '');
+}
+
+/**
+ * Whether two decoded header dates describe the same moment. A zone-less
+ * header date may differ from the header2 UTC time by the examiner
+ * machine's UTC offset (whole quarter hours, at most 14 hours).
+ */
+export function sameHeaderDate(a: string, b: string): boolean {
+  const zoned = (s: string) => s.endsWith('Z');
+  const diff = Math.abs(Date.parse(zoned(a) ? a : `${a}Z`) - Date.parse(zoned(b) ? b : `${b}Z`));
+  if (Number.isNaN(diff)) return a === b;
+  if (zoned(a) === zoned(b)) return diff === 0;
+  return diff <= 14 * 3600_000 && diff % (15 * 60_000) === 0;
+}
+
+const COMPRESSION_LEVELS: Record<string, string> = { b: 'best', f: 'fast', n: 'none' };
+
+/** Date fields of E01Metadata */
+export const HEADER_DATE_FIELDS = ['acquiredDate', 'systemDate'] as const;
+
+/**
+ * Map the `main` category of a header or header2 section to metadata
+ */
+export function headerMetadata(values: Record<string, string>): E01Metadata {
+  const metadata: E01Metadata = {};
+
+  for (const [key, value] of Object.entries(values)) {
+    if (!value) continue;
+    switch (key) {
+      case 'c': metadata.caseNumber = value; break;
+      case 'n': metadata.evidenceNumber = value; break;
+      case 'a': metadata.description = value; break;
+      case 'e': metadata.examinerName = value; break;
+      case 't': metadata.notes = value; break;
+      case 'av': metadata.acquisitionVersion = value; break;
+      case 'ov': metadata.operatingSystem = value; break;
+      case 'm': metadata.acquiredDate = parseHeaderDate(value) ?? value; break;
+      case 'u': metadata.systemDate = parseHeaderDate(value) ?? value; break;
+      // "0" means no password was set
+      case 'p': if (value !== '0') metadata.password = value; break;
+      case 'r': metadata.compressionLevel = COMPRESSION_LEVELS[value] ?? value; break;
+      case 'md': metadata.model = value; break;
+      case 'sn': metadata.serialNumber = value; break;
+      case 'l': metadata.deviceLabel = value; break;
+      case 'pid': metadata.processIdentifier = value; break;
+      case 'dc': metadata.unknownDc = value; break;
+      case 'ext': metadata.extents = value; break;
+      default: metadata[key] = value;
+    }
+  }
+
+  return metadata;
+}
@@ -0,0 +1,514 @@
+/**
+ * EWF2 (Ex01 / Lx01) section parsing
+ *
+ * EWF2 structure:
+ * - 32-byte file header: signature (EVF2 or LEF2), version, compression
+ *   method (zlib or bzip2), 32-bit segment number and set identifier
+ * - Each section's data is followed by a 64-byte descriptor: numeric type,
+ *   data flags, offset of the previous descriptor, data and padding sizes,
+ *   an optional MD5 of the data and an Adler-32 of the descriptor
+ * - Sections are therefore walked backwards from the descriptor at the end
+ *   of the file
+ * - Sector tables hold 64-bit file offsets, sizes and per-chunk flags
+ *   (compressed, checksummed, pattern fill) starting at a given chunk number
+ * - Device information and case data are zlib-compressed UTF-16 text
+ * - Error and session tables share the sector table header layout with
+ *   64-bit start sectors in their entries
+ */
+
+import type { ByteReader } from './byte-reader';
+import { adler32 } from './checksums';
+import { Diagnostic, diagnostic } from './diagnostics';
+import type { E01ChunkLocation, E01Compression, E01Integrity } from './e01-reader';
+import type { E01ErrorRange, E01Metadata, E01ParseResult, E01Section, E01Session, E01VolumeInfo } from './e01-parser';
+import { decodeHeaderText, parseHeaderDate, parseHeaderValues } from './ewf-header';
+import { Md5 } from './hashes';
+import { parseSingleFilesSection } from './ltree-parser';
+import { readGuid } from './partition-parser';
+
+export const EWF2_FILE_HEADER_SIZE = 32;
+const SECTION_DESCRIPTOR_SIZE = 64;
+const TABLE_HEADER_SIZE = 32;
+const TABLE_ENTRY_SIZE = 16;
+
+const EWF2_SIGNATURES = {
+  Ex01: new Uint8Array([0x45, 0x56, 0x46, 0x32, 0x0d, 0x0a, 0x81, 0x00]),
+  Lx01: new Uint8Array([0x4c, 0x45, 0x46, 0x32, 0x0d, 0x0a, 0x81, 0x00]),
+} as const;
+
+// Section types are numeric in EWF2
+export const EWF2_SECTION_TYPES: Record<number, string> = {
+  0x01: 'device_information',
+  0x02: 'case_data',
+  0x03: 'sector_data',
+  0x04: 'sector_table',
+  0x05: 'error_table',
+  0x06: 'session_table',
+  0x07: 'increment_data',
+  0x08: 'md5_hash',
+  0x09: 'sha1_hash',
+  0x0a: 'restart_data',
+  0x0b: 'encryption_keys',
+  0x0c: 'memory_extents_table',
+  0x0d: 'next',
+  0x0e: 'final_information',
+  0x0f: 'done',
+  0x10: 'analytical_data',
+  0x20: 'single_files_data',
+};
+
+const DATA_FLAG_MD5 = 0x1;
+const DATA_FLAG_ENCRYPTED = 0x2;
+
+const CHUNK_FLAG_COMPRESSED = 0x1;
+const CHUNK_FLAG_CHECKSUM = 0x2;
+const CHUNK_FLAG_PATTERN = 0x4;
+
+export interface Ewf2FileHeader {
+  format: keyof typeof EWF2_SIGNATURES;
+  majorVersion: number;
+  minorVersion: number;
+  compression: E01Compression | 'none';
+  segment: number;
+  setIdentifier: string;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function dataView(data: Uint8Array): DataView {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+/**
+ * Decode the 32-byte file header, or null if this is not an EWF2 file
+ */
+export function parseEwf2FileHeader(data: Uint8Array): Ewf2FileHeader | null {
+  if (data.length < EWF2_FILE_HEADER_SIZE) return null;
+
+  const format = (Object.keys(EWF2_SIGNATURES) as Ewf2FileHeader['format'][])
+    .find(name => EWF2_SIGNATURES[name].every((b, i) => data[i] === b));
+  if (!format) return null;
+
+  const view = dataView(data);
+  const method = view.getUint16(10, true);
+  return {
+    format,
+    majorVersion: data[8],
+    minorVersion: data[9],
+    compression: method === 2 ? 'bzip2' : method === 1 ? 'zlib' : 'none',
+    segment: view.getUint32(12, true),
+    setIdentifier: readGuid(data, 16),
+  };
+}
+
+// Device information drive types, as EWF1 media type codes
+const DRIVE_TYPES: Record<string, number> = { r: 0x00, f: 0x01, c: 0x03, l: 0x0e, m: 0x10 };
+
+function parseCaseData(data: Uint8Array, onDamaged?: (problem: string) => void): { metadata: E01Metadata; volume: E01VolumeInfo } {
+  const values = parseHeaderValues(decodeHeaderText(data, onDamaged));
+  const metadata: E01Metadata = {};
+  const volume: E01VolumeInfo = {};
+
+  for (const [key, value] of Object.entries(values)) {
+    if (!value) continue;
+    switch (key) {
+      case 'nm': metadata.description = value; break;
+      case 'cn': metadata.caseNumber = value; break;
+      case 'en': metadata.evidenceNumber = value; break;
+      case 'ex': metadata.examinerName = value; break;
+      case 'nt': metadata.notes = value; break;
+      case 'av': metadata.acquisitionVersion = value; break;
+      case 'os': metadata.operatingSystem = value; break;
+      case 'at': metadata.acquiredDate = parseHeaderDate(value) ?? value; break;
+      case 'tt': metadata.systemDate = parseHeaderDate(value) ?? value; break;
+      // Chunk geometry goes to the volume info
+      case 'sb': if (Number(value) > 0) volume.sectorsPerChunk = Number(value); break;
+      case 'gr': if (Number(value) > 0) volume.errorGranularity = Number(value); break;
+      default: metadata[key] = value;
+    }
+  }
+
+  return { metadata, volume };
+}
+
+function parseDeviceInformation(data: Uint8Array, onDamaged?: (problem: string) => void): { metadata: E01Metadata; volume: E01VolumeInfo } {
+  const values = parseHeaderValues(decodeHeaderText(data, onDamaged));
+  const metadata: E01Metadata = {};
+  const volume: E01VolumeInfo = {};
+
+  for (const [key, value] of Object.entries(values)) {
+    if (!value) continue;
+    switch (key) {
+      case 'sn': metadata.serialNumber = value; break;
+      case 'md': metadata.model = value; break;
+      case 'lb': metadata.deviceLabel = value; break;
+      case 'ts': volume.sectorCount = BigInt(value); break;
+      case 'bp': volume.bytesPerSector = Number(value); break;
+      case 'dt': if (value in DRIVE_TYPES) volume.mediaType = DRIVE_TYPES[value]; break;
+      case 'ph': if (value === '1') volume.mediaFlags = (volume.mediaFlags ?? 0x01) | 0x02; break;
+      default: metadata[key] = value;
+    }
+  }
+
+  return { metadata, volume };
+}
+
+/**
+ * MD5 and SHA1 hash sections: the digest followed by its Adler-32
+ */
+function parseHashSection(data: Uint8Array, length: number): { digest?: string; problem?: string } {
+  if (data.length < length) return { problem: 'truncated digest' };
+  const digest = data.subarray(0, length);
+  if (data.length >= length + 4 && adler32(digest) !== dataView(data).getUint32(length, true)) {
+    return { problem: 'digest checksum mismatch' };
+  }
+  return { digest: digest.every(b => b === 0) ? undefined : toHex(digest) };
+}
+
+/**
+ * Decode an error or session table: 32-byte header (entry count, Adler-32
+ * at 16), fixed-size entries and the Adler-32 of the entries
+ */
+function parseRangeTable<T>(
+  data: Uint8Array,
+  entrySize: number,
+  decode: (view: DataView, offset: number) => T,
+): { entries: T[]; problem?: string } {
+  if (data.length < TABLE_HEADER_SIZE) return { entries: [], problem: 'truncated header' };
+
+  const view = dataView(data);
+  const declared = view.getUint32(0, true);
+  const count = Math.min(declared, Math.floor((data.length - TABLE_HEADER_SIZE) / entrySize));
+  const entries: T[] = [];
+  for (let i = 0; i < count; i++) entries.push(decode(view, TABLE_HEADER_SIZE + i * entrySize));
+
+  const entriesEnd = TABLE_HEADER_SIZE + count * entrySize;
+  let problem: string | undefined;
+  if (adler32(data.subarray(0, 16)) !== view.getUint32(16, true)) {
+    problem = 'header checksum mismatch';
+  } else if (count < declared) {
+    problem = `only ${count} of ${declared} entries present`;
+  } else if (entriesEnd + 4 <= data.length && adler32(data.subarray(TABLE_HEADER_SIZE, entriesEnd)) !== view.getUint32(entriesEnd, true)) {
+    problem = 'entries checksum mismatch';
+  }
+  return { entries, problem };
+}
+
+/** Error table entries: first sector (64-bit) and sector count */
+function parseErrorTable(data: Uint8Array) {
+  return parseRangeTable<E01ErrorRange>(data, 16, (view, offset) => ({
+    firstSector: Number(view.getBigUint64(offset, true)),
+    sectorCount: view.getUint32(offset + 8, true),
+  }));
+}
+
+/** Session table entries: first sector (64-bit) and flags; lengths are resolved later */
+function parseSessionTable(data: Uint8Array) {
+  return parseRangeTable<E01Session>(data, 32, (view, offset) => {
+    const flags = view.getUint32(offset + 8, true);
+    return { firstSector: Number(view.getBigUint64(offset, true)), sectorCount: 0, flags, audio: (flags & 0x1) !== 0 };
+  });
+}
+
+interface SectionDescriptor {
+  offset: number;
+  typeCode: number;
+  type: string;
+  flags: number;
+  previousOffset: number;
+  dataSize: number;
+  paddingSize: number;
+  dataHash: Uint8Array;
+  checksumValid: boolean;
+}
+
+function parseDescriptor(data: Uint8Array, offset: number): SectionDescriptor {
+  const view = dataView(data);
+  const typeCode = view.getUint32(0, true);
+  return {
+    offset,
+    typeCode,
+    type: EWF2_SECTION_TYPES[typeCode] ?? `type_0x${typeCode.toString(16)}`,
+    flags: view.getUint32(4, true),
+    previousOffset: Number(view.getBigUint64(8, true)),
+    dataSize: Number(view.getBigUint64(16, true)),
+    paddingSize: view.getUint32(28, true),
+    dataHash: data.slice(32, 48),
+    checksumValid: adler32(data.subarray(0, 60)) === view.getUint32(60, true),
+  };
+}
+
+/**
+ * Walk the section descriptors of one EWF2 segment file
+ * Returns true when the segment ends the set with a `done` section
+ */
+export async function parseEwf2Sections(
+  source: ByteReader,
+  segment: number,
+  result: E01ParseResult,
+  log: (msg: string) => void,
+  onSection: (bytesScanned: number) => void,
+  signal?: AbortSignal,
+): Promise<boolean> {
+  const debug = result.debug;
+  const issue = (offset: number, type: string, code: 'EWF_DESCRIPTOR_CHECKSUM' | 'EWF_SECTION_DAMAGED', problem: string) => {
+    log(`Section ${type.toUpperCase()} at 0x${offset.toString(16)}: ${problem}`);
+    result.diagnostics.push(diagnostic(
+      code,
+      `Segment ${segment}: ${type} section at 0x${offset.toString(16)} has a ${problem}`,
+      { segment, offset },
+      { section: type },
+    ));
+    result.integrity.sectionIssues.push({ segment, offset, type, problem });
+  };
+  const damagedText = (offset: number, type: string) => (problem: string) => result.diagnostics.push(diagnostic(
+    'EWF_HEADER_UNREADABLE',
+    `Segment ${segment}: ${type} section at 0x${offset.toString(16)} does not inflate (${problem}); its metadata may be garbled`,
+    { segment, offset },
+    { section: type },
+  ));
+
+  // Collect descriptors from the end of the file back to the first section
+  const descriptors: SectionDescriptor[] = [];
+  let offset = source.size - SECTION_DESCRIPTOR_SIZE;
+  log(`Starting EWF2 section parsing of segment ${segment} from offset ${offset}`);
+
+  while (offset >= EWF2_FILE_HEADER_SIZE) {
+    signal?.throwIfAborted();
+    debug.lastOffset = offset;
+
+    const descriptor = parseDescriptor(await source.read(offset, SECTION_DESCRIPTOR_SIZE), offset);
+    if (!descriptor.checksumValid) {
+      issue(offset, descriptor.type, 'EWF_DESCRIPTOR_CHECKSUM', 'descriptor checksum mismatch');
+      // A damaged descriptor cannot be trusted to lead anywhere
+      if (!EWF2_SECTION_TYPES[descriptor.typeCode]) break;
+    }
+    if (descriptor.dataSize > offset - EWF2_FILE_HEADER_SIZE) {
+      log(`Section at 0x${offset.toString(16)} claims more data than precedes it, stopping`);
+      result.diagnostics.push(diagnostic(
+        'EWF_SECTION_CHAIN_BROKEN',
+        `Segment ${segment}: section descriptor at 0x${offset.toString(16)} claims more data than precedes it; earlier sections were not read`,
+        { segment, offset },
+      ));
+      break;
+    }
+
+    descriptors.push(descriptor);
+    onSection(source.size - offset);
+
+    const previous = descriptor.previousOffset;
+    if (previous === 0 || previous >= offset) break;
+    offset = previous;
+  }
+
+  const first = descriptors[descriptors.length - 1];
+  if (first && first.offset - first.dataSize > EWF2_FILE_HEADER_SIZE) {
+    result.diagnostics.push(diagnostic(
+      'EWF_SECTION_CHAIN_BROKEN',
+      `Segment ${segment}: section chain ends before the start of the file; earlier sections were not found`,
+      { segment, offset: first.offset - first.dataSize },
+    ));
+  }
+
+  // Process in file order so later sections override earlier ones
+  descriptors.reverse();
+  for (const descriptor of descriptors) {
+    const start = descriptor.offset - descriptor.dataSize;
+    const payloadSize = Math.max(0, descriptor.dataSize - descriptor.paddingSize);
+
+    log(`Found section: ${descriptor.type.toUpperCase()} at 0x${start.toString(16)}, size: ${descriptor.dataSize}`);
+    debug.sectionsFound.push(descriptor.type);
+
+    // Chunk data is read on demand by the E01Reader, never up front
+    const data = descriptor.type === 'sector_data'
+      ? new Uint8Array(0)
+      : await source.read(start, payloadSize);
+
+    if (descriptor.flags & DATA_FLAG_MD5 && descriptor.type !== 'sector_data') {
+      const md5 = new Md5();
+      md5.update(data);
+      if (md5.digest() !== toHex(descriptor.dataHash)) issue(start, descriptor.type, 'EWF_SECTION_DAMAGED', 'data MD5 mismatch');
+    }
+
+    const section: E01Section = {
+      type: descriptor.type,
+      segment,
+      nextOffset: BigInt(descriptor.offset + SECTION_DESCRIPTOR_SIZE),
+      size: BigInt(descriptor.dataSize + SECTION_DESCRIPTOR_SIZE),
+      data,
+      offset: start,
+    };
+    result.sections.push(section);
+
+    if (descriptor.flags & DATA_FLAG_ENCRYPTED) {
+      result.diagnostics.push(diagnostic(
+        'EWF_SECTION_ENCRYPTED',
+        `Segment ${segment}: ${descriptor.type} section at 0x${start.toString(16)} is encrypted and cannot be read`,
+        { segment, offset: start },
+        { section: descriptor.type },
+      ));
+      continue;
+    }
+
+    if (descriptor.type === 'device_information') {
+      const { metadata, volume } = parseDeviceInformation(data, damagedText(start, descriptor.type));
+      result.metadata = { ...result.metadata, ...metadata };
+      result.volumeInfo = { ...result.volumeInfo, ...volume };
+    } else if (descriptor.type === 'case_data') {
+      const { metadata, volume } = parseCaseData(data, damagedText(start, descriptor.type));
+      result.metadata = { ...result.metadata, ...metadata };
+      result.volumeInfo = { ...result.volumeInfo, ...volume };
+    } else if (descriptor.type === 'single_files_data') {
+      result.logicalFiles = parseSingleFilesSection(data, { segment, offset: start });
+      log(`Logical file tree: ${result.logicalFiles.fileCount} files`);
+    } else if (descriptor.type === 'error_table') {
+      const { entries, problem } = parseErrorTable(data);
+      if (problem) issue(start, descriptor.type, 'EWF_SECTION_DAMAGED', problem);
+      result.acquisitionErrors = entries;
+      log(`Acquisition errors: ${entries.length} ranges`);
+    } else if (descriptor.type === 'session_table') {
+      const { entries, problem } = parseSessionTable(data);
+      if (problem) issue(start, descriptor.type, 'EWF_SECTION_DAMAGED', problem);
+      result.sessions = entries;
+      log(`Sessions: ${entries.length}`);
+    } else if (descriptor.type === 'md5_hash' || descriptor.type === 'sha1_hash') {
+      const md5 = descriptor.type === 'md5_hash';
+      const { digest, problem } = parseHashSection(data, md5 ? 16 : 20);
+      if (problem) issue(start, descriptor.type, 'EWF_SECTION_DAMAGED', problem);
+      result.hash = md5
+        ? { ...result.hash, md5: digest ?? result.hash?.md5 }
+        : { ...result.hash, sha1: digest ?? result.hash?.sha1 };
+    }
+  }
+
+  // Geometry defaults match EnCase: 64 sectors of 512 bytes per chunk
+  const volume = result.volumeInfo;
+  if (volume?.sectorCount !== undefined) {
+    volume.bytesPerSector ??= 512;
+    volume.sectorsPerChunk ??= 64;
+    volume.chunkCount = Math.ceil(Number(volume.sectorCount) / volume.sectorsPerChunk);
+  }
+
+  const last = descriptors[descriptors.length - 1]?.type;
+  if (last !== 'done' && last !== 'next') {
+    log(`Segment ${segment} does not end with a DONE or NEXT section`);
+  }
+  return last === 'done';
+}
+
+interface ParsedSectorTable {
+  firstChunk: number;
+  entries: Uint8Array;
+  entryCount: number;
+  problem?: string;
+}
+
+/**
+ * Decode a sector table: 32-byte header (first chunk, entry count,
+ * Adler-32), 16-byte entries and the Adler-32 of the entries
+ */
+function parseSectorTable(data: Uint8Array): ParsedSectorTable {
+  if (data.length < TABLE_HEADER_SIZE) {
+    return { firstChunk: 0, entries: new Uint8Array(0), entryCount: 0, problem: 'truncated header' };
+  }
+
+  const view = dataView(data);
+  const firstChunk = Number(view.getBigUint64(0, true));
+  const declared = view.getUint32(8, true);
+  const entryCount = Math.min(declared, Math.floor((data.length - TABLE_HEADER_SIZE) / TABLE_ENTRY_SIZE));
+  const entriesEnd = TABLE_HEADER_SIZE + entryCount * TABLE_ENTRY_SIZE;
+  const entries = data.subarray(TABLE_HEADER_SIZE, entriesEnd);
+
+  let problem: string | undefined;
+  if (adler32(data.subarray(0, 16)) !== view.getUint32(16, true)) {
+    problem = 'header checksum mismatch';
+  } else if (entryCount < declared) {
+    problem = `only ${entryCount} of ${declared} entries present`;
+  } else if (entriesEnd + 4 <= data.length && adler32(entries) !== view.getUint32(entriesEnd, true)) {
+    problem = 'entries checksum mismatch';
+  }
+
+  return { firstChunk, entries, entryCount, problem };
+}
+
+/**
+ * Index the chunks of one EWF2 segment from its sector tables
+ *
+ * `firstChunk` is the number of chunks indexed from earlier segments; each
+ * table must continue exactly where the previous one ended.
+ */
+export function indexEwf2Chunks(
+  segmentIndex: number,
+  segment: number,
+  fileSize: number,
+  sections: E01Section[],
+  firstChunk: number,
+  remaining: number,
+  integrity: E01Integrity,
+  report: (problem: Diagnostic) => void,
+): E01ChunkLocation[] {
+  const chunks: E01ChunkLocation[] = [];
+
+  for (const section of sections) {
+    if (section.type !== 'sector_table' || chunks.length >= remaining) continue;
+
+    const table = parseSectorTable(section.data);
+    const where = `0x${section.offset.toString(16)}`;
+    if (table.problem) {
+      integrity.sectionIssues.push({ segment, offset: section.offset, type: section.type, problem: table.problem });
+      report(diagnostic(
+        'EWF_TABLE_DAMAGED',
+        `Segment ${segment}: sector table at ${where} is damaged (${table.problem})`,
+        { segment, offset: section.offset },
+      ));
+    }
+
+    const expected = firstChunk + chunks.length;
+    if (table.firstChunk !== expected) {
+      report(diagnostic(
+        'EWF_TABLE_OUT_OF_ORDER',
+        `Segment ${segment}: sector table at ${where} starts at chunk ${table.firstChunk}, expected ${expected}; stopping`,
+        { segment, offset: section.offset },
+        { firstChunk: table.firstChunk, expected },
+      ));
+      return chunks;
+    }
+
+    const view = dataView(table.entries);
+    const entryCount = Math.min(table.entryCount, remaining - chunks.length);
+    for (let i = 0; i < entryCount; i++) {
+      const base = i * TABLE_ENTRY_SIZE;
+      const fileOffset = Number(view.getBigUint64(base, true));
+      const storedSize = view.getUint32(base + 8, true);
+      const flags = view.getUint32(base + 12, true);
+
+      if (flags & CHUNK_FLAG_PATTERN) {
+        const pattern = table.entries.slice(base, base + 8);
+        chunks.push({ segment: segmentIndex, fileOffset: 0, storedSize: 0, compressed: false, checksummed: false, pattern });
+        continue;
+      }
+
+      if (storedSize === 0 || fileOffset + storedSize > fileSize) {
+        report(diagnostic(
+          'EWF_CHUNK_LOCATION',
+          `Segment ${segment}: chunk ${expected + i} has an invalid location; stopping this table`,
+          { segment, offset: section.offset },
+          { chunk: expected + i },
+        ));
+        break;
+      }
+
+      chunks.push({
+        segment: segmentIndex,
+        fileOffset,
+        storedSize,
+        compressed: (flags & CHUNK_FLAG_COMPRESSED) !== 0,
+        checksummed: (flags & CHUNK_FLAG_CHECKSUM) !== 0,
+      });
+    }
+  }
+
+  return chunks;
+}
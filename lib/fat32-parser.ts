@@ -2,6 +2,9 @@
  * FAT32 Filesystem Parser
  */
 
+import { ByteReader } from './byte-reader';
+import { Diagnostic, diagnostic } from './diagnostics';
+
 export interface FATBootSector {
   bytesPerSector: number;
   sectorsPerCluster: number;
@@ -34,7 +37,7 @@ export interface FATParseResult {
   fatType: 'FAT12' | 'FAT16' | 'FAT32' | 'Unknown';
   bootSector: FATBootSector | null;
   rootEntries: FATFileEntry[];
-  errors: string[];
+  diagnostics: Diagnostic[];
 }
 
 function readUint16LE(data: Uint8Array, offset: number): number {
@@ -48,7 +51,7 @@ function readUint32LE(data: Uint8Array, offset: number): number {
   return view.getUint32(0, true);
 }
 
-function parseBootSector(data: Uint8Array): FATBootSector | null {
+export function parseBootSector(data: Uint8Array): FATBootSector | null {
   if (data.length < 512) return null;
   if (data[510] !== 0x55 || data[511] !== 0xaa) return null;
 
@@ -79,7 +82,7 @@ function parseBootSector(data: Uint8Array): FATBootSector | null {
   return { bytesPerSector, sectorsPerCluster, reservedSectors, numFATs, rootEntryCount, totalSectors, sectorsPerFAT, rootCluster, volumeLabel, fsType };
 }
 
-function determineFATType(bs: FATBootSector): 'FAT12' | 'FAT16' | 'FAT32' {
+export function determineFATType(bs: FATBootSector): 'FAT12' | 'FAT16' | 'FAT32' {
   const rootDirSectors = Math.ceil((bs.rootEntryCount * 32) / bs.bytesPerSector);
   const dataSectors = bs.totalSectors - bs.reservedSectors - bs.numFATs * bs.sectorsPerFAT - rootDirSectors;
   const clusterCount = Math.floor(dataSectors / bs.sectorsPerCluster);
@@ -165,7 +168,7 @@ function isEndOfChain(cluster: number, fatType: 'FAT12' | 'FAT16' | 'FAT32'): bo
   return cluster >= 0xff8;
 }
 
-function readClusterChain(data: Uint8Array, fat: Uint8Array, startCluster: number, bs: FATBootSector, fatType: 'FAT12' | 'FAT16' | 'FAT32'): Uint8Array {
+async function readClusterChain(reader: ByteReader, fat: Uint8Array, startCluster: number, bs: FATBootSector, fatType: 'FAT12' | 'FAT16' | 'FAT32'): Promise<Uint8Array> {
   const clusterSize = bs.sectorsPerCluster * bs.bytesPerSector;
   const rootDirSectors = Math.ceil((bs.rootEntryCount * 32) / bs.bytesPerSector);
   const firstDataSector = bs.reservedSectors + bs.numFATs * bs.sectorsPerFAT + rootDirSectors;
@@ -175,8 +178,8 @@ function readClusterChain(data: Uint8Array, fat: Uint8Array, startCluster: numbe
 
   while (cluster >= 2 && !isEndOfChain(cluster, fatType) && iterations < 10000) {
     const clusterOffset = firstDataSector * bs.bytesPerSector + (cluster - 2) * clusterSize;
-    if (clusterOffset + clusterSize <= data.length) {
-      clusters.push(data.slice(clusterOffset, clusterOffset + clusterSize));
+    if (clusterOffset + clusterSize <= reader.size) {
+      clusters.push(await reader.read(clusterOffset, clusterSize));
     }
     cluster = getNextCluster(fat, cluster, fatType);
     iterations++;
@@ -200,24 +203,27 @@ function parseDirectory(dirData: Uint8Array, parentPath: string): FATFileEntry[]
   return entries;
 }
 
-function parseDirectoryTree(data: Uint8Array, fat: Uint8Array, cluster: number, bs: FATBootSector, fatType: 'FAT12' | 'FAT16' | 'FAT32', parentPath: string, depth: number): FATFileEntry[] {
+async function parseDirectoryTree(reader: ByteReader, fat: Uint8Array, cluster: number, bs: FATBootSector, fatType: 'FAT12' | 'FAT16' | 'FAT32', parentPath: string, depth: number): Promise<FATFileEntry[]> {
   if (depth > 10) return [];
-  const dirData = readClusterChain(data, fat, cluster, bs, fatType);
+  const dirData = await readClusterChain(reader, fat, cluster, bs, fatType);
   const entries = parseDirectory(dirData, parentPath);
   for (const entry of entries) {
     if (entry.isDirectory && entry.cluster >= 2) {
-      entry.children = parseDirectoryTree(data, fat, entry.cluster, bs, fatType, entry.path, depth + 1);
+      entry.children = await parseDirectoryTree(reader, fat, entry.cluster, bs, fatType, entry.path, depth + 1);
     }
   }
   return entries;
 }
 
-export function parseFAT(data: Uint8Array): FATParseResult {
-  const result: FATParseResult = { valid: false, fatType: 'Unknown', bootSector: null, rootEntries: [], errors: [] };
+export async function parseFAT(reader: ByteReader): Promise<FATParseResult> {
+  const result: FATParseResult = { valid: false, fatType: 'Unknown', bootSector: null, rootEntries: [], diagnostics: [] };
 
   try {
-    const bootSector = parseBootSector(data);
-    if (!bootSector) { result.errors.push('Invalid FAT boot sector'); return result; }
+    const bootSector = parseBootSector(await reader.read(0, 512));
+    if (!bootSector) {
+      result.diagnostics.push(diagnostic('FAT_INVALID_BOOT_SECTOR', 'Invalid FAT boot sector', { offset: 0 }));
+      return result;
+    }
 
     result.bootSector = bootSector;
     result.fatType = determineFATType(bootSector);
@@ -225,32 +231,71 @@ export function parseFAT(data: Uint8Array): FATParseResult {
 
     const fatOffset = bootSector.reservedSectors * bootSector.bytesPerSector;
     const fatSize = bootSector.sectorsPerFAT * bootSector.bytesPerSector;
-    if (fatOffset + fatSize > data.length) { result.errors.push('FAT extends beyond disk image'); return result; }
+    if (fatOffset + fatSize > reader.size) {
+      result.diagnostics.push(diagnostic('FAT_BEYOND_VOLUME', 'FAT extends beyond disk image', { offset: fatOffset }, { size: fatSize }));
+      return result;
+    }
 
-    const fat = data.slice(fatOffset, fatOffset + fatSize);
+    const fat = await reader.read(fatOffset, fatSize);
 
     if (result.fatType === 'FAT32') {
-      result.rootEntries = parseDirectoryTree(data, fat, bootSector.rootCluster, bootSector, result.fatType, '', 0);
+      result.rootEntries = await parseDirectoryTree(reader, fat, bootSector.rootCluster, bootSector, result.fatType, '', 0);
     } else {
       const rootDirOffset = (bootSector.reservedSectors + bootSector.numFATs * bootSector.sectorsPerFAT) * bootSector.bytesPerSector;
       const rootDirSize = bootSector.rootEntryCount * 32;
-      if (rootDirOffset + rootDirSize > data.length) { result.errors.push('Root directory extends beyond disk image'); return result; }
-      const rootDirData = data.slice(rootDirOffset, rootDirOffset + rootDirSize);
+      if (rootDirOffset + rootDirSize > reader.size) {
+        result.diagnostics.push(diagnostic('FAT_BEYOND_VOLUME', 'Root directory extends beyond disk image', { offset: rootDirOffset }, { size: rootDirSize }));
+        return result;
+      }
+      const rootDirData = await reader.read(rootDirOffset, rootDirSize);
       const rootEntries = parseDirectory(rootDirData, '');
       for (const entry of rootEntries) {
         if (entry.isDirectory && entry.cluster >= 2) {
-          entry.children = parseDirectoryTree(data, fat, entry.cluster, bootSector, result.fatType, entry.path, 0);
+          entry.children = await parseDirectoryTree(reader, fat, entry.cluster, bootSector, result.fatType, entry.path, 0);
         }
       }
       result.rootEntries = rootEntries;
     }
   } catch (error) {
-    result.errors.push(`Parse error: ${error instanceof Error ? error.message : String(error)}`);
+    result.diagnostics.push(diagnostic('FAT_PARSE_FAILED', `Parse error: ${error instanceof Error ? error.message : String(error)}`));
   }
 
   return result;
 }
 
+/**
+ * Returns a function that streams a file's data cluster by cluster, trimmed
+ * to the file size, so large files are never held in memory whole. The FAT
+ * is read once, on first use. Resolves to the number of bytes written,
+ * which falls short of the file size when the cluster chain is broken.
+ */
+export function fatFileReader(reader: ByteReader, bs: FATBootSector): (entry: FATFileEntry, write: (data: Uint8Array) => Promise<void>) => Promise<number> {
+  const fatType = determineFATType(bs);
+  const clusterSize = bs.sectorsPerCluster * bs.bytesPerSector;
+  const rootDirSectors = Math.ceil((bs.rootEntryCount * 32) / bs.bytesPerSector);
+  const dataStart = (bs.reservedSectors + bs.numFATs * bs.sectorsPerFAT + rootDirSectors) * bs.bytesPerSector;
+  let fat: Promise<Uint8Array> | null = null;
+
+  return async (entry, write) => {
+    if (entry.isDirectory) throw new Error(`${entry.path} is a directory`);
+    fat ??= reader.read(bs.reservedSectors * bs.bytesPerSector, bs.sectorsPerFAT * bs.bytesPerSector);
+    const table = await fat;
+    let cluster = entry.cluster;
+    let written = 0;
+    // A chain can never be longer than the clusters the file needs; stop loops early
+    let remainingClusters = Math.ceil(entry.size / clusterSize);
+
+    while (written < entry.size && cluster >= 2 && !isEndOfChain(cluster, fatType) && remainingClusters-- > 0) {
+      const data = await reader.read(dataStart + (cluster - 2) * clusterSize, Math.min(clusterSize, entry.size - written));
+      if (data.length === 0) break;
+      await write(data);
+      written += data.length;
+      cluster = getNextCluster(table, cluster, fatType);
+    }
+    return written;
+  };
+}
+
 export function formatFileSize(bytes: number): string {
   if (bytes === 0) return '0 B';
   const units = ['B', 'KB', 'MB', 'GB', 'TB'];
@@ -0,0 +1,258 @@
+/**
+ * Filesystem detection by on-disk signature
+ *
+ * Partition type codes only say what a volume was meant to hold; the boot
+ * sector or superblock says what it holds. Signatures checked:
+ * - FAT12/16/32: boot sector with 0x55AA and sane BPB geometry; the FAT
+ *   type follows from the cluster count
+ * - exFAT, NTFS, BitLocker: OEM name at offset 3 ("EXFAT   ", "NTFS    ",
+ *   "-FVE-FS-")
+ * - ext2/3/4: superblock magic 0xEF53 at 1080; the journal and feature
+ *   flags tell the generations apart
+ * - XFS "XFSB" at 0, APFS "NXSB" at 32, LUKS "LUKS\xba\xbe" at 0
+ * - HFS+ "H+" / HFSX "HX" / HFS "BD" at 1024
+ * - Btrfs "_BHRfS_M" at 64 KiB + 64
+ * - ISO9660 "CD001" in the first volume descriptor at 32 KiB
+ * - Linux swap "SWAPSPACE2" at the end of the first 4 KiB page
+ * - md RAID members and LVM2 physical volumes, checked last since an md
+ *   1.0 RAID1 member also holds its filesystem at the start
+ *
+ * BitLocker and LUKS volumes are opened with a key when one is given, and
+ * the decrypted volume probed in turn.
+ */
+
+import type { ByteReader } from './byte-reader';
+import { Diagnostic, diagnostic, rebaseDiagnostics } from './diagnostics';
+import { EncryptionInfo, unlockVolume, VolumeKey } from './encrypted-volume';
+import { determineFATType, FATParseResult, parseBootSector, parseFAT } from './fat32-parser';
+import { readLvmLabel } from './lvm-parser';
+import { readMdSuperblock } from './md-parser';
+
+export type FilesystemType =
+  | 'FAT12' | 'FAT16' | 'FAT32' | 'exFAT' | 'NTFS'
+  | 'ext2' | 'ext3' | 'ext4' | 'XFS' | 'Btrfs'
+  | 'HFS' | 'HFS+' | 'HFSX' | 'APFS' | 'ISO9660'
+  | 'LUKS' | 'BitLocker' | 'swap' | 'md' | 'LVM2';
+
+export interface FilesystemProbe {
+  /** null when no known signature was found */
+  type: FilesystemType | null;
+  label?: string;
+  uuid?: string;
+  /** Bytes the filesystem records that it spans, where it records that */
+  size?: number;
+  /** An encrypted container; its contents need the key */
+  encrypted: boolean;
+  /** Whether this app can list the volume's files */
+  browsable: boolean;
+}
+
+export interface VolumeAnalysis {
+  probe: FilesystemProbe;
+  /** How an encrypted volume is encrypted and protected */
+  encryption?: EncryptionInfo;
+  /** What the volume holds once decrypted */
+  decrypted?: FilesystemProbe;
+  /** The parsed volume, when it holds a filesystem this app can list */
+  fat: FATParseResult | null;
+  /** Why the volume could not be listed, and the parser's own diagnostics */
+  diagnostics: Diagnostic[];
+}
+
+const HEAD_SIZE = 4096;
+const EXT_SUPERBLOCK = 1024;
+const ISO_DESCRIPTOR = 0x8000;
+const BTRFS_SUPERBLOCK = 0x10000;
+
+// ext feature flags that mark the later generations
+const EXT3_COMPAT_HAS_JOURNAL = 0x4;
+const EXT4_INCOMPAT = 0x40 | 0x80 | 0x200; // extents, 64bit, flex_bg
+const EXT4_RO_COMPAT = 0x8 | 0x10 | 0x40; // huge_file, gdt_csum, dir_nlink
+const EXT4_INCOMPAT_64BIT = 0x80;
+
+const FAT_TYPES = new Set<FilesystemType>(['FAT12', 'FAT16', 'FAT32']);
+const ENCRYPTED_TYPES = new Set<FilesystemType>(['LUKS', 'BitLocker']);
+const MEMBER_TYPES = new Set<FilesystemType>(['md', 'LVM2']);
+
+function ascii(data: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + length));
+}
+
+function isPowerOfTwo(value: number): boolean {
+  return value > 0 && (value & (value - 1)) === 0;
+}
+
+function hex(data: Uint8Array): string {
+  return Array.from(data, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Format a big-endian 16-byte UUID
+ */
+function readUuid(data: Uint8Array, offset: number): string {
+  const h = hex(data.subarray(offset, offset + 16));
+  return `${h.slice(0, 8)}-${h.slice(8, 12)}-${h.slice(12, 16)}-${h.slice(16, 20)}-${h.slice(20)}`;
+}
+
+function cString(data: Uint8Array, offset: number, length: number): string | undefined {
+  const text = new TextDecoder().decode(data.subarray(offset, offset + length)).replace(/\0[\s\S]*$/, '').trim();
+  return text || undefined;
+}
+
+/**
+ * A FAT boot sector with plausible geometry, rather than any sector ending in 0x55AA
+ */
+function probeFAT(head: Uint8Array): Omit<FilesystemProbe, 'encrypted' | 'browsable'> | null {
+  if (head[0] !== 0xeb && head[0] !== 0xe9) return null;
+  const bs = parseBootSector(head);
+  if (!bs) return null;
+  if (!isPowerOfTwo(bs.bytesPerSector) || bs.bytesPerSector < 512 || bs.bytesPerSector > 4096) return null;
+  if (!isPowerOfTwo(bs.sectorsPerCluster) || bs.reservedSectors === 0) return null;
+  if (bs.numFATs === 0 || bs.numFATs > 4 || bs.sectorsPerFAT === 0 || bs.totalSectors === 0) return null;
+
+  const type = determineFATType(bs);
+  // The volume serial number follows the drive number and boot signature
+  const serialOffset = type === 'FAT32' ? 67 : 39;
+  const serial = new DataView(head.buffer, head.byteOffset + serialOffset, 4).getUint32(0, true).toString(16).padStart(8, '0');
+  const label = bs.volumeLabel && bs.volumeLabel !== 'NO NAME' ? bs.volumeLabel : undefined;
+  return { type, label, uuid: `${serial.slice(0, 4)}-${serial.slice(4)}`.toUpperCase(), size: bs.totalSectors * bs.bytesPerSector };
+}
+
+function probeExt(superblock: Uint8Array): Omit<FilesystemProbe, 'encrypted' | 'browsable'> | null {
+  const view = new DataView(superblock.buffer, superblock.byteOffset, superblock.byteLength);
+  if (superblock.length < 136 || view.getUint16(56, true) !== 0xef53) return null;
+  const compat = view.getUint32(92, true);
+  const incompat = view.getUint32(96, true);
+  const roCompat = view.getUint32(100, true);
+  const type = incompat & EXT4_INCOMPAT || roCompat & EXT4_RO_COMPAT ? 'ext4'
+    : compat & EXT3_COMPAT_HAS_JOURNAL ? 'ext3'
+    : 'ext2';
+  const blockSize = 1024 << view.getUint32(24, true);
+  const blocksHigh = incompat & EXT4_INCOMPAT_64BIT && superblock.length >= 0x154 ? view.getUint32(0x150, true) : 0;
+  const size = (blocksHigh * 2 ** 32 + view.getUint32(4, true)) * blockSize;
+  return { type, uuid: readUuid(superblock, 104), label: cString(superblock, 120, 16), size };
+}
+
+async function readAt(reader: ByteReader, offset: number, length: number): Promise<Uint8Array | null> {
+  if (offset + length > reader.size) return null;
+  return reader.read(offset, length);
+}
+
+/**
+ * Identify the filesystem or container at the start of a volume
+ */
+export async function probeFilesystem(reader: ByteReader): Promise<FilesystemProbe> {
+  const head = await reader.read(0, Math.min(HEAD_SIZE, reader.size));
+  const found = await identify(reader, head);
+  const type = found?.type ?? null;
+  return {
+    type,
+    ...(found?.label && { label: found.label }),
+    ...(found?.uuid && { uuid: found.uuid }),
+    ...(found?.size && { size: found.size }),
+    encrypted: type !== null && ENCRYPTED_TYPES.has(type),
+    browsable: type !== null && FAT_TYPES.has(type),
+  };
+}
+
+async function identify(reader: ByteReader, head: Uint8Array): Promise<Omit<FilesystemProbe, 'encrypted' | 'browsable'> | null> {
+  if (head.length < 512) return null;
+
+  // Signatures in the first sector; BitLocker and exFAT boot sectors would
+  // otherwise pass for FAT
+  const oem = ascii(head, 3, 8);
+  if (oem === '-FVE-FS-') return { type: 'BitLocker' };
+  const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+  if (oem === 'EXFAT   ') {
+    const serial = view.getUint32(100, true).toString(16).padStart(8, '0');
+    // Volume length in sectors, and the sector size as a power of two
+    const size = Number(view.getBigUint64(72, true)) * 2 ** head[108];
+    return { type: 'exFAT', uuid: `${serial.slice(0, 4)}-${serial.slice(4)}`.toUpperCase(), size };
+  }
+  if (oem === 'NTFS    ') {
+    const serial = view.getBigUint64(72, true).toString(16).padStart(16, '0');
+    // The sector count leaves out the backup boot sector that follows the volume
+    const size = (Number(view.getBigUint64(40, true)) + 1) * view.getUint16(11, true);
+    return { type: 'NTFS', uuid: serial.toUpperCase(), size };
+  }
+  if (ascii(head, 0, 6) === 'LUKS\xba\xbe') {
+    const version = (head[6] << 8) | head[7];
+    // The UUID is a NUL-terminated string at 168 in both LUKS1 and LUKS2
+    return { type: 'LUKS', uuid: cString(head, 168, 40), label: version === 2 ? cString(head, 24, 48) : undefined };
+  }
+  if (ascii(head, 0, 4) === 'XFSB') {
+    return { type: 'XFS', uuid: readUuid(head, 32), label: cString(head, 108, 12) };
+  }
+  if (ascii(head, 32, 4) === 'NXSB') {
+    return { type: 'APFS', uuid: readUuid(head, 72) };
+  }
+
+  if (head.length >= EXT_SUPERBLOCK + 512) {
+    const ext = probeExt(head.subarray(EXT_SUPERBLOCK));
+    if (ext) return ext;
+    const hfs = ascii(head, EXT_SUPERBLOCK, 2);
+    if (hfs === 'H+') return { type: 'HFS+' };
+    if (hfs === 'HX') return { type: 'HFSX' };
+    if (hfs === 'BD') return { type: 'HFS' };
+  }
+  if (head.length >= HEAD_SIZE && ['SWAPSPACE2', 'SWAP-SPACE'].includes(ascii(head, HEAD_SIZE - 10, 10))) {
+    return { type: 'swap', uuid: readUuid(head, 1036), label: cString(head, 1052, 16) };
+  }
+
+  const fat = probeFAT(head);
+  if (fat) return fat;
+
+  const iso = await readAt(reader, ISO_DESCRIPTOR, 2048);
+  if (iso && ascii(iso, 1, 5) === 'CD001') {
+    return { type: 'ISO9660', label: cString(iso, 40, 32) };
+  }
+  const btrfs = await readAt(reader, BTRFS_SUPERBLOCK, 512);
+  if (btrfs && ascii(btrfs, 64, 8) === '_BHRfS_M') {
+    return { type: 'Btrfs', uuid: readUuid(btrfs, 32), label: cString(btrfs, 299, 256) };
+  }
+
+  const lvm = await readLvmLabel(reader);
+  if (lvm) return { type: 'LVM2', uuid: lvm.pvUuid };
+  const md = await readMdSuperblock(reader);
+  if (md) return { type: 'md', uuid: md.arrayUuid, label: md.name };
+  return null;
+}
+
+/**
+ * Probe a volume and hand it to the parser for its filesystem, or say why
+ * its files cannot be listed; encrypted volumes are read through the key
+ */
+export async function readVolume(reader: ByteReader, key?: VolumeKey): Promise<VolumeAnalysis> {
+  const probe = await probeFilesystem(reader);
+  if (probe.encrypted) return readEncryptedVolume(reader, probe, key);
+  if (probe.browsable) {
+    const fat = await parseFAT(reader);
+    return { probe, fat, diagnostics: fat.diagnostics };
+  }
+
+  let problem: Diagnostic;
+  if (!probe.type) {
+    problem = diagnostic('VOLUME_UNKNOWN', 'No known filesystem signature at the start of the volume; it may be unformatted, wiped or encrypted', { offset: 0 });
+  } else if (MEMBER_TYPES.has(probe.type)) {
+    const kind = probe.type === 'md' ? 'md RAID member' : 'LVM2 physical volume';
+    problem = diagnostic('VOLUME_MEMBER', `${kind}: its data is listed as part of the volume assembled from it`, { offset: 0 }, { filesystem: probe.type });
+  } else {
+    problem = diagnostic('VOLUME_UNSUPPORTED', `${probe.type} volume: listing its files is not supported yet`, { offset: 0 }, { filesystem: probe.type });
+  }
+  return { probe, fat: null, diagnostics: [problem] };
+}
+
+async function readEncryptedVolume(reader: ByteReader, probe: FilesystemProbe, key: VolumeKey | undefined): Promise<VolumeAnalysis> {
+  const unlocked = await unlockVolume(reader, key);
+  const encryption = unlocked.encryption ?? undefined;
+  if (!unlocked.reader) {
+    const diagnostics = unlocked.diagnostics.length > 0 ? unlocked.diagnostics
+      : [diagnostic('VOLUME_ENCRYPTED', `${probe.type} volume: its contents are encrypted and need the key to be read`, { offset: 0 })];
+    return { probe, encryption, fat: null, diagnostics };
+  }
+
+  // Offsets inside the decrypted volume are reported where they are stored
+  const inner = await readVolume(unlocked.reader);
+  const diagnostics = [...unlocked.diagnostics, ...rebaseDiagnostics(inner.diagnostics, unlocked.volumeOffset)];
+  return { probe, encryption, decrypted: inner.probe, fat: inner.fat && { ...inner.fat, diagnostics }, diagnostics };
+}
@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createHasher, HashAlgorithm, sha256 } from './hashes';
+
+const text = (s: string) => new TextEncoder().encode(s);
+const hex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const TWO_BLOCKS = 'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq';
+
+const VECTORS: [HashAlgorithm, string, string][] = [
+  ['md5', '', 'd41d8cd98f00b204e9800998ecf8427e'],
+  ['md5', 'abc', '900150983cd24fb0d6963f7d28e17f72'],
+  ['md5', 'message digest', 'f96b697d7cb7938d525a2f31aaf161d0'],
+  ['sha1', '', 'da39a3ee5e6b4b0d3255bfef95601890afd80709'],
+  ['sha1', 'abc', 'a9993e364706816aba3e25717850c26c9cd0d89d'],
+  ['sha1', TWO_BLOCKS, '84983e441c3bd26ebaae4aa1f95129e5e54670f1'],
+  ['sha256', '', 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'],
+  ['sha256', 'abc', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+  ['sha256', TWO_BLOCKS, '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'],
+];
+
+test('hashers match the standard test vectors', () => {
+  for (const [algorithm, input, digest] of VECTORS) {
+    const hasher = createHasher(algorithm);
+    hasher.update(text(input));
+    assert.equal(hasher.digest(), digest, `${algorithm}("${input}")`);
+  }
+});
+
+test('hashers give the same digest however the input is split', () => {
+  const data = new Uint8Array(1000).map((_, i) => i * 31);
+  for (const algorithm of ['md5', 'sha1', 'sha256'] as HashAlgorithm[]) {
+    const whole = createHasher(algorithm);
+    whole.update(data);
+    const pieces = createHasher(algorithm);
+    for (let offset = 0; offset < data.length; offset += 37) pieces.update(data.subarray(offset, offset + 37));
+    assert.equal(pieces.digest(), whole.digest(), algorithm);
+  }
+});
+
+test('sha256 hashes a buffer in one call', () => {
+  assert.equal(hex(sha256(text('abc'))), 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  assert.equal(hex(sha256(text(TWO_BLOCKS))), '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+});
@@ -0,0 +1,288 @@
+/**
+ * Incremental MD5, SHA-1 and SHA-256
+ *
+ * WebCrypto can only digest a complete buffer, so media streams of hundreds
+ * of gigabytes are hashed with these block-at-a-time implementations.
+ */
+
+export type HashAlgorithm = 'md5' | 'sha1' | 'sha256';
+
+export interface Hasher {
+  update(data: Uint8Array): void;
+  /** Finish and return the lowercase hex digest */
+  digest(): string;
+}
+
+/**
+ * Shared buffering and Merkle–Damgård padding for 64-byte block hashes
+ */
+abstract class BlockHasher implements Hasher {
+  private readonly buffer = new Uint8Array(64);
+  private bufferLength = 0;
+  private bytes = 0;
+
+  protected abstract readonly littleEndian: boolean;
+  protected abstract processBlock(data: Uint8Array, offset: number): void;
+  protected abstract stateWords(): number[];
+
+  update(data: Uint8Array): void {
+    let offset = 0;
+    this.bytes += data.length;
+
+    if (this.bufferLength > 0) {
+      const take = Math.min(64 - this.bufferLength, data.length);
+      this.buffer.set(data.subarray(0, take), this.bufferLength);
+      this.bufferLength += take;
+      offset = take;
+      if (this.bufferLength < 64) return;
+      this.processBlock(this.buffer, 0);
+      this.bufferLength = 0;
+    }
+
+    for (; offset + 64 <= data.length; offset += 64) {
+      this.processBlock(data, offset);
+    }
+
+    if (offset < data.length) {
+      this.buffer.set(data.subarray(offset), 0);
+      this.bufferLength = data.length - offset;
+    }
+  }
+
+  digest(): string {
+    const bitsHigh = Math.floor(this.bytes / 0x20000000);
+    const bitsLow = (this.bytes * 8) >>> 0;
+
+    const padLength = this.bufferLength < 56 ? 64 - this.bufferLength : 128 - this.bufferLength;
+    const padding = new Uint8Array(padLength);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    if (this.littleEndian) {
+      view.setUint32(padLength - 8, bitsLow, true);
+      view.setUint32(padLength - 4, bitsHigh, true);
+    } else {
+      view.setUint32(padLength - 8, bitsHigh, false);
+      view.setUint32(padLength - 4, bitsLow, false);
+    }
+    const length = this.bytes;
+    this.update(padding);
+    this.bytes = length;
+
+    return this.stateWords()
+      .map(word => {
+        const w = this.littleEndian
+          ? ((word & 0xff) << 24) | ((word & 0xff00) << 8) | ((word >>> 8) & 0xff00) | (word >>> 24)
+          : word;
+        return (w >>> 0).toString(16).padStart(8, '0');
+      })
+      .join('');
+  }
+}
+
+function readWordLE(data: Uint8Array, offset: number): number {
+  return data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16) | (data[offset + 3] << 24);
+}
+
+function readWordBE(data: Uint8Array, offset: number): number {
+  return (data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3];
+}
+
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+
+const MD5_K = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) | 0);
+
+export class Md5 extends BlockHasher {
+  protected readonly littleEndian = true;
+  private readonly state = [0x67452301, 0xefcdab89 | 0, 0x98badcfe | 0, 0x10325476];
+  private readonly words = new Int32Array(16);
+
+  protected processBlock(data: Uint8Array, offset: number): void {
+    const m = this.words;
+    for (let i = 0; i < 16; i++) m[i] = readWordLE(data, offset + i * 4);
+
+    let [a, b, c, d] = this.state;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      const sum = (a + f + MD5_K[i] + m[g]) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << MD5_SHIFTS[i]) | (sum >>> (32 - MD5_SHIFTS[i])))) | 0;
+    }
+
+    this.state[0] = (this.state[0] + a) | 0;
+    this.state[1] = (this.state[1] + b) | 0;
+    this.state[2] = (this.state[2] + c) | 0;
+    this.state[3] = (this.state[3] + d) | 0;
+  }
+
+  protected stateWords(): number[] {
+    return this.state;
+  }
+}
+
+export class Sha1 extends BlockHasher {
+  protected readonly littleEndian = false;
+  private readonly state = [0x67452301, 0xefcdab89 | 0, 0x98badcfe | 0, 0x10325476, 0xc3d2e1f0 | 0];
+  private readonly words = new Int32Array(80);
+
+  protected processBlock(data: Uint8Array, offset: number): void {
+    const w = this.words;
+    for (let i = 0; i < 16; i++) w[i] = readWordBE(data, offset + i * 4);
+    for (let i = 16; i < 80; i++) {
+      const x = w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16];
+      w[i] = (x << 1) | (x >>> 31);
+    }
+
+    let [a, b, c, d, e] = this.state;
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc | 0;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6 | 0;
+      }
+      const temp = (((a << 5) | (a >>> 27)) + f + e + k + w[i]) | 0;
+      e = d;
+      d = c;
+      c = (b << 30) | (b >>> 2);
+      b = a;
+      a = temp;
+    }
+
+    this.state[0] = (this.state[0] + a) | 0;
+    this.state[1] = (this.state[1] + b) | 0;
+    this.state[2] = (this.state[2] + c) | 0;
+    this.state[3] = (this.state[3] + d) | 0;
+    this.state[4] = (this.state[4] + e) | 0;
+  }
+
+  protected stateWords(): number[] {
+    return this.state;
+  }
+}
+
+const SHA256_K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+].map(k => k | 0);
+
+const SHA256_INIT = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+].map(v => v | 0);
+
+function sha256Block(state: number[] | Int32Array, w: Int32Array, data: Uint8Array, offset: number): void {
+  for (let i = 0; i < 16; i++) w[i] = readWordBE(data, offset + i * 4);
+  for (let i = 16; i < 64; i++) {
+    const x = w[i - 15];
+    const y = w[i - 2];
+    const s0 = ((x >>> 7) | (x << 25)) ^ ((x >>> 18) | (x << 14)) ^ (x >>> 3);
+    const s1 = ((y >>> 17) | (y << 15)) ^ ((y >>> 19) | (y << 13)) ^ (y >>> 10);
+    w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+  }
+
+  let a = state[0], b = state[1], c = state[2], d = state[3];
+  let e = state[4], f = state[5], g = state[6], h = state[7];
+  for (let i = 0; i < 64; i++) {
+    const S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+    const ch = (e & f) ^ (~e & g);
+    const t1 = (h + S1 + ch + SHA256_K[i] + w[i]) | 0;
+    const S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+    const maj = (a & b) ^ (a & c) ^ (b & c);
+    const t2 = (S0 + maj) | 0;
+    h = g;
+    g = f;
+    f = e;
+    e = (d + t1) | 0;
+    d = c;
+    c = b;
+    b = a;
+    a = (t1 + t2) | 0;
+  }
+
+  state[0] = (state[0] + a) | 0;
+  state[1] = (state[1] + b) | 0;
+  state[2] = (state[2] + c) | 0;
+  state[3] = (state[3] + d) | 0;
+  state[4] = (state[4] + e) | 0;
+  state[5] = (state[5] + f) | 0;
+  state[6] = (state[6] + g) | 0;
+  state[7] = (state[7] + h) | 0;
+}
+
+export class Sha256 extends BlockHasher {
+  protected readonly littleEndian = false;
+  private readonly state = [...SHA256_INIT];
+  private readonly words = new Int32Array(64);
+
+  protected processBlock(data: Uint8Array, offset: number): void {
+    sha256Block(this.state, this.words, data, offset);
+  }
+
+  protected stateWords(): number[] {
+    return this.state;
+  }
+}
+
+/**
+ * SHA-256 of a short buffer in one call, as raw bytes, for key
+ * derivations that hash a million times over
+ */
+export function sha256(data: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(Math.ceil((data.length + 9) / 64) * 64);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(data.length / 0x20000000));
+  view.setUint32(padded.length - 4, (data.length * 8) >>> 0);
+
+  const state = Int32Array.from(SHA256_INIT);
+  const words = new Int32Array(64);
+  for (let offset = 0; offset < padded.length; offset += 64) sha256Block(state, words, padded, offset);
+  const out = new Uint8Array(32);
+  const outView = new DataView(out.buffer);
+  for (let i = 0; i < 8; i++) outView.setInt32(i * 4, state[i]);
+  return out;
+}
+
+export function createHasher(algorithm: HashAlgorithm): Hasher {
+  switch (algorithm) {
+    case 'md5': return new Md5();
+    case 'sha1': return new Sha1();
+    case 'sha256': return new Sha256();
+  }
+}
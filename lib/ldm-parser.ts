@@ -0,0 +1,344 @@
+/**
+ * Windows Logical Disk Manager (dynamic disk) database
+ *
+ * A dynamic disk keeps a 1 MiB private region holding the database of its
+ * whole disk group. On MBR disks it is at the end of the disk, found through
+ * the private header (PRIVHEAD) in sector 6; on GPT disks it is the LDM
+ * metadata partition, with the PRIVHEAD in its last sector. All fields are
+ * big-endian.
+ * - PRIVHEAD: this disk's GUID, where its data area starts (partition
+ *   offsets count from there) and where the private region is
+ * - TOCBLOCK (private region sector 1, copy in sector 2): where the
+ *   "config" area starts
+ * - VMDB at the start of the config area: VBLK size and count
+ * - VBLKs: fixed-size slots holding one database record each, or a
+ *   fragment of one that spans several slots. Records are volumes,
+ *   components (a plex of a volume: simple/spanned, striped or RAID5),
+ *   partitions (an extent of a disk within a component) and disks, linked
+ *   by object id. Numbers are stored with a length byte first, as are
+ *   strings.
+ */
+
+import type { ByteReader } from './byte-reader';
+import { Diagnostic, diagnostic } from './diagnostics';
+
+export interface LdmPartition {
+  id: number;
+  name: string;
+  /** Object id of the disk it is on */
+  diskId: number;
+  /** Sectors from the start of that disk's data area */
+  start: number;
+  /** Sectors into the component, for spanned volumes */
+  volumeOffset: number;
+  size: number;
+  /** Stripe column, for striped volumes */
+  column?: number;
+}
+
+export interface LdmComponent {
+  id: number;
+  name: string;
+  layout: 'striped' | 'spanned' | 'raid5';
+  /** Sectors per stripe chunk; 0 unless striped */
+  stripeSize: number;
+  columns: number;
+  partitions: LdmPartition[];
+}
+
+export interface LdmVolume {
+  id: number;
+  name: string;
+  /** "gen", or "raid5" */
+  type: string;
+  size: number;
+  /** The MBR type the volume would have on a basic disk */
+  partitionType: number;
+  driveHint?: string;
+  /** One per plex; more than one for a mirror */
+  components: LdmComponent[];
+}
+
+export interface LdmDisk {
+  id: number;
+  name: string;
+  guid: string;
+}
+
+export interface LdmDatabase {
+  diskGroup: string;
+  /** GUID of the disk this database was read from */
+  diskGuid: string;
+  /** First sector of this disk's data area */
+  dataStart: number;
+  disks: LdmDisk[];
+  volumes: LdmVolume[];
+}
+
+export interface LdmResult {
+  database: LdmDatabase | null;
+  diagnostics: Diagnostic[];
+}
+
+const PRIVHEAD_MAGIC = 'PRIVHEAD';
+const TOCBLOCK_MAGIC = 'TOCBLOCK';
+const VMDB_MAGIC = 'VMDB';
+const VBLK_MAGIC = 'VBLK';
+const VBLK_HEADER = 16;
+// A config area is at most the whole 1 MiB private region
+const MAX_CONFIG_SIZE = 1024 * 1024;
+
+const VBLK_COMPONENT = 0x32;
+const VBLK_PARTITION = 0x33;
+const VBLK_DISK3 = 0x34;
+const VBLK_DISK4 = 0x44;
+const VBLK_VOLUME = 0x51;
+
+const FLAG_COMPONENT_STRIPE = 0x10;
+const FLAG_PARTITION_INDEX = 0x08;
+const FLAG_VOLUME_DRIVE = 0x02;
+const FLAG_VOLUME_ID1 = 0x08;
+const FLAG_VOLUME_ID2 = 0x20;
+const FLAG_VOLUME_SIZE = 0x80;
+
+const COMPONENT_LAYOUTS: Record<number, LdmComponent['layout']> = { 1: 'striped', 2: 'spanned', 3: 'raid5' };
+
+function ascii(data: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + length)).replace(/\0[\s\S]*$/, '');
+}
+
+function formatGuid(data: Uint8Array): string {
+  const h = Array.from(data, b => b.toString(16).padStart(2, '0')).join('');
+  return `${h.slice(0, 8)}-${h.slice(8, 12)}-${h.slice(12, 16)}-${h.slice(16, 20)}-${h.slice(20)}`;
+}
+
+/**
+ * Reads a record's fields in order; reading past the end throws
+ */
+class RecordCursor {
+  private readonly view: DataView;
+
+  constructor(private readonly data: Uint8Array, private pos: number) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  private need(length: number): void {
+    if (this.pos + length > this.data.length) throw new RangeError('record ends early');
+  }
+
+  skip(length: number): void {
+    this.need(length);
+    this.pos += length;
+  }
+
+  byte(): number {
+    this.need(1);
+    return this.data[this.pos++];
+  }
+
+  u64(): number {
+    this.need(8);
+    const value = Number(this.view.getBigUint64(this.pos, false));
+    this.pos += 8;
+    return value;
+  }
+
+  bytes(length: number): Uint8Array {
+    this.need(length);
+    this.pos += length;
+    return this.data.subarray(this.pos - length, this.pos);
+  }
+
+  /** A number stored as a length byte and that many big-endian bytes */
+  number(): number {
+    let value = 0;
+    for (const b of this.bytes(this.byte())) value = value * 256 + b;
+    return value;
+  }
+
+  /** A string stored as a length byte and that many characters */
+  string(): string {
+    return ascii(this.bytes(this.byte()), 0, 255);
+  }
+}
+
+interface RawRecord {
+  type: number;
+  flags: number;
+  data: Uint8Array;
+  offset: number;
+}
+
+interface Records {
+  volumes: LdmVolume[];
+  components: (LdmComponent & { volumeId: number })[];
+  partitions: (LdmPartition & { componentId: number })[];
+  disks: LdmDisk[];
+}
+
+function parseRecord({ type, flags, data }: RawRecord, records: Records): void {
+  const cursor = new RecordCursor(data, 0x18);
+  const id = cursor.number();
+  const name = cursor.string();
+
+  if (type === VBLK_VOLUME) {
+    const volumeType = cursor.string();
+    cursor.string(); // drive letter disabled
+    cursor.skip(21); // state, type, volume number, flags
+    cursor.number(); // children
+    cursor.skip(16); // commit and volume ids
+    const size = cursor.number();
+    cursor.skip(4);
+    const partitionType = cursor.byte();
+    cursor.skip(16); // volume GUID
+    if (flags & FLAG_VOLUME_ID1) cursor.string();
+    if (flags & FLAG_VOLUME_ID2) cursor.string();
+    if (flags & FLAG_VOLUME_SIZE) cursor.number();
+    const driveHint = flags & FLAG_VOLUME_DRIVE ? cursor.string() : '';
+    records.volumes.push({ id, name, type: volumeType, size, partitionType, ...(driveHint && { driveHint }), components: [] });
+  } else if (type === VBLK_COMPONENT) {
+    cursor.string(); // state
+    const layout = COMPONENT_LAYOUTS[cursor.byte()] ?? 'spanned';
+    cursor.skip(4);
+    cursor.number(); // children
+    cursor.skip(16); // commit id and zeros
+    const volumeId = cursor.number();
+    let stripeSize = 0;
+    let columns = 1;
+    if (flags & FLAG_COMPONENT_STRIPE) {
+      cursor.skip(1);
+      stripeSize = cursor.number();
+      columns = cursor.number();
+    }
+    records.components.push({ id, name, layout, stripeSize, columns, partitions: [], volumeId });
+  } else if (type === VBLK_PARTITION) {
+    cursor.skip(12); // zeros and commit id
+    const start = cursor.u64();
+    const volumeOffset = cursor.u64();
+    const size = cursor.number();
+    const componentId = cursor.number();
+    const diskId = cursor.number();
+    const column = flags & FLAG_PARTITION_INDEX ? cursor.number() : undefined;
+    records.partitions.push({ id, name, diskId, start, volumeOffset, size, ...(column !== undefined && { column }), componentId });
+  } else if (type === VBLK_DISK3) {
+    records.disks.push({ id, name, guid: cursor.string().toLowerCase() });
+  } else if (type === VBLK_DISK4) {
+    records.disks.push({ id, name, guid: formatGuid(cursor.bytes(16)) });
+  }
+}
+
+/**
+ * The records of a VBLK area, with records that span several VBLKs joined
+ */
+function readRecords(config: Uint8Array, vblkOffset: number, vblkSize: number, count: number, base: number, diagnostics: Diagnostic[]): RawRecord[] {
+  const records: RawRecord[] = [];
+  const fragments = new Map<number, { offset: number; parts: (Uint8Array | undefined)[]; header: Uint8Array }>();
+  const view = new DataView(config.buffer, config.byteOffset, config.byteLength);
+
+  for (let offset = vblkOffset; offset + vblkSize <= Math.min(config.length, vblkSize * count); offset += vblkSize) {
+    if (ascii(config, offset, 4) !== VBLK_MAGIC) {
+      diagnostics.push(diagnostic('VOLUME_LDM_INVALID', 'LDM database: a VBLK slot has no VBLK signature; the rest of the database is ignored', { offset: base + offset }));
+      break;
+    }
+    const group = view.getUint32(offset + 8, false);
+    const part = view.getUint16(offset + 12, false);
+    const total = view.getUint16(offset + 14, false);
+    const vblk = config.subarray(offset, offset + vblkSize);
+    if (total === 1) {
+      records.push({ type: vblk[0x13], flags: vblk[0x12], data: vblk, offset: base + offset });
+    } else if (total > 1) {
+      const entry = fragments.get(group) ?? { offset: base + offset, parts: Array.from({ length: total }, () => undefined), header: vblk.subarray(0, VBLK_HEADER) };
+      if (part < total) entry.parts[part] = vblk.subarray(VBLK_HEADER);
+      fragments.set(group, entry);
+    }
+  }
+
+  for (const { offset, parts: slots, header } of fragments.values()) {
+    const parts = slots.filter((p): p is Uint8Array => p !== undefined);
+    if (parts.length !== slots.length) {
+      diagnostics.push(diagnostic('VOLUME_LDM_INVALID', 'LDM database: a record spanning several VBLKs is incomplete and was skipped', { offset }));
+      continue;
+    }
+    const data = new Uint8Array(VBLK_HEADER + parts.reduce((sum, p) => sum + p.length, 0));
+    data.set(header);
+    let pos = VBLK_HEADER;
+    for (const p of parts) {
+      data.set(p, pos);
+      pos += p.length;
+    }
+    records.push({ type: data[0x13], flags: data[0x12], data, offset });
+  }
+  return records;
+}
+
+/**
+ * The LDM database whose private header is at `privateHeaderLBA`
+ */
+export async function readLdmDatabase(reader: ByteReader, privateHeaderLBA: number, sectorSize: number): Promise<LdmResult> {
+  const diagnostics: Diagnostic[] = [];
+  const fail = (message: string, offset: number): LdmResult => {
+    diagnostics.push(diagnostic('VOLUME_LDM_INVALID', `LDM database: ${message}`, { offset }));
+    return { database: null, diagnostics };
+  };
+
+  const headerOffset = privateHeaderLBA * sectorSize;
+  const header = await reader.read(headerOffset, 512);
+  if (header.length < 512 || ascii(header, 0, 8) !== PRIVHEAD_MAGIC) return fail(`no PRIVHEAD in sector ${privateHeaderLBA}`, headerOffset);
+  const headerView = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  const diskGuid = ascii(header, 0x30, 64).toLowerCase();
+  const dataStart = Number(headerView.getBigUint64(0x11b, false));
+  const configStart = Number(headerView.getBigUint64(0x12b, false));
+  const configSize = Number(headerView.getBigUint64(0x133, false));
+
+  // The primary TOCBLOCK, then its copy
+  let configAreaStart = -1;
+  for (const sector of [1, 2]) {
+    const toc = await reader.read((configStart + sector) * sectorSize, 512);
+    if (toc.length < 512 || ascii(toc, 0, 8) !== TOCBLOCK_MAGIC) continue;
+    const tocView = new DataView(toc.buffer, toc.byteOffset, toc.byteLength);
+    if (ascii(toc, 0x24, 10) !== 'config') continue;
+    configAreaStart = configStart + Number(tocView.getBigUint64(0x2e, false));
+    break;
+  }
+  if (configAreaStart < 0) return fail('no valid TOCBLOCK at the start of the private region', (configStart + 1) * sectorSize);
+
+  const vmdbOffset = configAreaStart * sectorSize;
+  const vmdb = await reader.read(vmdbOffset, 512);
+  if (vmdb.length < 512 || ascii(vmdb, 0, 4) !== VMDB_MAGIC) return fail('no VMDB at the start of the config area', vmdbOffset);
+  const vmdbView = new DataView(vmdb.buffer, vmdb.byteOffset, vmdb.byteLength);
+  const vblkCount = vmdbView.getUint32(4, false);
+  const vblkSize = vmdbView.getUint32(8, false);
+  const vblkOffset = vmdbView.getUint32(12, false);
+  const configBytes = Math.min(vblkSize * vblkCount, MAX_CONFIG_SIZE, configSize * sectorSize);
+  if (vblkSize < VBLK_HEADER + 16 || vblkOffset >= configBytes) return fail(`VMDB gives an impossible VBLK layout (${vblkCount} of ${vblkSize} bytes from ${vblkOffset})`, vmdbOffset);
+
+  const config = await reader.read(vmdbOffset, configBytes);
+  const records: Records = { volumes: [], components: [], partitions: [], disks: [] };
+  for (const record of readRecords(config, vblkOffset, vblkSize, vblkCount, vmdbOffset, diagnostics)) {
+    try {
+      parseRecord(record, records);
+    } catch {
+      diagnostics.push(diagnostic('VOLUME_LDM_INVALID', `LDM database: record type 0x${record.type.toString(16)} is truncated and was skipped`, { offset: record.offset }));
+    }
+  }
+
+  // Link partitions to components and components to volumes
+  for (const { componentId, ...partition } of records.partitions) {
+    records.components.find(c => c.id === componentId)?.partitions.push(partition);
+  }
+  for (const { volumeId, ...component } of records.components) {
+    component.partitions.sort((a, b) => (a.column ?? 0) - (b.column ?? 0) || a.volumeOffset - b.volumeOffset);
+    records.volumes.find(v => v.id === volumeId)?.components.push(component);
+  }
+
+  return {
+    database: {
+      diskGroup: ascii(vmdb, 0x16, 31),
+      diskGuid,
+      dataStart,
+      disks: records.disks,
+      volumes: records.volumes,
+    },
+    diagnostics,
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * Logical Evidence File (L01 / Lx01) file tree parser
+ *
+ * Logical images hold captured files rather than a disk. Their data is
+ * stored back to back in the media stream and described by a "single
+ * files" text table: the EWF1 `ltree` section (48-byte header followed by
+ * UTF-16 text) or the EWF2 `single_files_data` section (zlib-compressed
+ * UTF-16 text).
+ *
+ * The `entry` category lists a key row, then one record per file: a
+ * "<flags>\t<number of children>" line, a tab-separated value line and the
+ * records of its children. The first record is the root of the tree.
+ */
+
+import pako from 'pako';
+import { adler32 } from './checksums';
+import { Diagnostic, DiagnosticLocation, diagnostic } from './diagnostics';
+import { Md5 } from './hashes';
+
+const LTREE_HEADER_SIZE = 48;
+
+export interface LogicalFileExtent {
+  /** Offset of the data in the media stream */
+  offset: number;
+  size: number;
+}
+
+export interface LogicalFileEntry {
+  name: string;
+  path: string;
+  isDirectory: boolean;
+  size: number;
+  /** Where the file's data lives in the media stream */
+  extents: LogicalFileExtent[];
+  md5?: string;
+  sha1?: string;
+  created?: string;
+  modified?: string;
+  accessed?: string;
+  children?: LogicalFileEntry[];
+}
+
+export interface LogicalFileTree {
+  rootEntries: LogicalFileEntry[];
+  fileCount: number;
+  totalBytes: number;
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Format a POSIX timestamp field, or undefined when not recorded
+ */
+function parseTimestamp(value: string | undefined): string | undefined {
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) && seconds > 0 ? new Date(seconds * 1000).toISOString() : undefined;
+}
+
+/**
+ * Binary extents: "<count> <offset> <size> …" with hexadecimal offsets and sizes
+ */
+function parseExtents(value: string | undefined): LogicalFileExtent[] {
+  const parts = (value ?? '').trim().split(/\s+/).filter(Boolean);
+  const count = Number.parseInt(parts[0] ?? '0', 16);
+  const extents: LogicalFileExtent[] = [];
+  for (let i = 0; i < count && 2 + i * 2 < parts.length; i++) {
+    const offset = Number.parseInt(parts[1 + i * 2], 16);
+    const size = Number.parseInt(parts[2 + i * 2], 16);
+    if (Number.isFinite(offset) && Number.isFinite(size)) extents.push({ offset, size });
+  }
+  return extents;
+}
+
+function normaliseHash(value: string | undefined, length: number): string | undefined {
+  const hash = value?.trim().toLowerCase();
+  return hash && hash.length === length && /^[0-9a-f]+$/.test(hash) && !/^0+$/.test(hash) ? hash : undefined;
+}
+
+/**
+ * Parse the single files text into a file tree
+ */
+export function parseSingleFiles(text: string, location: DiagnosticLocation = {}): LogicalFileTree {
+  const tree: LogicalFileTree = { rootEntries: [], fileCount: 0, totalBytes: 0, diagnostics: [] };
+  const malformed = (message: string) => tree.diagnostics.push(diagnostic('LTREE_MALFORMED', message, location));
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  let pos = lines.findIndex(line => line.trim() === 'entry');
+  if (pos < 0) {
+    malformed('No entry category in the logical file table');
+    return tree;
+  }
+  pos++;
+
+  // An optional count row may precede the key row
+  while (pos < lines.length && /^[\d\t ]*$/.test(lines[pos]) && lines[pos].trim() !== '') pos++;
+  const keys = (lines[pos++] ?? '').split('\t').map(key => key.trim());
+  if (!keys.includes('n')) {
+    malformed('Logical file table has no name column');
+    return tree;
+  }
+
+  const readEntry = (parentPath: string, depth: number): LogicalFileEntry | null => {
+    if (pos + 1 >= lines.length || depth > 64) return null;
+    const header = lines[pos++].split('\t');
+    const childCount = Number(header[header.length - 1]);
+    const row = lines[pos++].split('\t');
+    if (!Number.isInteger(childCount) || childCount < 0) {
+      malformed(`Malformed entry record at line ${pos - 1}`);
+      return null;
+    }
+
+    const values: Record<string, string> = {};
+    keys.forEach((key, i) => { values[key] = row[i] ?? ''; });
+
+    const name = values.n ?? '';
+    const path = parentPath && name ? `${parentPath}/${name}` : name || parentPath;
+    const children: LogicalFileEntry[] = [];
+    for (let i = 0; i < childCount; i++) {
+      const child = readEntry(path, depth + 1);
+      if (!child) {
+        malformed(`Entry ${path || '/'} lists ${childCount} children but only ${i} were found`);
+        break;
+      }
+      children.push(child);
+    }
+
+    const extents = parseExtents(values.be);
+    const size = values.ls ? Number.parseInt(values.ls, 16) : extents.reduce((sum, e) => sum + e.size, 0);
+    const isDirectory = children.length > 0 || values.p === '1';
+    if (!isDirectory) {
+      tree.fileCount++;
+      tree.totalBytes += size;
+    }
+
+    return {
+      name,
+      path,
+      isDirectory,
+      size: Number.isFinite(size) ? size : 0,
+      extents,
+      md5: normaliseHash(values.ha, 32),
+      sha1: normaliseHash(values.sha, 40),
+      created: parseTimestamp(values.cr),
+      modified: parseTimestamp(values.wr),
+      accessed: parseTimestamp(values.ac),
+      children: isDirectory ? children : undefined,
+    };
+  };
+
+  const root = readEntry('', 0);
+  if (root) {
+    // The root record only groups the captured items
+    tree.rootEntries = root.name || !root.children ? [root] : root.children;
+  }
+  return tree;
+}
+
+/**
+ * Decode UTF-16 single files text, inflating it first if compressed; the
+ * problem is returned when the data looks compressed but does not inflate
+ */
+function decodeSingleFilesText(data: Uint8Array): { text: string; problem?: string } {
+  let text = data;
+  let problem: string | undefined;
+  try {
+    text = pako.inflate(data);
+  } catch (error) {
+    // Stored uncompressed, unless it starts like a zlib stream
+    if (data[0] === 0x78) problem = error instanceof Error ? error.message : String(error);
+  }
+  return { text: new TextDecoder('utf-16le').decode(text), problem };
+}
+
+/**
+ * Parse single files text, reporting data that would not inflate
+ */
+function parseSingleFilesData(data: Uint8Array, location: DiagnosticLocation): LogicalFileTree {
+  const { text, problem } = decodeSingleFilesText(data);
+  const tree = parseSingleFiles(text, location);
+  if (problem) {
+    tree.diagnostics.unshift(diagnostic('LTREE_UNREADABLE', `Logical file table does not inflate (${problem})`, location));
+  }
+  return tree;
+}
+
+/**
+ * Parse an EWF1 `ltree` section; `location` is where the section starts
+ */
+export function parseLtreeSection(data: Uint8Array, location: DiagnosticLocation = {}): LogicalFileTree {
+  if (data.length < LTREE_HEADER_SIZE) {
+    return {
+      rootEntries: [],
+      fileCount: 0,
+      totalBytes: 0,
+      diagnostics: [diagnostic('LTREE_TRUNCATED', 'ltree section is truncated', location)],
+    };
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const size = Number(view.getBigUint64(16, true));
+  const body = data.subarray(LTREE_HEADER_SIZE, LTREE_HEADER_SIZE + size);
+  const tree = parseSingleFilesData(body, location);
+
+  if (adler32(data.subarray(0, 24)) !== view.getUint32(24, true)) {
+    tree.diagnostics.unshift(diagnostic('LTREE_CHECKSUM', 'ltree header checksum mismatch', location));
+  } else {
+    // The header starts with the MD5 of the text
+    const md5 = new Md5();
+    md5.update(body);
+    const stored = Array.from(data.subarray(0, 16), b => b.toString(16).padStart(2, '0')).join('');
+    if (md5.digest() !== stored) tree.diagnostics.unshift(diagnostic('LTREE_CHECKSUM', 'ltree data MD5 mismatch', location));
+  }
+  if (body.length < size) {
+    tree.diagnostics.unshift(diagnostic('LTREE_TRUNCATED', `ltree data is truncated (${body.length} of ${size} bytes)`, location));
+  }
+  return tree;
+}
+
+/**
+ * Parse an EWF2 `single_files_data` section; `location` is where the section starts
+ */
+export function parseSingleFilesSection(data: Uint8Array, location: DiagnosticLocation = {}): LogicalFileTree {
+  return parseSingleFilesData(data, location);
+}
@@ -0,0 +1,138 @@
+import assert from 'node:assert/strict';
+import { createCipheriv, createHash, pbkdf2Sync } from 'node:crypto';
+import { test } from 'node:test';
+import { BlobReader } from './byte-reader';
+import { readLuks, unlockLuks } from './luks';
+
+const SECTOR = 512;
+const PAYLOAD_SECTORS = 1024;
+const STRIPES = 4000;
+
+const pattern = (length: number, seed: number) => Buffer.from(new Uint8Array(length).map((_, i) => (i * 151 + seed * 7 + (i >> 8)) & 0xff));
+const unit = (n: number) => {
+  const iv = Buffer.alloc(16);
+  iv.writeUInt32LE(n);
+  return iv;
+};
+
+function encrypt(cipher: string, key: Buffer, data: Buffer): Buffer {
+  const out = Buffer.alloc(data.length);
+  for (let n = 0; n * SECTOR < data.length; n++) {
+    const sector = data.subarray(n * SECTOR, (n + 1) * SECTOR);
+    let c;
+    if (cipher === 'xts-plain64') {
+      c = createCipheriv(`aes-${key.length * 4}-xts`, key, unit(n));
+    } else {
+      const essiv = createCipheriv('aes-256-ecb', createHash('sha256').update(key).digest(), null).setAutoPadding(false).update(unit(n));
+      c = createCipheriv(`aes-${key.length * 8}-cbc`, key, essiv).setAutoPadding(false);
+    }
+    Buffer.concat([c.update(sector), c.final()]).copy(out, n * SECTOR);
+  }
+  return out;
+}
+
+/**
+ * Anti-forensic split with LUKS's hash diffusion, using fixed stripes
+ */
+function afSplit(key: Buffer, hash: string): Buffer {
+  const size = key.length;
+  const digestSize = createHash(hash).digest().length;
+  const diffuse = (data: Buffer) => {
+    const out = Buffer.alloc(size);
+    for (let i = 0; i * digestSize < size; i++) {
+      const index = Buffer.alloc(4);
+      index.writeUInt32BE(i);
+      createHash(hash).update(index).update(data.subarray(i * digestSize, (i + 1) * digestSize)).digest().copy(out, i * digestSize);
+    }
+    return out;
+  };
+  const out = Buffer.alloc(size * STRIPES);
+  let d = Buffer.alloc(size);
+  for (let i = 0; i < STRIPES - 1; i++) {
+    const stripe = pattern(size, i);
+    stripe.copy(out, i * size);
+    for (let j = 0; j < size; j++) d[j] ^= stripe[j];
+    d = diffuse(d);
+  }
+  for (let j = 0; j < size; j++) out[(STRIPES - 1) * size + j] = d[j] ^ key[j];
+  return out;
+}
+
+/**
+ * A LUKS1 volume with the passphrase in keyslot 1
+ */
+function luks1(mode: string, hash: string, keySize: number, passphrase: Buffer, data: Buffer): Uint8Array {
+  const masterKey = pattern(keySize, 99);
+  const header = Buffer.alloc(592);
+  header.write('LUKS\xba\xbe', 0, 'latin1');
+  header.writeUInt16BE(1, 6);
+  header.write('aes', 8);
+  header.write(mode, 40);
+  header.write(hash, 72);
+  header.writeUInt32BE(PAYLOAD_SECTORS, 104);
+  header.writeUInt32BE(keySize, 108);
+  const digestSalt = pattern(32, 1);
+  pbkdf2Sync(masterKey, digestSalt, 1000, 20, hash).copy(header, 112);
+  digestSalt.copy(header, 132);
+  header.writeUInt32BE(1000, 164);
+  header.write('0a1b2c3d-0000-4000-8000-123456789abc', 168);
+  for (let i = 0; i < 8; i++) header.writeUInt32BE(0x0000dead, 208 + i * 48);
+
+  const slot = 208 + 48;
+  const salt = pattern(32, 2);
+  header.writeUInt32BE(0x00ac71f3, slot);
+  header.writeUInt32BE(1000, slot + 4);
+  salt.copy(header, slot + 8);
+  header.writeUInt32BE(8, slot + 40);
+  header.writeUInt32BE(STRIPES, slot + 44);
+
+  const volume = Buffer.alloc(PAYLOAD_SECTORS * SECTOR + data.length);
+  header.copy(volume, 0);
+  const material = afSplit(masterKey, hash);
+  encrypt(mode, pbkdf2Sync(passphrase, salt, 1000, keySize, hash), material).copy(volume, 8 * SECTOR);
+  encrypt(mode, masterKey, data).copy(volume, PAYLOAD_SECTORS * SECTOR);
+  return new Uint8Array(volume);
+}
+
+async function open(volume: Uint8Array) {
+  const reader = new BlobReader(new Blob([volume as Uint8Array<ArrayBuffer>]));
+  const { metadata, diagnostics } = await readLuks(reader);
+  assert.ok(metadata, diagnostics.map(d => d.message).join('; '));
+  return { reader, metadata };
+}
+
+test('LUKS1 headers are described', async () => {
+  const { metadata } = await open(luks1('xts-plain64', 'sha256', 64, Buffer.from('secret'), pattern(4096, 3)));
+  assert.equal(metadata.info.version, 1);
+  assert.equal(metadata.info.cipher, 'aes-xts-plain64');
+  assert.equal(metadata.info.keySize, 512);
+  assert.equal(metadata.info.uuid, '0a1b2c3d-0000-4000-8000-123456789abc');
+  assert.equal(metadata.info.dataOffset, PAYLOAD_SECTORS * SECTOR);
+  assert.deepEqual(metadata.info.keyslots.map(slot => slot.index), [1]);
+});
+
+test('LUKS1 AES-XTS volumes decrypt with the passphrase', async () => {
+  const data = pattern(8192, 4);
+  const { reader, metadata } = await open(luks1('xts-plain64', 'sha256', 64, Buffer.from('correct horse'), data));
+  const unlocked = await unlockLuks(reader, metadata, { type: 'password', value: 'correct horse' });
+  assert.ok(unlocked.reader);
+  assert.deepEqual(await unlocked.reader.read(0, data.length), new Uint8Array(data));
+  assert.deepEqual(await unlocked.reader.read(1000, 100), new Uint8Array(data.subarray(1000, 1100)));
+  assert.equal(unlocked.volumeOffset(0), PAYLOAD_SECTORS * SECTOR);
+});
+
+test('LUKS1 AES-CBC-ESSIV volumes decrypt with a key file', async () => {
+  const keyFile = pattern(100, 5);
+  const data = pattern(4096, 6);
+  const { reader, metadata } = await open(luks1('cbc-essiv:sha256', 'sha1', 32, keyFile, data));
+  const unlocked = await unlockLuks(reader, metadata, { type: 'key-file', data: new Uint8Array(keyFile) });
+  assert.ok(unlocked.reader);
+  assert.deepEqual(await unlocked.reader.read(0, data.length), new Uint8Array(data));
+});
+
+test('LUKS1 volumes stay locked with the wrong passphrase', async () => {
+  const { reader, metadata } = await open(luks1('xts-plain64', 'sha256', 64, Buffer.from('correct horse'), pattern(4096, 7)));
+  const unlocked = await unlockLuks(reader, metadata, { type: 'password', value: 'wrong' });
+  assert.equal(unlocked.reader, null);
+  assert.deepEqual(unlocked.diagnostics.map(d => d.code), ['VOLUME_KEY_REJECTED']);
+});
@@ -0,0 +1,394 @@
+/**
+ * LUKS (Linux Unified Key Setup) volumes
+ *
+ * Both versions start with "LUKS\xba\xbe" and a big-endian version number.
+ * - LUKS1: a 592-byte binary header with the cipher and mode, the hash,
+ *   where the data starts (payload offset, 512-byte sectors), the master
+ *   key size and a PBKDF2 digest of the master key, then eight keyslots,
+ *   each with a PBKDF2 salt and iteration count and where its key material
+ *   is
+ * - LUKS2: a 4 KiB binary header followed by JSON describing keyslots
+ *   (KDF PBKDF2, Argon2i or Argon2id, and their own area encryption),
+ *   segments (where the data is, its encryption and sector size) and
+ *   digests of the master key
+ *
+ * A keyslot's key material is the master key split into anti-forensic
+ * stripes (diffused with the hash between stripes) and encrypted with the
+ * key derived from the passphrase. Data is encrypted per sector with the
+ * sector number as IV.
+ */
+
+import { Aes, cbcDecrypt, xtsDecrypt } from './aes';
+import { argon2 } from './argon2';
+import { ByteReader, DecryptingReader, SliceReader } from './byte-reader';
+import { Diagnostic, diagnostic } from './diagnostics';
+import type { UnlockedVolume, VolumeKey } from './encrypted-volume';
+import { sha256 } from './hashes';
+
+export interface LuksKeyslot {
+  index: number;
+  kdf: 'pbkdf2' | 'argon2i' | 'argon2id' | string;
+  /** PBKDF2 hash */
+  hash?: string;
+  /** PBKDF2 iterations or Argon2 passes */
+  iterations: number;
+  /** Argon2 memory in KiB and threads */
+  memory?: number;
+  parallelism?: number;
+  stripes: number;
+}
+
+export interface LuksInfo {
+  scheme: 'LUKS';
+  version: 1 | 2;
+  uuid: string;
+  label?: string;
+  /** e.g. "aes-xts-plain64" */
+  cipher: string;
+  /** Master key bits */
+  keySize: number;
+  /** Hash of the master key digest */
+  hash: string;
+  /** Byte offset and length of the encrypted data */
+  dataOffset: number;
+  dataSize: number;
+  sectorSize: number;
+  /** The active keyslots */
+  keyslots: LuksKeyslot[];
+}
+
+interface SlotParameters {
+  slot: LuksKeyslot;
+  salt: Uint8Array;
+  /** Bytes of derived key, and the cipher that encrypts the key material with it */
+  keyBytes: number;
+  areaCipher: string;
+  areaOffset: number;
+  afHash: string;
+}
+
+/** What unlocking needs beyond the description */
+export interface LuksMetadata {
+  info: LuksInfo;
+  slots: SlotParameters[];
+  digest: { hash: string; iterations: number; salt: Uint8Array; value: Uint8Array };
+  /** Added to data sector numbers to make their IVs */
+  ivTweak: number;
+}
+
+export interface LuksResult {
+  metadata: LuksMetadata | null;
+  diagnostics: Diagnostic[];
+}
+
+const MAGIC = 'LUKS\xba\xbe';
+const LUKS1_KEYSLOTS = 8;
+const LUKS1_KEYSLOT_ACTIVE = 0x00ac71f3;
+const LUKS2_BINARY_HEADER = 4096;
+// The JSON area is at most 4 MiB less the binary header
+const LUKS2_MAX_HEADER = 4 * 1024 * 1024;
+const SECTOR = 512;
+
+const WEBCRYPTO_HASHES: Record<string, string> = {
+  sha1: 'SHA-1',
+  sha256: 'SHA-256',
+  sha384: 'SHA-384',
+  sha512: 'SHA-512',
+};
+
+function cString(data: Uint8Array, offset: number, length: number): string {
+  return new TextDecoder().decode(data.subarray(offset, offset + length)).replace(/\0[\s\S]*$/, '');
+}
+
+function base64(text: unknown): Uint8Array {
+  if (typeof text !== 'string') return new Uint8Array(0);
+  try {
+    return Uint8Array.from(atob(text), c => c.charCodeAt(0));
+  } catch {
+    return new Uint8Array(0);
+  }
+}
+
+function readLuks1(header: Uint8Array, size: number): LuksMetadata | null {
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  const hash = cString(header, 72, 32);
+  const keyBytes = view.getUint32(108, false);
+  const cipher = `${cString(header, 8, 32)}-${cString(header, 40, 32)}`;
+  const dataOffset = view.getUint32(104, false) * SECTOR;
+  if (keyBytes === 0 || keyBytes > 64) return null;
+
+  const slots: SlotParameters[] = [];
+  for (let index = 0; index < LUKS1_KEYSLOTS; index++) {
+    const at = 208 + index * 48;
+    if (view.getUint32(at, false) !== LUKS1_KEYSLOT_ACTIVE) continue;
+    slots.push({
+      slot: { index, kdf: 'pbkdf2', hash, iterations: view.getUint32(at + 4, false), stripes: view.getUint32(at + 44, false) },
+      salt: header.slice(at + 8, at + 40),
+      keyBytes,
+      areaCipher: cipher,
+      areaOffset: view.getUint32(at + 40, false) * SECTOR,
+      afHash: hash,
+    });
+  }
+  return {
+    info: {
+      scheme: 'LUKS',
+      version: 1,
+      uuid: cString(header, 168, 40),
+      cipher,
+      keySize: keyBytes * 8,
+      hash,
+      dataOffset,
+      dataSize: Math.max(0, size - dataOffset),
+      sectorSize: SECTOR,
+      keyslots: slots.map(s => s.slot),
+    },
+    slots,
+    digest: { hash, iterations: view.getUint32(164, false), salt: header.slice(132, 164), value: header.slice(112, 132) },
+    ivTweak: 0,
+  };
+}
+
+type Json = Record<string, unknown>;
+
+function object(value: unknown): Json {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Json) : {};
+}
+
+function integer(value: unknown): number {
+  const number = typeof value === 'string' ? Number(value) : typeof value === 'number' ? value : NaN;
+  return Number.isFinite(number) ? number : 0;
+}
+
+function readLuks2(header: Uint8Array, json: Json, size: number): LuksMetadata | null {
+  // The first crypt segment, and the digest over it
+  const segmentEntry = Object.entries(object(json.segments)).find(([, s]) => object(s).type === 'crypt');
+  if (!segmentEntry) return null;
+  const [segmentId, segmentValue] = segmentEntry;
+  const segment = object(segmentValue);
+  const digestValue = Object.values(object(json.digests)).map(object).find(d => Array.isArray(d.segments) && d.segments.includes(segmentId));
+  if (!digestValue) return null;
+  const digestSlots = Array.isArray(digestValue.keyslots) ? digestValue.keyslots.map(String) : [];
+
+  const slots: SlotParameters[] = [];
+  let keySize = 0;
+  for (const [id, value] of Object.entries(object(json.keyslots))) {
+    const keyslot = object(value);
+    if (!digestSlots.includes(id)) continue;
+    const kdf = object(keyslot.kdf);
+    const af = object(keyslot.af);
+    const area = object(keyslot.area);
+    const kdfType = String(kdf.type ?? '');
+    keySize = integer(keyslot.key_size) * 8;
+    slots.push({
+      slot: {
+        index: integer(id),
+        kdf: kdfType,
+        ...(kdfType === 'pbkdf2' ? { hash: String(kdf.hash) } : { memory: integer(kdf.memory), parallelism: integer(kdf.cpus) }),
+        iterations: integer(kdfType === 'pbkdf2' ? kdf.iterations : kdf.time),
+        stripes: integer(af.stripes),
+      },
+      salt: base64(kdf.salt),
+      keyBytes: integer(area.key_size),
+      areaCipher: String(area.encryption ?? ''),
+      areaOffset: integer(area.offset),
+      afHash: String(af.hash ?? ''),
+    });
+  }
+
+  const dataOffset = integer(segment.offset);
+  const dataSize = segment.size === 'dynamic' ? Math.max(0, size - dataOffset) : integer(segment.size);
+  const label = cString(header, 24, 48);
+  return {
+    info: {
+      scheme: 'LUKS',
+      version: 2,
+      uuid: cString(header, 168, 40),
+      ...(label && { label }),
+      cipher: String(segment.encryption ?? ''),
+      keySize,
+      hash: String(digestValue.hash ?? ''),
+      dataOffset,
+      dataSize,
+      sectorSize: integer(segment.sector_size) || SECTOR,
+      keyslots: slots.map(s => s.slot).sort((a, b) => a.index - b.index),
+    },
+    slots: slots.sort((a, b) => a.slot.index - b.slot.index),
+    digest: { hash: String(digestValue.hash ?? ''), iterations: integer(digestValue.iterations), salt: base64(digestValue.salt), value: base64(digestValue.digest) },
+    ivTweak: integer(segment.iv_tweak),
+  };
+}
+
+/**
+ * Read the LUKS header; metadata is null when the volume is not LUKS
+ */
+export async function readLuks(reader: ByteReader): Promise<LuksResult> {
+  const header = await reader.read(0, LUKS2_BINARY_HEADER);
+  if (header.length < 592 || String.fromCharCode(...header.subarray(0, 6)) !== MAGIC) {
+    return { metadata: null, diagnostics: [] };
+  }
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  const version = view.getUint16(6, false);
+
+  if (version === 1) {
+    const metadata = readLuks1(header, reader.size);
+    return metadata
+      ? { metadata, diagnostics: [] }
+      : { metadata: null, diagnostics: [diagnostic('VOLUME_ENCRYPTION_INVALID', 'LUKS1: the header has no valid master key size', { offset: 108 })] };
+  }
+  if (version === 2) {
+    const headerSize = Number(view.getBigUint64(8, false));
+    if (headerSize <= LUKS2_BINARY_HEADER || headerSize > LUKS2_MAX_HEADER) {
+      return { metadata: null, diagnostics: [diagnostic('VOLUME_ENCRYPTION_INVALID', `LUKS2: header size ${headerSize} is out of range`, { offset: 8 })] };
+    }
+    const area = await reader.read(LUKS2_BINARY_HEADER, headerSize - LUKS2_BINARY_HEADER);
+    let json: Json;
+    try {
+      json = object(JSON.parse(new TextDecoder().decode(area).replace(/\0[\s\S]*$/, '')));
+    } catch {
+      return { metadata: null, diagnostics: [diagnostic('VOLUME_ENCRYPTION_INVALID', 'LUKS2: the JSON metadata cannot be parsed', { offset: LUKS2_BINARY_HEADER })] };
+    }
+    const metadata = readLuks2(header, json, reader.size);
+    return metadata
+      ? { metadata, diagnostics: [] }
+      : { metadata: null, diagnostics: [diagnostic('VOLUME_ENCRYPTION_INVALID', 'LUKS2: the metadata has no encrypted segment with a key digest', { offset: LUKS2_BINARY_HEADER })] };
+  }
+  return { metadata: null, diagnostics: [diagnostic('VOLUME_ENCRYPTION_UNSUPPORTED', `LUKS version ${version} is not supported`, { offset: 6 })] };
+}
+
+/**
+ * Decrypt one sector in place given its IV sector number, for a dm-crypt
+ * cipher specification; null for ciphers this app cannot decrypt
+ */
+function sectorDecryptor(cipher: string, key: Uint8Array): ((sector: Uint8Array, number: number) => void) | null {
+  const iv = (number: number, plain: boolean) => {
+    const block = new Uint8Array(16);
+    const view = new DataView(block.buffer);
+    // "plain" IVs keep only the low 32 bits of the sector number
+    view.setUint32(0, number >>> 0, true);
+    if (!plain) view.setUint32(4, Math.floor(number / 0x100000000), true);
+    return block;
+  };
+  switch (cipher) {
+    case 'aes-xts-plain':
+    case 'aes-xts-plain64': {
+      if (![32, 48, 64].includes(key.length)) return null;
+      const data = new Aes(key.subarray(0, key.length / 2));
+      const tweak = new Aes(key.subarray(key.length / 2));
+      const plain = cipher === 'aes-xts-plain';
+      return (sector, number) => xtsDecrypt(data, tweak.encrypt(iv(number, plain)), sector);
+    }
+    case 'aes-cbc-plain':
+    case 'aes-cbc-plain64': {
+      if (![16, 24, 32].includes(key.length)) return null;
+      const aes = new Aes(key);
+      const plain = cipher === 'aes-cbc-plain';
+      return (sector, number) => cbcDecrypt(aes, iv(number, plain), sector);
+    }
+    case 'aes-cbc-essiv:sha256': {
+      if (![16, 24, 32].includes(key.length)) return null;
+      const aes = new Aes(key);
+      // The IV is the sector number encrypted under the hash of the key
+      const essiv = new Aes(sha256(key));
+      return (sector, number) => cbcDecrypt(aes, essiv.encrypt(iv(number, false)), sector);
+    }
+  }
+  return null;
+}
+
+async function pbkdf2(hash: string, password: Uint8Array, salt: Uint8Array, iterations: number, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', password as Uint8Array<ArrayBuffer>, 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: WEBCRYPTO_HASHES[hash], salt: salt as Uint8Array<ArrayBuffer>, iterations }, key, length * 8);
+  return new Uint8Array(bits);
+}
+
+/**
+ * Undo the anti-forensic split: XOR each stripe in, diffusing with the hash
+ * between stripes
+ */
+async function mergeStripes(material: Uint8Array, keyBytes: number, stripes: number, hash: string): Promise<Uint8Array> {
+  const digestSize = { sha1: 20, sha256: 32, sha384: 48, sha512: 64 }[hash] ?? 32;
+  let merged = new Uint8Array(keyBytes);
+  for (let stripe = 0; stripe < stripes; stripe++) {
+    for (let i = 0; i < keyBytes; i++) merged[i] ^= material[stripe * keyBytes + i];
+    if (stripe === stripes - 1) break;
+    // Diffuse: each digest-sized piece becomes H(piece number, piece)
+    const diffused = new Uint8Array(keyBytes);
+    for (let piece = 0; piece * digestSize < keyBytes; piece++) {
+      const chunk = merged.subarray(piece * digestSize, Math.min(keyBytes, (piece + 1) * digestSize));
+      const input = new Uint8Array(4 + chunk.length);
+      new DataView(input.buffer).setUint32(0, piece, false);
+      input.set(chunk, 4);
+      const digest = new Uint8Array(await crypto.subtle.digest(WEBCRYPTO_HASHES[hash], input));
+      diffused.set(digest.subarray(0, chunk.length), piece * digestSize);
+    }
+    merged = diffused;
+  }
+  return merged;
+}
+
+/**
+ * The master key from the first keyslot the passphrase opens
+ */
+async function unlockMasterKey(reader: ByteReader, metadata: LuksMetadata, passphrase: Uint8Array): Promise<{ key: Uint8Array; slot: LuksKeyslot } | null> {
+  const keyBytes = metadata.info.keySize / 8;
+  for (const slot of metadata.slots) {
+    const { kdf, hash, iterations, memory, parallelism, stripes } = slot.slot;
+    let derived: Uint8Array;
+    if (kdf === 'pbkdf2' && hash && WEBCRYPTO_HASHES[hash]) {
+      derived = await pbkdf2(hash, passphrase, slot.salt, iterations, slot.keyBytes);
+    } else if ((kdf === 'argon2i' || kdf === 'argon2id') && memory && parallelism) {
+      derived = argon2(passphrase, slot.salt, { type: kdf, iterations, memory, parallelism, length: slot.keyBytes });
+    } else {
+      continue;
+    }
+    const decrypt = sectorDecryptor(slot.areaCipher, derived);
+    if (!decrypt || !WEBCRYPTO_HASHES[slot.afHash]) continue;
+
+    const length = Math.ceil((keyBytes * stripes) / SECTOR) * SECTOR;
+    const material = new Uint8Array(length);
+    material.set(await reader.read(slot.areaOffset, length));
+    for (let sector = 0; sector * SECTOR < length; sector++) decrypt(material.subarray(sector * SECTOR, (sector + 1) * SECTOR), sector);
+    const key = await mergeStripes(material, keyBytes, stripes, slot.afHash);
+
+    const { digest } = metadata;
+    const check = await pbkdf2(digest.hash, key, digest.salt, digest.iterations, digest.value.length);
+    if (check.every((b, i) => b === digest.value[i])) return { key, slot: slot.slot };
+  }
+  return null;
+}
+
+/**
+ * Open the volume with a passphrase or key file
+ */
+export async function unlockLuks(reader: ByteReader, metadata: LuksMetadata, key?: VolumeKey): Promise<UnlockedVolume> {
+  const { info } = metadata;
+  const locked = (problem: Diagnostic): UnlockedVolume => ({ reader: null, volumeOffset: offset => offset + info.dataOffset, diagnostics: [problem] });
+  if (!key) {
+    return locked(diagnostic('VOLUME_ENCRYPTED', `LUKS${info.version} volume: its contents are encrypted and need a passphrase or key file (${info.keyslots.length} active keyslots)`, { offset: 0 }));
+  }
+  if (key.type === 'recovery-password') {
+    return locked(diagnostic('VOLUME_KEY_REJECTED', 'LUKS volumes are unlocked with a passphrase or key file, not a recovery password', { offset: 0 }));
+  }
+  const usable = metadata.slots.some(s => s.slot.kdf === 'pbkdf2' ? WEBCRYPTO_HASHES[s.slot.hash ?? ''] : s.slot.kdf === 'argon2i' || s.slot.kdf === 'argon2id');
+  if (!sectorDecryptor(info.cipher, new Uint8Array(info.keySize / 8)) || !usable || !WEBCRYPTO_HASHES[metadata.digest.hash]) {
+    return locked(diagnostic('VOLUME_ENCRYPTION_UNSUPPORTED', `LUKS${info.version}: ${info.cipher} with ${info.keySize}-bit keys and these key derivations cannot be decrypted`, { offset: 0 }));
+  }
+
+  // cryptsetup takes a key file's bytes as the passphrase
+  const passphrase = key.type === 'key-file' ? key.data : new TextEncoder().encode(key.value);
+  const master = await unlockMasterKey(reader, metadata, passphrase);
+  if (!master) {
+    const what = key.type === 'key-file' ? 'The key file' : 'The passphrase';
+    return locked(diagnostic('VOLUME_KEY_REJECTED', `LUKS${info.version}: ${what} does not open any keyslot of this volume`, { offset: 0 }));
+  }
+
+  const decrypt = sectorDecryptor(info.cipher, master.key)!;
+  const sectorSize = info.sectorSize;
+  const data = new SliceReader(reader, info.dataOffset, info.dataSize);
+  return {
+    reader: new DecryptingReader(data, data.size, sectorSize, (sector, offset) => decrypt(sector, metadata.ivTweak + offset / sectorSize)),
+    volumeOffset: offset => offset + info.dataOffset,
+    diagnostics: [diagnostic('VOLUME_DECRYPTED', `LUKS${info.version} volume unlocked with keyslot ${master.slot.index}; ${info.cipher}, ${info.keySize}-bit key`, { offset: 0 }, { keyslot: master.slot.index })],
+  };
+}
@@ -0,0 +1,230 @@
+/**
+ * LVM2 physical volumes and volume group metadata
+ *
+ * A physical volume (PV) has a label in one of its first four sectors:
+ * "LABELONE", then at `offset` a PV header with the PV's UUID, its data
+ * areas and its metadata areas. Each metadata area starts with a header
+ * (magic " LVM2 x[5A%r0N*>") whose first raw location points at the
+ * current metadata, kept as text in a ring buffer after the header.
+ *
+ * The metadata is LVM's config format: `name = value` and `name { ... }`,
+ * with strings, numbers and [lists]. The volume group section lists the
+ * PVs by UUID with where their extents start (pe_start) and each logical
+ * volume (LV) as segments of extents, each on one or more PVs (striped).
+ * Sizes are in 512-byte sectors.
+ */
+
+import type { ByteReader } from './byte-reader';
+
+export type LvmValue = string | number | LvmValue[] | LvmSection;
+export interface LvmSection {
+  [key: string]: LvmValue;
+}
+
+export interface LvmLabel {
+  /** As written in metadata: 6-4-4-4-4-4-6 characters */
+  pvUuid: string;
+  deviceSize: number;
+  /** Byte offsets of the metadata areas within the PV */
+  metadataAreas: number[];
+}
+
+export interface LvmStripe {
+  /** Name of the PV within the volume group (pv0 …) */
+  pv: string;
+  startExtent: number;
+}
+
+export interface LvmSegment {
+  startExtent: number;
+  extentCount: number;
+  type: string;
+  /** Bytes per stripe chunk; 0 for a linear segment */
+  stripeSize: number;
+  stripes: LvmStripe[];
+}
+
+export interface LvmLogicalVolume {
+  name: string;
+  visible: boolean;
+  segments: LvmSegment[];
+}
+
+export interface LvmPhysicalVolume {
+  name: string;
+  uuid: string;
+  /** Byte offset of the first extent within the PV */
+  peStart: number;
+}
+
+export interface LvmVolumeGroup {
+  name: string;
+  uuid: string;
+  seqno: number;
+  /** Bytes per extent */
+  extentSize: number;
+  physicalVolumes: LvmPhysicalVolume[];
+  logicalVolumes: LvmLogicalVolume[];
+}
+
+const SECTOR = 512;
+const LABEL_SCAN_SECTORS = 4;
+const MDA_MAGIC = ' LVM2 x[5A%r0N*>';
+const MDA_HEADER_SIZE = 512;
+// Metadata beyond this is certainly damage, not a volume group
+const MAX_METADATA_SIZE = 16 * 1024 * 1024;
+
+function ascii(data: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + length));
+}
+
+function formatPvUuid(raw: string): string {
+  return [raw.slice(0, 6), raw.slice(6, 10), raw.slice(10, 14), raw.slice(14, 18), raw.slice(18, 22), raw.slice(22, 26), raw.slice(26)].join('-');
+}
+
+/**
+ * The PV label in the first sectors of a device, or null
+ */
+export async function readLvmLabel(reader: ByteReader): Promise<LvmLabel | null> {
+  const head = await reader.read(0, LABEL_SCAN_SECTORS * SECTOR);
+  for (let sector = 0; sector < LABEL_SCAN_SECTORS; sector++) {
+    const label = sector * SECTOR;
+    if (head.length < label + SECTOR || ascii(head, label, 8) !== 'LABELONE' || ascii(head, label + 24, 8) !== 'LVM2 001') continue;
+    const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+    let pos = label + view.getUint32(label + 20, true);
+    if (pos + 40 > head.length) return null;
+
+    const pvUuid = formatPvUuid(ascii(head, pos, 32));
+    const deviceSize = Number(view.getBigUint64(pos + 32, true));
+    pos += 40;
+    // Data areas, then metadata areas, each list ending in a zero entry
+    const lists: number[][] = [[], []];
+    for (const list of lists) {
+      while (pos + 16 <= label + SECTOR) {
+        const offset = Number(view.getBigUint64(pos, true));
+        pos += 16;
+        if (offset === 0) break;
+        list.push(offset);
+      }
+    }
+    return { pvUuid, deviceSize, metadataAreas: lists[1] };
+  }
+  return null;
+}
+
+/**
+ * The current metadata text of the metadata area at `offset`, or null
+ */
+export async function readLvmMetadata(reader: ByteReader, offset: number): Promise<string | null> {
+  const header = await reader.read(offset, MDA_HEADER_SIZE);
+  if (header.length < MDA_HEADER_SIZE || ascii(header, 4, 16) !== MDA_MAGIC) return null;
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  const start = Number(view.getBigUint64(24, true));
+  const size = Number(view.getBigUint64(32, true));
+  const textOffset = Number(view.getBigUint64(40, true));
+  const textSize = Number(view.getBigUint64(48, true));
+  if (textOffset === 0 || textSize === 0 || textSize > MAX_METADATA_SIZE || textOffset >= size) return null;
+
+  // The text may wrap around to just after the header
+  const first = Math.min(textSize, size - textOffset);
+  const text = new Uint8Array(textSize);
+  text.set(await reader.read(start + textOffset, first));
+  if (first < textSize) text.set(await reader.read(start + MDA_HEADER_SIZE, textSize - first), first);
+  return new TextDecoder().decode(text).replace(/\0[\s\S]*$/, '');
+}
+
+/**
+ * Parse LVM's config text into nested sections
+ */
+export function parseLvmConfig(text: string): LvmSection {
+  const tokens = text.match(/"(?:[^"\\]|\\.)*"|#[^\n]*|[{}[\],=]|[^\s{}[\],="#]+/g) ?? [];
+  let pos = 0;
+  const next = () => {
+    while (pos < tokens.length && tokens[pos].startsWith('#')) pos++;
+    return tokens[pos++];
+  };
+  const peek = () => {
+    while (pos < tokens.length && tokens[pos].startsWith('#')) pos++;
+    return tokens[pos];
+  };
+
+  const value = (): LvmValue => {
+    const token = next();
+    if (token === '[') {
+      const list: LvmValue[] = [];
+      while (peek() !== undefined && peek() !== ']') {
+        list.push(value());
+        if (peek() === ',') next();
+      }
+      next();
+      return list;
+    }
+    if (token?.startsWith('"')) return token.slice(1, -1).replace(/\\(.)/g, '$1');
+    const number = Number(token);
+    return Number.isNaN(number) ? token ?? '' : number;
+  };
+
+  const section = (): LvmSection => {
+    const result: LvmSection = {};
+    for (let key = next(); key !== undefined && key !== '}'; key = next()) {
+      const operator = next();
+      if (operator === '{') result[key] = section();
+      else if (operator === '=') result[key] = value();
+    }
+    return result;
+  };
+  return section();
+}
+
+function num(value: LvmValue | undefined): number {
+  return typeof value === 'number' ? value : 0;
+}
+
+function str(value: LvmValue | undefined): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function sections(value: LvmValue | undefined): [string, LvmSection][] {
+  return value && typeof value === 'object' && !Array.isArray(value) ? Object.entries(value).filter((e): e is [string, LvmSection] => typeof e[1] === 'object' && !Array.isArray(e[1])) : [];
+}
+
+/**
+ * The volume group described by a metadata text, or null
+ */
+export function parseVolumeGroup(text: string): LvmVolumeGroup | null {
+  const config = parseLvmConfig(text);
+  const entry = sections(config).find(([, vg]) => vg.physical_volumes !== undefined);
+  if (!entry) return null;
+  const [name, vg] = entry;
+  const extentSize = num(vg.extent_size) * SECTOR;
+
+  return {
+    name,
+    uuid: str(vg.id),
+    seqno: num(vg.seqno),
+    extentSize,
+    physicalVolumes: sections(vg.physical_volumes).map(([pvName, pv]) => ({
+      name: pvName,
+      uuid: str(pv.id),
+      peStart: num(pv.pe_start) * SECTOR,
+    })),
+    logicalVolumes: sections(vg.logical_volumes).map(([lvName, lv]) => ({
+      name: lvName,
+      visible: Array.isArray(lv.status) && lv.status.includes('VISIBLE'),
+      segments: sections(lv)
+        .filter(([key]) => /^segment\d+$/.test(key))
+        .map(([, segment]) => {
+          const list = Array.isArray(segment.stripes) ? segment.stripes : [];
+          const stripes: LvmStripe[] = [];
+          for (let i = 0; i + 1 < list.length; i += 2) stripes.push({ pv: str(list[i]), startExtent: num(list[i + 1]) });
+          return {
+            startExtent: num(segment.start_extent),
+            extentCount: num(segment.extent_count),
+            type: str(segment.type),
+            stripeSize: stripes.length > 1 ? num(segment.stripe_size) * SECTOR : 0,
+            stripes,
+          };
+        }),
+    })),
+  };
+}
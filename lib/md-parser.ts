@@ -0,0 +1,136 @@
+/**
+ * Linux md (software RAID) superblocks
+ *
+ * Every member device of an md array carries a superblock naming the array
+ * (by UUID), its RAID level, the number of members and this member's slot.
+ * The magic 0xa92b4efc is stored little-endian on x86.
+ * - 0.90: 4 KiB at the last 64 KiB-aligned block of the device, less
+ *   64 KiB; member data starts at 0
+ * - 1.0: at the end of the device, 8 KiB from the end rounded down to 4 KiB
+ * - 1.1: at the start of the device
+ * - 1.2: 4 KiB into the device
+ * Version 1 superblocks give the member data offset and size in sectors
+ * and a slot table (dev_roles) indexed by this member's device number.
+ */
+
+import type { ByteReader } from './byte-reader';
+
+export interface MdMember {
+  version: '0.90' | '1.0' | '1.1' | '1.2';
+  arrayUuid: string;
+  /** Array name (version 1 only), without the host part */
+  name?: string;
+  /** -1 linear, 0, 1, 4, 5, 6 or 10 */
+  level: number;
+  raidDisks: number;
+  /** Stripe chunk size in bytes */
+  chunkSize: number;
+  /** Slot in the array; null for spares and failed members */
+  role: number | null;
+  /** Where the member's share of the array starts, and its length, in bytes */
+  dataOffset: number;
+  dataSize: number;
+  /** Byte offset of the superblock within the member */
+  superblockOffset: number;
+  checksumValid: boolean;
+}
+
+const MD_MAGIC = 0xa92b4efc;
+const MD_RESERVED = 64 * 1024;
+const SB1_ROLES = 256;
+const SB1_MAX_DEVICES = 384;
+const ROLE_SPARE = 0xffff;
+const ROLE_FAULTY = 0xfffe;
+
+// 0.90 disk state bits
+const DISK_FAULTY = 1 << 0;
+const DISK_ACTIVE = 1 << 1;
+
+function hex(data: Uint8Array): string {
+  return Array.from(data, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function formatUuid(data: Uint8Array): string {
+  const h = hex(data);
+  return `${h.slice(0, 8)}:${h.slice(8, 16)}:${h.slice(16, 24)}:${h.slice(24, 32)}`;
+}
+
+/**
+ * md's checksum: 32-bit words summed into 64 bits, then the halves added
+ */
+function mdChecksum(data: Uint8Array, length: number, checksumOffset: number): number {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let sum = 0n;
+  for (let i = 0; i + 4 <= length; i += 4) {
+    if (i !== checksumOffset) sum += BigInt(view.getUint32(i, true));
+  }
+  if (length % 4 === 2) sum += BigInt(view.getUint16(length - 2, true));
+  return Number(((sum & 0xffffffffn) + (sum >> 32n)) & 0xffffffffn);
+}
+
+function parseSuperblock090(data: Uint8Array, offset: number): MdMember {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const uuid = new Uint8Array(16);
+  uuid.set(data.subarray(20, 24), 0);
+  uuid.set(data.subarray(52, 64), 4);
+  // This member's descriptor is the last of the disk table
+  const slot = view.getUint32(3968 + 12, true);
+  const state = view.getUint32(3968 + 16, true);
+  const raidDisks = view.getUint32(40, true);
+  const active = (state & DISK_ACTIVE) !== 0 && (state & DISK_FAULTY) === 0 && slot < raidDisks;
+  return {
+    version: '0.90',
+    arrayUuid: formatUuid(uuid),
+    level: view.getInt32(28, true),
+    raidDisks,
+    chunkSize: view.getUint32(260, true),
+    role: active ? slot : null,
+    dataOffset: 0,
+    dataSize: view.getUint32(32, true) * 1024,
+    superblockOffset: offset,
+    checksumValid: mdChecksum(data, 4096, 38 * 4) === view.getUint32(38 * 4, true),
+  };
+}
+
+function parseSuperblock1(data: Uint8Array, offset: number, version: MdMember['version']): MdMember {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const maxDevices = Math.min(view.getUint32(220, true), SB1_MAX_DEVICES);
+  const deviceNumber = view.getUint32(160, true);
+  const role = deviceNumber < maxDevices ? view.getUint16(SB1_ROLES + deviceNumber * 2, true) : ROLE_SPARE;
+  const name = String.fromCharCode(...data.subarray(32, 64)).replace(/\0[\s\S]*$/, '');
+  const usedSize = Number(view.getBigUint64(80, true));
+  return {
+    version,
+    arrayUuid: formatUuid(data.subarray(16, 32)),
+    name: name.slice(name.indexOf(':') + 1) || undefined,
+    level: view.getInt32(72, true),
+    raidDisks: view.getUint32(92, true),
+    chunkSize: view.getUint32(88, true) * 512,
+    role: role === ROLE_SPARE || role === ROLE_FAULTY ? null : role,
+    dataOffset: Number(view.getBigUint64(128, true)) * 512,
+    dataSize: (usedSize || Number(view.getBigUint64(136, true))) * 512,
+    superblockOffset: offset,
+    checksumValid: mdChecksum(data, SB1_ROLES + maxDevices * 2, 216) === view.getUint32(216, true),
+  };
+}
+
+/**
+ * The md superblock of a member device, or null when it has none
+ */
+export async function readMdSuperblock(reader: ByteReader): Promise<MdMember | null> {
+  const candidates: [number, MdMember['version']][] = [[4096, '1.2'], [0, '1.1']];
+  if (reader.size >= 2 * MD_RESERVED) {
+    candidates.push([Math.floor((reader.size - 8192) / 4096) * 4096, '1.0']);
+    candidates.push([Math.floor(reader.size / MD_RESERVED) * MD_RESERVED - MD_RESERVED, '0.90']);
+  }
+  for (const [offset, version] of candidates) {
+    const data = await reader.read(offset, 4096);
+    if (data.length < 1024) continue;
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    if (view.getUint32(0, true) !== MD_MAGIC) continue;
+    const major = view.getUint32(4, true);
+    if (version === '0.90' && major === 0 && data.length === 4096) return parseSuperblock090(data, offset);
+    if (version !== '0.90' && major === 1) return parseSuperblock1(data, offset, version);
+  }
+  return null;
+}
@@ -1,8 +1,40 @@
 /**
  * Partition Table Parser
- * Supports MBR (Master Boot Record) and GPT (GUID Partition Table)
+ * Supports MBR (Master Boot Record) and GPT (GUID Partition Table), and
+ * through disklabel-parser the Apple Partition Map, BSD disklabels and
+ * Sun VTOCs
+ *
+ * An MBR extended partition (0x05, 0x0f, 0x85) holds a chain of extended
+ * boot records (EBRs), one per logical partition: the first entry of each
+ * EBR locates the logical partition relative to the EBR itself, the second
+ * locates the next EBR relative to the start of the extended partition.
+ * Logical partitions are numbered from 5.
+ *
+ * A GPT has a header at LBA 1 and a backup copy at the last LBA, each with
+ * a CRC-32 of itself and of its partition entry array. The backup is used
+ * when the primary is damaged or wiped. A protective MBR that also lists
+ * data partitions is a hybrid MBR.
+ *
+ * A BSD or Solaris slice of an MBR holds a volume system of its own; its
+ * partitions are numbered on from the outer table's and given as media
+ * LBAs like every other partition.
+ *
+ * md arrays and LVM logical volumes found on the partitions, and the
+ * volumes of a dynamic disk's LDM database, are listed as virtual
+ * partitions (see volume-manager), read through a segment map.
+ *
+ * Type codes only say what a partition was created for, so each partition's
+ * filesystem is identified from its own boot sector or superblock.
  */
 
+import { ByteReader, locateInSegments, SegmentedReader, SliceReader, VolumeSegment } from './byte-reader';
+import { crc32 } from './checksums';
+import { Diagnostic, diagnostic } from './diagnostics';
+import { DisklabelResult, parseAPM, parseBSDLabel, parseVTOC } from './disklabel-parser';
+import { FilesystemType, probeFilesystem } from './filesystem-probe';
+import { readLdmDatabase } from './ldm-parser';
+import { assembleLdmVolumes, assembleVolumes } from './volume-manager';
+
 export interface Partition {
   index: number;
   type: string;
@@ -14,14 +46,53 @@ export interface Partition {
   bootable: boolean;
   name?: string;
   guid?: string;
-  filesystem?: string;
+  /** Found by signature; unset when none was recognised */
+  filesystem?: FilesystemType;
+  volumeLabel?: string;
+  /** LBA of the extended boot record that describes a logical partition */
+  ebrLBA?: number;
+  /** Set GPT attribute flags, by name */
+  attributes?: string[];
+  /** Found by scanning unallocated space rather than listed in the table */
+  recovered?: boolean;
+  /** Index of the partition whose nested volume system lists this one */
+  parent?: number;
+  /** The volume system inside this partition, e.g. a BSD disklabel in an MBR slice */
+  volumeSystem?: PartitionTable;
+  /** Set on an md array or LVM logical volume; its LBAs are then within the volume */
+  volume?: AssembledVolume;
+}
+
+export interface AssembledVolume {
+  kind: 'md' | 'lvm' | 'ldm';
+  /** e.g. "RAID1, 2 of 2 members" or "linear" */
+  layout: string;
+  /** What the volume is read from; segment targets index this list */
+  members: Partition[];
+  segments: VolumeSegment[];
+}
+
+export interface GPTStatus {
+  /** The header copy the partitions were read from */
+  header: 'primary' | 'backup';
+  primaryValid: boolean;
+  backupValid: boolean;
+  firstUsableLBA: number;
+  lastUsableLBA: number;
 }
 
 export interface PartitionTable {
-  type: 'MBR' | 'GPT' | 'Unknown';
+  type: 'MBR' | 'GPT' | 'APM' | 'BSD' | 'VTOC' | 'Unknown';
   sectorSize: number;
   partitions: Partition[];
   diskGuid?: string;
+  gpt?: GPTStatus;
+  /** Data partitions a hybrid MBR lists next to its protective entry */
+  hybridMBR?: Partition[];
+  /** md arrays and LVM logical volumes assembled from the partitions */
+  volumes?: Partition[];
+  /** Problems with this table and any nested in it */
+  diagnostics: Diagnostic[];
 }
 
 // MBR Partition Type Codes
@@ -45,15 +116,43 @@ const MBR_PARTITION_TYPES: Record<number, string> = {
   0x1e: 'Hidden FAT16 (LBA)',
   0x27: 'Windows Recovery',
   0x42: 'Windows Dynamic',
-  0x82: 'Linux Swap',
+  0x82: 'Linux Swap / Solaris',
   0x83: 'Linux',
   0x85: 'Linux Extended',
   0x8e: 'Linux LVM',
+  0xa5: 'FreeBSD',
+  0xa6: 'OpenBSD',
+  0xa9: 'NetBSD',
+  0xbf: 'Solaris',
   0xee: 'GPT Protective MBR',
   0xef: 'EFI System',
   0xfd: 'Linux RAID',
 };
 
+const GPT_HEADER_SIZE = 92;
+const GPT_ENTRY_SIZE = 128;
+// Far beyond the usual 128 entries of 128 bytes; guards against damaged headers
+const MAX_GPT_ENTRY_ARRAY = 1024 * 1024;
+
+// GPT attribute bits 0-2 apply to every partition type
+const GPT_ATTRIBUTES: [bigint, string][] = [
+  [0n, 'required'],
+  [1n, 'no block IO'],
+  [2n, 'legacy BIOS bootable'],
+];
+// Bits 48-63 are type-specific; these are defined for Microsoft partition types
+const MICROSOFT_ATTRIBUTES: [bigint, string][] = [
+  [60n, 'read-only'],
+  [61n, 'shadow copy'],
+  [62n, 'hidden'],
+  [63n, 'no drive letter'],
+];
+const MICROSOFT_TYPES = new Set([
+  'ebd0a0a2-b9e5-4433-87c0-68b6b72699c7',
+  'e3c9e316-0b5c-4db8-817d-f92df00215ae',
+  'de94bba4-06d1-4d40-a16a-bfd50179d6ac',
+]);
+
 // GPT Partition Type GUIDs
 const GPT_PARTITION_TYPES: Record<string, string> = {
   '00000000-0000-0000-0000-000000000000': 'Unused',
@@ -68,8 +167,14 @@ const GPT_PARTITION_TYPES: Record<string, string> = {
   '933ac7e1-2eb4-4f13-b844-0e14e2aef915': 'Linux Home',
   '48465300-0000-11aa-aa11-00306543ecac': 'Apple HFS+',
   '7c3457ef-0000-11aa-aa11-00306543ecac': 'Apple APFS',
+  '5808c8aa-7e8f-42e0-85d2-e1e90434cfb3': 'LDM Metadata',
+  'af9b60a0-1431-4f62-bc68-3311714a69ad': 'LDM Data',
 };
 
+const LDM_METADATA_TYPE = '5808c8aa-7e8f-42e0-85d2-e1e90434cfb3';
+// MBR dynamic disks keep the LDM private header in sector 6
+const LDM_MBR_PRIVHEAD = 6;
+
 function readUint32LE(data: Uint8Array, offset: number): number {
   if (offset + 4 > data.length) return 0;
   const view = new DataView(data.buffer, data.byteOffset + offset, 4);
@@ -84,7 +189,10 @@ function readUint64LE(data: Uint8Array, offset: number): bigint {
   return BigInt(low) + (BigInt(high) << 32n);
 }
 
-function readGuid(data: Uint8Array, offset: number): string {
+/**
+ * Format a mixed-endian (Microsoft) GUID
+ */
+export function readGuid(data: Uint8Array, offset: number): string {
   if (offset + 16 > data.length) return '';
   const p1 = readUint32LE(data, offset).toString(16).padStart(8, '0');
   const p2 = ((data[offset + 5] << 8) | data[offset + 4]).toString(16).padStart(4, '0');
@@ -112,68 +220,353 @@ function parseMBRPartitionEntry(data: Uint8Array, offset: number, index: number,
     sizeLBA,
     sizeBytes: BigInt(sizeLBA) * BigInt(sectorSize),
     bootable: bootFlag === 0x80,
-    filesystem: guessFilesystem(typeCode),
   };
 }
 
-function guessFilesystem(typeCode: number): string | undefined {
-  switch (typeCode) {
-    case 0x01: return 'FAT12';
-    case 0x04: case 0x06: case 0x0e: case 0x14: case 0x16: case 0x1e: return 'FAT16';
-    case 0x0b: case 0x0c: case 0x1b: case 0x1c: return 'FAT32';
-    case 0x07: case 0x17: return 'NTFS';
-    case 0x83: return 'Linux (ext2/3/4)';
-    case 0xef: return 'FAT32';
-    default: return undefined;
+const EXTENDED_TYPES = new Set([0x05, 0x0f, 0x85]);
+// More logical partitions than any real disk has; stops runaway chains
+const MAX_LOGICAL_PARTITIONS = 128;
+
+function isExtended(typeCode: number | string): boolean {
+  return typeof typeCode === 'number' && EXTENDED_TYPES.has(typeCode);
+}
+
+/**
+ * Report entries with an impossible range, that run past the end of the
+ * media or that overlap an earlier entry; `entryOffsets` gives where each
+ * partition's table entry is on the media
+ */
+function checkPartitions(result: PartitionTable, mediaSize: number, entryOffsets: number[]): void {
+  const { partitions, sectorSize } = result;
+  partitions.forEach((partition, i) => {
+    const location = { offset: entryOffsets[i] };
+    const context = { partition: partition.index, startLBA: partition.startLBA, endLBA: partition.endLBA };
+    if (partition.endLBA < partition.startLBA) {
+      result.diagnostics.push(diagnostic(
+        'PARTITION_INVALID_RANGE',
+        `Partition ${partition.index} ends (LBA ${partition.endLBA}) before it starts (LBA ${partition.startLBA})`,
+        location,
+        context,
+      ));
+      return;
+    }
+    if ((partition.endLBA + 1) * sectorSize > mediaSize) {
+      result.diagnostics.push(diagnostic(
+        'PARTITION_BEYOND_MEDIA',
+        `Partition ${partition.index} runs to LBA ${partition.endLBA}, past the end of the media (${Math.floor(mediaSize / sectorSize)} sectors)`,
+        location,
+        context,
+      ));
+    }
+    const overlapped = partitions.slice(0, i).find(other =>
+      other.endLBA >= other.startLBA && partition.startLBA <= other.endLBA && other.startLBA <= partition.endLBA);
+    if (overlapped) {
+      result.diagnostics.push(diagnostic(
+        'PARTITION_OVERLAP',
+        `Partition ${partition.index} (LBA ${partition.startLBA}-${partition.endLBA}) overlaps partition ${overlapped.index} (LBA ${overlapped.startLBA}-${overlapped.endLBA})`,
+        location,
+        { ...context, overlaps: overlapped.index },
+      ));
+    }
+  });
+}
+
+/**
+ * Walk the EBR chain of an extended partition, adding its logical
+ * partitions (with absolute LBAs) and their entry offsets
+ */
+async function parseEBRChain(
+  reader: ByteReader,
+  extended: Partition,
+  result: PartitionTable,
+  entryOffsets: number[],
+): Promise<void> {
+  const { sectorSize } = result;
+  const visited = new Set<number>();
+  const invalid = (message: string, offset: number) => {
+    result.diagnostics.push(diagnostic('PARTITION_EBR_INVALID', message, { offset }, { extended: extended.index }));
+  };
+  let ebrLBA = extended.startLBA;
+
+  while (visited.size < MAX_LOGICAL_PARTITIONS) {
+    if (visited.has(ebrLBA)) {
+      result.diagnostics.push(diagnostic(
+        'PARTITION_EBR_LOOP',
+        `EBR chain of partition ${extended.index} loops back to LBA ${ebrLBA}; later logical partitions may be missing`,
+        { offset: ebrLBA * sectorSize },
+        { extended: extended.index, ebrLBA },
+      ));
+      return;
+    }
+    if (ebrLBA < extended.startLBA || ebrLBA > extended.endLBA) {
+      invalid(`EBR at LBA ${ebrLBA} lies outside extended partition ${extended.index} (LBA ${extended.startLBA}-${extended.endLBA})`, ebrLBA * sectorSize);
+      return;
+    }
+    visited.add(ebrLBA);
+
+    const data = await reader.read(ebrLBA * sectorSize, 512);
+    if (data.length < 512 || data[510] !== 0x55 || data[511] !== 0xaa) {
+      invalid(`No boot signature in the EBR at LBA ${ebrLBA}; the chain ends here`, ebrLBA * sectorSize + 510);
+      return;
+    }
+
+    const logical = parseMBRPartitionEntry(data, 446, 5 + result.partitions.filter(p => p.ebrLBA !== undefined).length, sectorSize);
+    if (logical && !isExtended(logical.typeCode)) {
+      logical.startLBA += ebrLBA;
+      logical.endLBA += ebrLBA;
+      logical.ebrLBA = ebrLBA;
+      if (logical.startLBA < extended.startLBA || logical.endLBA > extended.endLBA) {
+        result.diagnostics.push(diagnostic(
+          'PARTITION_LOGICAL_OUTSIDE_EXTENDED',
+          `Logical partition ${logical.index} (LBA ${logical.startLBA}-${logical.endLBA}) extends outside extended partition ${extended.index}`,
+          { offset: ebrLBA * sectorSize + 446 },
+          { partition: logical.index, ebrLBA },
+        ));
+      }
+      result.partitions.push(logical);
+      entryOffsets.push(ebrLBA * sectorSize + 446);
+    } else if (logical) {
+      invalid(`First entry of the EBR at LBA ${ebrLBA} is another extended partition`, ebrLBA * sectorSize + 446);
+    }
+
+    // The second entry links to the next EBR, relative to the extended partition
+    const link = data[462 + 4];
+    if (link === 0x00) return;
+    if (!EXTENDED_TYPES.has(link)) {
+      invalid(`EBR at LBA ${ebrLBA} links onwards with partition type 0x${link.toString(16)}; the chain ends here`, ebrLBA * sectorSize + 462);
+      return;
+    }
+    ebrLBA = extended.startLBA + readUint32LE(data, 462 + 8);
   }
+
+  invalid(`EBR chain of partition ${extended.index} has more than ${MAX_LOGICAL_PARTITIONS} links; stopped reading it`, ebrLBA * sectorSize);
 }
 
-function parseMBR(data: Uint8Array, sectorSize: number): PartitionTable {
-  const result: PartitionTable = { type: 'MBR', sectorSize, partitions: [] };
+async function parseMBR(reader: ByteReader, sectorSize: number): Promise<PartitionTable> {
+  const result: PartitionTable = { type: 'MBR', sectorSize, partitions: [], diagnostics: [] };
+  const data = await reader.read(0, 512);
   if (data.length < 512 || data[510] !== 0x55 || data[511] !== 0xaa) {
     result.type = 'Unknown';
+    result.diagnostics.push(diagnostic('PARTITION_NO_TABLE', 'No MBR boot signature (0x55AA) in sector 0', { offset: 510 }));
     return result;
   }
+  const primary: Partition[] = [];
   for (let i = 0; i < 4; i++) {
     const partition = parseMBRPartitionEntry(data, 446 + (i * 16), i + 1, sectorSize);
-    if (partition) {
-      if (partition.typeCode === 0xee) {
-        return parseGPT(data, sectorSize);
-      }
-      result.partitions.push(partition);
+    if (partition) primary.push(partition);
+  }
+  if (primary.some(p => p.typeCode === 0xee)) {
+    return parseGPT(reader, sectorSize, primary.filter(p => p.typeCode !== 0xee));
+  }
+
+  const entryOffsets: number[] = [];
+  const extended: Partition[] = [];
+  for (const partition of primary) {
+    // The extended partition only holds the logical ones
+    if (isExtended(partition.typeCode)) {
+      extended.push(partition);
+      continue;
     }
+    result.partitions.push(partition);
+    entryOffsets.push(446 + (partition.index - 1) * 16);
   }
+  if (extended.length > 1) {
+    result.diagnostics.push(diagnostic(
+      'PARTITION_EBR_INVALID',
+      `MBR lists ${extended.length} extended partitions (${extended.map(p => p.index).join(', ')}); only one is allowed`,
+      { offset: 446 },
+    ));
+  }
+  for (const partition of extended) {
+    await parseEBRChain(reader, partition, result, entryOffsets);
+  }
+  checkPartitions(result, reader.size, entryOffsets);
   return result;
 }
 
-function parseGPT(data: Uint8Array, sectorSize: number): PartitionTable {
-  const result: PartitionTable = { type: 'GPT', sectorSize, partitions: [] };
-  const gptHeaderOffset = sectorSize;
-  if (data.length < gptHeaderOffset + 92) return result;
-  const signature = new TextDecoder().decode(data.slice(gptHeaderOffset, gptHeaderOffset + 8));
-  if (signature !== 'EFI PART') {
+interface GPTHeader {
+  /** Where this copy was read */
+  lba: number;
+  headerCrcValid: boolean;
+  entriesCrcValid: boolean;
+  backupLBA: number;
+  firstUsableLBA: number;
+  lastUsableLBA: number;
+  diskGuid: string;
+  entriesLBA: number;
+  entryCount: number;
+  entrySize: number;
+  entriesCrc: number;
+  entries: Uint8Array;
+}
+
+/**
+ * Read the GPT header at `lba` and its entry array, checking both CRC-32s;
+ * null when there is no header signature
+ */
+async function readGPTHeader(reader: ByteReader, lba: number, sectorSize: number): Promise<GPTHeader | null> {
+  if (lba < 1 || (lba + 1) * sectorSize > reader.size) return null;
+  const data = await reader.read(lba * sectorSize, sectorSize);
+  if (data.length < GPT_HEADER_SIZE || new TextDecoder().decode(data.subarray(0, 8)) !== 'EFI PART') return null;
+
+  // The header CRC covers the header with its own CRC field zeroed
+  const headerSize = readUint32LE(data, 12);
+  let headerCrcValid = false;
+  if (headerSize >= GPT_HEADER_SIZE && headerSize <= data.length) {
+    const copy = data.slice(0, headerSize);
+    copy.fill(0, 16, 20);
+    headerCrcValid = crc32(copy) === readUint32LE(data, 16);
+  }
+
+  const entriesLBA = Number(readUint64LE(data, 72));
+  const entryCount = readUint32LE(data, 80);
+  const entrySize = readUint32LE(data, 84);
+  const arraySize = entryCount * entrySize;
+  const plausible = entrySize >= GPT_ENTRY_SIZE && entrySize % 8 === 0 && arraySize <= MAX_GPT_ENTRY_ARRAY;
+  const entries = plausible ? await reader.read(entriesLBA * sectorSize, arraySize) : new Uint8Array(0);
+  const entriesCrc = readUint32LE(data, 88);
+
+  return {
+    lba,
+    headerCrcValid,
+    entriesCrcValid: plausible && entries.length === arraySize && crc32(entries) === entriesCrc,
+    backupLBA: Number(readUint64LE(data, 32)),
+    firstUsableLBA: Number(readUint64LE(data, 40)),
+    lastUsableLBA: Number(readUint64LE(data, 48)),
+    diskGuid: readGuid(data, 56),
+    entriesLBA,
+    entryCount,
+    entrySize,
+    entriesCrc,
+    entries,
+  };
+}
+
+/**
+ * Report a GPT header copy's CRC failures; true when it is intact
+ */
+function checkGPTHeader(header: GPTHeader, copy: 'primary' | 'backup', result: PartitionTable): boolean {
+  const { sectorSize } = result;
+  if (!header.headerCrcValid) {
+    result.diagnostics.push(diagnostic(
+      'PARTITION_GPT_HEADER_CRC',
+      `${copy === 'primary' ? 'Primary' : 'Backup'} GPT header at LBA ${header.lba} fails its CRC-32 check`,
+      { offset: header.lba * sectorSize },
+      { copy },
+    ));
+  } else if (!header.entriesCrcValid) {
+    result.diagnostics.push(diagnostic(
+      'PARTITION_GPT_ENTRIES_CRC',
+      `Partition entry array of the ${copy} GPT header (LBA ${header.entriesLBA}, ${header.entryCount} entries) fails its CRC-32 check`,
+      { offset: header.entriesLBA * sectorSize },
+      { copy },
+    ));
+  }
+  return header.headerCrcValid && header.entriesCrcValid;
+}
+
+/**
+ * Report where two intact header copies disagree
+ */
+function compareGPTHeaders(primary: GPTHeader, backup: GPTHeader, result: PartitionTable): void {
+  const fields: [string, unknown, unknown][] = [
+    ['disk GUID', primary.diskGuid, backup.diskGuid],
+    ['first usable LBA', primary.firstUsableLBA, backup.firstUsableLBA],
+    ['last usable LBA', primary.lastUsableLBA, backup.lastUsableLBA],
+    ['entry count', primary.entryCount, backup.entryCount],
+    ['entry size', primary.entrySize, backup.entrySize],
+    ['entry array CRC', primary.entriesCrc, backup.entriesCrc],
+    ['backup location', primary.backupLBA, backup.lba],
+    ['primary location', primary.lba, backup.backupLBA],
+  ];
+  const differing = fields.filter(([, a, b]) => a !== b);
+  if (differing.length === 0) return;
+  result.diagnostics.push(diagnostic(
+    'PARTITION_GPT_MISMATCH',
+    `Primary and backup GPT headers disagree on ${differing.map(([field, a, b]) => `${field} (${a} vs ${b})`).join(', ')}`,
+    { offset: backup.lba * result.sectorSize },
+    { fields: differing.map(([field]) => field).join(',') },
+  ));
+}
+
+function decodeGPTAttributes(attributes: bigint, typeGuid: string): string[] {
+  const names = GPT_ATTRIBUTES.filter(([bit]) => attributes & (1n << bit)).map(([, name]) => name);
+  if (MICROSOFT_TYPES.has(typeGuid)) {
+    names.push(...MICROSOFT_ATTRIBUTES.filter(([bit]) => attributes & (1n << bit)).map(([, name]) => name));
+  }
+  return names;
+}
+
+/**
+ * Read the GPT from the primary header, or from the backup at the end of
+ * the disk when the primary is damaged or wiped. `hybrid` holds the data
+ * partitions listed next to the protective entry in the MBR.
+ */
+async function parseGPT(reader: ByteReader, sectorSize: number, hybrid: Partition[] = []): Promise<PartitionTable> {
+  const result: PartitionTable = { type: 'GPT', sectorSize, partitions: [], diagnostics: [] };
+  const lastLBA = Math.floor(reader.size / sectorSize) - 1;
+
+  const primary = await readGPTHeader(reader, 1, sectorSize);
+  const primaryValid = primary !== null && checkGPTHeader(primary, 'primary', result);
+  // A damaged header cannot be trusted to say where its backup is
+  const backupLBA = primary?.headerCrcValid ? primary.backupLBA : lastLBA;
+  let backup = await readGPTHeader(reader, backupLBA, sectorSize);
+  if (!backup && backupLBA !== lastLBA) backup = await readGPTHeader(reader, lastLBA, sectorSize);
+  const backupValid = backup !== null && checkGPTHeader(backup, 'backup', result);
+
+  const header = primaryValid ? primary : backupValid ? backup : primary ?? backup;
+  if (!header) {
     result.type = 'Unknown';
+    result.diagnostics.push(diagnostic(
+      'PARTITION_GPT_MISSING',
+      `Protective MBR found, but there is no GPT header at LBA 1 or at the last LBA (sector size ${sectorSize})`,
+      { offset: sectorSize },
+    ));
     return result;
   }
-  result.diskGuid = readGuid(data, gptHeaderOffset + 56);
-  const partitionEntryLBA = Number(readUint64LE(data, gptHeaderOffset + 72));
-  const numPartitionEntries = readUint32LE(data, gptHeaderOffset + 80);
-  const partitionEntrySize = readUint32LE(data, gptHeaderOffset + 84);
-  const partitionTableOffset = partitionEntryLBA * sectorSize;
 
-  for (let i = 0; i < numPartitionEntries && i < 128; i++) {
-    const entryOffset = partitionTableOffset + (i * partitionEntrySize);
-    if (entryOffset + partitionEntrySize > data.length) break;
-    const typeGuid = readGuid(data, entryOffset);
+  if (!primary) {
+    result.diagnostics.push(diagnostic('PARTITION_GPT_PRIMARY_MISSING', 'No primary GPT header at LBA 1; it may have been wiped', { offset: sectorSize }));
+  }
+  if (!backup) {
+    result.diagnostics.push(diagnostic(
+      'PARTITION_GPT_BACKUP_MISSING',
+      `No backup GPT header at LBA ${backupLBA}${backupLBA > lastLBA ? ', past the end of the media' : ''}`,
+      backupLBA <= lastLBA ? { offset: backupLBA * sectorSize } : {},
+    ));
+  }
+  if (header === backup) {
+    result.diagnostics.push(diagnostic(
+      'PARTITION_GPT_BACKUP_USED',
+      `Partitions were read from the backup GPT header at LBA ${backup.lba}${backupValid ? '' : ', which is damaged as well'}`,
+      { offset: backup.lba * sectorSize },
+    ));
+  }
+  if (primaryValid && backupValid) compareGPTHeaders(primary!, backup!, result);
+
+  result.diskGuid = header.diskGuid;
+  result.gpt = {
+    header: header === primary ? 'primary' : 'backup',
+    primaryValid,
+    backupValid,
+    firstUsableLBA: header.firstUsableLBA,
+    lastUsableLBA: header.lastUsableLBA,
+  };
+
+  const { entries, entrySize } = header;
+  const entryOffsets: number[] = [];
+  for (let i = 0; (i + 1) * entrySize <= entries.length; i++) {
+    const entryOffset = i * entrySize;
+    const typeGuid = readGuid(entries, entryOffset);
     if (typeGuid === '00000000-0000-0000-0000-000000000000') continue;
-    const partitionGuid = readGuid(data, entryOffset + 16);
-    const startLBA = Number(readUint64LE(data, entryOffset + 32));
-    const endLBA = Number(readUint64LE(data, entryOffset + 40));
-    const nameBytes = data.slice(entryOffset + 56, entryOffset + 128);
-    let name = '';
-    try { name = new TextDecoder('utf-16le').decode(nameBytes).replace(/\0+$/, ''); } catch {}
+    const partitionGuid = readGuid(entries, entryOffset + 16);
+    const startLBA = Number(readUint64LE(entries, entryOffset + 32));
+    const endLBA = Number(readUint64LE(entries, entryOffset + 40));
+    const attributes = decodeGPTAttributes(readUint64LE(entries, entryOffset + 48), typeGuid);
+    const nameBytes = entries.slice(entryOffset + 56, entryOffset + 128);
+    const name = new TextDecoder('utf-16le').decode(nameBytes).replace(/\0+$/, '');
     const typeName = GPT_PARTITION_TYPES[typeGuid.toLowerCase()] || `Unknown (${typeGuid})`;
-    result.partitions.push({
+    const partition: Partition = {
       index: i + 1,
       type: typeName,
       typeCode: typeGuid,
@@ -181,33 +574,192 @@ function parseGPT(data: Uint8Array, sectorSize: number): PartitionTable {
       endLBA,
       sizeLBA: endLBA - startLBA + 1,
       sizeBytes: BigInt(endLBA - startLBA + 1) * BigInt(sectorSize),
-      bootable: false,
+      bootable: attributes.includes('legacy BIOS bootable'),
       name: name || undefined,
       guid: partitionGuid,
-      filesystem: guessGPTFilesystem(typeGuid),
+      attributes: attributes.length > 0 ? attributes : undefined,
+    };
+    result.partitions.push(partition);
+    entryOffsets.push(header.entriesLBA * sectorSize + entryOffset);
+
+    if (endLBA >= startLBA && (startLBA < header.firstUsableLBA || endLBA > header.lastUsableLBA)) {
+      result.diagnostics.push(diagnostic(
+        'PARTITION_INVALID_RANGE',
+        `Partition ${partition.index} (LBA ${startLBA}-${endLBA}) lies outside the usable area (LBA ${header.firstUsableLBA}-${header.lastUsableLBA})`,
+        { offset: header.entriesLBA * sectorSize + entryOffset },
+        { partition: partition.index, startLBA, endLBA },
+      ));
+    }
+  }
+  checkPartitions(result, reader.size, entryOffsets);
+
+  if (hybrid.length > 0) {
+    result.hybridMBR = hybrid;
+    result.diagnostics.push(diagnostic(
+      'PARTITION_HYBRID_MBR',
+      `Hybrid MBR: besides the protective entry it lists ${hybrid.map(p => `${p.type} at LBA ${p.startLBA}-${p.endLBA}`).join(', ')}`,
+      { offset: 446 },
+      { entries: hybrid.length },
+    ));
+  }
+  return result;
+}
+
+// MBR slices that hold a volume system of their own
+const NESTED_SCHEMES: Record<number, (reader: ByteReader, sectorSize: number, slice: Partition) => Promise<DisklabelResult | null>> = {
+  0x82: parseVTOC,
+  0xa5: parseBSDLabel,
+  0xa6: parseBSDLabel,
+  0xa9: parseBSDLabel,
+  0xbf: parseVTOC,
+};
+
+function disklabelTable(label: DisklabelResult, sectorSize: number): PartitionTable {
+  return { type: label.type, sectorSize, partitions: label.partitions, diagnostics: label.diagnostics };
+}
+
+/**
+ * Attach the disklabel or VTOC inside each BSD or Solaris slice
+ */
+async function parseNestedVolumeSystems(reader: ByteReader, result: PartitionTable): Promise<void> {
+  let nextIndex = Math.max(0, ...result.partitions.map(p => p.index)) + 1;
+  for (const slice of result.partitions) {
+    const parse = typeof slice.typeCode === 'number' ? NESTED_SCHEMES[slice.typeCode] : undefined;
+    const label = parse && await parse(reader, result.sectorSize, slice);
+    if (!label) continue;
+
+    const nested = disklabelTable(label, result.sectorSize);
+    for (const partition of nested.partitions) {
+      partition.index = nextIndex++;
+      partition.parent = slice.index;
+    }
+    checkPartitions(nested, reader.size, label.entryOffsets);
+    nested.partitions.forEach((partition, i) => {
+      if (partition.startLBA >= slice.startLBA && partition.endLBA <= slice.endLBA) return;
+      nested.diagnostics.push(diagnostic(
+        'PARTITION_OUTSIDE_PARENT',
+        `${label.type} partition ${partition.index} (LBA ${partition.startLBA}-${partition.endLBA}) extends outside partition ${slice.index} that holds it`,
+        { offset: label.entryOffsets[i] },
+        { partition: partition.index, parent: slice.index },
+      ));
     });
+    slice.volumeSystem = nested;
+    result.diagnostics.push(...nested.diagnostics);
+  }
+}
+
+/**
+ * Every partition, each followed by those of the volume system inside it
+ */
+export function listPartitions(table: PartitionTable): Partition[] {
+  return table.partitions.flatMap(p => [p, ...(p.volumeSystem ? listPartitions(p.volumeSystem) : [])]);
+}
+
+/**
+ * Identify what each partition holds from its first sectors
+ */
+async function probePartitions(reader: ByteReader, result: PartitionTable): Promise<void> {
+  for (const partition of [...listPartitions(result), ...(result.hybridMBR ?? []), ...(result.volumes ?? [])]) {
+    if (partition.endLBA < partition.startLBA) continue;
+    const probe = await probeFilesystem(getPartitionReader(reader, partition, result.sectorSize));
+    if (probe.type) partition.filesystem = probe.type;
+    if (probe.label) partition.volumeLabel = probe.label;
+  }
+}
+
+export async function parsePartitionTable(reader: ByteReader, sectorSize = 512): Promise<PartitionTable> {
+  if (reader.size < 512) {
+    return {
+      type: 'Unknown',
+      sectorSize,
+      partitions: [],
+      diagnostics: [diagnostic('PARTITION_NO_TABLE', `Media is too small for a partition table (${reader.size} bytes)`)],
+    };
+  }
+  // Apple and SPARC disks have no MBR; a whole-disk BSD label may follow a bare boot sector
+  let result: PartitionTable;
+  const label = await parseAPM(reader, sectorSize) ?? await parseVTOC(reader, sectorSize);
+  if (label) {
+    result = disklabelTable(label, sectorSize);
+    checkPartitions(result, reader.size, label.entryOffsets);
+  } else {
+    result = await parseMBR(reader, sectorSize);
+    if (result.type === 'MBR') await parseNestedVolumeSystems(reader, result);
+    const bsd = result.type === 'Unknown' && await parseBSDLabel(reader, sectorSize);
+    if (bsd) {
+      result = disklabelTable(bsd, sectorSize);
+      checkPartitions(result, reader.size, bsd.entryOffsets);
+    }
   }
+  await addAssembledVolumes(reader, result);
+  await probePartitions(reader, result);
   return result;
 }
 
-function guessGPTFilesystem(typeGuid: string): string | undefined {
-  const guid = typeGuid.toLowerCase();
-  if (guid === 'c12a7328-f81f-11d2-ba4b-00a0c93ec93b') return 'FAT32';
-  if (guid === 'ebd0a0a2-b9e5-4433-87c0-68b6b72699c7') return 'NTFS';
-  if (guid === '0fc63daf-8483-4772-8e79-3d69d8477de4') return 'ext4';
-  if (guid === '48465300-0000-11aa-aa11-00306543ecac') return 'HFS+';
-  if (guid === '7c3457ef-0000-11aa-aa11-00306543ecac') return 'APFS';
-  return undefined;
+/**
+ * Where a dynamic disk's LDM private header is, if this is one
+ */
+function ldmPrivateHeaderLBA(result: PartitionTable): number | null {
+  if (result.type === 'MBR' && result.partitions.some(p => p.typeCode === 0x42)) return LDM_MBR_PRIVHEAD;
+  // The header is the last sector of the metadata partition
+  const metadata = result.type === 'GPT' ? result.partitions.find(p => typeof p.typeCode === 'string' && p.typeCode.toLowerCase() === LDM_METADATA_TYPE) : undefined;
+  return metadata ? metadata.endLBA : null;
+}
+
+/**
+ * Assemble the volumes of a dynamic disk, then the md arrays and LVM
+ * volumes on the partitions, or on the whole disk when there are none
+ */
+async function addAssembledVolumes(reader: ByteReader, result: PartitionTable): Promise<void> {
+  const partitions = listPartitions(result);
+  const wholeDisk: Partition = {
+    index: 0,
+    type: 'Whole disk',
+    typeCode: 0,
+    startLBA: 0,
+    endLBA: Math.floor(reader.size / result.sectorSize) - 1,
+    sizeLBA: Math.floor(reader.size / result.sectorSize),
+    sizeBytes: BigInt(reader.size),
+    bootable: false,
+  };
+  const volumes: Partition[] = [];
+  let firstIndex = Math.max(0, ...partitions.map(p => p.index)) + 1;
+
+  const privateHeader = ldmPrivateHeaderLBA(result);
+  if (privateHeader !== null) {
+    const { database, diagnostics } = await readLdmDatabase(reader, privateHeader, result.sectorSize);
+    result.diagnostics.push(...diagnostics);
+    if (database) {
+      const ldm = assembleLdmVolumes(database, wholeDisk, firstIndex, result.sectorSize);
+      volumes.push(...ldm.volumes);
+      result.diagnostics.push(...ldm.diagnostics);
+      firstIndex += ldm.volumes.length;
+    }
+  }
+
+  const candidates = partitions.length > 0 ? partitions : [wholeDisk];
+  const assembled = await assembleVolumes(candidates, p => getPartitionReader(reader, p, result.sectorSize), firstIndex, result.sectorSize);
+  volumes.push(...assembled.volumes);
+  result.diagnostics.push(...assembled.diagnostics);
+  if (volumes.length > 0) result.volumes = volumes;
 }
 
-export function parsePartitionTable(data: Uint8Array, sectorSize = 512): PartitionTable {
-  if (data.length < 512) return { type: 'Unknown', sectorSize, partitions: [] };
-  return parseMBR(data, sectorSize);
+/**
+ * Where a byte of a partition is on the media; undefined where an
+ * assembled volume has no data
+ */
+export function mediaOffset(partition: Partition, offset: number, sectorSize = 512): number | undefined {
+  if (!partition.volume) return partition.startLBA * sectorSize + offset;
+  const target = locateInSegments(partition.volume.segments, offset)?.target;
+  return target ? mediaOffset(partition.volume.members[target.source], target.offset, sectorSize) : undefined;
 }
 
-export function extractPartitionData(diskData: Uint8Array, partition: Partition, sectorSize = 512): Uint8Array {
+export function getPartitionReader(disk: ByteReader, partition: Partition, sectorSize = 512): ByteReader {
+  if (partition.volume) {
+    const { members, segments } = partition.volume;
+    return new SegmentedReader(members.map(member => getPartitionReader(disk, member, sectorSize)), segments, partition.sizeLBA * sectorSize);
+  }
   const startOffset = partition.startLBA * sectorSize;
-  const endOffset = (partition.endLBA + 1) * sectorSize;
-  if (startOffset >= diskData.length) return new Uint8Array(0);
-  return diskData.slice(startOffset, Math.min(endOffset, diskData.length));
+  const length = (partition.endLBA + 1) * sectorSize - startOffset;
+  return new SliceReader(disk, startOffset, length);
 }
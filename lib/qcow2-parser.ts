@@ -0,0 +1,172 @@
+/**
+ * QCOW2 (QEMU) disk parsing
+ *
+ * QCOW2 structure (all fields big-endian):
+ * - Header ("QFI\xfb"): version 2 or 3, cluster size, virtual size, the L1
+ *   table location, the backing file name and, in version 3, feature bits
+ * - Clusters are found through two levels of tables: L1 entries point at
+ *   L2 tables, whose 64-bit entries give the host offset of each cluster
+ * - An L2 entry of 0 means the cluster is read from the backing file (or
+ *   as zeros); bit 0 marks an all-zero cluster
+ * - Compressed clusters (bit 62) pack the host offset and a count of 512-byte
+ *   sectors into the entry and hold raw deflate data
+ *
+ * Encrypted images, external data files, extended L2 entries and zstd
+ * compression are reported as unsupported.
+ */
+
+import pako from 'pako';
+import { BlobReader, ByteReader } from './byte-reader';
+import { VirtualDiskSource } from './disk-image';
+import type { VirtualDiskContext } from './virtual-disk';
+
+const QCOW_MAGIC = 0x514649fb;
+const HEADER_SIZE = 112;
+const SECTOR_SIZE = 512;
+
+const OFFSET_MASK = 0x00fffffffffffe00n;
+const L2_COMPRESSED = 1n << 62n;
+const L2_ZERO = 1n;
+
+const INCOMPATIBLE_FEATURES: Record<number, string> = {
+  0: 'dirty',
+  1: 'corrupt',
+  2: 'external data file',
+  3: 'compression type',
+  4: 'extended L2 entries',
+};
+// Features that change how clusters are found or decoded
+const UNSUPPORTED_FEATURES = [2, 4];
+
+export interface Qcow2Header {
+  version: number;
+  backingFileOffset: number;
+  backingFileSize: number;
+  clusterBits: number;
+  size: number;
+  cryptMethod: number;
+  l1Size: number;
+  l1TableOffset: number;
+  snapshots: number;
+  incompatibleFeatures: number;
+  compressionType: number;
+}
+
+export function isQcow2(data: Uint8Array): boolean {
+  return data.length >= 4 && new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0) === QCOW_MAGIC;
+}
+
+export function parseQcow2Header(data: Uint8Array): Qcow2Header {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const version = view.getUint32(4);
+  const headerLength = version >= 3 ? view.getUint32(100) : 72;
+  return {
+    version,
+    backingFileOffset: Number(view.getBigUint64(8)),
+    backingFileSize: view.getUint32(16),
+    clusterBits: view.getUint32(20),
+    size: Number(view.getBigUint64(24)),
+    cryptMethod: view.getUint32(32),
+    l1Size: view.getUint32(36),
+    l1TableOffset: Number(view.getBigUint64(40)),
+    snapshots: view.getUint32(60),
+    incompatibleFeatures: version >= 3 ? Number(view.getBigUint64(72) & 0x1fn) : 0,
+    compressionType: headerLength > 104 ? data[104] : 0,
+  };
+}
+
+class Qcow2Disk extends VirtualDiskSource {
+  /** Entries per L2 table */
+  private readonly l2Entries: number;
+
+  constructor(
+    private readonly reader: ByteReader,
+    private readonly header: Qcow2Header,
+    private readonly l1: Float64Array,
+  ) {
+    super('qcow2', header.size, SECTOR_SIZE, 2 ** header.clusterBits);
+    this.l2Entries = this.blockSize / 8;
+  }
+
+  protected async readBlock(cluster: number, offset: number, length: number): Promise<Uint8Array> {
+    const mediaOffset = cluster * this.blockSize + offset;
+    const l1Index = Math.floor(cluster / this.l2Entries);
+    const l2Offset = l1Index < this.l1.length ? this.l1[l1Index] : 0;
+    if (!l2Offset) return this.readParent(mediaOffset, length);
+
+    const l2 = await this.cached(`l2:${l1Index}`, () => this.reader.read(l2Offset, this.blockSize));
+    const index = (cluster % this.l2Entries) * 8;
+    const entry = index + 8 <= l2.length ? new DataView(l2.buffer, l2.byteOffset).getBigUint64(index) : 0n;
+
+    if (entry & L2_COMPRESSED) {
+      const data = await this.cached(`cluster:${cluster}`, () => this.inflateCluster(cluster, entry));
+      return data.subarray(offset, offset + length);
+    }
+    if (entry & L2_ZERO) return new Uint8Array(length);
+    const hostOffset = Number(entry & OFFSET_MASK);
+    if (!hostOffset) return this.readParent(mediaOffset, length);
+    return this.reader.read(hostOffset + offset, length);
+  }
+
+  private async inflateCluster(cluster: number, entry: bigint): Promise<Uint8Array> {
+    if (this.header.compressionType !== 0) {
+      throw new Error(`QCOW2 cluster ${cluster} uses compression type ${this.header.compressionType}, which is not supported`);
+    }
+    // The entry splits at bit x into host offset (below) and extra sectors (above)
+    const x = BigInt(62 - (this.header.clusterBits - 8));
+    const hostOffset = Number(entry & ((1n << x) - 1n));
+    const sectors = Number((entry >> x) & ((1n << (62n - x)) - 1n));
+    const storedSize = (sectors + 1) * SECTOR_SIZE - (hostOffset % SECTOR_SIZE);
+    try {
+      const data = pako.inflateRaw(await this.reader.read(hostOffset, storedSize));
+      const out = new Uint8Array(this.blockSize);
+      out.set(data.subarray(0, this.blockSize));
+      return out;
+    } catch {
+      throw new Error(`QCOW2 cluster ${cluster} could not be decompressed`);
+    }
+  }
+}
+
+/**
+ * Open a QCOW2 image; a backing file must be among the selected files
+ */
+export async function openQcow2(file: File, context: VirtualDiskContext): Promise<VirtualDiskSource | null> {
+  const reader = new BlobReader(file);
+  const header = parseQcow2Header(await reader.read(0, HEADER_SIZE));
+  const fail = (problem: string) => {
+    context.errors.push(`${file.name}: ${problem}`);
+    return null;
+  };
+
+  if (header.version !== 2 && header.version !== 3) return fail(`QCOW version ${header.version} is not supported`);
+  if (header.clusterBits < 9 || header.clusterBits > 21) return fail(`invalid cluster size 2^${header.clusterBits}`);
+  if (header.cryptMethod !== 0) return fail('encrypted QCOW2 images are not supported');
+  const unsupported = UNSUPPORTED_FEATURES.filter(bit => header.incompatibleFeatures & (1 << bit));
+  if (unsupported.length > 0) {
+    return fail(`unsupported features: ${unsupported.map(bit => INCOMPATIBLE_FEATURES[bit]).join(', ')}`);
+  }
+  if (header.incompatibleFeatures & 0x3) {
+    context.errors.push(`${file.name}: image is marked ${header.incompatibleFeatures & 0x2 ? 'corrupt' : 'dirty'}; its metadata may be inconsistent`);
+  }
+
+  const table = await reader.read(header.l1TableOffset, header.l1Size * 8);
+  const view = new DataView(table.buffer, table.byteOffset, table.byteLength);
+  const l1 = new Float64Array(header.l1Size);
+  for (let i = 0; i < Math.floor(table.length / 8); i++) l1[i] = Number(view.getBigUint64(i * 8) & OFFSET_MASK);
+  if (table.length < header.l1Size * 8) context.errors.push(`${file.name}: L1 table is truncated`);
+
+  const source = new Qcow2Disk(reader, header, l1);
+  Object.assign(source.metadata, {
+    version: String(header.version),
+    clusterSize: String(2 ** header.clusterBits),
+    snapshots: String(header.snapshots),
+  });
+
+  if (header.backingFileOffset && header.backingFileSize) {
+    const name = new TextDecoder().decode(await reader.read(header.backingFileOffset, header.backingFileSize));
+    source.metadata.parent = name;
+    source.parent = await context.parent(name, file.name);
+  }
+  return source;
+}
@@ -0,0 +1,178 @@
+/**
+ * Raw (dd) Image Export
+ *
+ * Streams the decompressed media, or one partition of it, into plain raw
+ * files block by block, hashing the data as it is written, so images far
+ * larger than memory can be exported. Split exports are numbered .001,
+ * .002 … like other split raw images, and a text sidecar named after the
+ * first file records the digests of the whole stream.
+ */
+
+import type { ByteReader } from './byte-reader';
+import { HASH_STANDARDS } from './e01-verify';
+import { createHasher, HashAlgorithm } from './hashes';
+
+// 1 MB per read and write
+const WRITE_BLOCK_SIZE = 1024 * 1024;
+
+/**
+ * Destination for exported files; exactly one file is open at a time
+ */
+export interface RawExportSink {
+  create(name: string): Promise<void>;
+  write(data: Uint8Array): Promise<void>;
+  close(): Promise<void>;
+  /** Discard the open file after a failure or cancellation */
+  abort(): Promise<void>;
+}
+
+export interface RawExportOptions {
+  /** Output name without extension */
+  baseName: string;
+  extension?: 'dd' | 'img';
+  /** Split into parts of this many bytes; 0 writes a single file */
+  partSize?: number;
+  algorithms?: HashAlgorithm[];
+  /** What was exported, for the sidecar (e.g. "image.E01, partition 2") */
+  source?: string;
+  onProgress?: (bytesWritten: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface RawExportResult {
+  parts: string[];
+  sidecar: string;
+  bytesWritten: number;
+  hashes: { algorithm: HashAlgorithm; digest: string }[];
+  startedAt: string;
+  completedAt: string;
+}
+
+/**
+ * Name of each output file: "<base>.dd" when unsplit, "<base>.001" … otherwise
+ */
+export function rawPartName(baseName: string, part: number, split: boolean, extension = 'dd'): string {
+  return split ? `${baseName}.${String(part + 1).padStart(3, '0')}` : `${baseName}.${extension}`;
+}
+
+/**
+ * Sidecar text: what was exported, the files written and their combined digests
+ */
+export function formatHashSidecar(result: Omit<RawExportResult, 'sidecar'>, source?: string): string {
+  const lines = [
+    'Raw image export',
+    ...(source ? [`Source: ${source}`] : []),
+    `Started: ${result.startedAt}`,
+    `Completed: ${result.completedAt}`,
+    `Bytes: ${result.bytesWritten}`,
+    `Files: ${result.parts.join(', ')}`,
+    '',
+    result.parts.length > 1 ? 'Digests of the concatenated parts:' : 'Digests:',
+    ...result.hashes.map(({ algorithm, digest }) => `${HASH_STANDARDS[algorithm]}: ${digest}`),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Stream `reader` into the sink, splitting and hashing along the way
+ */
+export async function exportRawImage(
+  reader: ByteReader,
+  sink: RawExportSink,
+  { baseName, extension = 'dd', partSize = 0, algorithms = ['md5', 'sha1'], source, onProgress, signal }: RawExportOptions,
+): Promise<RawExportResult> {
+  const startedAt = new Date().toISOString();
+  const hashers = algorithms.map(algorithm => ({ algorithm, hasher: createHasher(algorithm) }));
+  const split = partSize > 0 && partSize < reader.size;
+  const parts: string[] = [];
+  let bytesWritten = 0;
+
+  try {
+    while (bytesWritten < reader.size || parts.length === 0) {
+      const name = rawPartName(baseName, parts.length, split, extension);
+      await sink.create(name);
+      parts.push(name);
+
+      const partEnd = split ? Math.min(reader.size, bytesWritten + partSize) : reader.size;
+      while (bytesWritten < partEnd) {
+        signal?.throwIfAborted();
+        const block = await reader.read(bytesWritten, Math.min(WRITE_BLOCK_SIZE, partEnd - bytesWritten));
+        if (block.length === 0) throw new Error(`Media ended early at byte ${bytesWritten}`);
+        for (const { hasher } of hashers) hasher.update(block);
+        await sink.write(block);
+        bytesWritten += block.length;
+        onProgress?.(bytesWritten, reader.size);
+      }
+      await sink.close();
+    }
+  } catch (error) {
+    await sink.abort();
+    throw error;
+  }
+
+  const summary = {
+    parts,
+    bytesWritten,
+    hashes: hashers.map(({ algorithm, hasher }) => ({ algorithm, digest: hasher.digest() })),
+    startedAt,
+    completedAt: new Date().toISOString(),
+  };
+  const sidecar = `${parts[0]}.txt`;
+  await sink.create(sidecar);
+  await sink.write(new TextEncoder().encode(formatHashSidecar(summary, source)));
+  await sink.close();
+
+  return { ...summary, sidecar };
+}
+
+/**
+ * Write into a directory picked with the File System Access API
+ */
+export function directorySink(directory: FileSystemDirectoryHandle): RawExportSink {
+  let stream: FileSystemWritableFileStream | null = null;
+  return {
+    async create(name) {
+      const file = await directory.getFileHandle(name, { create: true });
+      stream = await file.createWritable();
+    },
+    async write(data) {
+      await stream!.write(data as Uint8Array<ArrayBuffer>);
+    },
+    async close() {
+      await stream?.close();
+      stream = null;
+    },
+    async abort() {
+      await stream?.abort();
+      stream = null;
+    },
+  };
+}
+
+/**
+ * Collect each file as a Blob for a browser download. Blobs built from
+ * pieces may be backed by disk, so this never holds one contiguous buffer.
+ */
+export class BlobSink implements RawExportSink {
+  readonly files: { name: string; blob: Blob }[] = [];
+  private name = '';
+  private pieces: Blob[] = [];
+
+  async create(name: string): Promise<void> {
+    this.name = name;
+    this.pieces = [];
+  }
+
+  async write(data: Uint8Array): Promise<void> {
+    this.pieces.push(new Blob([data as Uint8Array<ArrayBuffer>]));
+  }
+
+  async close(): Promise<void> {
+    this.files.push({ name: this.name, blob: new Blob(this.pieces, { type: 'application/octet-stream' }) });
+    this.pieces = [];
+  }
+
+  async abort(): Promise<void> {
+    this.pieces = [];
+  }
+}
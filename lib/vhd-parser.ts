@@ -0,0 +1,250 @@
+/**
+ * VHD (Virtual PC / Hyper-V) disk parsing
+ *
+ * VHD structure (all fields big-endian):
+ * - 512-byte footer at the end of the file ("conectix"): disk type, size,
+ *   CHS geometry, creator and a unique id; dynamic disks keep a copy of it
+ *   at offset 0
+ * - Fixed disks are the raw media followed by the footer
+ * - Dynamic and differencing disks have a 1024-byte dynamic header
+ *   ("cxsparse") pointing at the block allocation table (BAT), whose 32-bit
+ *   entries give the first sector of each block or 0xFFFFFFFF when the
+ *   block is not allocated
+ * - Each allocated block starts with a sector bitmap; in differencing disks
+ *   a clear bit means the sector is read from the parent named in the
+ *   dynamic header
+ */
+
+import { BlobReader, ByteReader } from './byte-reader';
+import { VirtualDiskSource } from './disk-image';
+import type { VirtualDiskContext } from './virtual-disk';
+
+const FOOTER_SIZE = 512;
+const DYNAMIC_HEADER_SIZE = 1024;
+const SECTOR_SIZE = 512;
+const UNALLOCATED = 0xffffffff;
+
+const FOOTER_COOKIE = 'conectix';
+const DYNAMIC_COOKIE = 'cxsparse';
+
+const DISK_TYPES: Record<number, string> = {
+  2: 'Fixed',
+  3: 'Dynamic',
+  4: 'Differencing',
+};
+
+// Seconds between the Unix epoch and the VHD epoch (2000-01-01 UTC)
+const VHD_EPOCH = 946684800;
+
+export interface VhdFooter {
+  diskType: number;
+  dataOffset: number;
+  currentSize: number;
+  cylinders: number;
+  heads: number;
+  sectorsPerTrack: number;
+  creator: string;
+  creatorHost: string;
+  created: Date;
+  uniqueId: string;
+  checksumValid: boolean;
+}
+
+function ascii(data: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + length)).replace(/\0+$/, '');
+}
+
+/**
+ * VHD ids are stored as 16 bytes in order, unlike the mixed-endian GPT GUIDs
+ */
+function formatUuid(data: Uint8Array, offset: number): string {
+  const hex = Array.from(data.subarray(offset, offset + 16)).map(b => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * One's complement of the byte sum, skipping the checksum field at `field`
+ */
+function vhdChecksum(data: Uint8Array, field: number): number {
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    if (i < field || i >= field + 4) sum += data[i];
+  }
+  return ~sum >>> 0;
+}
+
+export function isVhdFooter(data: Uint8Array): boolean {
+  return data.length >= 8 && ascii(data, 0, 8) === FOOTER_COOKIE;
+}
+
+export function parseVhdFooter(data: Uint8Array): VhdFooter {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return {
+    dataOffset: Number(view.getBigUint64(16)),
+    created: new Date((VHD_EPOCH + view.getUint32(24)) * 1000),
+    creator: `${ascii(data, 28, 4).trim()} ${view.getUint16(32)}.${view.getUint16(34)}`,
+    creatorHost: ascii(data, 36, 4),
+    currentSize: Number(view.getBigUint64(48)),
+    cylinders: view.getUint16(56),
+    heads: data[58],
+    sectorsPerTrack: data[59],
+    diskType: view.getUint32(60),
+    checksumValid: view.getUint32(64) === vhdChecksum(data.subarray(0, FOOTER_SIZE), 64),
+    uniqueId: formatUuid(data, 68),
+  };
+}
+
+/**
+ * Windows paths in a parent locator, or the parent's name from the header
+ */
+async function parentName(header: Uint8Array, reader: ByteReader): Promise<string> {
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  const name = new TextDecoder('utf-16be').decode(header.subarray(64, 576)).replace(/\0.*$/s, '');
+  const locators: { code: string; length: number; offset: number }[] = [];
+  for (let i = 0; i < 8; i++) {
+    const base = 576 + i * 24;
+    const code = ascii(header, base, 4);
+    if (code === 'W2ru' || code === 'W2ku') {
+      locators.push({ code, length: view.getUint32(base + 8), offset: Number(view.getBigUint64(base + 16)) });
+    }
+  }
+  // Prefer the relative path, which survives the evidence being copied
+  locators.sort((a, b) => (a.code === 'W2ru' ? -1 : 0) - (b.code === 'W2ru' ? -1 : 0));
+  const locator = locators.find(l => l.length > 0);
+  if (!locator) return name;
+  const path = await reader.read(locator.offset, locator.length);
+  return new TextDecoder('utf-16le').decode(path).replace(/\0.*$/s, '') || name;
+}
+
+/**
+ * A fixed VHD: the media is stored as-is ahead of the footer
+ */
+class FixedVhd extends VirtualDiskSource {
+  constructor(private readonly reader: ByteReader, size: number) {
+    super('vhd', size, SECTOR_SIZE, Math.max(size, 1));
+  }
+
+  protected readBlock(_block: number, offset: number, length: number): Promise<Uint8Array> {
+    return this.reader.read(offset, length);
+  }
+}
+
+/**
+ * A dynamic or differencing VHD
+ */
+class DynamicVhd extends VirtualDiskSource {
+  private readonly bitmapSize: number;
+
+  constructor(
+    private readonly reader: ByteReader,
+    size: number,
+    blockSize: number,
+    private readonly bat: Uint32Array,
+    private readonly differencing: boolean,
+  ) {
+    super('vhd', size, SECTOR_SIZE, blockSize);
+    // One bit per sector, padded to a whole sector
+    this.bitmapSize = Math.ceil(blockSize / SECTOR_SIZE / 8 / SECTOR_SIZE) * SECTOR_SIZE;
+  }
+
+  protected async readBlock(block: number, offset: number, length: number): Promise<Uint8Array> {
+    const mediaOffset = block * this.blockSize + offset;
+    const sector = block < this.bat.length ? this.bat[block] : UNALLOCATED;
+    if (sector === UNALLOCATED) {
+      return this.differencing ? this.readParent(mediaOffset, length) : new Uint8Array(length);
+    }
+
+    const blockStart = sector * SECTOR_SIZE;
+    const data = new Uint8Array(length);
+    data.set(await this.reader.read(blockStart + this.bitmapSize + offset, length));
+    if (!this.differencing) return data;
+
+    const bitmap = await this.cached(`bitmap:${block}`, () => this.reader.read(blockStart, this.bitmapSize));
+    const firstSector = block * (this.blockSize / SECTOR_SIZE);
+    return this.mergeParent(data, mediaOffset, SECTOR_SIZE, (index) => {
+      const bit = index - firstSector;
+      return (bitmap[bit >> 3] & (0x80 >> (bit & 7))) !== 0;
+    });
+  }
+}
+
+/**
+ * Open a VHD; differencing disks are layered over their parent, which must
+ * be among the selected files
+ */
+export async function openVhd(file: File, context: VirtualDiskContext): Promise<VirtualDiskSource | null> {
+  const reader = new BlobReader(file);
+  let footerData = await reader.read(Math.max(0, file.size - FOOTER_SIZE), FOOTER_SIZE);
+  if (!isVhdFooter(footerData)) {
+    // Dynamic disks keep a copy of the footer at the start of the file
+    footerData = await reader.read(0, FOOTER_SIZE);
+    if (!isVhdFooter(footerData)) {
+      context.errors.push(`${file.name}: no VHD footer found`);
+      return null;
+    }
+    context.errors.push(`${file.name}: footer at the end of the file is missing or damaged; using the copy at offset 0`);
+  }
+
+  const footer = parseVhdFooter(footerData);
+  if (!footer.checksumValid) context.errors.push(`${file.name}: VHD footer checksum mismatch`);
+  const diskType = DISK_TYPES[footer.diskType];
+  if (!diskType) {
+    context.errors.push(`${file.name}: unsupported VHD disk type ${footer.diskType}`);
+    return null;
+  }
+
+  let source: VirtualDiskSource;
+  let parentPath = '';
+  let parentId = '';
+  if (footer.diskType === 2) {
+    source = new FixedVhd(reader, Math.min(footer.currentSize, file.size - FOOTER_SIZE));
+  } else {
+    const header = await reader.read(footer.dataOffset, DYNAMIC_HEADER_SIZE);
+    if (header.length < DYNAMIC_HEADER_SIZE || ascii(header, 0, 8) !== DYNAMIC_COOKIE) {
+      context.errors.push(`${file.name}: dynamic disk header not found at offset ${footer.dataOffset}`);
+      return null;
+    }
+    const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+    if (view.getUint32(36) !== vhdChecksum(header, 36)) {
+      context.errors.push(`${file.name}: dynamic disk header checksum mismatch`);
+    }
+    const tableOffset = Number(view.getBigUint64(16));
+    const entries = view.getUint32(28);
+    const blockSize = view.getUint32(32);
+    if (blockSize === 0 || blockSize % SECTOR_SIZE !== 0) {
+      context.errors.push(`${file.name}: invalid VHD block size ${blockSize}`);
+      return null;
+    }
+
+    const table = await reader.read(tableOffset, entries * 4);
+    const tableView = new DataView(table.buffer, table.byteOffset, table.byteLength);
+    const bat = new Uint32Array(entries).fill(UNALLOCATED);
+    for (let i = 0; i < Math.floor(table.length / 4); i++) bat[i] = tableView.getUint32(i * 4);
+    if (table.length < entries * 4) context.errors.push(`${file.name}: block allocation table is truncated`);
+
+    source = new DynamicVhd(reader, footer.currentSize, blockSize, bat, footer.diskType === 4);
+    source.metadata.blockSize = String(blockSize);
+    if (footer.diskType === 4) {
+      parentPath = await parentName(header, reader);
+      parentId = formatUuid(header, 40);
+    }
+  }
+
+  Object.assign(source.metadata, {
+    diskType,
+    creator: `${footer.creator} (${footer.creatorHost})`,
+    created: footer.created.toISOString(),
+    geometry: `${footer.cylinders}/${footer.heads}/${footer.sectorsPerTrack}`,
+    diskId: footer.uniqueId,
+  });
+
+  if (parentPath) {
+    source.metadata.parent = parentPath;
+    const parent = await context.parent(parentPath, file.name);
+    if (parent && parent.metadata.diskId !== parentId) {
+      context.errors.push(`${file.name}: parent ${parentPath} has id ${parent.metadata.diskId}, expected ${parentId}`);
+    }
+    source.parent = parent;
+  }
+  return source;
+}
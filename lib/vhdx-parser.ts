@@ -0,0 +1,304 @@
+/**
+ * VHDX (Hyper-V) disk parsing
+ *
+ * VHDX structure (all fields little-endian):
+ * - File type identifier ("vhdxfile") at offset 0
+ * - Two 4 KB headers at 64 KB and 128 KB ("head"), CRC-32C protected; the
+ *   one with the higher sequence number is current and names the log
+ * - Two copies of the region table at 192 KB and 256 KB ("regi") locating
+ *   the block allocation table (BAT) and the metadata region
+ * - Metadata items (keyed by GUID) give the block size, virtual disk size,
+ *   sector sizes, disk id and, for differencing disks, the parent locator
+ * - 64-bit BAT entries hold a block state and a file offset in MB; after
+ *   every "chunk ratio" payload entries comes one sector bitmap entry, used
+ *   by differencing disks to tell which sectors the child holds
+ *
+ * The log is not replayed: an image that was not closed cleanly is read as
+ * its blocks stand on disk, and a warning says so.
+ */
+
+import { BlobReader, ByteReader } from './byte-reader';
+import { crc32c } from './checksums';
+import { VirtualDiskSource } from './disk-image';
+import { readGuid } from './partition-parser';
+import type { VirtualDiskContext } from './virtual-disk';
+
+const KB = 1024;
+const MB = 1024 * 1024;
+const HEADER_OFFSETS = [64 * KB, 128 * KB];
+const HEADER_SIZE = 4 * KB;
+const REGION_TABLE_OFFSETS = [192 * KB, 256 * KB];
+const REGION_TABLE_SIZE = 64 * KB;
+const METADATA_TABLE_SIZE = 64 * KB;
+
+const REGION_BAT = '2dc27766-f623-4200-9d64-115e9bfd4a08';
+const REGION_METADATA = '8b7ca206-4790-4b9a-b8fe-575f050f886e';
+
+const METADATA_FILE_PARAMETERS = 'caa16737-fa36-4d43-b3b6-33f0aa44e76b';
+const METADATA_DISK_SIZE = '2fa54224-cd1b-4876-b211-5dbed83bf4b8';
+const METADATA_DISK_ID = 'beca12ab-b2e6-4523-93ef-c309e000c746';
+const METADATA_LOGICAL_SECTOR_SIZE = '8141bf1d-a96f-4709-ba47-f233a8faab5f';
+const METADATA_PHYSICAL_SECTOR_SIZE = 'cda348c7-445d-4471-9cc9-e9885251c556';
+const METADATA_PARENT_LOCATOR = 'a8d35f2d-b30b-454d-abf7-d3d84834ab0c';
+
+const NULL_GUID = '00000000-0000-0000-0000-000000000000';
+
+// Payload block states
+const BLOCK_NOT_PRESENT = 0;
+const BLOCK_FULLY_PRESENT = 6;
+const BLOCK_PARTIALLY_PRESENT = 7;
+
+const FILE_FLAG_HAS_PARENT = 0x2;
+
+export interface VhdxHeader {
+  sequence: bigint;
+  dataWriteGuid: string;
+  logGuid: string;
+  version: number;
+}
+
+function view(data: Uint8Array): DataView {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+function ascii(data: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + length));
+}
+
+/**
+ * CRC-32C of a structure whose checksum field (at offset 4) counts as zero
+ */
+function checksumValid(data: Uint8Array): boolean {
+  const copy = data.slice();
+  copy.fill(0, 4, 8);
+  return crc32c(copy) === view(data).getUint32(4, true);
+}
+
+export function isVhdx(data: Uint8Array): boolean {
+  return data.length >= 8 && ascii(data, 0, 8) === 'vhdxfile';
+}
+
+/**
+ * The current header: the valid one with the higher sequence number
+ */
+async function readHeader(reader: ByteReader, errors: string[]): Promise<VhdxHeader | null> {
+  let current: VhdxHeader | null = null;
+  for (const offset of HEADER_OFFSETS) {
+    const data = await reader.read(offset, HEADER_SIZE);
+    if (data.length < HEADER_SIZE || ascii(data, 0, 4) !== 'head') continue;
+    if (!checksumValid(data)) {
+      errors.push(`header at ${offset / KB} KB has a bad checksum`);
+      continue;
+    }
+    const header = {
+      sequence: view(data).getBigUint64(8, true),
+      dataWriteGuid: readGuid(data, 32),
+      logGuid: readGuid(data, 48),
+      version: view(data).getUint16(66, true),
+    };
+    if (!current || header.sequence > current.sequence) current = header;
+  }
+  return current;
+}
+
+/**
+ * File offsets and lengths of the regions, by GUID, from the first valid table
+ */
+async function readRegions(reader: ByteReader, errors: string[]): Promise<Map<string, { offset: number; length: number }> | null> {
+  for (const offset of REGION_TABLE_OFFSETS) {
+    const data = await reader.read(offset, REGION_TABLE_SIZE);
+    if (data.length < REGION_TABLE_SIZE || ascii(data, 0, 4) !== 'regi') continue;
+    if (!checksumValid(data)) {
+      errors.push(`region table at ${offset / KB} KB has a bad checksum`);
+      continue;
+    }
+    const regions = new Map<string, { offset: number; length: number }>();
+    const count = Math.min(view(data).getUint32(8, true), 2047);
+    for (let i = 0; i < count; i++) {
+      const base = 16 + i * 32;
+      regions.set(readGuid(data, base), {
+        offset: Number(view(data).getBigUint64(base + 16, true)),
+        length: view(data).getUint32(base + 24, true),
+      });
+    }
+    return regions;
+  }
+  return null;
+}
+
+/**
+ * Metadata item payloads by GUID
+ */
+async function readMetadata(reader: ByteReader, offset: number): Promise<Map<string, Uint8Array>> {
+  const table = await reader.read(offset, METADATA_TABLE_SIZE);
+  const items = new Map<string, Uint8Array>();
+  if (table.length < 32 || ascii(table, 0, 8) !== 'metadata') return items;
+
+  const count = Math.min(view(table).getUint16(10, true), 2047);
+  for (let i = 0; i < count; i++) {
+    const base = 32 + i * 32;
+    if (base + 32 > table.length) break;
+    const itemOffset = view(table).getUint32(base + 16, true);
+    const length = view(table).getUint32(base + 20, true);
+    items.set(readGuid(table, base), await reader.read(offset + itemOffset, length));
+  }
+  return items;
+}
+
+/**
+ * Key/value pairs of a parent locator (UTF-16LE strings)
+ */
+function parseParentLocator(data: Uint8Array): Record<string, string> {
+  const entries: Record<string, string> = {};
+  if (data.length < 20) return entries;
+  const decoder = new TextDecoder('utf-16le');
+  const count = view(data).getUint16(18, true);
+  for (let i = 0; i < count; i++) {
+    const base = 20 + i * 12;
+    if (base + 12 > data.length) break;
+    const keyOffset = view(data).getUint32(base, true);
+    const valueOffset = view(data).getUint32(base + 4, true);
+    const keyLength = view(data).getUint16(base + 8, true);
+    const valueLength = view(data).getUint16(base + 10, true);
+    const key = decoder.decode(data.subarray(keyOffset, keyOffset + keyLength));
+    entries[key] = decoder.decode(data.subarray(valueOffset, valueOffset + valueLength));
+  }
+  return entries;
+}
+
+function normalizeGuid(guid: string): string {
+  return guid.replace(/[{}]/g, '').toLowerCase();
+}
+
+class VhdxDisk extends VirtualDiskSource {
+  /** Payload blocks covered by one sector bitmap block */
+  private readonly chunkRatio: number;
+
+  constructor(
+    private readonly reader: ByteReader,
+    size: number,
+    sectorSize: number,
+    blockSize: number,
+    private readonly states: Uint8Array,
+    private readonly offsets: Float64Array,
+    private readonly differencing: boolean,
+  ) {
+    super('vhdx', size, sectorSize, blockSize);
+    this.chunkRatio = (2 ** 23 * sectorSize) / blockSize;
+  }
+
+  protected async readBlock(block: number, offset: number, length: number): Promise<Uint8Array> {
+    const mediaOffset = block * this.blockSize + offset;
+    const entry = block + Math.floor(block / this.chunkRatio);
+    const state = entry < this.states.length ? this.states[entry] : BLOCK_NOT_PRESENT;
+
+    if (state !== BLOCK_FULLY_PRESENT && state !== BLOCK_PARTIALLY_PRESENT) {
+      // Zero, unmapped and undefined blocks read as zeros even in differencing disks
+      return this.differencing && state === BLOCK_NOT_PRESENT
+        ? this.readParent(mediaOffset, length)
+        : new Uint8Array(length);
+    }
+
+    const data = new Uint8Array(length);
+    data.set(await this.reader.read(this.offsets[entry] + offset, length));
+    if (state === BLOCK_FULLY_PRESENT || !this.differencing) return data;
+
+    // One bit per sector, least significant bit first, for a whole chunk of blocks
+    const chunk = Math.floor(block / this.chunkRatio);
+    const bitmapEntry = chunk * (this.chunkRatio + 1) + this.chunkRatio;
+    const bitmapOffset = this.offsets[bitmapEntry];
+    const bitmap = bitmapOffset
+      ? await this.cached(`bitmap:${chunk}`, () => this.reader.read(bitmapOffset, MB))
+      : new Uint8Array(0);
+    const firstSector = chunk * this.chunkRatio * (this.blockSize / this.sectorSize);
+    return this.mergeParent(data, mediaOffset, this.sectorSize, (index) => {
+      const bit = index - firstSector;
+      return (bitmap[bit >> 3] & (1 << (bit & 7))) !== 0;
+    });
+  }
+}
+
+/**
+ * Open a VHDX; differencing disks are layered over their parent, which must
+ * be among the selected files
+ */
+export async function openVhdx(file: File, context: VirtualDiskContext): Promise<VirtualDiskSource | null> {
+  const reader = new BlobReader(file);
+  const problems: string[] = [];
+  const report = () => context.errors.push(...problems.map(problem => `${file.name}: ${problem}`));
+
+  const header = await readHeader(reader, problems);
+  const regions = header && await readRegions(reader, problems);
+  const batRegion = regions?.get(REGION_BAT);
+  const metadataRegion = regions?.get(REGION_METADATA);
+  if (!header || !batRegion || !metadataRegion) {
+    problems.push(!header ? 'no valid VHDX header' : 'no valid region table with BAT and metadata regions');
+    report();
+    return null;
+  }
+  if (header.logGuid !== NULL_GUID) {
+    problems.push('the log holds writes that were not replayed; blocks written last may be out of date');
+  }
+
+  const metadata = await readMetadata(reader, metadataRegion.offset);
+  const parameters = metadata.get(METADATA_FILE_PARAMETERS);
+  const sizeItem = metadata.get(METADATA_DISK_SIZE);
+  if (!parameters || parameters.length < 8 || !sizeItem || sizeItem.length < 8) {
+    problems.push('file parameters or virtual disk size metadata missing');
+    report();
+    return null;
+  }
+  const blockSize = view(parameters).getUint32(0, true);
+  const hasParent = (view(parameters).getUint32(4, true) & FILE_FLAG_HAS_PARENT) !== 0;
+  const size = Number(view(sizeItem).getBigUint64(0, true));
+  const logicalSector = metadata.get(METADATA_LOGICAL_SECTOR_SIZE);
+  const sectorSize = logicalSector && logicalSector.length >= 4 ? view(logicalSector).getUint32(0, true) : 512;
+  if (blockSize < MB || blockSize > 256 * MB || (blockSize & (blockSize - 1)) !== 0 || (sectorSize !== 512 && sectorSize !== 4096)) {
+    problems.push(`unsupported block size ${blockSize} or sector size ${sectorSize}`);
+    report();
+    return null;
+  }
+
+  const table = await reader.read(batRegion.offset, batRegion.length);
+  const entries = Math.floor(table.length / 8);
+  const states = new Uint8Array(entries);
+  const offsets = new Float64Array(entries);
+  for (let i = 0; i < entries; i++) {
+    const low = view(table).getUint32(i * 8, true);
+    const high = view(table).getUint32(i * 8 + 4, true);
+    states[i] = low & 0x7;
+    // Bits 20-63 hold the offset in MB
+    offsets[i] = (high * 4096 + (low >>> 20)) * MB;
+  }
+
+  const source = new VhdxDisk(reader, size, sectorSize, blockSize, states, offsets, hasParent);
+  const diskId = metadata.get(METADATA_DISK_ID);
+  const physicalSector = metadata.get(METADATA_PHYSICAL_SECTOR_SIZE);
+  Object.assign(source.metadata, {
+    diskType: hasParent ? 'Differencing' : 'Dynamic',
+    version: String(header.version),
+    blockSize: String(blockSize),
+    ...(physicalSector && physicalSector.length >= 4 ? { physicalSectorSize: String(view(physicalSector).getUint32(0, true)) } : {}),
+    ...(diskId && diskId.length >= 16 ? { diskId: readGuid(diskId, 0) } : {}),
+    dataWriteId: header.dataWriteGuid,
+  });
+
+  if (hasParent) {
+    const locator = parseParentLocator(metadata.get(METADATA_PARENT_LOCATOR) ?? new Uint8Array(0));
+    const parentPath = locator.relative_path || locator.absolute_win32_path || locator.volume_path;
+    if (!parentPath) {
+      problems.push('differencing disk without a parent path; unallocated blocks read as zeros');
+    } else {
+      source.metadata.parent = parentPath;
+      const parent = await context.parent(parentPath, file.name);
+      const linkage = locator.parent_linkage && normalizeGuid(locator.parent_linkage);
+      if (parent && linkage && parent.metadata.dataWriteId !== linkage) {
+        problems.push(`parent ${parentPath} has data write id ${parent.metadata.dataWriteId}, expected ${linkage}`);
+      }
+      source.parent = parent;
+    }
+  }
+
+  report();
+  return source;
+}
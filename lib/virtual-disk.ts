@@ -0,0 +1,134 @@
+/**
+ * Virtual Disk Containers
+ *
+ * Opens VHD, VHDX, VMDK and QCOW2 disks as DiskImageSources. A selection
+ * may hold a whole chain: differencing disks and snapshots name their
+ * parent (backing) file, and split VMDKs name their extents, and each is
+ * looked up among the selected files by name. The disk shown is the one no
+ * other selected file refers to. A parent that is not a virtual disk
+ * (e.g. a raw QCOW2 backing file) is read as a raw image.
+ */
+
+import { DiskImageSource, RawImageSource, VirtualDiskFormat } from './disk-image';
+import { isQcow2, openQcow2 } from './qcow2-parser';
+import { isVhdFooter, openVhd } from './vhd-parser';
+import { isVhdx, openVhdx } from './vhdx-parser';
+import { isVmdkDescriptor, isVmdkSparse, openVmdk } from './vmdk-parser';
+
+/**
+ * How a format module reaches the rest of the selection
+ */
+export interface VirtualDiskContext {
+  /** A selected file by name; any directories in `path` are ignored */
+  file(path: string): File | undefined;
+  /** Open the parent disk `path` of `child`, or report it missing */
+  parent(path: string, child: string): Promise<DiskImageSource | null>;
+  errors: string[];
+}
+
+export interface VirtualDiskSet {
+  source: DiskImageSource | null;
+  /** Format of the disk shown (of the first disk when none could be) */
+  format: VirtualDiskFormat;
+  errors: string[];
+}
+
+const OPENERS: Record<VirtualDiskFormat, (file: File, context: VirtualDiskContext) => Promise<DiskImageSource | null>> = {
+  vhd: openVhd,
+  vhdx: openVhdx,
+  vmdk: openVmdk,
+  qcow2: openQcow2,
+};
+
+function baseName(path: string): string {
+  return path.split(/[\\/]/).pop()!.toLowerCase();
+}
+
+/**
+ * Recognise a virtual disk file by its signature (VHD by its footer)
+ */
+export async function detectVirtualDisk(file: File): Promise<VirtualDiskFormat | null> {
+  const head = new Uint8Array(await file.slice(0, 512).arrayBuffer());
+  if (isVhdx(head)) return 'vhdx';
+  if (isQcow2(head)) return 'qcow2';
+  if (isVmdkSparse(head) || isVmdkDescriptor(head)) return 'vmdk';
+  const tail = new Uint8Array(await file.slice(Math.max(0, file.size - 512)).arrayBuffer());
+  if (isVhdFooter(tail) || isVhdFooter(head)) return 'vhd';
+  return null;
+}
+
+export async function isVirtualDisk(files: File[]): Promise<boolean> {
+  for (const file of files) {
+    if (await detectVirtualDisk(file)) return true;
+  }
+  return false;
+}
+
+/**
+ * Open the disk at the top of the selected chain
+ */
+export async function openVirtualDisk(files: File[]): Promise<VirtualDiskSet> {
+  const errors: string[] = [];
+  const byName = new Map(files.map(file => [file.name.toLowerCase(), file]));
+  const formats = new Map<File, VirtualDiskFormat>();
+  const descriptors = new Set<File>();
+  for (const file of files) {
+    const format = await detectVirtualDisk(file);
+    if (!format) continue;
+    formats.set(file, format);
+    if (format === 'vmdk' && isVmdkDescriptor(new Uint8Array(await file.slice(0, 64).arrayBuffer()))) descriptors.add(file);
+  }
+
+  // Files another disk uses as its parent or an extent
+  const referenced = new Set<File>();
+  const opened = new Map<File, Promise<DiskImageSource | null>>();
+  const opening = new Set<File>();
+
+  const context: VirtualDiskContext = {
+    errors,
+    file(path) {
+      const file = byName.get(baseName(path));
+      if (file) referenced.add(file);
+      return file;
+    },
+    async parent(path, child) {
+      const file = this.file(path);
+      if (!file) {
+        errors.push(`${child}: parent ${path} was not selected; blocks it holds read as zeros`);
+        return null;
+      }
+      if (!formats.has(file)) return new RawImageSource([file]);
+      if (opening.has(file)) {
+        errors.push(`${child}: parent chain loops back to ${file.name}`);
+        return null;
+      }
+      return open(file);
+    },
+  };
+
+  const open = (file: File): Promise<DiskImageSource | null> => {
+    let source = opened.get(file);
+    if (!source) {
+      opening.add(file);
+      source = OPENERS[formats.get(file)!](file, context).finally(() => opening.delete(file));
+      opened.set(file, source);
+    }
+    return source;
+  };
+
+  // Descriptors first, so the extents they list are never opened on their own
+  const candidates = [...formats.keys()].sort((a, b) => Number(descriptors.has(b)) - Number(descriptors.has(a)));
+  for (const file of candidates) {
+    if (!referenced.has(file)) await open(file);
+  }
+
+  const roots = candidates.filter(file => !referenced.has(file));
+  if (roots.length === 0) {
+    return { source: null, format: formats.get(candidates[0])!, errors: [...errors, 'No disk at the top of the selected chain'] };
+  }
+  if (roots.length > 1) errors.push(`Several unrelated disks were selected (${roots.map(f => f.name).join(', ')}); showing ${roots[0].name}`);
+  const ignored = files.filter(file => !formats.has(file) && !referenced.has(file));
+  if (ignored.length > 0) errors.push(`Not virtual disk files, ignored: ${ignored.map(f => f.name).join(', ')}`);
+
+  return { source: await open(roots[0]), format: formats.get(roots[0])!, errors };
+}
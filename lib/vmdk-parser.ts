@@ -0,0 +1,284 @@
+/**
+ * VMDK (VMware) disk parsing
+ *
+ * A VMDK disk is described by a text descriptor listing its extents in
+ * order ("RW <sectors> SPARSE|FLAT|ZERO "<file>" [offset]") along with the
+ * disk's content id and, for snapshots, the parent it records changes
+ * against. The descriptor is either a small file of its own (split and
+ * flat disks) or embedded in a monolithic sparse extent.
+ *
+ * Hosted sparse extent structure (little-endian):
+ * - Header ("KDMV"): capacity and grain size in sectors, descriptor
+ *   location, grain directory offset and grain tables per directory entry
+ * - The grain directory points at grain tables, whose 32-bit entries give
+ *   the sector of each grain: 0 when unallocated (read from the parent or
+ *   as zeros), 1 for a grain of zeros
+ * - Compressed grains (stream-optimized disks) start with the grain's LBA
+ *   and compressed size, followed by zlib data; the header with the real
+ *   grain directory offset is then repeated as a footer at the end
+ */
+
+import pako from 'pako';
+import { BlobReader, ByteReader, ConcatReader, SliceReader, ZeroReader } from './byte-reader';
+import { DiskImageFormat, DiskImageSource, StoredHashes, VirtualDiskSource } from './disk-image';
+import type { E01Metadata } from './e01-parser';
+import type { VirtualDiskContext } from './virtual-disk';
+
+const SECTOR_SIZE = 512;
+const SPARSE_HEADER_SIZE = 512;
+const GD_AT_END = 0xffffffffffffffffn;
+// Descriptor files are small; anything larger is not one
+const MAX_DESCRIPTOR_SIZE = 64 * 1024;
+
+const FLAG_COMPRESSED = 0x10000;
+
+const GRAIN_UNALLOCATED = 0;
+const GRAIN_ZERO = 1;
+
+// The parent CID of a disk without a parent
+const NO_PARENT_CID = 'ffffffff';
+
+export interface VmdkExtent {
+  access: string;
+  sectors: number;
+  type: string;
+  fileName: string;
+  /** Start within the file, in sectors (flat extents) */
+  offset: number;
+}
+
+export interface VmdkDescriptor {
+  fields: Record<string, string>;
+  extents: VmdkExtent[];
+}
+
+interface SparseHeader {
+  flags: number;
+  capacity: number;
+  grainSize: number;
+  descriptorOffset: number;
+  descriptorSize: number;
+  gtesPerGt: number;
+  gdOffset: bigint;
+}
+
+export function isVmdkSparse(data: Uint8Array): boolean {
+  return data.length >= 4 && String.fromCharCode(...data.subarray(0, 4)) === 'KDMV';
+}
+
+export function isVmdkDescriptor(data: Uint8Array): boolean {
+  return new TextDecoder().decode(data.subarray(0, 64)).startsWith('# Disk DescriptorFile');
+}
+
+/**
+ * Parse descriptor text into its fields (ddb.* included) and extent lines
+ */
+export function parseVmdkDescriptor(text: string): VmdkDescriptor {
+  const fields: Record<string, string> = {};
+  const extents: VmdkExtent[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/\0.*$/s, '').trim();
+    if (!line || line.startsWith('#')) continue;
+    const extent = line.match(/^(RW|RDONLY|NOACCESS)\s+(\d+)\s+(\w+)(?:\s+"([^"]*)"(?:\s+(\d+))?)?/);
+    if (extent) {
+      extents.push({
+        access: extent[1],
+        sectors: Number(extent[2]),
+        type: extent[3].toUpperCase(),
+        fileName: extent[4] ?? '',
+        offset: Number(extent[5] ?? 0),
+      });
+      continue;
+    }
+    const field = line.match(/^([\w.]+)\s*=\s*"?([^"]*)"?$/);
+    if (field) fields[field[1]] = field[2];
+  }
+  return { fields, extents };
+}
+
+function parseSparseHeader(data: Uint8Array): SparseHeader {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return {
+    flags: view.getUint32(8, true),
+    capacity: Number(view.getBigUint64(12, true)),
+    grainSize: Number(view.getBigUint64(20, true)),
+    descriptorOffset: Number(view.getBigUint64(28, true)),
+    descriptorSize: Number(view.getBigUint64(36, true)),
+    gtesPerGt: view.getUint32(44, true),
+    gdOffset: view.getBigUint64(56, true),
+  };
+}
+
+/**
+ * One hosted sparse extent, read grain by grain
+ */
+class SparseExtent extends VirtualDiskSource {
+  constructor(
+    private readonly reader: ByteReader,
+    private readonly header: SparseHeader,
+    private readonly directory: Uint32Array,
+  ) {
+    super('vmdk', header.capacity * SECTOR_SIZE, SECTOR_SIZE, header.grainSize * SECTOR_SIZE);
+  }
+
+  protected async readBlock(grain: number, offset: number, length: number): Promise<Uint8Array> {
+    const mediaOffset = grain * this.blockSize + offset;
+    const tableIndex = Math.floor(grain / this.header.gtesPerGt);
+    const tableSector = tableIndex < this.directory.length ? this.directory[tableIndex] : 0;
+    if (tableSector === 0) return this.readParent(mediaOffset, length);
+
+    const table = await this.cached(`gt:${tableIndex}`, () => this.reader.read(tableSector * SECTOR_SIZE, this.header.gtesPerGt * 4));
+    const entry = (grain % this.header.gtesPerGt) * 4;
+    const sector = entry + 4 <= table.length ? new DataView(table.buffer, table.byteOffset).getUint32(entry, true) : 0;
+    if (sector === GRAIN_UNALLOCATED) return this.readParent(mediaOffset, length);
+    if (sector === GRAIN_ZERO) return new Uint8Array(length);
+
+    if (!(this.header.flags & FLAG_COMPRESSED)) {
+      return this.reader.read(sector * SECTOR_SIZE + offset, length);
+    }
+    const data = await this.cached(`grain:${grain}`, async () => {
+      const marker = await this.reader.read(sector * SECTOR_SIZE, 12);
+      const size = new DataView(marker.buffer, marker.byteOffset).getUint32(8, true);
+      try {
+        return pako.inflate(await this.reader.read(sector * SECTOR_SIZE + 12, size));
+      } catch {
+        throw new Error(`VMDK grain ${grain} could not be decompressed`);
+      }
+    });
+    return data.subarray(offset, offset + length);
+  }
+}
+
+/**
+ * The extents of a disk read back to back
+ */
+class VmdkDisk implements DiskImageSource {
+  readonly format: DiskImageFormat = 'vmdk';
+  readonly sectorSize = SECTOR_SIZE;
+  readonly storedHashes: StoredHashes = {};
+  readonly size: number;
+
+  constructor(private readonly reader: ConcatReader, readonly metadata: E01Metadata) {
+    this.size = reader.size;
+  }
+
+  read(offset: number, length: number): Promise<Uint8Array> {
+    return this.reader.read(offset, length);
+  }
+}
+
+/**
+ * Keep an extent at its place on the disk, padding short or missing ones with zeros
+ */
+function fitExtent(reader: ByteReader | null, size: number): ByteReader {
+  if (!reader) return new ZeroReader(size);
+  if (reader.size >= size) return new SliceReader(reader, 0, size);
+  return new ConcatReader([reader, new ZeroReader(size - reader.size)]);
+}
+
+async function readSparseExtent(reader: ByteReader, fileName: string, errors: string[]): Promise<SparseExtent | null> {
+  let header = parseSparseHeader(await reader.read(0, SPARSE_HEADER_SIZE));
+  if (header.gdOffset === GD_AT_END) {
+    // Stream-optimized: the footer ahead of the end-of-stream marker has the real offsets
+    const footer = await reader.read(reader.size - 2 * SPARSE_HEADER_SIZE, SPARSE_HEADER_SIZE);
+    if (!isVmdkSparse(footer)) {
+      errors.push(`${fileName}: grain directory is at the end of the file but no footer was found`);
+      return null;
+    }
+    header = parseSparseHeader(footer);
+  }
+  if (header.grainSize === 0 || header.gtesPerGt === 0) {
+    errors.push(`${fileName}: invalid sparse extent header`);
+    return null;
+  }
+
+  const grains = Math.ceil(header.capacity / header.grainSize);
+  const tables = Math.ceil(grains / header.gtesPerGt);
+  const data = await reader.read(Number(header.gdOffset) * SECTOR_SIZE, tables * 4);
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const directory = new Uint32Array(tables);
+  for (let i = 0; i < Math.floor(data.length / 4); i++) directory[i] = view.getUint32(i * 4, true);
+  if (data.length < tables * 4) errors.push(`${fileName}: grain directory is truncated`);
+  return new SparseExtent(reader, header, directory);
+}
+
+/**
+ * Open a VMDK from its descriptor file or a monolithic sparse extent; the
+ * other extents and any parent must be among the selected files
+ */
+export async function openVmdk(file: File, context: VirtualDiskContext): Promise<DiskImageSource | null> {
+  const reader = new BlobReader(file);
+  const head = await reader.read(0, SPARSE_HEADER_SIZE);
+  const monolithic = isVmdkSparse(head);
+  let descriptor: VmdkDescriptor;
+
+  if (monolithic) {
+    const header = parseSparseHeader(head);
+    const text = header.descriptorOffset > 0
+      ? new TextDecoder().decode(await reader.read(header.descriptorOffset * SECTOR_SIZE, header.descriptorSize * SECTOR_SIZE))
+      : '';
+    descriptor = parseVmdkDescriptor(text);
+    if (descriptor.extents.length === 0) {
+      // An extent without a descriptor of its own stands for itself
+      descriptor.extents.push({ access: 'RW', sectors: header.capacity, type: 'SPARSE', fileName: file.name, offset: 0 });
+    }
+  } else if (file.size <= MAX_DESCRIPTOR_SIZE) {
+    descriptor = parseVmdkDescriptor(await file.text());
+  } else {
+    context.errors.push(`${file.name}: not a VMDK descriptor or sparse extent`);
+    return null;
+  }
+
+  const { fields } = descriptor;
+  const metadata: E01Metadata = {
+    diskType: fields.createType,
+    cid: fields.CID?.toLowerCase(),
+    adapterType: fields['ddb.adapterType'],
+    geometry: fields['ddb.geometry.cylinders']
+      ? `${fields['ddb.geometry.cylinders']}/${fields['ddb.geometry.heads']}/${fields['ddb.geometry.sectors']}`
+      : undefined,
+    hardwareVersion: fields['ddb.virtualHWVersion'],
+    diskId: fields['ddb.uuid'],
+  };
+  for (const key of Object.keys(metadata)) {
+    if (metadata[key] === undefined) delete metadata[key];
+  }
+
+  let parent: DiskImageSource | null = null;
+  const parentCid = fields.parentCID?.toLowerCase();
+  if (fields.parentFileNameHint && parentCid && parentCid !== NO_PARENT_CID) {
+    metadata.parent = fields.parentFileNameHint;
+    parent = await context.parent(fields.parentFileNameHint, file.name);
+    if (parent && parent.metadata.cid !== parentCid) {
+      context.errors.push(`${file.name}: parent ${fields.parentFileNameHint} has CID ${parent.metadata.cid}, expected ${parentCid}`);
+    }
+  }
+
+  const readers: ByteReader[] = [];
+  let start = 0;
+  for (const extent of descriptor.extents) {
+    const size = extent.sectors * SECTOR_SIZE;
+    // A monolithic extent is its own single extent, whatever it was renamed to
+    const extentFile = monolithic && descriptor.extents.length === 1 ? file : context.file(extent.fileName);
+    let extentReader: ByteReader | null = null;
+
+    if (extent.type === 'ZERO') {
+      extentReader = new ZeroReader(size);
+    } else if (!extentFile) {
+      context.errors.push(`${file.name}: extent ${extent.fileName} was not selected; it reads as zeros`);
+    } else if (extent.type === 'FLAT' || extent.type === 'VMFS') {
+      extentReader = new SliceReader(new BlobReader(extentFile), extent.offset * SECTOR_SIZE, size);
+    } else if (extent.type === 'SPARSE') {
+      const sparse = await readSparseExtent(new BlobReader(extentFile), extentFile.name, context.errors);
+      if (sparse) sparse.parent = parent && new SliceReader(parent, start, size);
+      extentReader = sparse;
+    } else {
+      context.errors.push(`${file.name}: ${extent.type} extents are not supported; ${extent.fileName} reads as zeros`);
+    }
+
+    readers.push(fitExtent(extentReader, size));
+    start += size;
+  }
+
+  return new VmdkDisk(new ConcatReader(readers), metadata);
+}
@@ -0,0 +1,317 @@
+/**
+ * md RAID arrays, LVM2 logical volumes and Windows dynamic volumes
+ *
+ * Partitions (or the whole disk, when it has no partition table) that are
+ * md members or LVM physical volumes are assembled into virtual partitions
+ * read through a segment map onto their members, so their filesystems can
+ * be probed and browsed like any other partition. Arrays are assembled
+ * first, so a PV on an array is found on the array rather than on each
+ * RAID1 member.
+ *
+ * Supported: RAID1 (read from the first active member), RAID0 and linear
+ * arrays of equal-sized members, and LVs made of linear and striped
+ * segments. Missing members and PVs read as zeros.
+ *
+ * Dynamic disks describe their volumes in the LDM database rather than on
+ * each partition, so those are assembled from the database onto the whole
+ * disk: simple, spanned, striped and mirrored volumes (read from the first
+ * plex whose partitions are all on this disk). Partitions on the other
+ * disks of the group read as zeros.
+ */
+
+import type { ByteReader, VolumeSegment } from './byte-reader';
+import { Diagnostic, diagnostic } from './diagnostics';
+import type { LdmComponent, LdmDatabase } from './ldm-parser';
+import { LvmVolumeGroup, parseVolumeGroup, readLvmLabel, readLvmMetadata } from './lvm-parser';
+import { MdMember, readMdSuperblock } from './md-parser';
+import type { AssembledVolume, Partition } from './partition-parser';
+
+export interface AssembledVolumes {
+  volumes: Partition[];
+  diagnostics: Diagnostic[];
+}
+
+function where(partition: Partition): string {
+  return partition.index === 0 ? 'the disk' : `partition ${partition.index}`;
+}
+
+const LEVEL_NAMES: Record<number, string> = { [-1]: 'linear', 0: 'RAID0', 1: 'RAID1', 4: 'RAID4', 5: 'RAID5', 6: 'RAID6', 10: 'RAID10' };
+
+function volumePartition(index: number, type: string, name: string, size: number, sectorSize: number, volume: AssembledVolume): Partition {
+  const sizeLBA = Math.ceil(size / sectorSize);
+  return {
+    index,
+    type,
+    typeCode: volume.kind,
+    startLBA: 0,
+    endLBA: sizeLBA - 1,
+    sizeLBA,
+    sizeBytes: BigInt(size),
+    bootable: false,
+    name,
+    volume,
+  };
+}
+
+/**
+ * Assemble every md array and LVM logical volume found on `candidates`,
+ * numbering them from `firstIndex`
+ */
+export async function assembleVolumes(
+  candidates: Partition[],
+  open: (partition: Partition) => ByteReader,
+  firstIndex: number,
+  sectorSize: number,
+): Promise<AssembledVolumes> {
+  const result: AssembledVolumes = { volumes: [], diagnostics: [] };
+  let nextIndex = firstIndex;
+
+  // md arrays, by array UUID
+  const arrays = new Map<string, { partition: Partition; member: MdMember }[]>();
+  for (const partition of candidates) {
+    const member = await readMdSuperblock(open(partition));
+    if (!member) continue;
+    if (!member.checksumValid) {
+      result.diagnostics.push(diagnostic(
+        'VOLUME_MD_CHECKSUM',
+        `md superblock on ${where(partition)} fails its checksum`,
+        {},
+        { partition: partition.index, superblockOffset: member.superblockOffset },
+      ));
+    }
+    arrays.set(member.arrayUuid, [...(arrays.get(member.arrayUuid) ?? []), { partition, member }]);
+  }
+
+  const arrayMembers = new Set<Partition>();
+  let arrayNumber = 0;
+  for (const [uuid, members] of arrays) {
+    members.forEach(m => arrayMembers.add(m.partition));
+    const array = assembleArray(uuid, members, `md${arrayNumber++}`, nextIndex, sectorSize, result.diagnostics);
+    if (array) {
+      result.volumes.push(array);
+      nextIndex++;
+    }
+  }
+
+  // LVM physical volumes, on partitions that are not array members and on arrays
+  const pvs = new Map<string, Partition>();
+  const groups = new Map<string, LvmVolumeGroup>();
+  for (const partition of [...candidates.filter(p => !arrayMembers.has(p)), ...result.volumes]) {
+    const reader = open(partition);
+    const label = await readLvmLabel(reader);
+    if (!label) continue;
+    pvs.set(label.pvUuid, partition);
+
+    let group: LvmVolumeGroup | null = null;
+    for (const area of label.metadataAreas) {
+      const text = await readLvmMetadata(reader, area);
+      group = text ? parseVolumeGroup(text) : null;
+      if (group) break;
+    }
+    if (!group) {
+      if (label.metadataAreas.length > 0) {
+        result.diagnostics.push(diagnostic('VOLUME_LVM_METADATA', `LVM physical volume on ${where(partition)} has no readable metadata`, {}, { partition: partition.index }));
+      }
+      continue;
+    }
+    const known = groups.get(group.uuid);
+    if (!known || group.seqno > known.seqno) groups.set(group.uuid, group);
+  }
+
+  for (const group of groups.values()) {
+    for (const volume of assembleLogicalVolumes(group, pvs, nextIndex, sectorSize, result.diagnostics)) {
+      result.volumes.push(volume);
+      nextIndex++;
+    }
+  }
+  return result;
+}
+
+function assembleArray(
+  uuid: string,
+  members: { partition: Partition; member: MdMember }[],
+  fallbackName: string,
+  index: number,
+  sectorSize: number,
+  diagnostics: Diagnostic[],
+): Partition | null {
+  const { level, raidDisks, chunkSize, name: arrayName } = members[0].member;
+  const name = arrayName ?? fallbackName;
+  const levelName = LEVEL_NAMES[level] ?? `level ${level}`;
+  const context = { array: name, uuid };
+  // Each slot filled by an active member
+  const slots: ({ partition: Partition; member: MdMember } | undefined)[] = Array.from({ length: raidDisks }, (_, slot) => members.find(m => m.member.role === slot));
+  const present = slots.filter(Boolean).length;
+
+  if (level !== 0 && level !== 1 && level !== -1) {
+    diagnostics.push(diagnostic('VOLUME_MD_UNSUPPORTED', `md array ${name} is ${levelName}; only RAID0, RAID1 and linear arrays can be read`, {}, context));
+    return null;
+  }
+  if (present === 0) {
+    diagnostics.push(diagnostic('VOLUME_MD_MISSING_MEMBER', `md array ${name} (${levelName}) has no active members`, {}, context));
+    return null;
+  }
+  if (present < raidDisks) {
+    diagnostics.push(diagnostic(
+      level === 1 ? 'VOLUME_MD_DEGRADED' : 'VOLUME_MD_MISSING_MEMBER',
+      level === 1
+        ? `md array ${name} (RAID1) is degraded: ${present} of ${raidDisks} members present`
+        : `md array ${name} (${levelName}) is missing ${raidDisks - present} of ${raidDisks} members; their data reads as zeros`,
+      {},
+      { ...context, present, raidDisks },
+    ));
+  }
+
+  const description = `${levelName}, ${present} of ${raidDisks} members`;
+  if (level === 1) {
+    const { partition, member } = slots.find(Boolean)!;
+    const segments: VolumeSegment[] = [{ start: 0, length: member.dataSize, stripeSize: 0, stripes: [{ source: 0, offset: member.dataOffset }] }];
+    return volumePartition(index, 'Linux RAID array', name, member.dataSize, sectorSize, { kind: 'md', layout: description, members: [partition], segments });
+  }
+
+  const available = slots.filter((s): s is { partition: Partition; member: MdMember } => s !== undefined);
+  const memberSize = Math.min(...available.map(s => s.member.dataSize));
+  const memberParts = available.map(s => s.partition);
+  const target = (slot: number) => {
+    const s = slots[slot];
+    return s ? { source: memberParts.indexOf(s.partition), offset: s.member.dataOffset } : null;
+  };
+
+  let segments: VolumeSegment[];
+  let size: number;
+  if (level === 0) {
+    const perMember = chunkSize > 0 ? Math.floor(memberSize / chunkSize) * chunkSize : memberSize;
+    size = perMember * raidDisks;
+    segments = [{ start: 0, length: size, stripeSize: chunkSize, stripes: slots.map((_, slot) => target(slot)) }];
+  } else {
+    size = memberSize * raidDisks;
+    segments = slots.map((_, slot) => ({ start: slot * memberSize, length: memberSize, stripeSize: 0, stripes: [target(slot)] }));
+  }
+  return volumePartition(index, 'Linux RAID array', name, size, sectorSize, { kind: 'md', layout: description, members: memberParts, segments });
+}
+
+function assembleLogicalVolumes(
+  group: LvmVolumeGroup,
+  pvs: Map<string, Partition>,
+  firstIndex: number,
+  sectorSize: number,
+  diagnostics: Diagnostic[],
+): Partition[] {
+  const volumes: Partition[] = [];
+  const members: Partition[] = [];
+  const sourceOf = new Map<string, number | null>();
+  for (const pv of group.physicalVolumes) {
+    const partition = pvs.get(pv.uuid);
+    if (!partition) {
+      diagnostics.push(diagnostic(
+        'VOLUME_LVM_MISSING_PV',
+        `Physical volume ${pv.name} (${pv.uuid}) of volume group ${group.name} was not found; its extents read as zeros`,
+        {},
+        { vg: group.name, pv: pv.uuid },
+      ));
+      sourceOf.set(pv.name, null);
+      continue;
+    }
+    sourceOf.set(pv.name, members.length);
+    members.push(partition);
+  }
+  const peStart = new Map(group.physicalVolumes.map(pv => [pv.name, pv.peStart]));
+
+  for (const lv of group.logicalVolumes) {
+    if (!lv.visible) continue;
+    const unsupported = lv.segments.find(s => s.type !== 'striped' && s.type !== 'linear');
+    if (unsupported) {
+      diagnostics.push(diagnostic(
+        'VOLUME_LVM_UNSUPPORTED',
+        `Logical volume ${group.name}/${lv.name} has a ${unsupported.type} segment; only linear and striped volumes can be read`,
+        {},
+        { vg: group.name, lv: lv.name },
+      ));
+      continue;
+    }
+
+    const segments: VolumeSegment[] = lv.segments.map(segment => ({
+      start: segment.startExtent * group.extentSize,
+      length: segment.extentCount * group.extentSize,
+      stripeSize: segment.stripeSize,
+      stripes: segment.stripes.map(stripe => {
+        const source = sourceOf.get(stripe.pv);
+        return source === undefined || source === null ? null : { source, offset: peStart.get(stripe.pv)! + stripe.startExtent * group.extentSize };
+      }),
+    }));
+    const size = Math.max(0, ...segments.map(s => s.start + s.length));
+    const striped = lv.segments.some(s => s.stripes.length > 1);
+    volumes.push(volumePartition(firstIndex + volumes.length, 'LVM logical volume', `${group.name}/${lv.name}`, size, sectorSize, {
+      kind: 'lvm',
+      layout: striped ? `striped across ${new Set(lv.segments.flatMap(s => s.stripes.map(t => t.pv))).size} PVs` : 'linear',
+      members,
+      segments,
+    }));
+  }
+  return volumes;
+}
+
+/**
+ * The volumes of an LDM database, read from `disk` (the whole media)
+ */
+export function assembleLdmVolumes(database: LdmDatabase, disk: Partition, firstIndex: number, sectorSize: number): AssembledVolumes {
+  const result: AssembledVolumes = { volumes: [], diagnostics: [] };
+  const thisDisk = database.disks.find(d => d.guid === database.diskGuid)?.id;
+  const onThisDisk = (component: LdmComponent) => component.partitions.every(p => p.diskId === thisDisk);
+
+  for (const volume of database.volumes) {
+    const context = { volume: volume.name, diskGroup: database.diskGroup };
+    if (volume.type === 'raid5' || volume.components.some(c => c.layout === 'raid5')) {
+      result.diagnostics.push(diagnostic('VOLUME_LDM_UNSUPPORTED', `Dynamic volume ${volume.name} is RAID-5; only simple, spanned, striped and mirrored volumes can be read`, {}, context));
+      continue;
+    }
+    if (volume.components.length === 0) {
+      result.diagnostics.push(diagnostic('VOLUME_LDM_INVALID', `Dynamic volume ${volume.name} has no components in the LDM database`, {}, context));
+      continue;
+    }
+
+    const plex = volume.components.find(onThisDisk) ?? volume.components[0];
+    const missing = plex.partitions.filter(p => p.diskId !== thisDisk);
+    if (missing.length > 0) {
+      result.diagnostics.push(diagnostic(
+        'VOLUME_LDM_MISSING_DISK',
+        `Dynamic volume ${volume.name} has ${missing.length} of ${plex.partitions.length} partitions on other disks of the group; their data reads as zeros`,
+        {},
+        { ...context, partitions: missing.map(p => p.name).join(',') },
+      ));
+    } else if (volume.components.some(c => !onThisDisk(c))) {
+      result.diagnostics.push(diagnostic(
+        'VOLUME_LDM_MISSING_DISK',
+        `Mirrored volume ${volume.name} has a plex on another disk; it is read from ${plex.name}`,
+        {},
+        context,
+      ));
+    }
+
+    const target = (p: LdmComponent['partitions'][number]) => (p.diskId === thisDisk ? { source: 0, offset: (database.dataStart + p.start) * sectorSize } : null);
+    let segments: VolumeSegment[];
+    let layout: string;
+    if (plex.layout === 'striped' && plex.partitions.length > 1) {
+      segments = [{
+        start: 0,
+        length: volume.size * sectorSize,
+        stripeSize: plex.stripeSize * sectorSize,
+        stripes: plex.partitions.map(target),
+      }];
+      layout = `striped across ${plex.partitions.length} partitions`;
+    } else {
+      segments = plex.partitions.map(p => ({ start: p.volumeOffset * sectorSize, length: p.size * sectorSize, stripeSize: 0, stripes: [target(p)] }));
+      layout = plex.partitions.length > 1 ? `spanned across ${plex.partitions.length} partitions` : 'simple';
+    }
+    if (volume.components.length > 1) layout = `mirrored (${volume.components.length} plexes), ${layout}`;
+
+    const name = volume.driveHint ? `${volume.name} (${volume.driveHint})` : volume.name;
+    result.volumes.push(volumePartition(firstIndex + result.volumes.length, 'Dynamic volume', name, volume.size * sectorSize, sectorSize, {
+      kind: 'ldm',
+      layout,
+      members: [disk],
+      segments,
+    }));
+  }
+  return result;
+}